@@ -7,6 +7,7 @@ export * from './canvas';
 export * from './ai';
 
 // Resolve naming conflicts by explicitly re-exporting
+export type { Dimensions } from './canvas';
 export type { Dimensions as CanvasDimensions } from './canvas';
 export type { Dimensions as AIDimensions } from './ai';
 
@@ -0,0 +1,136 @@
+/// <reference types="node" />
+import { mkdir, readFile, readdir, rename, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { CanvasJSON } from '../src/models/adapters'
+
+/**
+ * Variation as stored and returned by the API (DesignVariation schema in canvas-api.yaml)
+ */
+export interface StoredVariation {
+  id: string
+  parentId: string | null
+  canvasState: CanvasJSON
+  source: 'user_edit' | 'ai_suggestion' | 'ai_trend' | 'ai_creative'
+  prompt?: string
+  confidence?: number
+  timestamp: string
+  metadata: {
+    approvalStatus?: 'pending' | 'approved' | 'rejected'
+    userFeedback?: string
+    aiProcessingTime?: number
+    trendInfluence?: string[]
+  }
+}
+
+/**
+ * Everything the server knows about one canvas; persisted as a single JSON file
+ */
+export interface CanvasRecord {
+  canvas: CanvasJSON
+  /** Incremented on every write for optimistic concurrency control */
+  version: number
+  lastModified: string
+  variations: StoredVariation[]
+  currentVariationId: string | null
+}
+
+/**
+ * File-backed canvas storage: one JSON file per canvas under the data directory
+ * Writes go to a temporary file that is renamed into place, and every
+ * read-modify-write for a canvas runs in order, so version checks cannot race.
+ */
+export class FileCanvasStore {
+  private locks = new Map<string, Promise<unknown>>()
+  private variationIndex: Map<string, string> | null = null
+  private ready: Promise<void> | null = null
+
+  constructor(private directory: string) {}
+
+  /**
+   * Read a canvas record, or null if the canvas does not exist
+   */
+  async get(canvasId: string): Promise<CanvasRecord | null> {
+    await this.init()
+    return this.readRecord(canvasId)
+  }
+
+  /**
+   * Run a read-modify-write against one canvas
+   * The mutator receives the current record (null if missing) and returns the record
+   * to save (or null to leave storage untouched) together with a result for the caller.
+   */
+  async update<T>(
+    canvasId: string,
+    mutate: (record: CanvasRecord | null) => { record: CanvasRecord | null; result: T }
+  ): Promise<T> {
+    await this.init()
+
+    const previous = this.locks.get(canvasId) ?? Promise.resolve()
+    const next = previous.catch(() => undefined).then(async () => {
+      const { record, result } = mutate(await this.readRecord(canvasId))
+      if (record) {
+        await this.writeRecord(canvasId, record)
+      }
+      return result
+    })
+
+    this.locks.set(canvasId, next)
+    try {
+      return await next
+    } finally {
+      if (this.locks.get(canvasId) === next) {
+        this.locks.delete(canvasId)
+      }
+    }
+  }
+
+  /**
+   * Find the canvas a variation belongs to
+   */
+  async findCanvasIdForVariation(variationId: string): Promise<string | null> {
+    await this.init()
+    return this.variationIndex!.get(variationId) ?? null
+  }
+
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await mkdir(this.directory, { recursive: true })
+        this.variationIndex = new Map()
+
+        const files = await readdir(this.directory)
+        for (const file of files.filter(name => name.endsWith('.json'))) {
+          const canvasId = file.slice(0, -'.json'.length)
+          const record = await this.readRecord(canvasId)
+          record?.variations.forEach(variation => this.variationIndex!.set(variation.id, canvasId))
+        }
+      })()
+    }
+    return this.ready
+  }
+
+  private async readRecord(canvasId: string): Promise<CanvasRecord | null> {
+    try {
+      return JSON.parse(await readFile(this.pathFor(canvasId), 'utf8')) as CanvasRecord
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  private async writeRecord(canvasId: string, record: CanvasRecord): Promise<void> {
+    const path = this.pathFor(canvasId)
+    const temporary = `${path}.${process.pid}.tmp`
+    await writeFile(temporary, JSON.stringify(record, null, 2), 'utf8')
+    await rename(temporary, path)
+
+    record.variations.forEach(variation => this.variationIndex!.set(variation.id, canvasId))
+  }
+
+  private pathFor(canvasId: string): string {
+    // Canvas ids are validated as UUIDs before they reach the store
+    return join(this.directory, `${canvasId}.json`)
+  }
+}
@@ -0,0 +1,563 @@
+/// <reference types="node" />
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http'
+import { toCanvasModel, CanvasJSON, LayerJSON } from '../src/models/adapters'
+import { FileCanvasStore, CanvasRecord, StoredVariation } from './FileCanvasStore'
+
+/**
+ * Reference implementation of specs/002-visual-ai-collaboration/contracts/canvas-api.yaml
+ * Serves CanvasService and GestureService from file-backed storage, with
+ * version numbers and 409 CONFLICT responses for optimistic concurrency.
+ */
+
+export interface ReferenceServerOptions {
+  /** Directory holding one JSON file per canvas */
+  dataDir: string
+  /** Route prefix (default /api/v1) */
+  basePath?: string
+  /** Access-Control-Allow-Origin value (default *) */
+  corsOrigin?: string
+}
+
+type ErrorCode = 'VALIDATION_ERROR' | 'NOT_FOUND' | 'CONFLICT' | 'INTERNAL_ERROR'
+
+/**
+ * Error that maps directly onto an HTTP error response
+ */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: ErrorCode,
+    message: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+interface ApiResponse {
+  status: number
+  body?: unknown
+}
+
+type RouteHandler = (context: RouteContext) => Promise<ApiResponse>
+
+interface RouteContext {
+  params: Record<string, string>
+  query: URLSearchParams
+  body: unknown
+}
+
+interface Route {
+  method: string
+  pattern: RegExp
+  keys: string[]
+  handler: RouteHandler
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const VARIATION_SOURCES: StoredVariation['source'][] = ['user_edit', 'ai_suggestion', 'ai_trend', 'ai_creative']
+const GESTURE_TYPES = ['scroll_up', 'scroll_down', 'swipe_left', 'swipe_right']
+const MAX_BODY_BYTES = 10 * 1024 * 1024
+const DEFAULT_DEPTH = 5
+const MAX_DEPTH = 10
+
+/**
+ * Create the reference server; call listen() on the result to start it
+ */
+export function createReferenceServer(options: ReferenceServerOptions): Server {
+  const handler = createRequestHandler(options)
+  return createServer((request, response) => {
+    handler(request, response).catch(error => {
+      console.error('Unhandled request error:', error)
+      if (!response.headersSent) {
+        response.writeHead(500)
+      }
+      response.end()
+    })
+  })
+}
+
+/**
+ * Node request listener for the canvas API, usable with any http.Server
+ */
+export function createRequestHandler(options: ReferenceServerOptions) {
+  const store = new FileCanvasStore(options.dataDir)
+  const basePath = options.basePath ?? '/api/v1'
+  const routes = createRoutes(store)
+
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': options.corsOrigin ?? '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  }
+
+  return async (request: IncomingMessage, response: ServerResponse): Promise<void> => {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, corsHeaders)
+      response.end()
+      return
+    }
+
+    let result: ApiResponse
+    try {
+      if (!url.pathname.startsWith(basePath)) {
+        throw new ApiError(404, 'NOT_FOUND', `No route for ${url.pathname}`)
+      }
+      const path = url.pathname.slice(basePath.length) || '/'
+      const { route, params } = matchRoute(routes, request.method ?? 'GET', path)
+      const body = request.method === 'POST' || request.method === 'PUT'
+        ? await readJsonBody(request)
+        : undefined
+
+      result = await route.handler({ params, query: url.searchParams, body })
+    } catch (error) {
+      result = toErrorResponse(error)
+    }
+
+    if (result.body === undefined) {
+      response.writeHead(result.status, corsHeaders)
+      response.end()
+      return
+    }
+
+    response.writeHead(result.status, { ...corsHeaders, 'Content-Type': 'application/json' })
+    response.end(JSON.stringify(result.body))
+  }
+}
+
+// Routes
+
+function createRoutes(store: FileCanvasStore): Route[] {
+  return [
+    route('GET', '/canvas/:canvasId', async ({ params }) => {
+      const record = await requireCanvas(store, params.canvasId)
+      return ok(200, { canvas: record.canvas, version: record.version, lastModified: record.lastModified })
+    }),
+
+    // Upsert: version 0 creates a canvas that does not exist yet
+    route('PUT', '/canvas/:canvasId', async ({ params, body }) => {
+      const canvasId = requireUuid(params.canvasId, 'canvasId')
+      const request = requireObject(body)
+      const version = requireVersion(request.version)
+      const canvas = validateCanvas(request.canvas)
+      if (canvas.id !== canvasId) {
+        throw new ApiError(400, 'VALIDATION_ERROR', 'Canvas ID mismatch')
+      }
+
+      return store.update(canvasId, record => {
+        if (!record && version !== 0) {
+          throw new ApiError(404, 'NOT_FOUND', 'Canvas not found')
+        }
+        checkVersion(record, version)
+
+        const saved = nextRecord(record, { canvas })
+        return { record: saved, result: ok(200, { canvas: saved.canvas, version: saved.version, lastModified: saved.lastModified }) }
+      })
+    }),
+
+    route('GET', '/canvas/:canvasId/variations', async ({ params, query }) => {
+      const record = await requireCanvas(store, params.canvasId)
+      const depth = query.has('depth') ? Number(query.get('depth')) : DEFAULT_DEPTH
+      if (!Number.isInteger(depth) || depth < 1 || depth > MAX_DEPTH) {
+        throw new ApiError(400, 'VALIDATION_ERROR', `depth must be an integer between 1 and ${MAX_DEPTH}`)
+      }
+
+      const depths = variationDepths(record.variations)
+      const variations = record.variations.filter(variation => depths.get(variation.id)! <= depth)
+      const root = variations.find(variation => variation.parentId === null)
+
+      return ok(200, {
+        canvasId: params.canvasId,
+        variations,
+        currentVariationId: record.currentVariationId,
+        ...(root && { treeStructure: buildTree(root, variations) }),
+        totalCount: record.variations.length,
+        maxDepth: depth
+      })
+    }),
+
+    route('POST', '/canvas/:canvasId/variations', async ({ params, body }) => {
+      const canvasId = requireUuid(params.canvasId, 'canvasId')
+      const request = requireObject(body)
+
+      const parentId = request.parentVariationId ?? null
+      if (parentId !== null && typeof parentId !== 'string') {
+        throw new ApiError(400, 'VALIDATION_ERROR', 'parentVariationId must be a string or null')
+      }
+      if (!VARIATION_SOURCES.includes(request.source as StoredVariation['source'])) {
+        throw new ApiError(400, 'VALIDATION_ERROR', `source must be one of ${VARIATION_SOURCES.join(', ')}`)
+      }
+      if (request.prompt !== undefined && typeof request.prompt !== 'string') {
+        throw new ApiError(400, 'VALIDATION_ERROR', 'prompt must be a string')
+      }
+      const confidence = request.confidence
+      if (confidence !== undefined && (typeof confidence !== 'number' || confidence < 0 || confidence > 1)) {
+        throw new ApiError(400, 'VALIDATION_ERROR', 'confidence must be a number between 0 and 1')
+      }
+      const canvasState = validateCanvas(request.canvasState)
+
+      return store.update(canvasId, record => {
+        if (!record) {
+          throw new ApiError(404, 'NOT_FOUND', 'Canvas not found')
+        }
+        if (parentId !== null && !record.variations.some(variation => variation.id === parentId)) {
+          throw new ApiError(400, 'VALIDATION_ERROR', `Parent variation ${parentId} not found`)
+        }
+
+        const variation: StoredVariation = {
+          id: crypto.randomUUID(),
+          parentId,
+          canvasState,
+          source: request.source as StoredVariation['source'],
+          ...(request.prompt !== undefined && { prompt: request.prompt as string }),
+          ...(confidence !== undefined && { confidence: confidence as number }),
+          timestamp: new Date().toISOString(),
+          metadata: { approvalStatus: 'pending' }
+        }
+        const variations = [...record.variations, variation]
+
+        return {
+          // Recording history does not change the canvas, so the version stays put
+          record: { ...record, variations, currentVariationId: variation.id },
+          result: ok(201, {
+            variationId: variation.id,
+            timestamp: variation.timestamp,
+            parentPath: pathToRoot(variation.id, variations)
+          })
+        }
+      })
+    }),
+
+    route('PUT', '/canvas/:canvasId/layers/:layerId', async ({ params, body }) => {
+      const canvasId = requireUuid(params.canvasId, 'canvasId')
+      const request = requireObject(body)
+      const version = request.version === undefined ? undefined : requireVersion(request.version)
+      const operation = request.operation ?? 'update'
+      if (operation !== 'update' && operation !== 'reorder') {
+        throw new ApiError(400, 'VALIDATION_ERROR', 'operation must be update or reorder')
+      }
+      if (operation === 'reorder' && (!Number.isInteger(request.newIndex) || (request.newIndex as number) < 0)) {
+        throw new ApiError(400, 'VALIDATION_ERROR', 'newIndex must be a non-negative integer for reorder')
+      }
+      const layer = requireObject(request.layer) as unknown as LayerJSON
+      if (layer.id !== params.layerId) {
+        throw new ApiError(400, 'VALIDATION_ERROR', 'Layer ID mismatch')
+      }
+
+      return store.update(canvasId, record => {
+        const current = requireLayer(record, params.layerId)
+        checkVersion(record, version)
+
+        let layers = current.canvas.layers.map(existing =>
+          existing.id === layer.id ? { ...layer, zIndex: layer.zIndex ?? existing.zIndex } : existing
+        )
+        if (operation === 'reorder') {
+          layers = reorderLayers(layers, layer.id, request.newIndex as number)
+        }
+
+        const saved = nextRecord(current, { canvas: validateCanvas({ ...current.canvas, layers }) })
+        return {
+          record: saved,
+          result: ok(200, {
+            layer: saved.canvas.layers.find(existing => existing.id === layer.id),
+            version: saved.version,
+            lastModified: saved.lastModified
+          })
+        }
+      })
+    }),
+
+    route('DELETE', '/canvas/:canvasId/layers/:layerId', async ({ params, query }) => {
+      const canvasId = requireUuid(params.canvasId, 'canvasId')
+      const version = query.has('version') ? requireVersion(Number(query.get('version'))) : undefined
+
+      return store.update(canvasId, record => {
+        const current = requireLayer(record, params.layerId)
+        checkVersion(record, version)
+
+        const layers = current.canvas.layers.filter(layer => layer.id !== params.layerId)
+        const saved = nextRecord(current, { canvas: validateCanvas({ ...current.canvas, layers }) })
+        return { record: saved, result: { status: 204 } }
+      })
+    }),
+
+    route('POST', '/gesture/navigate', async ({ body }) => {
+      const request = requireObject(body)
+      if (typeof request.currentVariationId !== 'string' || !request.currentVariationId) {
+        throw new ApiError(400, 'VALIDATION_ERROR', 'currentVariationId is required')
+      }
+      if (!GESTURE_TYPES.includes(request.gestureType as string)) {
+        throw new ApiError(400, 'VALIDATION_ERROR', `gestureType must be one of ${GESTURE_TYPES.join(', ')}`)
+      }
+      if (typeof request.velocity !== 'number' || Number.isNaN(request.velocity)) {
+        throw new ApiError(400, 'VALIDATION_ERROR', 'velocity must be a number')
+      }
+
+      const variationId = request.currentVariationId
+      const canvasId = await store.findCanvasIdForVariation(variationId)
+      if (!canvasId) {
+        throw new ApiError(404, 'NOT_FOUND', `Variation ${variationId} not found`)
+      }
+
+      return store.update(canvasId, record => {
+        if (!record) {
+          throw new ApiError(404, 'NOT_FOUND', 'Canvas not found')
+        }
+        const navigation = navigate(record.variations, variationId, request.gestureType as string, request.velocity as number)
+        return {
+          record: navigation.targetVariationId === record.currentVariationId
+            ? null
+            : { ...record, currentVariationId: navigation.targetVariationId },
+          result: ok(200, navigation)
+        }
+      })
+    })
+  ]
+}
+
+// Gesture Navigation
+
+/**
+ * Scrolling moves between siblings, swiping right descends to the first child and
+ * swiping left returns to the parent. Thresholds match GestureService.processLocalGesture.
+ */
+function navigate(variations: StoredVariation[], currentId: string, gestureType: string, velocity: number) {
+  const current = variations.find(variation => variation.id === currentId)!
+  const byTime = (a: StoredVariation, b: StoredVariation) => a.timestamp.localeCompare(b.timestamp)
+  const siblings = variations.filter(variation => variation.parentId === current.parentId).sort(byTime)
+  const childrenOf = (id: string) => variations.filter(variation => variation.parentId === id).sort(byTime)
+  const index = siblings.findIndex(variation => variation.id === currentId)
+
+  let target: StoredVariation | undefined
+  switch (gestureType) {
+    case 'scroll_down':
+      target = siblings[index + 1]
+      break
+    case 'scroll_up':
+      target = siblings[index - 1]
+      break
+    case 'swipe_right':
+      target = childrenOf(currentId)[0]
+      break
+    case 'swipe_left':
+      target = variations.find(variation => variation.id === current.parentId)
+      break
+  }
+
+  // At a boundary the gesture is absorbed and nothing animates
+  if (!target) {
+    return { targetVariationId: currentId, transitionType: 'immediate', animationDuration: 0, preloadVariations: [] }
+  }
+
+  const absVelocity = Math.abs(velocity)
+  const transition = absVelocity > 50
+    ? { transitionType: 'momentum', animationDuration: Math.min(800, absVelocity * 10) }
+    : absVelocity > 10
+      ? { transitionType: 'animated', animationDuration: 300 }
+      : { transitionType: 'immediate', animationDuration: 0 }
+
+  const targetSiblings = variations.filter(variation => variation.parentId === target!.parentId).sort(byTime)
+  const targetIndex = targetSiblings.findIndex(variation => variation.id === target!.id)
+  const preloadVariations = [targetSiblings[targetIndex + 1], targetSiblings[targetIndex - 1], childrenOf(target.id)[0]]
+    .filter((variation): variation is StoredVariation => Boolean(variation) && variation.id !== currentId)
+    .map(variation => variation.id)
+
+  return { targetVariationId: target.id, ...transition, preloadVariations }
+}
+
+// Variation Tree
+
+function variationDepths(variations: StoredVariation[]): Map<string, number> {
+  const byId = new Map(variations.map(variation => [variation.id, variation]))
+  const depths = new Map<string, number>()
+
+  const depthOf = (variation: StoredVariation): number => {
+    const known = depths.get(variation.id)
+    if (known !== undefined) return known
+    const parent = variation.parentId ? byId.get(variation.parentId) : undefined
+    const depth = parent ? depthOf(parent) + 1 : 0
+    depths.set(variation.id, depth)
+    return depth
+  }
+
+  variations.forEach(depthOf)
+  return depths
+}
+
+interface VariationTree {
+  nodeId: string
+  children: VariationTree[]
+  metadata: StoredVariation['metadata']
+}
+
+function buildTree(root: StoredVariation, variations: StoredVariation[]): VariationTree {
+  return {
+    nodeId: root.id,
+    children: variations
+      .filter(variation => variation.parentId === root.id)
+      .map(child => buildTree(child, variations)),
+    metadata: root.metadata
+  }
+}
+
+function pathToRoot(variationId: string, variations: StoredVariation[]): string[] {
+  const byId = new Map(variations.map(variation => [variation.id, variation]))
+  const path: string[] = []
+  let current = byId.get(variationId)
+  while (current) {
+    path.unshift(current.id)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path
+}
+
+// Validation
+
+function requireUuid(value: string, name: string): string {
+  if (!UUID_PATTERN.test(value)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', `${name} must be a UUID`)
+  }
+  return value
+}
+
+function requireObject(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Request body must be a JSON object')
+  }
+  return value as Record<string, unknown>
+}
+
+function requireVersion(value: unknown): number {
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'version must be a non-negative integer')
+  }
+  return value as number
+}
+
+async function requireCanvas(store: FileCanvasStore, canvasId: string): Promise<CanvasRecord> {
+  const record = await store.get(requireUuid(canvasId, 'canvasId'))
+  if (!record) {
+    throw new ApiError(404, 'NOT_FOUND', 'Canvas not found')
+  }
+  return record
+}
+
+function requireLayer(record: CanvasRecord | null, layerId: string): CanvasRecord {
+  if (!record) {
+    throw new ApiError(404, 'NOT_FOUND', 'Canvas not found')
+  }
+  if (!record.canvas.layers.some(layer => layer.id === layerId)) {
+    throw new ApiError(404, 'NOT_FOUND', `Layer ${layerId} not found`)
+  }
+  return record
+}
+
+// An omitted version skips the check (layer endpoints only; canvas updates always send one)
+function checkVersion(record: CanvasRecord | null, expected: number | undefined): void {
+  const actual = record?.version ?? 0
+  if (expected !== undefined && expected !== actual) {
+    throw new ApiError(409, 'CONFLICT', 'Conflict - canvas modified by another session', {
+      currentVersion: actual,
+      expectedVersion: expected
+    })
+  }
+}
+
+/**
+ * Validate through the domain model and return it normalised to plain JSON
+ */
+function validateCanvas(value: unknown): CanvasJSON {
+  try {
+    return JSON.parse(JSON.stringify(toCanvasModel(requireObject(value) as unknown as CanvasJSON).toJSON()))
+  } catch (error) {
+    if (error instanceof ApiError) throw error
+    throw new ApiError(400, 'VALIDATION_ERROR', `Invalid canvas: ${(error as Error).message}`)
+  }
+}
+
+function reorderLayers(layers: LayerJSON[], layerId: string, newIndex: number): LayerJSON[] {
+  const ordered = [...layers].sort((a, b) => (a.zIndex ?? 0) - (b.zIndex ?? 0))
+  const from = ordered.findIndex(layer => layer.id === layerId)
+  const [moved] = ordered.splice(from, 1)
+  ordered.splice(Math.min(newIndex, ordered.length), 0, moved)
+  return ordered.map((layer, zIndex) => ({ ...layer, zIndex }))
+}
+
+function nextRecord(record: CanvasRecord | null, changes: Pick<CanvasRecord, 'canvas'>): CanvasRecord {
+  return {
+    variations: [],
+    currentVariationId: null,
+    ...record,
+    ...changes,
+    version: (record?.version ?? 0) + 1,
+    lastModified: new Date().toISOString()
+  }
+}
+
+// HTTP Plumbing
+
+function route(method: string, path: string, handler: RouteHandler): Route {
+  const keys: string[] = []
+  const pattern = new RegExp(`^${path.replace(/:(\w+)/g, (_match, key: string) => {
+    keys.push(key)
+    return '([^/]+)'
+  })}/?$`)
+  return { method, pattern, keys, handler }
+}
+
+function matchRoute(routes: Route[], method: string, path: string): { route: Route; params: Record<string, string> } {
+  let pathMatched = false
+  for (const candidate of routes) {
+    const match = candidate.pattern.exec(path)
+    if (!match) continue
+    pathMatched = true
+    if (candidate.method !== method) continue
+
+    const params: Record<string, string> = {}
+    candidate.keys.forEach((key, index) => {
+      params[key] = decodeURIComponent(match[index + 1])
+    })
+    return { route: candidate, params }
+  }
+
+  if (pathMatched) {
+    throw new ApiError(405, 'VALIDATION_ERROR', `Method ${method} not allowed for ${path}`)
+  }
+  throw new ApiError(404, 'NOT_FOUND', `No route for ${path}`)
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length
+    if (size > MAX_BODY_BYTES) {
+      throw new ApiError(413, 'VALIDATION_ERROR', 'Request body too large')
+    }
+    chunks.push(chunk as Buffer)
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8')
+  if (!text) return undefined
+
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Request body is not valid JSON')
+  }
+}
+
+function ok(status: number, body: unknown): ApiResponse {
+  return { status, body }
+}
+
+function toErrorResponse(error: unknown): ApiResponse {
+  if (error instanceof ApiError) {
+    return { status: error.status, body: { error: { code: error.code, message: error.message, ...error.details } } }
+  }
+  console.error('Canvas API error:', error)
+  return { status: 500, body: { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } } }
+}
@@ -0,0 +1,21 @@
+/// <reference types="node" />
+import { resolve } from 'node:path'
+import { createReferenceServer } from './app'
+
+/**
+ * Starts the canvas API reference server
+ *   PORT             listen port (default 8080; the Vite dev server proxies /api here)
+ *   CANVAS_DATA_DIR  storage directory (default .canvas-data)
+ */
+const port = Number(process.env.PORT ?? 8080)
+const dataDir = resolve(process.env.CANVAS_DATA_DIR ?? '.canvas-data')
+
+const server = createReferenceServer({ dataDir })
+
+server.listen(port, () => {
+  console.log(`Canvas API listening on http://localhost:${port}/api/v1 (data: ${dataDir})`)
+})
+
+const shutdown = () => server.close(() => process.exit(0))
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
@@ -1,20 +1,41 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { CanvasEditor } from './components/CanvasEditor';
 import { DeviceSimulation } from './components/DeviceSimulation';
+import { HistoryComparison } from './components/HistoryComparison';
+import { HistoryGraph } from './components/HistoryGraph';
 import { HistoryManager } from './services/HistoryManager';
+import { createBrowserStorageAdapter } from './services/StorageAdapters';
 import { GestureNavigation } from './services/GestureNavigation';
+import { AIService } from './services/AIService';
+import { LocalAIProvider } from './services/LocalAIProvider';
+import { AIResponseCache } from './services/AIResponseCache';
+import { AICollaborationState } from './models/AICollaborationState';
+import { variationProcessor } from './services/VariationProcessor';
+import { toCanvasModel } from './models/adapters';
 import { DeviceType } from './types';
 import { DEVICE_SPECIFICATIONS } from './data/device-specs';
+import { createStarterCanvas } from './data/starter-canvas';
 import './App.css';
 
 // Initialize services
-const historyManager = new HistoryManager();
+const storage = createBrowserStorageAdapter();
+// History is persisted incrementally and restored on startup
+const historyManager = new HistoryManager(1000, { storage });
+// Offline rule-based provider so the demo works without network or credentials
+const aiService = new AIService(undefined, undefined, new LocalAIProvider({ seed: 42 }));
+// AI settings for this session; settings.cacheResponses turns the response cache on and off
+const aiCollaboration = AICollaborationState.createDefault();
+aiService.configure({
+  cache: new AIResponseCache({ storage, enabled: () => aiCollaboration.settings.cacheResponses })
+});
 
 interface AppState {
   currentDevice: DeviceType;
   isGeneratingAI: boolean;
   aiStatus: string;
   canvasKey: number; // For forcing re-renders
+  showComparison: boolean;
+  showGraph: boolean;
 }
 
 function App() {
@@ -22,9 +43,28 @@ function App() {
     currentDevice: DeviceType.IPHONE_15_PRO,
     isGeneratingAI: false,
     aiStatus: 'Ready',
-    canvasKey: 0
+    canvasKey: 0,
+    showComparison: false,
+    showGraph: false
   });
 
+  // Re-render once the persisted history has been restored
+  useEffect(() => {
+    let cancelled = false;
+    historyManager.ready.then(restored => {
+      if (!cancelled && restored) {
+        setAppState(prev => ({
+          ...prev,
+          aiStatus: `Restored ${historyManager.getState().nodes.size} history nodes`,
+          canvasKey: prev.canvasKey + 1
+        }));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   // Handle device selection
   const handleDeviceChange = useCallback((device: DeviceType) => {
     setAppState(prev => ({ 
@@ -34,24 +74,52 @@ function App() {
     }));
   }, []);
 
-  // Handle AI generation (simplified for demo)
-  const handleGenerateAI = useCallback(() => {
+  // Handle AI generation: VariationRequest -> VariationProcessor -> history
+  const handleGenerateAI = useCallback(async () => {
     setAppState(prev => ({ 
       ...prev, 
       isGeneratingAI: true, 
       aiStatus: 'Generating AI variation...' 
     }));
 
-    // Simulate AI generation
-    setTimeout(() => {
+    try {
+      await historyManager.ready;
+      const parentNode = historyManager.getCurrentNode()
+        ?? historyManager.initialize(createStarterCanvas(appState.currentDevice));
+      const baseCanvas = toCanvasModel(parentNode.canvasState);
+
+      const response = await aiService.generateVariations({
+        baseCanvas,
+        variationType: 'creative',
+        count: 3,
+        seed: historyManager.getState().nodes.size
+      });
+      const result = await variationProcessor.processAIResponse(response, baseCanvas);
+
+      // Variations become sibling nodes under the canvas they were generated from
+      for (const variation of result.processedVariations) {
+        historyManager.addNode(variation.canvasState, parentNode.id, {
+          source: 'ai',
+          description: variation.prompt,
+          confidence: variation.confidence,
+          aiPrompt: variation.prompt
+        });
+      }
+
       setAppState(prev => ({ 
         ...prev, 
         isGeneratingAI: false,
-        aiStatus: 'AI variation ready (simulated)',
+        aiStatus: `${result.processedVariations.length} AI variations ready`,
         canvasKey: prev.canvasKey + 1
       }));
-    }, 2000);
-  }, []);
+    } catch (error) {
+      setAppState(prev => ({ 
+        ...prev, 
+        isGeneratingAI: false,
+        aiStatus: error instanceof Error ? error.message : 'AI generation failed'
+      }));
+    }
+  }, [appState.currentDevice]);
 
   // Handle history navigation
   const handleUndo = useCallback(() => {
@@ -86,9 +154,23 @@ function App() {
     }
   }, []);
 
+  const handleToggleComparison = useCallback(() => {
+    setAppState(prev => ({ ...prev, showComparison: !prev.showComparison }));
+  }, []);
+
+  const handleToggleGraph = useCallback(() => {
+    setAppState(prev => ({ ...prev, showGraph: !prev.showGraph }));
+  }, []);
+
+  // Graph navigation changes the current node; re-render the editor to match
+  const handleGraphNavigate = useCallback(() => {
+    setAppState(prev => ({ ...prev, canvasKey: prev.canvasKey + 1 }));
+  }, []);
+
   // Get current device specs
   const deviceSpec = DEVICE_SPECIFICATIONS[appState.currentDevice];
   const historyState = historyManager.getState();
+  const currentNode = historyManager.getCurrentNode();
 
   return (
     <div className="app">
@@ -112,7 +194,7 @@ function App() {
           <div className="button-group">
             <button 
               onClick={handleUndo}
-              disabled={Object.keys(historyState.nodes).length <= 1}
+              disabled={historyState.nodes.size <= 1}
               className="control-button"
               title="Undo last action"
             >
@@ -126,6 +208,22 @@ function App() {
             >
               ↷ Redo
             </button>
+            <button 
+              onClick={handleToggleComparison}
+              disabled={!currentNode?.parentId}
+              className={`control-button ${appState.showComparison ? 'active' : ''}`}
+              title="Compare the current version with its parent"
+            >
+              ⇄ Compare
+            </button>
+            <button 
+              onClick={handleToggleGraph}
+              disabled={historyState.nodes.size === 0}
+              className={`control-button ${appState.showGraph ? 'active' : ''}`}
+              title="Explore the full history graph"
+            >
+              ⑂ Graph
+            </button>
           </div>
         </div>
 
@@ -152,10 +250,10 @@ function App() {
           <h3>Statistics</h3>
           <div className="stats">
             <span className="stat">
-              Nodes: {Object.keys(historyState.nodes).length}
+              Nodes: {historyState.nodes.size}
             </span>
             <span className="stat">
-              Branches: {Object.keys(historyState.branches).length}
+              Branches: {historyState.branches.size}
             </span>
             <span className="stat">
               Device: {deviceSpec?.name || appState.currentDevice}
@@ -164,6 +262,30 @@ function App() {
         </div>
       </div>
 
+      {/* History Graph Panel */}
+      {appState.showGraph && (
+        <section className="review-panel">
+          <h3>History graph</h3>
+          <HistoryGraph
+            historyManager={historyManager}
+            onNavigate={handleGraphNavigate}
+          />
+        </section>
+      )}
+
+      {/* Comparison Panel: parent vs current node */}
+      {appState.showComparison && currentNode?.parentId && (
+        <section className="review-panel">
+          <h3>Compare with previous version</h3>
+          <HistoryComparison
+            key={`comparison-${appState.canvasKey}`}
+            historyManager={historyManager}
+            nodeAId={currentNode.parentId}
+            nodeBId={currentNode.id}
+          />
+        </section>
+      )}
+
       {/* Main Content */}
       <div className="main-content">
         {/* Device Simulation Panel */}
@@ -3,6 +3,8 @@ import { fabric } from 'fabric';
 import { DeviceType, LayerType } from '../types';
 import { DeviceUtils } from '../data/device-specs';
 import FacebookPost from './FacebookPost';
+import { CollaborationOverlay } from '../services/CollaborationOverlay';
+import type { CollaborationSession } from '../services/CollaborationSession';
 
 // Simplified interfaces for the Canvas Editor
 interface CanvasLayer {
@@ -41,6 +43,8 @@ interface CanvasEditorProps {
   deviceType?: DeviceType;
   onCanvasChange?: (layers: CanvasLayer[]) => void;
   className?: string;
+  /** Shares cursors, selections and object edits with other participants */
+  collaboration?: CollaborationSession;
 }
 
 interface CanvasState {
@@ -57,7 +61,8 @@ interface CanvasState {
 export const CanvasEditor: React.FC<CanvasEditorProps> = ({
   deviceType = DeviceType.IPHONE_15_PRO,
   onCanvasChange = () => {},
-  className = ''
+  className = '',
+  collaboration
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -160,6 +165,14 @@ export const CanvasEditor: React.FC<CanvasEditorProps> = ({
     }
   }, [canvasWidth, canvasHeight]);
 
+  // Live cursors and selection outlines of other participants
+  useEffect(() => {
+    if (!collaboration || !canvasState.fabricCanvas) return;
+
+    const overlay = new CollaborationOverlay(canvasState.fabricCanvas, collaboration);
+    return () => overlay.dispose();
+  }, [collaboration, canvasState.fabricCanvas]);
+
   // Simplified for testing - no event handlers
 
   // Update post text layer
@@ -0,0 +1,184 @@
+import React from 'react'
+import { DesignCanvas, LayerData } from '../models/DesignCanvas'
+import { LayerType } from '../types'
+
+/**
+ * Outline drawn over a layer's bounds, e.g. to highlight a change
+ */
+export interface LayerOutline {
+  layerId: string
+  color: string
+  label?: string
+  /** Bounds to outline when the layer is not on this canvas (e.g. a removed layer) */
+  layer?: LayerData
+}
+
+/**
+ * Props for the CanvasPreview component
+ */
+export interface CanvasPreviewProps {
+  canvas: DesignCanvas
+  scale?: number
+  outlines?: LayerOutline[]
+  className?: string
+  style?: React.CSSProperties
+}
+
+/**
+ * Layer bounds in canvas coordinates; layers are 100×100 scaled by their transform
+ * and backgrounds always cover the full canvas
+ */
+export function getLayerBounds(layer: LayerData, canvas: DesignCanvas): { x: number; y: number; width: number; height: number } {
+  if (layer.type === LayerType.BACKGROUND) {
+    return { x: 0, y: 0, width: canvas.dimensions.width, height: canvas.dimensions.height }
+  }
+
+  return {
+    x: layer.transform.x,
+    y: layer.transform.y,
+    width: 100 * Math.abs(layer.transform.scaleX),
+    height: 100 * Math.abs(layer.transform.scaleY)
+  }
+}
+
+/**
+ * CanvasPreview renders a read-only DOM preview of a DesignCanvas
+ * Lightweight alternative to the Fabric.js editor for thumbnails and comparisons
+ */
+export const CanvasPreview: React.FC<CanvasPreviewProps> = ({
+  canvas,
+  scale = 1,
+  outlines = [],
+  className = '',
+  style
+}) => {
+  const layers = [...canvas.layers]
+    .filter(layer => layer.constraints.visible)
+    .sort((a, b) => a.zIndex - b.zIndex)
+
+  const layerById = new Map(canvas.layers.map(layer => [layer.id, layer]))
+
+  return (
+    <div
+      className={`canvas-preview ${className}`}
+      data-canvas-id={canvas.id}
+      style={{
+        position: 'relative',
+        overflow: 'hidden',
+        width: canvas.dimensions.width * scale,
+        height: canvas.dimensions.height * scale,
+        backgroundColor: '#fff',
+        ...style
+      }}
+    >
+      {layers.map(layer => (
+        <div
+          key={layer.id}
+          data-layer-id={layer.id}
+          style={layerStyles(layer, canvas, scale)}
+        >
+          {renderLayerContent(layer, scale)}
+        </div>
+      ))}
+
+      {outlines.map(outline => {
+        const layer = layerById.get(outline.layerId) ?? outline.layer
+        if (!layer) return null
+        const bounds = getLayerBounds(layer, canvas)
+
+        return (
+          <div
+            key={`outline-${outline.layerId}`}
+            className="layer-outline"
+            data-outline-layer-id={outline.layerId}
+            title={outline.label}
+            style={{
+              position: 'absolute',
+              left: bounds.x * scale,
+              top: bounds.y * scale,
+              width: bounds.width * scale,
+              height: bounds.height * scale,
+              transform: `rotate(${layer.transform.rotation}deg)`,
+              border: `2px dashed ${outline.color}`,
+              boxSizing: 'border-box',
+              pointerEvents: 'auto'
+            }}
+          />
+        )
+      })}
+    </div>
+  )
+}
+
+function layerStyles(layer: LayerData, canvas: DesignCanvas, scale: number): React.CSSProperties {
+  const bounds = getLayerBounds(layer, canvas)
+  const { content, style } = layer
+
+  return {
+    position: 'absolute',
+    left: bounds.x * scale,
+    top: bounds.y * scale,
+    width: bounds.width * scale,
+    height: bounds.height * scale,
+    transform: `rotate(${layer.transform.rotation}deg)`,
+    transformOrigin: 'top left',
+    opacity: layer.transform.opacity,
+    overflow: 'hidden',
+    background: layer.type === LayerType.BACKGROUND
+      ? backgroundFill(layer)
+      : content.fill ?? style.backgroundColor,
+    borderRadius: content.shapeType === 'circle' ? '50%' : (style.borderRadius ?? 0) * scale,
+    border: content.stroke
+      ? `${(content.strokeWidth ?? 1) * scale}px solid ${content.stroke}`
+      : style.borderWidth
+        ? `${style.borderWidth * scale}px solid ${style.borderColor ?? '#000'}`
+        : undefined,
+    boxSizing: 'border-box'
+  }
+}
+
+function backgroundFill(layer: LayerData): string | undefined {
+  const { gradient, color } = layer.content
+  if (gradient && gradient.stops.length > 0) {
+    const stops = gradient.stops.map(stop => `${stop.color} ${stop.position * 100}%`).join(', ')
+    return gradient.type === 'radial' ? `radial-gradient(${stops})` : `linear-gradient(${stops})`
+  }
+  return color
+}
+
+function renderLayerContent(layer: LayerData, scale: number): React.ReactNode {
+  const { content, style } = layer
+
+  if ((layer.type === LayerType.TEXT || layer.type === LayerType.POST_TEXT) && content.text) {
+    return (
+      <span
+        style={{
+          display: 'block',
+          color: style.color ?? content.color ?? '#000',
+          fontSize: (content.fontSize ?? 16) * scale,
+          fontFamily: content.fontFamily,
+          fontWeight: content.fontWeight,
+          fontStyle: content.fontStyle,
+          textAlign: content.textAlign,
+          lineHeight: content.lineHeight
+        }}
+      >
+        {content.text}
+      </span>
+    )
+  }
+
+  if (layer.type === LayerType.IMAGE && (content.imageData || content.imageUrl)) {
+    return (
+      <img
+        src={content.imageData ?? content.imageUrl}
+        alt=""
+        style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+      />
+    )
+  }
+
+  return null
+}
+
+export default CanvasPreview
@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react'
+import { HistoryManager, ChangeDetail, ComparisonResult } from '../services/HistoryManager'
+import { CanvasPreview, LayerOutline } from './CanvasPreview'
+
+export type ComparisonMode = 'side-by-side' | 'overlay' | 'diff'
+
+/**
+ * Props for the HistoryComparison component
+ */
+export interface HistoryComparisonProps {
+  historyManager: HistoryManager
+  /** The earlier or reference node */
+  nodeAId: string
+  /** The node compared against nodeA; the diff view shows nodeB */
+  nodeBId: string
+  mode?: ComparisonMode
+  defaultMode?: ComparisonMode
+  onModeChange?: (mode: ComparisonMode) => void
+  /** Initial opacity of nodeB in the onion-skin overlay, 0-1 */
+  defaultOpacity?: number
+  scale?: number
+  className?: string
+}
+
+const MODE_LABELS: Record<ComparisonMode, string> = {
+  'side-by-side': 'Side by side',
+  overlay: 'Onion skin',
+  diff: 'Diff'
+}
+
+const CHANGE_COLORS: Record<ChangeDetail['type'], string> = {
+  layer_added: '#22C55E',
+  layer_removed: '#EF4444',
+  layer_modified: '#F59E0B',
+  canvas_resized: '#3B82F6',
+  metadata_changed: '#64748B'
+}
+
+/**
+ * HistoryComparison renders two history nodes for review, either side by side,
+ * as an onion-skin overlay, or as a diff with every changed layer outlined
+ */
+export const HistoryComparison: React.FC<HistoryComparisonProps> = ({
+  historyManager,
+  nodeAId,
+  nodeBId,
+  mode,
+  defaultMode = 'side-by-side',
+  onModeChange,
+  defaultOpacity = 0.5,
+  scale = 0.5,
+  className = ''
+}) => {
+  const [internalMode, setInternalMode] = useState<ComparisonMode>(defaultMode)
+  const [opacity, setOpacity] = useState(defaultOpacity)
+  const activeMode = mode ?? internalMode
+
+  const comparison = useMemo<ComparisonResult | Error>(() => {
+    try {
+      return historyManager.compareNodes(nodeAId, nodeBId)
+    } catch (error) {
+      return error instanceof Error ? error : new Error('Comparison failed')
+    }
+  }, [historyManager, nodeAId, nodeBId])
+
+  const handleModeChange = (next: ComparisonMode) => {
+    setInternalMode(next)
+    onModeChange?.(next)
+  }
+
+  if (comparison instanceof Error) {
+    return (
+      <div className={`history-comparison ${className}`} role="alert">
+        {comparison.message}
+      </div>
+    )
+  }
+
+  const { nodeA, nodeB, changes, similarity } = comparison
+  const canvasA = nodeA.canvasState
+  const canvasB = nodeB.canvasState
+  const width = Math.max(canvasA.dimensions.width, canvasB.dimensions.width) * scale
+  const height = Math.max(canvasA.dimensions.height, canvasB.dimensions.height) * scale
+
+  return (
+    <div className={`history-comparison ${className}`} data-mode={activeMode}>
+      <div className="comparison-toolbar flex items-center gap-2 mb-3" role="group" aria-label="Comparison mode">
+        {(Object.keys(MODE_LABELS) as ComparisonMode[]).map(option => (
+          <button
+            key={option}
+            type="button"
+            className={`control-button ${option === activeMode ? 'active' : ''}`}
+            aria-pressed={option === activeMode}
+            onClick={() => handleModeChange(option)}
+          >
+            {MODE_LABELS[option]}
+          </button>
+        ))}
+        <span className="comparison-similarity text-sm text-gray-500">
+          {Math.round(similarity * 100)}% similar
+        </span>
+      </div>
+
+      {activeMode === 'side-by-side' && (
+        <div className="comparison-side-by-side flex gap-4">
+          <figure className="m-0">
+            <CanvasPreview canvas={canvasA} scale={scale} />
+            <figcaption className="text-xs text-center mt-1">{nodeLabel(nodeA.metadata.description, 'A')}</figcaption>
+          </figure>
+          <figure className="m-0">
+            <CanvasPreview canvas={canvasB} scale={scale} />
+            <figcaption className="text-xs text-center mt-1">{nodeLabel(nodeB.metadata.description, 'B')}</figcaption>
+          </figure>
+        </div>
+      )}
+
+      {activeMode === 'overlay' && (
+        <div className="comparison-overlay">
+          <div style={{ position: 'relative', width, height }}>
+            <CanvasPreview canvas={canvasA} scale={scale} style={{ position: 'absolute', top: 0, left: 0 }} />
+            <CanvasPreview
+              canvas={canvasB}
+              scale={scale}
+              className="overlay-top"
+              style={{ position: 'absolute', top: 0, left: 0, opacity }}
+            />
+          </div>
+          <label className="flex items-center gap-2 mt-2 text-sm">
+            <span>{nodeLabel(nodeA.metadata.description, 'A')}</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(opacity * 100)}
+              onChange={(e) => setOpacity(Number(e.target.value) / 100)}
+              aria-label="Overlay opacity"
+            />
+            <span>{nodeLabel(nodeB.metadata.description, 'B')}</span>
+          </label>
+        </div>
+      )}
+
+      {activeMode === 'diff' && (
+        <div className="comparison-diff flex gap-4">
+          <CanvasPreview canvas={canvasB} scale={scale} outlines={diffOutlines(comparison)} />
+          <ChangeList changes={changes} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Lists every ChangeDetail, grouped by layer
+ */
+const ChangeList: React.FC<{ changes: ChangeDetail[] }> = ({ changes }) => {
+  if (changes.length === 0) {
+    return <p className="comparison-no-changes text-sm text-gray-500">No changes</p>
+  }
+
+  return (
+    <ul className="comparison-changes text-xs space-y-1">
+      {changes.map(change => (
+        <li
+          key={`${change.type}:${change.path}`}
+          data-change-type={change.type}
+          style={{ borderLeft: `3px solid ${CHANGE_COLORS[change.type]}`, paddingLeft: 6 }}
+        >
+          {describeChange(change)}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/**
+ * One outline per changed layer; removed layers are outlined where they used to be
+ */
+export function diffOutlines(comparison: ComparisonResult): LayerOutline[] {
+  const byLayer = new Map<string, ChangeDetail[]>()
+  for (const change of comparison.changes) {
+    if (!change.layerId) continue
+    const entries = byLayer.get(change.layerId) ?? []
+    entries.push(change)
+    byLayer.set(change.layerId, entries)
+  }
+
+  return Array.from(byLayer.entries()).map(([layerId, layerChanges]) => {
+    const type = layerChanges[0].type
+    return {
+      layerId,
+      color: CHANGE_COLORS[type],
+      label: layerChanges.map(describeChange).join('\n'),
+      layer: type === 'layer_removed'
+        ? comparison.nodeA.canvasState.layers.find(layer => layer.id === layerId)
+        : undefined
+    }
+  })
+}
+
+function describeChange(change: ChangeDetail): string {
+  switch (change.type) {
+    case 'layer_added':
+      return `Added ${change.path}`
+    case 'layer_removed':
+      return `Removed ${change.path}`
+    default:
+      return `${change.path}: ${formatValue(change.oldValue)} → ${formatValue(change.newValue)}`
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—'
+  if (typeof value === 'number') return String(Math.round(value * 100) / 100)
+  if (typeof value === 'string') return value
+  return JSON.stringify(value)
+}
+
+function nodeLabel(description: string | undefined, fallback: string): string {
+  return description || fallback
+}
+
+export default HistoryComparison
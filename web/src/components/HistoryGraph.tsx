@@ -0,0 +1,397 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { HistoryManager, HistoryNode, HistoryBranch, HistoryMetadata } from '../services/HistoryManager'
+import { CanvasPreview } from './CanvasPreview'
+
+/**
+ * Position of a history node in the graph, in unscaled pixels
+ */
+export interface GraphNodeLayout {
+  id: string
+  x: number
+  y: number
+  depth: number
+  row: number
+  color: string
+  branchId: string | null
+}
+
+export interface GraphEdgeLayout {
+  from: string
+  to: string
+  kind: 'parent' | 'merge'
+}
+
+export interface HistoryGraphLayout {
+  nodes: GraphNodeLayout[]
+  edges: GraphEdgeLayout[]
+  width: number
+  height: number
+}
+
+export interface HistoryGraphLayoutOptions {
+  columnWidth?: number
+  rowHeight?: number
+  padding?: number
+}
+
+/**
+ * Props for the HistoryGraph component
+ */
+export interface HistoryGraphProps {
+  historyManager: HistoryManager
+  /** Scale of the canvas thumbnails relative to the device size */
+  thumbnailScale?: number
+  minZoom?: number
+  maxZoom?: number
+  className?: string
+  /** Called after a node was navigated to */
+  onNavigate?: (node: HistoryNode) => void
+}
+
+const DEFAULT_COLOR = '#94A3B8'
+
+const SOURCE_BADGES: Record<HistoryMetadata['source'], { label: string; color: string }> = {
+  ai: { label: 'AI', color: '#8B5CF6' },
+  user: { label: 'User', color: '#3B82F6' },
+  fork: { label: 'Fork', color: '#F97316' },
+  merge: { label: 'Merge', color: '#10B981' },
+  import: { label: 'Import', color: '#64748B' }
+}
+
+/**
+ * Lay out the history DAG left to right: columns are depths from the root and each
+ * leaf gets its own row, with a parent sharing the row of its first child
+ */
+export function layoutHistoryGraph(
+  nodes: HistoryNode[],
+  branches: HistoryBranch[],
+  options: HistoryGraphLayoutOptions = {}
+): HistoryGraphLayout {
+  const { columnWidth = 120, rowHeight = 140, padding = 24 } = options
+  const byId = new Map(nodes.map(node => [node.id, node]))
+  const placed = new Map<string, { depth: number; row: number }>()
+  let nextRow = 0
+
+  const place = (node: HistoryNode, depth: number): number => {
+    const children = node.children
+      .map(id => byId.get(id))
+      .filter((child): child is HistoryNode => Boolean(child))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+
+    let row = -1
+    for (const child of children) {
+      const childRow = place(child, depth + 1)
+      if (row === -1) row = childRow
+    }
+    if (row === -1) row = nextRow++
+
+    placed.set(node.id, { depth, row })
+    return row
+  }
+
+  // Nodes whose parent was pruned start their own trees
+  nodes
+    .filter(node => !node.parentId || !byId.has(node.parentId))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .forEach(root => place(root, 0))
+
+  const layoutNodes = nodes
+    .filter(node => placed.has(node.id))
+    .map(node => {
+      const { depth, row } = placed.get(node.id)!
+      const branch = findDisplayBranch(node.id, branches)
+      return {
+        id: node.id,
+        x: padding + depth * columnWidth,
+        y: padding + row * rowHeight,
+        depth,
+        row,
+        color: branch?.metadata.color ?? DEFAULT_COLOR,
+        branchId: branch?.id ?? null
+      }
+    })
+
+  const edges: GraphEdgeLayout[] = []
+  for (const node of nodes) {
+    if (node.parentId && placed.has(node.parentId)) {
+      edges.push({ from: node.parentId, to: node.id, kind: 'parent' })
+    }
+    if (node.mergeParentId && placed.has(node.mergeParentId)) {
+      edges.push({ from: node.mergeParentId, to: node.id, kind: 'merge' })
+    }
+  }
+
+  const maxDepth = Math.max(0, ...layoutNodes.map(node => node.depth))
+  return {
+    nodes: layoutNodes,
+    edges,
+    width: padding * 2 + (maxDepth + 1) * columnWidth,
+    height: padding * 2 + Math.max(1, nextRow) * rowHeight
+  }
+}
+
+// A branch's base node also belongs to the branch it forked from; colour it by that one
+function findDisplayBranch(nodeId: string, branches: HistoryBranch[]): HistoryBranch | undefined {
+  const containing = branches.filter(branch => branch.nodes.includes(nodeId))
+  return containing.find(branch => branch.baseNodeId !== nodeId) ?? containing[0]
+}
+
+/**
+ * HistoryGraph shows the full branching history as a zoomable graph with canvas
+ * thumbnails; click a node to navigate to it, right-click for branch, tag and prune actions
+ */
+export const HistoryGraph: React.FC<HistoryGraphProps> = ({
+  historyManager,
+  thumbnailScale = 0.12,
+  minZoom = 0.25,
+  maxZoom = 2,
+  className = '',
+  onNavigate
+}) => {
+  const [revision, setRevision] = useState(0)
+  const [zoom, setZoom] = useState(1)
+  const [menu, setMenu] = useState<{ nodeId: string; x: number; y: number } | null>(null)
+  const [menuInput, setMenuInput] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    return historyManager.addListener(() => setRevision(value => value + 1))
+  }, [historyManager])
+
+  // Recomputed whenever the history changes; the largest device sets the thumbnail cell for every node
+  const { nodes, branches, cell, layout } = useMemo(() => {
+    const nodes = historyManager.getAllNodes()
+    const branches = historyManager.getAllBranches()
+    const cell = {
+      width: Math.max(100, ...nodes.map(node => node.canvasState.dimensions.width)) * thumbnailScale,
+      height: Math.max(100, ...nodes.map(node => node.canvasState.dimensions.height)) * thumbnailScale
+    }
+    const layout = layoutHistoryGraph(nodes, branches, { columnWidth: cell.width + 48, rowHeight: cell.height + 56 })
+    return { nodes, branches, cell, layout }
+  }, [historyManager, revision, thumbnailScale])
+  const currentNodeId = historyManager.getCurrentNode()?.id ?? null
+
+  const nodeById = new Map(nodes.map(node => [node.id, node]))
+  const positions = new Map(layout.nodes.map(node => [node.id, node]))
+
+  const clampZoom = (value: number) => Math.min(maxZoom, Math.max(minZoom, value))
+
+  const handleWheel = (e: React.WheelEvent) => {
+    // Plain wheel scrolls the viewport; pinch and ctrl/cmd + wheel zoom
+    if (!e.ctrlKey && !e.metaKey) return
+    e.preventDefault()
+    setZoom(value => clampZoom(value * (e.deltaY < 0 ? 1.1 : 1 / 1.1)))
+  }
+
+  const runAction = (action: () => void) => {
+    try {
+      action()
+      setError(null)
+      setMenu(null)
+      setMenuInput('')
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Action failed')
+    }
+  }
+
+  const handleNavigate = (nodeId: string) => {
+    setMenu(null)
+    const result = historyManager.navigateToNode(nodeId)
+    if (result.success && result.currentNode) {
+      setError(null)
+      onNavigate?.(result.currentNode)
+    } else {
+      setError(result.error ?? 'Navigation failed')
+    }
+  }
+
+  const handleContextMenu = (e: React.MouseEvent, nodeId: string) => {
+    e.preventDefault()
+    const position = positions.get(nodeId)!
+    setMenu({ nodeId, x: position.x + cell.width, y: position.y })
+    setMenuInput('')
+  }
+
+  return (
+    <div className={`history-graph ${className}`}>
+      <div className="history-graph-toolbar flex items-center gap-2 mb-2">
+        <button type="button" className="control-button" onClick={() => setZoom(value => clampZoom(value / 1.25))} aria-label="Zoom out">−</button>
+        <span className="text-xs" data-testid="zoom-level">{Math.round(zoom * 100)}%</span>
+        <button type="button" className="control-button" onClick={() => setZoom(value => clampZoom(value * 1.25))} aria-label="Zoom in">+</button>
+        <button type="button" className="control-button" onClick={() => setZoom(1)}>Reset</button>
+        <ul className="history-graph-legend flex gap-2 text-xs">
+          {branches.map(branch => (
+            <li key={branch.id} style={{ color: branch.metadata.color ?? DEFAULT_COLOR }}>
+              ● {branch.name}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {error && (
+        <div className="history-graph-error text-sm" role="alert" style={{ color: '#EF4444' }}>
+          {error}
+        </div>
+      )}
+
+      <div
+        className="history-graph-viewport"
+        style={{ overflow: 'auto', position: 'relative' }}
+        onWheel={handleWheel}
+      >
+        <div
+          className="history-graph-content"
+          style={{
+            position: 'relative',
+            width: layout.width,
+            height: layout.height,
+            transform: `scale(${zoom})`,
+            transformOrigin: 'top left'
+          }}
+        >
+          <svg
+            width={layout.width}
+            height={layout.height}
+            style={{ position: 'absolute', top: 0, left: 0, pointerEvents: 'none' }}
+          >
+            {layout.edges.map(edge => {
+              const from = positions.get(edge.from)!
+              const to = positions.get(edge.to)!
+              const x1 = from.x + cell.width
+              const y1 = from.y + cell.height / 2
+              const x2 = to.x
+              const y2 = to.y + cell.height / 2
+              const bend = (x2 - x1) / 2
+              return (
+                <path
+                  key={`${edge.kind}:${edge.from}:${edge.to}`}
+                  data-edge-kind={edge.kind}
+                  d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                  fill="none"
+                  stroke={to.color}
+                  strokeWidth={2}
+                  strokeDasharray={edge.kind === 'merge' ? '6 4' : undefined}
+                />
+              )
+            })}
+          </svg>
+
+          {layout.nodes.map(position => {
+            const node = nodeById.get(position.id)!
+            const badge = SOURCE_BADGES[node.metadata.source]
+            const isCurrent = node.id === currentNodeId
+
+            return (
+              <button
+                key={node.id}
+                type="button"
+                className={`history-graph-node ${isCurrent ? 'current' : ''}`}
+                data-node-id={node.id}
+                aria-current={isCurrent ? 'step' : undefined}
+                title={node.metadata.description ?? node.id}
+                onClick={() => handleNavigate(node.id)}
+                onContextMenu={(e) => handleContextMenu(e, node.id)}
+                style={{
+                  position: 'absolute',
+                  left: position.x,
+                  top: position.y,
+                  padding: 0,
+                  border: `${isCurrent ? 3 : 2}px solid ${position.color}`,
+                  borderRadius: 6,
+                  background: '#fff',
+                  cursor: 'pointer',
+                  boxShadow: isCurrent ? `0 0 0 3px ${position.color}55` : undefined
+                }}
+              >
+                <CanvasPreview canvas={node.canvasState} scale={thumbnailScale} />
+                <span
+                  className="history-graph-badge"
+                  data-source={node.metadata.source}
+                  style={{
+                    position: 'absolute',
+                    top: -8,
+                    right: -8,
+                    padding: '0 4px',
+                    borderRadius: 4,
+                    fontSize: 10,
+                    color: '#fff',
+                    background: badge.color
+                  }}
+                >
+                  {badge.label}
+                </span>
+                {node.metadata.tags && node.metadata.tags.length > 0 && (
+                  <span
+                    className="history-graph-tags"
+                    style={{ position: 'absolute', left: 0, top: '100%', fontSize: 10, whiteSpace: 'nowrap' }}
+                  >
+                    {node.metadata.tags.map(tag => `#${tag}`).join(' ')}
+                  </span>
+                )}
+              </button>
+            )
+          })}
+
+          {menu && (
+            <div
+              className="history-graph-menu"
+              role="menu"
+              onKeyDown={(e) => e.key === 'Escape' && setMenu(null)}
+              style={{
+                position: 'absolute',
+                left: menu.x + 8,
+                top: menu.y,
+                zIndex: 10,
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 4,
+                padding: 8,
+                background: '#fff',
+                border: '1px solid #e2e8f0',
+                borderRadius: 6,
+                boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'
+              }}
+            >
+              <input
+                type="text"
+                value={menuInput}
+                onChange={(e) => setMenuInput(e.target.value)}
+                placeholder="Branch name or tag"
+                aria-label="Branch name or tag"
+                autoFocus
+              />
+              <button
+                type="button"
+                role="menuitem"
+                disabled={!menuInput.trim()}
+                onClick={() => runAction(() => historyManager.createBranch(menuInput.trim(), menu.nodeId))}
+              >
+                Create branch
+              </button>
+              <button
+                type="button"
+                role="menuitem"
+                disabled={!menuInput.trim()}
+                onClick={() => runAction(() => historyManager.tagNode(menu.nodeId, menuInput))}
+              >
+                Add tag
+              </button>
+              <button
+                type="button"
+                role="menuitem"
+                onClick={() => runAction(() => historyManager.pruneNode(menu.nodeId))}
+              >
+                Prune
+              </button>
+              <button type="button" role="menuitem" onClick={() => setMenu(null)}>
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default HistoryGraph
@@ -15,6 +15,11 @@ export {
   SimpleDesignCanvas 
 } from './DesignCanvas'
 
+// History Review Components
+export { CanvasPreview, getLayerBounds } from './CanvasPreview'
+export { HistoryComparison, diffOutlines } from './HistoryComparison'
+export { HistoryGraph, layoutHistoryGraph } from './HistoryGraph'
+
 // Component Props Types
 export type { 
   CanvasProps, 
@@ -30,4 +35,22 @@ export type {
 export type { 
   DesignCanvasProps, 
   SimpleDesignCanvasProps 
-} from './DesignCanvas'
\ No newline at end of file
+} from './DesignCanvas'
+
+export type {
+  CanvasPreviewProps,
+  LayerOutline
+} from './CanvasPreview'
+
+export type {
+  HistoryComparisonProps,
+  ComparisonMode
+} from './HistoryComparison'
+
+export type {
+  HistoryGraphProps,
+  HistoryGraphLayout,
+  HistoryGraphLayoutOptions,
+  GraphNodeLayout,
+  GraphEdgeLayout
+} from './HistoryGraph'
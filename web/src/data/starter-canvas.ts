@@ -0,0 +1,54 @@
+import { DeviceType, CanvasState, LayerType } from '../types'
+import { DesignCanvas } from '../models/DesignCanvas'
+import { LayerData } from '../models/Layer'
+import { DEVICE_SPECIFICATIONS } from './device-specs'
+
+/**
+ * Starter canvas used to seed history before the user has created anything
+ * Mirrors the default post layout in CanvasEditor: background, headline, body copy and an accent shape
+ */
+export function createStarterCanvas(deviceType: DeviceType): DesignCanvas {
+  const { dimensions } = DEVICE_SPECIFICATIONS[deviceType]
+  const createdAt = new Date()
+  const margin = Math.round(dimensions.width * 0.08)
+  const contentScale = (dimensions.width - margin * 2) / 100
+
+  const layer = (id: string, type: LayerType, zIndex: number, data: Pick<LayerData, 'content' | 'transform'> & Partial<LayerData>): LayerData => ({
+    id,
+    type,
+    zIndex,
+    style: {},
+    constraints: { locked: false, visible: true },
+    metadata: { source: 'user', createdAt },
+    ...data
+  })
+
+  return new DesignCanvas({
+    id: crypto.randomUUID(),
+    deviceType,
+    dimensions: { ...dimensions },
+    layers: [
+      layer('background', LayerType.BACKGROUND, 0, {
+        content: { color: '#f8fafc' },
+        transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 }
+      }),
+      layer('headline', LayerType.TEXT, 1, {
+        content: { text: 'Design with AI', fontSize: 32, fontFamily: 'Inter', fontWeight: 'bold' },
+        transform: { x: margin, y: dimensions.height * 0.15, scaleX: contentScale, scaleY: 0.6, rotation: 0, opacity: 1 },
+        style: { color: '#0f172a' }
+      }),
+      layer('body', LayerType.TEXT, 2, {
+        content: { text: 'Swipe through variations generated from your layout.', fontSize: 16, fontFamily: 'Inter' },
+        transform: { x: margin, y: dimensions.height * 0.15 + 80, scaleX: contentScale, scaleY: 0.8, rotation: 0, opacity: 1 },
+        style: { color: '#475569' }
+      }),
+      layer('accent', LayerType.SHAPE, 3, {
+        content: { shapeType: 'rectangle', fill: '#3b82f6' },
+        transform: { x: margin, y: dimensions.height * 0.6, scaleX: contentScale, scaleY: 0.5, rotation: 0, opacity: 1 },
+        style: { borderRadius: 12 }
+      })
+    ],
+    metadata: { createdAt, modifiedAt: createdAt, tags: ['starter'] },
+    state: CanvasState.EDITING
+  })
+}
@@ -1 +1 @@
-// Entity exports for Visual AI Collaboration Canvas\n\nexport * from './types'\nexport * from './entities/DesignCanvas'\nexport * from './entities/Layer'\nexport * from './entities/DesignVariation'\nexport * from './entities/DeviceSimulation'\nexport * from './entities/GestureNavigation'\nexport * from './entities/AICollaborationState'\n
\ No newline at end of file
+// Entity exports for Visual AI Collaboration Canvas\n\nexport * from './types'\nexport * from './models'\n
\ No newline at end of file
@@ -12,6 +12,8 @@ export interface AICollaborationStateData {
     priority: number
     timestamp: Date | string
     status: 'pending' | 'processing' | 'completed' | 'failed'
+    /** Variation the request was made for; unset for requests that outlive navigation */
+    variationId?: string
     result?: any
     error?: string
   }[]
@@ -44,6 +46,8 @@ export class AICollaborationState {
     priority: number
     timestamp: Date
     status: 'pending' | 'processing' | 'completed' | 'failed'
+    /** Variation the request was made for; unset for requests that outlive navigation */
+    variationId?: string
     result?: any
     error?: string
   }[]
@@ -152,6 +156,17 @@ export class AICollaborationState {
     if (metadata.errorMessage && typeof metadata.errorMessage !== 'string') {
       throw new ValidationError('Metadata.errorMessage must be a string', 'metadata')
     }
+
+    // Validate generation progress (optional)
+    if (metadata.generationProgress) {
+      this.validateGenerationProgress(metadata.generationProgress.completed, metadata.generationProgress.total)
+    }
+  }
+
+  private validateGenerationProgress(completed: number, total: number): void {
+    if (!Number.isInteger(total) || total < 0 || !Number.isInteger(completed) || completed < 0 || completed > total) {
+      throw new ValidationError('Generation progress must count between 0 and a non-negative total', 'metadata')
+    }
   }
 
   private validateLastAnalysis(analysis: NonNullable<AICollaborationMetadata['lastAnalysis']>): void {
@@ -312,6 +327,7 @@ export class AICollaborationState {
     type: 'analyze' | 'generate' | 'variations' | 'trends'
     prompt: string
     priority?: number
+    variationId?: string
   }): string {
     const queueItem = {
       id: `ai-request-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -319,7 +335,8 @@ export class AICollaborationState {
       prompt: request.prompt,
       priority: request.priority || 0,
       timestamp: new Date(),
-      status: 'pending' as const
+      status: 'pending' as const,
+      ...(request.variationId && { variationId: request.variationId })
     }
 
     this.processingQueue.push(queueItem)
@@ -330,6 +347,7 @@ export class AICollaborationState {
 
   public updateQueueItem(id: string, updates: {
     status?: 'pending' | 'processing' | 'completed' | 'failed'
+    priority?: number
     result?: any
     error?: string
   }): boolean {
@@ -339,6 +357,10 @@ export class AICollaborationState {
     if (updates.status) item.status = updates.status
     if (updates.result !== undefined) item.result = updates.result
     if (updates.error !== undefined) item.error = updates.error
+    if (updates.priority !== undefined && updates.priority !== item.priority) {
+      item.priority = updates.priority
+      this.sortQueueByPriority()
+    }
 
     return true
   }
@@ -388,6 +410,24 @@ export class AICollaborationState {
     this.metadata.lastAnalysis = undefined
   }
 
+  public setGenerationProgress(completed: number, total: number): void {
+    this.validateGenerationProgress(completed, total)
+    this.metadata.generationProgress = { completed, total }
+  }
+
+  public clearGenerationProgress(): void {
+    this.metadata.generationProgress = undefined
+  }
+
+  /**
+   * Share of the current generation received, from 0 to 1, or null when nothing is generating
+   */
+  public getGenerationProgress(): number | null {
+    const progress = this.metadata.generationProgress
+    if (!progress) return null
+    return progress.total === 0 ? 1 : progress.completed / progress.total
+  }
+
   // Session metrics management
   public recordRequest(responseTime: number, success: boolean): void {
     this.sessionMetrics.totalRequests++
@@ -0,0 +1,619 @@
+import { DesignCanvas } from './DesignCanvas'
+import { LayerData } from './Layer'
+import { toCanvasModel, CanvasJSON, LayerJSON } from './adapters'
+import { LayerType, ValidationError } from '../types'
+
+/**
+ * Lamport timestamp: [counter, replicaId]; the replica id breaks ties
+ */
+export type Stamp = [number, string]
+
+export interface RegisterJSON {
+  value: unknown
+  stamp: Stamp
+}
+
+export interface SequenceElementJSON<T> {
+  id: Stamp
+  /** Element this one was inserted after; null for the start of the sequence */
+  after: Stamp | null
+  value: T
+  deleted: boolean
+}
+
+export interface LayerStateJSON {
+  /** Layer properties keyed by dotted path ("transform.x", "metadata.source"), plus "exists" */
+  registers: Record<string, RegisterJSON>
+  /** Characters of content.text for TEXT and POST_TEXT layers */
+  text?: SequenceElementJSON<string>[]
+}
+
+/**
+ * Serialized CanvasDocument; merging two of these never loses an edit
+ */
+export interface CanvasDocumentJSON {
+  id: string
+  clock: number
+  /** Canvas-level properties: deviceType, dimensions, state and metadata.* */
+  registers: Record<string, RegisterJSON>
+  /** Stacking order as a sequence of layer ids, bottom first */
+  order: SequenceElementJSON<string>[]
+  layers: Record<string, LayerStateJSON>
+}
+
+/** Replica id of the state every document derived from one canvas starts with */
+const ORIGIN_REPLICA = ''
+
+const LAYER_SECTIONS = ['content', 'transform', 'style', 'constraints', 'metadata'] as const
+
+const TEXT_LAYER_TYPES: string[] = [LayerType.TEXT, LayerType.POST_TEXT]
+
+/**
+ * Conflict-free replicated representation of a DesignCanvas
+ *
+ * Layer and canvas properties are last-writer-wins registers ordered by Lamport stamp,
+ * the stacking order is a replicated sequence of layer ids, and the text of TEXT and
+ * POST_TEXT layers is a character sequence, so concurrent typing in the same text box
+ * interleaves instead of overwriting. merge() is commutative, associative and
+ * idempotent: replicas that have seen the same edits produce the same canvas.
+ *
+ * Documents only merge meaningfully when they share an origin: create one with
+ * fromCanvas (which is deterministic for a given canvas) and fork it per replica.
+ */
+export class CanvasDocument {
+  readonly id: string
+  private clock: number
+  private registers: Map<string, RegisterJSON>
+  private order: Sequence<string>
+  private layers: Map<string, LayerState>
+
+  private constructor(json: CanvasDocumentJSON, readonly replicaId: string) {
+    this.id = json.id
+    this.clock = json.clock
+    this.registers = new Map(Object.entries(json.registers).map(([path, register]) => [path, cloneRegister(register)]))
+    this.order = new Sequence(json.order)
+    this.layers = new Map(Object.entries(json.layers).map(([layerId, layer]) => [layerId, {
+      registers: new Map(Object.entries(layer.registers).map(([path, register]) => [path, cloneRegister(register)])),
+      text: layer.text ? new Sequence(layer.text) : null
+    }]))
+  }
+
+  /**
+   * Build the document for a canvas; the same canvas always yields the same origin state
+   */
+  static fromCanvas(canvas: DesignCanvas, replicaId: string): CanvasDocument {
+    const origin = new CanvasDocument({ id: canvas.id, clock: 0, registers: {}, order: [], layers: {} }, ORIGIN_REPLICA)
+    origin.applyCanvas(canvas)
+    return origin.fork(replicaId)
+  }
+
+  static fromJSON(json: CanvasDocumentJSON, replicaId: string): CanvasDocument {
+    return new CanvasDocument(json, replicaId)
+  }
+
+  toJSON(): CanvasDocumentJSON {
+    const layers: Record<string, LayerStateJSON> = {}
+    this.layers.forEach((layer, layerId) => {
+      layers[layerId] = {
+        registers: Object.fromEntries(Array.from(layer.registers.entries()).map(([path, register]) => [path, cloneRegister(register)])),
+        ...(layer.text && { text: layer.text.toJSON() })
+      }
+    })
+
+    return {
+      id: this.id,
+      clock: this.clock,
+      registers: Object.fromEntries(Array.from(this.registers.entries()).map(([path, register]) => [path, cloneRegister(register)])),
+      order: this.order.toJSON(),
+      layers
+    }
+  }
+
+  /**
+   * Copy of this document that records edits under another replica id
+   */
+  fork(replicaId: string): CanvasDocument {
+    return new CanvasDocument(this.toJSON(), replicaId)
+  }
+
+  /**
+   * Incorporate every edit known to another replica
+   */
+  merge(other: CanvasDocument | CanvasDocumentJSON): this {
+    const json = other instanceof CanvasDocument ? other.toJSON() : other
+    if (json.id !== this.id) {
+      throw new ValidationError(`Cannot merge document ${json.id} into ${this.id}`, 'id')
+    }
+
+    this.clock = Math.max(this.clock, json.clock)
+    mergeRegisters(this.registers, json.registers)
+    this.order.merge(json.order)
+
+    for (const [layerId, incoming] of Object.entries(json.layers)) {
+      const layer = this.layers.get(layerId)
+      if (!layer) {
+        this.layers.set(layerId, {
+          registers: new Map(Object.entries(incoming.registers).map(([path, register]) => [path, cloneRegister(register)])),
+          text: incoming.text ? new Sequence(incoming.text) : null
+        })
+        continue
+      }
+
+      mergeRegisters(layer.registers, incoming.registers)
+      if (incoming.text) {
+        layer.text = layer.text ?? new Sequence<string>()
+        layer.text.merge(incoming.text)
+      }
+    }
+
+    return this
+  }
+
+  /**
+   * Convert to a validated DesignCanvas
+   */
+  toCanvas(): DesignCanvas {
+    const canvas = this.canvasFields()
+    const layers = this.layerOrder().map((layerId, zIndex) => ({ ...this.layerFields(layerId), zIndex }))
+    return toCanvasModel({ ...canvas, id: this.id, layers } as CanvasJSON)
+  }
+
+  // Editing
+
+  /**
+   * Record every difference between the document and a canvas as edits
+   * This is how edits made through the immutable canvas API enter the document.
+   */
+  applyCanvas(canvas: DesignCanvas): void {
+    if (canvas.id !== this.id) {
+      throw new ValidationError('Canvas ID mismatch', 'id')
+    }
+
+    const canvasFields = flattenCanvas(canvas)
+    const currentCanvas = flattenRegisters(this.registers)
+    for (const path of new Set([...Object.keys(canvasFields), ...Object.keys(currentCanvas)])) {
+      if (!sameValue(canvasFields[path], currentCanvas[path])) {
+        this.registers.set(path, this.register(canvasFields[path]))
+      }
+    }
+
+    const desired = [...canvas.layers].sort((a, b) => a.zIndex - b.zIndex)
+    const desiredIds = new Set(desired.map(layer => layer.id))
+
+    for (const layerId of this.layerOrder()) {
+      if (!desiredIds.has(layerId)) this.removeLayer(layerId)
+    }
+
+    const present = new Set(this.layerOrder())
+    desired.forEach((layer, index) => {
+      if (present.has(layer.id)) {
+        this.updateLayer(layer)
+      } else {
+        this.addLayer(layer, index)
+      }
+    })
+
+    this.reorder(desired.map(layer => layer.id))
+  }
+
+  /**
+   * Insert a layer at a stacking position (default: on top)
+   */
+  addLayer(layer: LayerData, index: number = this.layerOrder().length): void {
+    const order = this.layerOrder()
+    if (order.includes(layer.id)) {
+      throw new ValidationError(`Layer with ID ${layer.id} already exists`, 'layers')
+    }
+
+    // A re-added layer keeps its registers and text, overwritten with the new values
+    const state: LayerState = { registers: this.layers.get(layer.id)?.registers ?? new Map(), text: this.layers.get(layer.id)?.text ?? null }
+    this.layers.set(layer.id, state)
+    state.registers.set('exists', this.register(true))
+
+    const fields = flattenLayer(layer)
+    const textLayer = TEXT_LAYER_TYPES.includes(layer.type)
+    for (const path of new Set([...Object.keys(fields), ...state.registers.keys()])) {
+      if (path === 'exists' || (textLayer && path === 'content.text')) continue
+      state.registers.set(path, this.register(fields[path]))
+    }
+    if (textLayer) {
+      this.replaceText(state, layer.content.text ?? '')
+    }
+
+    this.placeLayer(layer.id, index > 0 ? order[Math.min(index, order.length) - 1] : null)
+  }
+
+  removeLayer(layerId: string): void {
+    const state = this.requireLayer(layerId)
+    state.registers.set('exists', this.register(false))
+    this.order.visible().filter(element => element.value === layerId).forEach(element => this.order.delete(element.id))
+  }
+
+  /**
+   * Move a layer to a stacking position, 0 being the bottom
+   */
+  moveLayer(layerId: string, index: number): void {
+    this.requireLayer(layerId)
+    const others = this.layerOrder().filter(id => id !== layerId)
+    if (index < 0 || index > others.length) {
+      throw new ValidationError(`Layer index ${index} is out of range`, 'zIndex')
+    }
+    this.placeLayer(layerId, index > 0 ? others[index - 1] : null)
+  }
+
+  /**
+   * Set one layer property by dotted path; undefined removes it
+   */
+  setLayerProperty(layerId: string, path: string, value: unknown): void {
+    const state = this.requireLayer(layerId)
+    const [section, key] = path.split('.')
+    if (path !== 'type' && (!key || !(LAYER_SECTIONS as readonly string[]).includes(section))) {
+      throw new ValidationError(`Property ${path} cannot be modified`, path)
+    }
+
+    if (path === 'content.text' && state.text && this.isTextLayer(state)) {
+      this.replaceText(state, typeof value === 'string' ? value : '')
+      return
+    }
+    state.registers.set(path, this.register(value))
+  }
+
+  insertText(layerId: string, index: number, text: string): void {
+    const sequence = this.requireText(layerId)
+    const visible = sequence.visible()
+    if (index < 0 || index > visible.length) {
+      throw new ValidationError(`Text index ${index} is out of range`, 'content.text')
+    }
+    sequence.insertAfter(index > 0 ? visible[index - 1].id : null, Array.from(text), () => this.next())
+  }
+
+  deleteText(layerId: string, index: number, count: number): void {
+    const sequence = this.requireText(layerId)
+    const visible = sequence.visible()
+    if (index < 0 || count < 0 || index + count > visible.length) {
+      throw new ValidationError(`Text range ${index}+${count} is out of range`, 'content.text')
+    }
+    visible.slice(index, index + count).forEach(element => sequence.delete(element.id))
+  }
+
+  // Internals
+
+  private next(): Stamp {
+    this.clock += 1
+    return [this.clock, this.replicaId]
+  }
+
+  private register(value: unknown): RegisterJSON {
+    return { value: toJSONValue(value), stamp: this.next() }
+  }
+
+  private requireLayer(layerId: string): LayerState {
+    const state = this.layers.get(layerId)
+    if (!state || state.registers.get('exists')?.value !== true) {
+      throw new ValidationError(`Layer ${layerId} not found`, 'layers')
+    }
+    return state
+  }
+
+  private requireText(layerId: string): Sequence<string> {
+    const state = this.requireLayer(layerId)
+    if (!state.text || !this.isTextLayer(state)) {
+      throw new ValidationError(`Layer ${layerId} is not a text layer`, 'type')
+    }
+    return state.text
+  }
+
+  private isTextLayer(state: LayerState): boolean {
+    return TEXT_LAYER_TYPES.includes(state.registers.get('type')?.value as string)
+  }
+
+  private updateLayer(layer: LayerData): void {
+    const state = this.layers.get(layer.id)!
+    const textLayer = TEXT_LAYER_TYPES.includes(layer.type)
+    const fields = flattenLayer(layer)
+    const current = flattenRegisters(state.registers)
+
+    for (const path of new Set([...Object.keys(fields), ...Object.keys(current)])) {
+      if (path === 'exists' || (textLayer && path === 'content.text')) continue
+      if (!sameValue(fields[path], current[path])) {
+        state.registers.set(path, this.register(fields[path]))
+      }
+    }
+
+    if (textLayer) {
+      this.replaceText(state, layer.content.text ?? '')
+    }
+  }
+
+  /**
+   * Turn the current text into the given text with one deletion and one insertion
+   */
+  private replaceText(state: LayerState, text: string): void {
+    state.text = state.text ?? new Sequence<string>()
+    const visible = state.text.visible()
+    const current = visible.map(element => element.value)
+    const next = Array.from(text)
+
+    let prefix = 0
+    while (prefix < current.length && prefix < next.length && current[prefix] === next[prefix]) prefix++
+    let suffix = 0
+    while (suffix < current.length - prefix && suffix < next.length - prefix &&
+      current[current.length - 1 - suffix] === next[next.length - 1 - suffix]) suffix++
+
+    visible.slice(prefix, current.length - suffix).forEach(element => state.text!.delete(element.id))
+    const inserted = next.slice(prefix, next.length - suffix)
+    if (inserted.length > 0) {
+      state.text.insertAfter(prefix > 0 ? visible[prefix - 1].id : null, inserted, () => this.next())
+    }
+  }
+
+  /**
+   * Existing layers from bottom to top; when concurrent moves left a layer in several
+   * places, the most recent placement counts
+   */
+  private layerOrder(): string[] {
+    return this.placements().map(element => element.value)
+  }
+
+  private placements(): SequenceElement<string>[] {
+    const latest = new Map<string, SequenceElement<string>>()
+    for (const element of this.order.visible()) {
+      const current = latest.get(element.value)
+      if (!current || compareStamps(element.id, current.id) > 0) latest.set(element.value, element)
+    }
+
+    return this.order.visible().filter(element =>
+      latest.get(element.value) === element && this.layers.get(element.value)?.registers.get('exists')?.value === true
+    )
+  }
+
+  private placeLayer(layerId: string, afterLayerId: string | null): void {
+    const placements = this.placements()
+    const anchor = afterLayerId ? placements.find(element => element.value === afterLayerId)?.id ?? null : null
+    this.order.visible().filter(element => element.value === layerId).forEach(element => this.order.delete(element.id))
+    this.order.insertAfter(anchor, [layerId], () => this.next())
+  }
+
+  /**
+   * Move the fewest layers needed to reach the desired order: layers on the longest
+   * run that is already in order stay where they are
+   */
+  private reorder(desired: string[]): void {
+    const current = this.layerOrder()
+    const positions = desired.map(layerId => current.indexOf(layerId))
+    const keep = new Set(longestIncreasingSubsequence(positions).map(index => desired[index]))
+
+    desired.forEach((layerId, index) => {
+      if (!keep.has(layerId)) this.placeLayer(layerId, index > 0 ? desired[index - 1] : null)
+    })
+  }
+
+  private canvasFields(): Omit<CanvasJSON, 'id' | 'layers'> {
+    return unflatten(flattenRegisters(this.registers)) as unknown as Omit<CanvasJSON, 'id' | 'layers'>
+  }
+
+  private layerFields(layerId: string): LayerJSON {
+    const state = this.layers.get(layerId)!
+    const fields = flattenRegisters(state.registers)
+    delete fields.exists
+    const layer = unflatten(fields) as Record<string, Record<string, unknown>>
+    for (const section of LAYER_SECTIONS) {
+      layer[section] = layer[section] ?? {}
+    }
+    if (state.text && this.isTextLayer(state)) {
+      layer.content.text = state.text.visible().map(element => element.value).join('')
+    }
+    // Layers otherwise get the conversion time, and replicas must agree on every value
+    layer.metadata.modifiedAt = layer.metadata.modifiedAt ?? layer.metadata.createdAt
+    return { ...layer, id: layerId } as unknown as LayerJSON
+  }
+}
+
+interface LayerState {
+  registers: Map<string, RegisterJSON>
+  text: Sequence<string> | null
+}
+
+type SequenceElement<T> = SequenceElementJSON<T>
+
+/**
+ * Replicated growable array: every element remembers the element it was inserted after,
+ * and elements inserted after the same one are ordered newest first. Deletions leave
+ * tombstones so concurrent inserts keep their anchor.
+ */
+class Sequence<T> {
+  private elements = new Map<string, SequenceElement<T>>()
+
+  constructor(elements: SequenceElementJSON<T>[] = []) {
+    elements.forEach(element => this.elements.set(stampKey(element.id), cloneElement(element)))
+  }
+
+  /**
+   * Live elements in sequence order
+   */
+  visible(): SequenceElement<T>[] {
+    const children = new Map<string, SequenceElement<T>[]>()
+    this.elements.forEach(element => {
+      const parent = element.after ? stampKey(element.after) : ''
+      const siblings = children.get(parent) ?? []
+      siblings.push(element)
+      children.set(parent, siblings)
+    })
+    children.forEach(siblings => siblings.sort((a, b) => compareStamps(b.id, a.id)))
+
+    // Depth-first, iteratively: text typed in one go forms a long chain
+    const ordered: SequenceElement<T>[] = []
+    const stack = [...(children.get('') ?? [])].reverse()
+    while (stack.length > 0) {
+      const element = stack.pop()!
+      if (!element.deleted) ordered.push(element)
+      stack.push(...[...(children.get(stampKey(element.id)) ?? [])].reverse())
+    }
+    return ordered
+  }
+
+  insertAfter(after: Stamp | null, values: T[], stamp: () => Stamp): void {
+    let anchor = after
+    for (const value of values) {
+      const id = stamp()
+      this.elements.set(stampKey(id), { id, after: anchor, value, deleted: false })
+      anchor = id
+    }
+  }
+
+  delete(id: Stamp): void {
+    const element = this.elements.get(stampKey(id))
+    if (element) element.deleted = true
+  }
+
+  merge(elements: SequenceElementJSON<T>[]): void {
+    for (const incoming of elements) {
+      const current = this.elements.get(stampKey(incoming.id))
+      if (current) {
+        current.deleted = current.deleted || incoming.deleted
+      } else {
+        this.elements.set(stampKey(incoming.id), cloneElement(incoming))
+      }
+    }
+  }
+
+  toJSON(): SequenceElementJSON<T>[] {
+    return Array.from(this.elements.values()).map(cloneElement)
+  }
+}
+
+/**
+ * Merge concurrent edits of one canvas without conflicts
+ * Each edited canvas is diffed against base; when two of them change the same property,
+ * the later one in the list wins. Text edits to text layers are merged character by character.
+ */
+export function mergeCanvasEdits(base: DesignCanvas, edits: DesignCanvas[]): DesignCanvas {
+  const origin = CanvasDocument.fromCanvas(base, 'merge')
+  const merged = origin.fork('merge')
+
+  edits.forEach((canvas, index) => {
+    const replica = origin.fork(`edit-${index}`)
+    // Start past every stamp issued so far, so this edit wins property clashes
+    replica.merge({ ...merged.toJSON(), registers: {}, order: [], layers: {} })
+    replica.applyCanvas(canvas)
+    merged.merge(replica)
+  })
+
+  return merged.toCanvas()
+}
+
+// Helpers
+
+function compareStamps(a: Stamp, b: Stamp): number {
+  if (a[0] !== b[0]) return a[0] - b[0]
+  return a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0
+}
+
+function stampKey(stamp: Stamp): string {
+  return `${stamp[0]}@${stamp[1]}`
+}
+
+function cloneRegister(register: RegisterJSON): RegisterJSON {
+  return { value: register.value, stamp: [register.stamp[0], register.stamp[1]] }
+}
+
+function cloneElement<T>(element: SequenceElementJSON<T>): SequenceElementJSON<T> {
+  return {
+    id: [element.id[0], element.id[1]],
+    after: element.after ? [element.after[0], element.after[1]] : null,
+    value: element.value,
+    deleted: element.deleted
+  }
+}
+
+function mergeRegisters(target: Map<string, RegisterJSON>, incoming: Record<string, RegisterJSON>): void {
+  for (const [path, register] of Object.entries(incoming)) {
+    const current = target.get(path)
+    if (!current || compareStamps(register.stamp, current.stamp) > 0) {
+      target.set(path, cloneRegister(register))
+    }
+  }
+}
+
+/**
+ * Registers hold plain JSON: dates become ISO strings and absent values become null
+ */
+function toJSONValue(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value))
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(toJSONValue(a)) === JSON.stringify(toJSONValue(b))
+}
+
+function flattenRegisters(registers: Map<string, RegisterJSON>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {}
+  registers.forEach((register, path) => {
+    if (register.value !== null) fields[path] = register.value
+  })
+  return fields
+}
+
+function flattenCanvas(canvas: DesignCanvas): Record<string, unknown> {
+  const fields: Record<string, unknown> = {
+    deviceType: canvas.deviceType,
+    dimensions: canvas.dimensions,
+    state: canvas.state
+  }
+  Object.entries(canvas.metadata).forEach(([key, value]) => {
+    if (value !== undefined) fields[`metadata.${key}`] = value
+  })
+  return fields
+}
+
+function flattenLayer(layer: LayerData): Record<string, unknown> {
+  const fields: Record<string, unknown> = { type: layer.type }
+  for (const section of LAYER_SECTIONS) {
+    Object.entries(layer[section] as unknown as Record<string, unknown>).forEach(([key, value]) => {
+      if (value !== undefined) fields[`${section}.${key}`] = value
+    })
+  }
+  return fields
+}
+
+function unflatten(fields: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  Object.entries(fields).forEach(([path, value]) => {
+    const [section, key] = path.split('.')
+    if (!key) {
+      result[section] = value
+      return
+    }
+    const target = (result[section] ?? {}) as Record<string, unknown>
+    target[key] = value
+    result[section] = target
+  })
+  return result
+}
+
+/**
+ * Indices (into values) of one longest strictly increasing subsequence; -1 entries never qualify
+ */
+function longestIncreasingSubsequence(values: number[]): number[] {
+  const tails: number[] = []
+  const previous: number[] = new Array(values.length).fill(-1)
+
+  values.forEach((value, index) => {
+    if (value < 0) return
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (values[tails[middle]] < value) low = middle + 1
+      else high = middle
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1
+    tails[low] = index
+  })
+
+  const result: number[] = []
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index >= 0; index = previous[index]) {
+    result.unshift(index)
+  }
+  return result
+}
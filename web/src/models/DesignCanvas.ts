@@ -1,5 +1,9 @@
-import { DeviceType, CanvasState, CanvasDimensions, CanvasMetadata, ValidationError, LayerType } from '../types'
+import { DeviceType, CanvasState, CanvasDimensions, CanvasMetadata, ValidationError } from '../types'
 import { DEVICE_SPECIFICATIONS } from '../data/device-specs'
+import type { LayerData } from './Layer'
+import { addLayer, updateLayer, removeLayer, setCanvasState, LayerPatch } from './mutations'
+
+export type { LayerData }
 
 export interface DesignCanvasData {
   id: string
@@ -10,27 +14,6 @@ export interface DesignCanvasData {
   state: CanvasState
 }
 
-export interface LayerData {
-  id: string
-  type: LayerType
-  zIndex: number
-  content: any
-  transform: {
-    x: number
-    y: number
-    scaleX: number
-    scaleY: number
-    rotation: number
-    opacity: number
-  }
-  style: any
-  constraints: any
-  metadata: {
-    source: string
-    createdAt: Date
-  }
-}
-
 /**
  * DesignCanvas model with comprehensive validation
  * Ensures device accuracy, layer management, and state consistency
@@ -96,11 +79,10 @@ export class DesignCanvas {
   private validateLayerOrdering(layers: LayerData[]): void {
     if (layers.length === 0) return
 
-    // Validate z-index ordering - should be sequential and valid
-    const zIndices = layers.map(layer => layer.zIndex).sort((a, b) => a - b)
-    
-    for (let i = 0; i < zIndices.length; i++) {
-      if (typeof zIndices[i] !== 'number' || zIndices[i] < 0) {
+    // Validate z-index ordering - layers are stored bottom to top
+    for (let i = 0; i < layers.length; i++) {
+      const zIndex = layers[i].zIndex
+      if (typeof zIndex !== 'number' || zIndex < 0 || (i > 0 && zIndex < layers[i - 1].zIndex)) {
         throw new ValidationError('Layers must be ordered with valid z-index values', 'layers')
       }
     }
@@ -136,86 +118,31 @@ export class DesignCanvas {
 
   /**
    * Creates a copy of the canvas with updated state
+   * The methods below delegate to the helpers in ./mutations, which re-validate every change
    */
   public withState(newState: CanvasState): DesignCanvas {
-    return new DesignCanvas({
-      id: this.id,
-      deviceType: this.deviceType,
-      dimensions: this.dimensions,
-      layers: this.layers,
-      metadata: {
-        ...this.metadata,
-        modifiedAt: new Date()
-      },
-      state: newState
-    })
+    return setCanvasState(this, newState)
   }
 
   /**
    * Adds a layer to the canvas with proper z-index
    */
   public addLayer(layerData: Omit<LayerData, 'zIndex'>): DesignCanvas {
-    const maxZIndex = Math.max(...this.layers.map(l => l.zIndex), -1)
-    const newLayer: LayerData = {
-      ...layerData,
-      zIndex: maxZIndex + 1
-    }
-
-    return new DesignCanvas({
-      id: this.id,
-      deviceType: this.deviceType,
-      dimensions: this.dimensions,
-      layers: [...this.layers, newLayer],
-      metadata: {
-        ...this.metadata,
-        modifiedAt: new Date()
-      },
-      state: this.state
-    })
+    return addLayer(this, layerData)
   }
 
   /**
-   * Updates a layer by ID
+   * Updates a layer by ID, merging each section of the patch
    */
-  public updateLayer(layerId: string, updates: Partial<LayerData>): DesignCanvas {
-    const updatedLayers = this.layers.map(layer => 
-      layer.id === layerId ? { ...layer, ...updates } : layer
-    )
-
-    return new DesignCanvas({
-      id: this.id,
-      deviceType: this.deviceType,
-      dimensions: this.dimensions,
-      layers: updatedLayers,
-      metadata: {
-        ...this.metadata,
-        modifiedAt: new Date()
-      },
-      state: this.state
-    })
+  public updateLayer(layerId: string, updates: LayerPatch): DesignCanvas {
+    return updateLayer(this, layerId, updates)
   }
 
   /**
    * Removes a layer by ID
    */
   public removeLayer(layerId: string): DesignCanvas {
-    const filteredLayers = this.layers.filter(layer => layer.id !== layerId)
-    
-    if (filteredLayers.length === 0) {
-      throw new ValidationError('Canvas must contain at least one layer to be valid', 'layers')
-    }
-
-    return new DesignCanvas({
-      id: this.id,
-      deviceType: this.deviceType,
-      dimensions: this.dimensions,
-      layers: filteredLayers,
-      metadata: {
-        ...this.metadata,
-        modifiedAt: new Date()
-      },
-      state: this.state
-    })
+    return removeLayer(this, layerId)
   }
 
   /**
@@ -1,5 +1,6 @@
 import { VariationSource, ValidationError } from '../types'
 import { DesignCanvas } from './DesignCanvas'
+import { calculateSimilarity, SimilarityWeights } from './diff'
 
 export interface VariationMetadata {
   tags: string[]
@@ -193,29 +194,8 @@ export class DesignVariation {
   /**
    * Calculates similarity to another variation (0-1 scale)
    */
-  public calculateSimilarity(other: DesignVariation): number {
-    // Simplified similarity calculation based on various factors
-    let similarity = 0
-
-    // Source similarity
-    if (this.source === other.source) {
-      similarity += 0.2
-    }
-
-    // Confidence similarity
-    const confidenceDiff = Math.abs(this.confidence - other.confidence)
-    similarity += (1 - confidenceDiff) * 0.3
-
-    // Canvas state similarity (simplified)
-    if (this.canvasState.deviceType === other.canvasState.deviceType) {
-      similarity += 0.2
-    }
-
-    if (this.canvasState.layers.length === other.canvasState.layers.length) {
-      similarity += 0.3
-    }
-
-    return Math.min(1, similarity)
+  public calculateSimilarity(other: DesignVariation, weights?: SimilarityWeights): number {
+    return calculateSimilarity(this.canvasState, other.canvasState, weights)
   }
 
   /**
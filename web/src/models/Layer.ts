@@ -1,51 +1,19 @@
-import { LayerType, Transform, ValidationError } from '../types'
-
-export interface LayerContent {
-  text?: string
-  imageUrl?: string
-  imageData?: string
-  color?: string
-  gradient?: any
-  childLayerIds?: string[]
-  [key: string]: any
-}
-
-export interface LayerStyle {
-  fontSize?: number
-  fontFamily?: string
-  color?: string
-  backgroundColor?: string
-  borderWidth?: number
-  borderColor?: string
-  borderRadius?: number
-  shadowColor?: string
-  shadowOffset?: { x: number; y: number }
-  shadowBlur?: number
-  [key: string]: any
-}
-
-export interface LayerConstraints {
-  pinTop?: boolean
-  pinBottom?: boolean
-  pinLeft?: boolean
-  pinRight?: boolean
-  centerX?: boolean
-  centerY?: boolean
-  maintainAspectRatio?: boolean
-  [key: string]: any
-}
-
-export interface LayerMetadata {
-  source: 'user' | 'ai' | 'import'
-  createdAt: Date
-  modifiedAt?: Date
-  tags?: string[]
-  notes?: string
-}
+import {
+  LayerType,
+  Transform,
+  LayerContent,
+  LayerStyle,
+  LayerConstraints,
+  LayerMetadata,
+  ValidationError
+} from '../types'
+
+export type { LayerContent, LayerStyle, LayerConstraints, LayerMetadata }
 
 export interface LayerData {
   id: string
   type: LayerType
+  zIndex: number
   content: LayerContent
   transform: Transform
   style: LayerStyle
@@ -55,11 +23,12 @@ export interface LayerData {
 
 /**
  * Layer model with type-specific validation and constraints
- * Supports TEXT, IMAGE, BACKGROUND, SHAPE, and GROUP layer types
+ * Supports TEXT, POST_TEXT, IMAGE, BACKGROUND, SHAPE, and GROUP layer types
  */
 export class Layer {
   public readonly id: string
   public readonly type: LayerType
+  public readonly zIndex: number
   public readonly content: LayerContent
   public readonly transform: Transform
   public readonly style: LayerStyle
@@ -73,6 +42,7 @@ export class Layer {
     
     this.id = data.id
     this.type = data.type
+    this.zIndex = data.zIndex
     this.content = data.content
     this.transform = data.transform
     this.style = data.style
@@ -94,6 +64,11 @@ export class Layer {
       throw new ValidationError('Layer type must be a supported layer type', 'type')
     }
 
+    // Validate stacking order
+    if (typeof data.zIndex !== 'number' || data.zIndex < 0) {
+      throw new ValidationError('Layer zIndex must be a non-negative number', 'zIndex')
+    }
+
     // Validate constraints exist
     if (!data.constraints || typeof data.constraints !== 'object') {
       throw new ValidationError('Layer constraints are required and must be an object', 'constraints')
@@ -108,6 +83,7 @@ export class Layer {
   private validateLayerContent(data: LayerData): void {
     switch (data.type) {
       case LayerType.TEXT:
+      case LayerType.POST_TEXT:
         this.validateTextContent(data.content)
         break
       case LayerType.IMAGE:
@@ -210,6 +186,7 @@ export class Layer {
     return new Layer({
       id: this.id,
       type: this.type,
+      zIndex: this.zIndex,
       content: this.content,
       transform: newTransform,
       style: this.style,
@@ -231,6 +208,7 @@ export class Layer {
     const tempData: LayerData = {
       id: this.id,
       type: this.type,
+      zIndex: this.zIndex,
       content: newContent,
       transform: this.transform,
       style: this.style,
@@ -259,6 +237,7 @@ export class Layer {
     return new Layer({
       id: this.id,
       type: this.type,
+      zIndex: this.zIndex,
       content: this.content,
       transform: this.transform,
       style: newStyle,
@@ -274,7 +253,7 @@ export class Layer {
    * Checks if layer is visible (opacity > 0 and within reasonable bounds)
    */
   public isVisible(): boolean {
-    return this.transform.opacity > 0
+    return this.constraints.visible !== false && this.transform.opacity > 0
   }
 
   /**
@@ -298,6 +277,7 @@ export class Layer {
     return {
       id: this.id,
       type: this.type,
+      zIndex: this.zIndex,
       content: this.content,
       transform: this.transform,
       style: this.style,
@@ -316,14 +296,15 @@ export class Layer {
   /**
    * Creates a new layer with default values for the specified type
    */
-  public static createDefault(type: LayerType, id: string): Layer {
+  public static createDefault(type: LayerType, id: string, zIndex: number = 0): Layer {
     const defaultContent: LayerContent = {}
     const defaultStyle: LayerStyle = {}
     
     switch (type) {
       case LayerType.TEXT:
+      case LayerType.POST_TEXT:
         defaultContent.text = 'New Text Layer'
-        defaultStyle.fontSize = 16
+        defaultContent.fontSize = 16
         defaultStyle.color = '#000000'
         break
       case LayerType.IMAGE:
@@ -333,7 +314,8 @@ export class Layer {
         defaultContent.color = '#ffffff'
         break
       case LayerType.SHAPE:
-        defaultStyle.color = '#000000'
+        defaultContent.shapeType = 'rectangle'
+        defaultContent.fill = '#000000'
         break
       case LayerType.GROUP:
         defaultContent.childLayerIds = []
@@ -343,6 +325,7 @@ export class Layer {
     return new Layer({
       id,
       type,
+      zIndex,
       content: defaultContent,
       transform: {
         x: 0,
@@ -354,12 +337,8 @@ export class Layer {
       },
       style: defaultStyle,
       constraints: {
-        pinTop: false,
-        pinBottom: false,
-        pinLeft: false,
-        pinRight: false,
-        centerX: false,
-        centerY: false,
+        locked: false,
+        visible: true,
         maintainAspectRatio: true
       },
       metadata: {
@@ -0,0 +1,224 @@
+import {
+  CanvasDimensions,
+  CanvasMetadata,
+  CanvasState,
+  DeviceType,
+  LayerMetadata,
+  ValidationError,
+  VariationSource
+} from '../types'
+import { DesignCanvas } from './DesignCanvas'
+import { DesignVariation, VariationMetadata } from './DesignVariation'
+import { Layer, LayerData } from './Layer'
+
+/**
+ * Adapters from every canvas/variation representation in the app
+ * (immutable models, API/storage JSON) to the domain model
+ */
+
+type DateLike = Date | string
+
+/**
+ * Layer shape as received over the wire: dates may be strings and
+ * history API payloads carry no zIndex (array order is the stacking order)
+ */
+export interface LayerJSON extends Omit<LayerData, 'zIndex' | 'type' | 'metadata'> {
+  type: LayerData['type'] | string
+  zIndex?: number
+  metadata: Omit<LayerMetadata, 'createdAt' | 'modifiedAt'> & {
+    createdAt: DateLike
+    modifiedAt?: DateLike
+  }
+}
+
+export interface CanvasJSON {
+  id: string
+  deviceType: DeviceType | string
+  dimensions: CanvasDimensions
+  layers: LayerJSON[]
+  metadata: Omit<CanvasMetadata, 'createdAt' | 'modifiedAt'> & {
+    createdAt: DateLike
+    modifiedAt: DateLike
+  }
+  state: CanvasState | string
+}
+
+/**
+ * Variation node payload returned by the canvas history API
+ */
+export interface VariationNodeJSON {
+  id: string
+  parentId: string | null
+  childIds?: string[]
+  canvasData: CanvasJSON
+  metadata: {
+    createdAt: DateLike
+    source: 'user' | 'ai'
+    aiMetadata?: { confidence: number; prompt: string; model: string }
+  }
+}
+
+/**
+ * Variation payload defined by the DesignVariation schema in canvas-api.yaml
+ */
+export interface VariationJSON {
+  id: string
+  parentId: string | null
+  canvasState: CanvasJSON
+  source: VariationSource | string
+  prompt?: string
+  confidence?: number
+  timestamp: DateLike
+  metadata?: {
+    approvalStatus?: VariationMetadata['approvalStatus']
+    userFeedback?: string
+    aiProcessingTime?: number
+    trendInfluence?: string[]
+  }
+}
+
+export type CanvasInput = DesignCanvas | CanvasJSON
+
+export type VariationInput = DesignVariation | VariationNodeJSON | VariationJSON | CanvasInput
+
+export interface VariationDefaults {
+  parentId?: string | null
+  prompt?: string
+  source?: VariationSource
+  confidence?: number
+}
+
+/**
+ * Normalises any canvas representation into the immutable DesignCanvas model
+ * Throws ValidationError when the data cannot form a valid canvas
+ */
+export function toCanvasModel(input: CanvasInput): DesignCanvas {
+  if (input instanceof DesignCanvas) {
+    return input
+  }
+
+  if (!input || typeof input !== 'object' || !Array.isArray(input.layers) || !input.metadata) {
+    throw new ValidationError('Canvas data must include layers and metadata', 'canvas')
+  }
+
+  const layers = input.layers
+    .map((layer, index) => ({ layer, zIndex: layer.zIndex ?? index }))
+    .sort((a, b) => a.zIndex - b.zIndex)
+    .map(({ layer, zIndex }) => toLayerData(layer, zIndex))
+
+  return new DesignCanvas({
+    id: input.id,
+    deviceType: input.deviceType as DeviceType,
+    dimensions: { ...input.dimensions },
+    layers,
+    metadata: {
+      ...input.metadata,
+      tags: [...(input.metadata.tags ?? [])],
+      createdAt: toDate(input.metadata.createdAt),
+      modifiedAt: toDate(input.metadata.modifiedAt)
+    },
+    state: input.state as CanvasState
+  })
+}
+
+/**
+ * Validates a wire-format layer and converts its dates
+ * Throws ValidationError when the layer is invalid
+ */
+export function toLayerData(layer: LayerJSON, zIndex: number = layer.zIndex ?? 0): LayerData {
+  return Layer.fromJSON({
+    ...layer,
+    type: layer.type as LayerData['type'],
+    zIndex,
+    metadata: {
+      ...layer.metadata,
+      createdAt: toDate(layer.metadata.createdAt),
+      modifiedAt: layer.metadata.modifiedAt ? toDate(layer.metadata.modifiedAt) : undefined
+    }
+  }).toJSON()
+}
+
+/**
+ * Normalises any variation representation into the DesignVariation model
+ * Bare canvases are wrapped as variations using the supplied defaults
+ */
+export function toVariationModel(input: VariationInput, defaults: VariationDefaults = {}): DesignVariation {
+  if (input instanceof DesignVariation) {
+    return input
+  }
+
+  if (isVariationNodeJSON(input)) {
+    const ai = input.metadata.aiMetadata
+    return DesignVariation.fromJSON({
+      id: input.id,
+      parentId: input.parentId,
+      childIds: input.childIds ? [...input.childIds] : [],
+      canvasState: toCanvasModel(input.canvasData),
+      source: input.metadata.source === 'ai'
+        ? defaults.source ?? VariationSource.AI_SUGGESTION
+        : VariationSource.USER_EDIT,
+      prompt: ai?.prompt ?? defaults.prompt ?? 'User edit',
+      confidence: ai?.confidence ?? defaults.confidence ?? 1,
+      timestamp: toDate(input.metadata.createdAt),
+      metadata: createVariationMetadata(ai && { model: ai.model })
+    })
+  }
+
+  if (isVariationJSON(input)) {
+    const userEdit = input.source === VariationSource.USER_EDIT
+    return new DesignVariation({
+      id: input.id,
+      parentId: input.parentId,
+      canvasState: toCanvasModel(input.canvasState),
+      source: input.source as VariationSource,
+      prompt: input.prompt || defaults.prompt || (userEdit ? 'User edit' : 'AI generated variation'),
+      confidence: input.confidence ?? defaults.confidence ?? (userEdit ? 1 : 0.5),
+      timestamp: toDate(input.timestamp),
+      metadata: {
+        ...createVariationMetadata(),
+        ...(input.metadata?.approvalStatus && { approvalStatus: input.metadata.approvalStatus }),
+        ...(input.metadata?.userFeedback && { notes: input.metadata.userFeedback }),
+        ...(input.metadata?.trendInfluence && { tags: [...input.metadata.trendInfluence] })
+      }
+    })
+  }
+
+  const canvas = toCanvasModel(input)
+  return new DesignVariation({
+    id: crypto.randomUUID(),
+    parentId: defaults.parentId ?? null,
+    canvasState: canvas,
+    source: defaults.source ?? VariationSource.AI_SUGGESTION,
+    prompt: defaults.prompt ?? 'AI generated variation',
+    confidence: defaults.confidence ?? 0.5,
+    timestamp: new Date(),
+    metadata: createVariationMetadata()
+  })
+}
+
+// Helpers
+
+function isVariationNodeJSON(input: VariationInput): input is VariationNodeJSON {
+  return typeof input === 'object' && input !== null && 'canvasData' in input
+}
+
+function isVariationJSON(input: VariationInput): input is VariationJSON {
+  return typeof input === 'object' && input !== null && 'canvasState' in input && 'source' in input
+}
+
+function createVariationMetadata(aiMetadata?: VariationMetadata['aiMetadata']): VariationMetadata {
+  return {
+    tags: [],
+    notes: '',
+    approvalStatus: 'pending',
+    ...(aiMetadata && { aiMetadata })
+  }
+}
+
+function toDate(value: DateLike): Date {
+  const date = value instanceof Date ? value : new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid date: ${String(value)}`, 'metadata')
+  }
+  return date
+}
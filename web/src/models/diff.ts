@@ -0,0 +1,418 @@
+import { Draft } from 'immer'
+import { LayerType, ValidationError } from '../types'
+import { DesignCanvas, DesignCanvasData } from './DesignCanvas'
+import { Layer, LayerData } from './Layer'
+import { produceCanvas } from './mutations'
+
+/**
+ * Semantic diff engine for canvases
+ * Produces property-level changes that double as an invertible patch, and a
+ * perceptual similarity score weighted by how visible each change is.
+ * Layer and canvas metadata (timestamps, provenance) are ignored throughout.
+ */
+
+export type CanvasChangeKind =
+  | 'layer_added'
+  | 'layer_removed'
+  | 'transform'
+  | 'content'
+  | 'style'
+  | 'constraints'
+  | 'z_order'
+  | 'type'
+  | 'canvas'
+
+export interface CanvasChange {
+  kind: CanvasChangeKind
+  /** Null for canvas-level changes */
+  layerId: string | null
+  /** "layer" for additions/removals, otherwise a path such as "style.color", "zIndex" or "dimensions" */
+  property: string
+  /** Undefined when the property (or layer) is absent */
+  from: unknown
+  to: unknown
+}
+
+export interface CanvasPatch {
+  changes: CanvasChange[]
+}
+
+export interface SimilarityWeights {
+  transform: number
+  content: number
+  style: number
+  zOrder: number
+}
+
+export interface CanvasDiff {
+  changes: CanvasChange[]
+  patch: CanvasPatch
+  /** 1 for visually identical canvases, 0 for completely different ones */
+  similarity: number
+}
+
+export interface ApplyPatchOptions {
+  /** Verify each change's `from` value against the canvas before applying (default true) */
+  strict?: boolean
+}
+
+export const DEFAULT_SIMILARITY_WEIGHTS: SimilarityWeights = {
+  transform: 0.35,
+  content: 0.3,
+  style: 0.25,
+  zOrder: 0.1
+}
+
+const LAYER_SECTIONS = ['transform', 'content', 'style', 'constraints'] as const
+const CANVAS_PROPERTIES = ['deviceType', 'dimensions', 'state'] as const
+const COLOR_KEYS = new Set(['color', 'fill', 'stroke', 'backgroundColor', 'borderColor'])
+
+/**
+ * Property-level diff from `from` to `to`, with similarity and an applicable patch
+ */
+export function diffCanvases(
+  from: DesignCanvas,
+  to: DesignCanvas,
+  weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS
+): CanvasDiff {
+  const changes: CanvasChange[] = []
+
+  for (const property of CANVAS_PROPERTIES) {
+    if (!equal(from[property], to[property])) {
+      changes.push({ kind: 'canvas', layerId: null, property, from: from[property], to: to[property] })
+    }
+  }
+
+  const toLayers = new Map(to.layers.map(layer => [layer.id, layer]))
+  const fromIds = new Set(from.layers.map(layer => layer.id))
+
+  for (const layer of from.layers) {
+    const next = toLayers.get(layer.id)
+    if (next) {
+      changes.push(...diffLayers(layer, next))
+    } else {
+      changes.push({ kind: 'layer_removed', layerId: layer.id, property: 'layer', from: layer, to: undefined })
+    }
+  }
+
+  for (const layer of to.layers) {
+    if (!fromIds.has(layer.id)) {
+      changes.push({ kind: 'layer_added', layerId: layer.id, property: 'layer', from: undefined, to: layer })
+    }
+  }
+
+  return {
+    changes,
+    patch: { changes },
+    similarity: calculateSimilarity(from, to, weights)
+  }
+}
+
+/**
+ * Property-level changes between two versions of the same layer
+ */
+export function diffLayers(from: LayerData, to: LayerData): CanvasChange[] {
+  const changes: CanvasChange[] = []
+
+  if (from.type !== to.type) {
+    changes.push({ kind: 'type', layerId: from.id, property: 'type', from: from.type, to: to.type })
+  }
+
+  if (from.zIndex !== to.zIndex) {
+    changes.push({ kind: 'z_order', layerId: from.id, property: 'zIndex', from: from.zIndex, to: to.zIndex })
+  }
+
+  for (const section of LAYER_SECTIONS) {
+    const before = from[section] as unknown as Record<string, unknown>
+    const after = to[section] as unknown as Record<string, unknown>
+
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (!equal(before[key], after[key])) {
+        changes.push({ kind: section, layerId: from.id, property: `${section}.${key}`, from: before[key], to: after[key] })
+      }
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Apply a patch, returning a new canvas
+ * In strict mode every change must find its `from` value, otherwise a ValidationError is thrown
+ */
+export function applyPatch(canvas: DesignCanvas, patch: CanvasPatch, options: ApplyPatchOptions = {}): DesignCanvas {
+  const strict = options.strict !== false
+
+  return produceCanvas(canvas, draft => {
+    const touched = new Set<string>()
+
+    for (const change of patch.changes) {
+      applyChange(draft, change, strict)
+      if (change.layerId && change.kind !== 'layer_removed') {
+        touched.add(change.layerId)
+      }
+    }
+
+    draft.layers.sort((a, b) => a.zIndex - b.zIndex)
+    for (const layer of draft.layers) {
+      if (touched.has(layer.id)) {
+        Layer.fromJSON(layer as LayerData)
+      }
+    }
+  })
+}
+
+/**
+ * Patch that undoes `patch`: applyPatch(applyPatch(c, p), invertPatch(p)) restores c
+ */
+export function invertPatch(patch: CanvasPatch): CanvasPatch {
+  return {
+    changes: patch.changes
+      .map(change => ({
+        ...change,
+        kind: change.kind === 'layer_added' ? 'layer_removed' as const
+          : change.kind === 'layer_removed' ? 'layer_added' as const
+          : change.kind,
+        from: change.to,
+        to: change.from
+      }))
+      .reverse()
+  }
+}
+
+/**
+ * Perceptual similarity between two canvases in [0, 1]
+ * Each layer's change is scored per category and weighted by the layer's visible area
+ */
+export function calculateSimilarity(
+  a: DesignCanvas,
+  b: DesignCanvas,
+  weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS
+): number {
+  const canvasArea = a.dimensions.width * a.dimensions.height
+  const diagonal = Math.hypot(a.dimensions.width, a.dimensions.height)
+  const layersB = new Map(b.layers.map(layer => [layer.id, layer]))
+  const idsA = new Set(a.layers.map(layer => layer.id))
+  const totalWeight = weights.transform + weights.content + weights.style + weights.zOrder
+
+  let weightedDistance = 0
+  let totalArea = 0
+
+  const accumulate = (area: number, distance: number) => {
+    weightedDistance += area * distance
+    totalArea += area
+  }
+
+  for (const layer of a.layers) {
+    const other = layersB.get(layer.id)
+    const area = Math.max(layerArea(layer, canvasArea), other ? layerArea(other, canvasArea) : 0)
+
+    if (!other) {
+      accumulate(area, 1)
+      continue
+    }
+
+    const visibilityChanged = (layer.constraints.visible !== false) !== (other.constraints.visible !== false)
+    if (visibilityChanged || layer.type !== other.type) {
+      accumulate(area, 1)
+      continue
+    }
+
+    const distance = totalWeight > 0
+      ? (weights.transform * transformDistance(layer, other, diagonal) +
+         weights.content * sectionDistance(layer.content, other.content) +
+         weights.style * sectionDistance(layer.style, other.style) +
+         weights.zOrder * (layer.zIndex === other.zIndex ? 0 : 1)) / totalWeight
+      : 0
+    accumulate(area, distance)
+  }
+
+  for (const layer of b.layers) {
+    if (!idsA.has(layer.id)) {
+      accumulate(layerArea(layer, canvasArea), 1)
+    }
+  }
+
+  const layerSimilarity = totalArea > 0 ? 1 - weightedDistance / totalArea : 1
+  // A different device or size changes how everything is perceived
+  const canvasFactor = a.deviceType === b.deviceType && equal(a.dimensions, b.dimensions) ? 1 : 0.5
+
+  return clamp(layerSimilarity * canvasFactor)
+}
+
+function applyChange(draft: Draft<DesignCanvasData>, change: CanvasChange, strict: boolean): void {
+  if (change.layerId === null) {
+    const property = change.property as typeof CANVAS_PROPERTIES[number]
+    if (strict && !equal(draft[property], change.from)) {
+      throw new ValidationError(`Patch does not apply: canvas ${property} has changed`, property)
+    }
+    ;(draft as Record<string, unknown>)[property] = clone(change.to)
+    return
+  }
+
+  const index = draft.layers.findIndex(layer => layer.id === change.layerId)
+
+  if (change.property === 'layer') {
+    if (change.to === undefined) {
+      if (index === -1) {
+        if (strict) throw new ValidationError(`Patch does not apply: layer ${change.layerId} not found`, 'layers')
+        return
+      }
+      draft.layers.splice(index, 1)
+    } else {
+      if (index !== -1) {
+        if (strict) throw new ValidationError(`Patch does not apply: layer ${change.layerId} already exists`, 'layers')
+        return
+      }
+      draft.layers.push(clone(change.to) as Draft<LayerData>)
+    }
+    return
+  }
+
+  if (index === -1) {
+    if (strict) throw new ValidationError(`Patch does not apply: layer ${change.layerId} not found`, 'layers')
+    return
+  }
+
+  const layer = draft.layers[index] as unknown as Record<string, unknown>
+  const [section, key] = change.property.split('.')
+  const container = key === undefined ? layer : layer[section] as Record<string, unknown>
+  const field = key ?? section
+
+  if (strict && !equal(container[field], change.from)) {
+    throw new ValidationError(`Patch does not apply: ${change.layerId}.${change.property} has changed`, change.property)
+  }
+
+  if (change.to === undefined) {
+    delete container[field]
+  } else {
+    container[field] = clone(change.to)
+  }
+}
+
+function layerArea(layer: LayerData, canvasArea: number): number {
+  if (layer.type === LayerType.BACKGROUND) {
+    return canvasArea
+  }
+  const area = Math.abs(100 * layer.transform.scaleX * 100 * layer.transform.scaleY)
+  // Tiny layers still count a little; nothing counts more than the whole canvas
+  return Math.min(canvasArea, Math.max(area, canvasArea * 0.01))
+}
+
+function transformDistance(a: LayerData, b: LayerData, diagonal: number): number {
+  const ta = a.transform
+  const tb = b.transform
+
+  // Moving a quarter of the canvas diagonal reads as a complete change
+  const position = Math.hypot(ta.x - tb.x, ta.y - tb.y) / (diagonal / 4)
+  const scale = Math.max(scaleDistance(ta.scaleX, tb.scaleX), scaleDistance(ta.scaleY, tb.scaleY))
+  const rotationDelta = Math.abs(ta.rotation - tb.rotation) % 360
+  const rotation = Math.min(rotationDelta, 360 - rotationDelta) / 180
+  const opacity = Math.abs(ta.opacity - tb.opacity)
+
+  return clamp(Math.max(position, scale, rotation, opacity))
+}
+
+function scaleDistance(a: number, b: number): number {
+  if (a === b) return 0
+  if (a <= 0 || b <= 0) return 1
+  // Doubling or halving reads as a complete change
+  return clamp(Math.abs(Math.log2(a / b)))
+}
+
+function sectionDistance(a: object, b: object): number {
+  const before = a as Record<string, unknown>
+  const after = b as Record<string, unknown>
+  let distance = 0
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    distance = Math.max(distance, valueDistance(key, before[key], after[key]))
+    if (distance === 1) break
+  }
+
+  return distance
+}
+
+function valueDistance(key: string, a: unknown, b: unknown): number {
+  if (equal(a, b)) return 0
+  if (a === undefined || b === undefined) return 1
+
+  if (COLOR_KEYS.has(key) && typeof a === 'string' && typeof b === 'string') {
+    return colorDistance(a, b)
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return clamp(Math.abs(a - b) / Math.max(Math.abs(a), Math.abs(b), 1))
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return textDistance(a, b)
+  }
+  return 1
+}
+
+function colorDistance(a: string, b: string): number {
+  const rgbA = parseHexColor(a)
+  const rgbB = parseHexColor(b)
+  if (!rgbA || !rgbB) return a.toLowerCase() === b.toLowerCase() ? 0 : 1
+
+  const distance = Math.hypot(rgbA[0] - rgbB[0], rgbA[1] - rgbB[1], rgbA[2] - rgbB[2])
+  return distance / Math.hypot(255, 255, 255)
+}
+
+function parseHexColor(color: string): [number, number, number] | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim())
+  if (!match) return null
+
+  const hex = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1]
+  return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16)) as [number, number, number]
+}
+
+/**
+ * Normalised Levenshtein distance; long strings fall back to a plain inequality check
+ */
+function textDistance(a: string, b: string): number {
+  if (a.length > 500 || b.length > 500) return 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+
+  return previous[b.length] / Math.max(a.length, b.length)
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
+
+function equal(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b)
+}
+
+function clone<T>(value: T): T {
+  if (value === undefined || value === null || typeof value !== 'object') {
+    return value
+  }
+  return reviveDates(JSON.parse(JSON.stringify(value)), value) as T
+}
+
+// JSON cloning turns Dates into strings; put them back wherever the original had one
+function reviveDates(copy: unknown, original: unknown): unknown {
+  if (original instanceof Date) return new Date(original.getTime())
+  if (copy && typeof copy === 'object' && original && typeof original === 'object') {
+    for (const key of Object.keys(copy)) {
+      (copy as Record<string, unknown>)[key] = reviveDates(
+        (copy as Record<string, unknown>)[key],
+        (original as Record<string, unknown>)[key]
+      )
+    }
+  }
+  return copy
+}
@@ -0,0 +1,62 @@
+export { DesignCanvas } from './DesignCanvas'
+export { Layer } from './Layer'
+export { DesignVariation } from './DesignVariation'
+export {
+  produceCanvas,
+  addLayer,
+  updateLayer,
+  setLayerProperty,
+  removeLayer,
+  reorderLayer,
+  setCanvasState,
+  updateCanvasMetadata
+} from './mutations'
+export {
+  toCanvasModel,
+  toLayerData,
+  toVariationModel
+} from './adapters'
+export {
+  diffCanvases,
+  diffLayers,
+  applyPatch,
+  invertPatch,
+  calculateSimilarity,
+  DEFAULT_SIMILARITY_WEIGHTS
+} from './diff'
+export { CanvasDocument, mergeCanvasEdits } from './CanvasDocument'
+export { AICollaborationState } from './AICollaborationState'
+export { DeviceSimulation } from './DeviceSimulation'
+export { GestureNavigation } from './GestureNavigation'
+
+export type { DesignCanvasData } from './DesignCanvas'
+export type { LayerData } from './Layer'
+export type { DesignVariationData, VariationMetadata } from './DesignVariation'
+export type { CanvasRecipe, LayerPatch, MutationOptions } from './mutations'
+export type {
+  CanvasInput,
+  CanvasJSON,
+  LayerJSON,
+  VariationInput,
+  VariationNodeJSON,
+  VariationJSON,
+  VariationDefaults
+} from './adapters'
+export type {
+  CanvasChange,
+  CanvasChangeKind,
+  CanvasDiff,
+  CanvasPatch,
+  SimilarityWeights,
+  ApplyPatchOptions
+} from './diff'
+export type {
+  Stamp,
+  RegisterJSON,
+  SequenceElementJSON,
+  LayerStateJSON,
+  CanvasDocumentJSON
+} from './CanvasDocument'
+export type { AICollaborationStateData } from './AICollaborationState'
+export type { DeviceSimulationData } from './DeviceSimulation'
+export type { GestureNavigationData } from './GestureNavigation'
@@ -0,0 +1,227 @@
+import { produce, Draft } from 'immer'
+import {
+  CanvasState,
+  CanvasMetadata,
+  LayerConstraints,
+  LayerContent,
+  LayerStyle,
+  Transform,
+  ValidationError
+} from '../types'
+import { DesignCanvas, DesignCanvasData } from './DesignCanvas'
+import { Layer, LayerData } from './Layer'
+
+/**
+ * Explicit mutation helpers for the immutable canvas model
+ * Every helper returns a new DesignCanvas (re-validated by its constructor) and
+ * leaves the input untouched; unchanged layers are shared between both canvases
+ */
+
+export type CanvasRecipe = (draft: Draft<DesignCanvasData>) => void
+
+export interface LayerPatch {
+  content?: Partial<LayerContent>
+  transform?: Partial<Transform>
+  style?: Partial<LayerStyle>
+  constraints?: Partial<LayerConstraints>
+}
+
+export interface MutationOptions {
+  /** Stamp metadata.modifiedAt on the canvas and touched layers (default true) */
+  touch?: boolean
+}
+
+/**
+ * Applies an arbitrary recipe to a draft of the canvas data
+ * Returns the original instance when the recipe makes no changes
+ */
+export function produceCanvas(
+  canvas: DesignCanvas,
+  recipe: CanvasRecipe,
+  options: MutationOptions = {}
+): DesignCanvas {
+  const base = canvas.toJSON()
+  const next = produce(base, draft => {
+    recipe(draft)
+  })
+
+  if (next === base) {
+    return canvas
+  }
+
+  const touched = options.touch === false
+    ? next
+    : produce(next, draft => {
+        draft.metadata.modifiedAt = new Date()
+      })
+
+  return new DesignCanvas(touched)
+}
+
+/**
+ * Appends a layer on top of the stack unless an explicit zIndex is given
+ */
+export function addLayer(
+  canvas: DesignCanvas,
+  layer: Omit<LayerData, 'zIndex'> & { zIndex?: number },
+  options?: MutationOptions
+): DesignCanvas {
+  if (canvas.layers.some(existing => existing.id === layer.id)) {
+    throw new ValidationError(`Layer with ID ${layer.id} already exists`, 'layers')
+  }
+
+  const zIndex = layer.zIndex ?? Math.max(...canvas.layers.map(l => l.zIndex), -1) + 1
+  const validated = Layer.fromJSON({ ...layer, zIndex }).toJSON()
+
+  return produceCanvas(canvas, draft => {
+    draft.layers.push(validated as Draft<LayerData>)
+    sortByZIndex(draft.layers)
+  }, options)
+}
+
+/**
+ * Merges a partial update into each section of a layer
+ */
+export function updateLayer(
+  canvas: DesignCanvas,
+  layerId: string,
+  patch: LayerPatch,
+  options?: MutationOptions
+): DesignCanvas {
+  return produceCanvas(canvas, draft => {
+    const layer = findDraftLayer(draft, layerId)
+    Object.assign(layer.content, patch.content)
+    Object.assign(layer.transform, patch.transform)
+    Object.assign(layer.style, patch.style)
+    Object.assign(layer.constraints, patch.constraints)
+    Layer.fromJSON(layer as LayerData)
+    if (options?.touch !== false) {
+      layer.metadata.modifiedAt = new Date()
+    }
+  }, options)
+}
+
+/**
+ * Sets a single property addressed by a dotted path such as "transform.x" or "content.text"
+ */
+export function setLayerProperty(
+  canvas: DesignCanvas,
+  layerId: string,
+  propertyPath: string,
+  value: unknown,
+  options?: MutationOptions
+): DesignCanvas {
+  const segments = propertyPath.split('.')
+  if (segments.length < 2 || segments[0] === 'id' || segments[0] === 'metadata') {
+    throw new ValidationError(`Property ${propertyPath} cannot be modified`, propertyPath)
+  }
+
+  return produceCanvas(canvas, draft => {
+    const layer = findDraftLayer(draft, layerId)
+    let target = layer as unknown as Record<string, unknown>
+
+    for (const segment of segments.slice(0, -1)) {
+      const next = target[segment]
+      if (!next || typeof next !== 'object') {
+        throw new ValidationError(`Property path ${propertyPath} not valid`, propertyPath)
+      }
+      target = next as Record<string, unknown>
+    }
+
+    target[segments[segments.length - 1]] = value
+    Layer.fromJSON(layer as LayerData)
+    if (options?.touch !== false) {
+      layer.metadata.modifiedAt = new Date()
+    }
+  }, options)
+}
+
+/**
+ * Removes a layer; the canvas constructor rejects removing the last one
+ */
+export function removeLayer(
+  canvas: DesignCanvas,
+  layerId: string,
+  options?: MutationOptions
+): DesignCanvas {
+  return produceCanvas(canvas, draft => {
+    const index = draft.layers.findIndex(layer => layer.id === layerId)
+    if (index === -1) {
+      throw new ValidationError(`Layer ${layerId} not found`, 'layers')
+    }
+    draft.layers.splice(index, 1)
+  }, options)
+}
+
+/**
+ * Moves a layer to a new stack position and re-sequences every zIndex
+ */
+export function reorderLayer(
+  canvas: DesignCanvas,
+  layerId: string,
+  newIndex: number,
+  options?: MutationOptions
+): DesignCanvas {
+  if (newIndex < 0 || newIndex >= canvas.layers.length) {
+    throw new ValidationError(`Layer index ${newIndex} is out of range`, 'zIndex')
+  }
+
+  return produceCanvas(canvas, draft => {
+    sortByZIndex(draft.layers)
+    const index = draft.layers.findIndex(layer => layer.id === layerId)
+    if (index === -1) {
+      throw new ValidationError(`Layer ${layerId} not found`, 'layers')
+    }
+    if (index === newIndex) return
+
+    const [layer] = draft.layers.splice(index, 1)
+    draft.layers.splice(newIndex, 0, layer)
+    draft.layers.forEach((item, position) => {
+      item.zIndex = position
+    })
+  }, options)
+}
+
+/**
+ * Changes the canvas lifecycle state
+ */
+export function setCanvasState(
+  canvas: DesignCanvas,
+  state: CanvasState,
+  options?: MutationOptions
+): DesignCanvas {
+  if (!Object.values(CanvasState).includes(state)) {
+    throw new ValidationError(`Invalid canvas state: ${state}`, 'state')
+  }
+
+  return produceCanvas(canvas, draft => {
+    draft.state = state
+  }, options)
+}
+
+/**
+ * Updates descriptive canvas metadata (tags, description, author)
+ */
+export function updateCanvasMetadata(
+  canvas: DesignCanvas,
+  updates: Partial<Omit<CanvasMetadata, 'createdAt' | 'modifiedAt'>>,
+  options?: MutationOptions
+): DesignCanvas {
+  return produceCanvas(canvas, draft => {
+    Object.assign(draft.metadata, updates)
+  }, options)
+}
+
+// Helpers
+
+function findDraftLayer(draft: Draft<DesignCanvasData>, layerId: string): Draft<LayerData> {
+  const layer = draft.layers.find(item => item.id === layerId)
+  if (!layer) {
+    throw new ValidationError(`Layer ${layerId} not found`, 'layers')
+  }
+  return layer
+}
+
+function sortByZIndex(layers: Draft<LayerData>[]): void {
+  layers.sort((a, b) => a.zIndex - b.zIndex)
+}
@@ -0,0 +1,369 @@
+import { DesignCanvas } from '../models/DesignCanvas'
+import { DesignVariation } from '../models/DesignVariation'
+import { toCanvasModel, toVariationModel, CanvasJSON } from '../models/adapters'
+import { AIServiceError, VariationSource } from '../types'
+import type { AIError, AIRequestType, AIResponse, ResponseMetadata } from '../../../shared/types'
+import { AIRequestError, AI_REQUEST_TYPES } from './AIRequestDispatcher'
+import { VARIATION_STREAM_ACCEPT, readVariationStream, variationEvents } from './VariationStream'
+import type { VariationStreamEvent } from './VariationStream'
+import type { AIResultMap, TypedAIRequest } from './AIRequestDispatcher'
+import type {
+  AISuggestion,
+  CurrentTrendsResponse,
+  TrendData,
+  UserPreferences,
+  VariationRequest
+} from './AIService'
+
+/**
+ * Options passed to a provider when analysing a canvas
+ */
+export interface ProviderAnalysisOptions {
+  deviceType: string
+  analysisType: ('trends' | 'creative' | 'accessibility' | 'performance')[]
+  userPreferences?: UserPreferences
+  /** Aborts the request when the caller cancels or the attempt times out */
+  signal?: AbortSignal
+}
+
+/**
+ * Options passed to a provider when generating variations
+ */
+export type ProviderVariationOptions = Omit<VariationRequest, 'baseCanvas'> & {
+  /** Aborts the request when the caller cancels or the attempt times out */
+  signal?: AbortSignal
+}
+
+/**
+ * Analysis produced by a provider (AIService adds timing)
+ */
+export interface ProviderAnalysisResult {
+  analysisId: string
+  suggestions: AISuggestion[]
+  confidence: number
+  trends?: TrendData
+}
+
+/**
+ * Variations produced by a provider, already parented to the base canvas
+ */
+export interface ProviderVariationResult {
+  requestId: string
+  variations: DesignVariation[]
+  confidence: number
+}
+
+/**
+ * Options passed to a provider with a typed AIRequest
+ */
+export interface ProviderRequestOptions {
+  signal?: AbortSignal
+}
+
+/**
+ * Result of a typed AIRequest (the dispatcher adds the response envelope)
+ */
+export interface ProviderRequestResult<T extends AIRequestType = AIRequestType> {
+  result: AIResultMap[T]
+  metadata?: ResponseMetadata
+}
+
+/**
+ * Pluggable backend for AIService
+ * Implementations receive validated canvas models and never see raw request data
+ */
+export interface AIProvider {
+  readonly name: string
+  readonly requiresNetwork: boolean
+
+  analyzeCanvas(canvas: DesignCanvas, options: ProviderAnalysisOptions): Promise<ProviderAnalysisResult>
+  generateVariations(baseCanvas: DesignCanvas, options: ProviderVariationOptions): Promise<ProviderVariationResult>
+  /** Start generating variations and resolve once the stream is open; events follow as variations finish */
+  streamVariations?(baseCanvas: DesignCanvas, options: ProviderVariationOptions): Promise<AsyncIterable<VariationStreamEvent>>
+  getCurrentTrends(options?: ProviderRequestOptions): Promise<CurrentTrendsResponse>
+  healthCheck(): Promise<boolean>
+
+  /** AIRequestTypes this provider implements through handleRequest */
+  readonly supportedRequestTypes?: readonly AIRequestType[]
+  /** Handle a validated request; failures throw, ideally as AIRequestError */
+  handleRequest?<T extends AIRequestType>(request: TypedAIRequest<T>, options?: ProviderRequestOptions): Promise<ProviderRequestResult<T>>
+}
+
+/**
+ * Provider backed by the remote Gemini endpoints described in ai-api.yaml
+ */
+export class RemoteAIProvider implements AIProvider {
+  readonly name = 'gemini'
+  readonly requiresNetwork = true
+  readonly supportedRequestTypes = AI_REQUEST_TYPES
+
+  private baseUrl: string
+  private apiKey: string
+
+  constructor(apiKey?: string, baseUrl?: string) {
+    // For web environment, API configuration should be passed explicitly
+    this.baseUrl = baseUrl || 'https://ai.gemini.googleapis.com/v1'
+    this.apiKey = apiKey || ''
+  }
+
+  /**
+   * POST /canvas/analyze
+   */
+  async analyzeCanvas(canvas: DesignCanvas, options: ProviderAnalysisOptions): Promise<ProviderAnalysisResult> {
+    this.assertConfigured()
+
+    const response = await send(`${this.baseUrl}/canvas/analyze`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`
+      },
+      body: JSON.stringify({
+        canvas: canvas.toJSON(),
+        deviceType: options.deviceType,
+        analysisType: options.analysisType,
+        userPreferences: options.userPreferences
+      }),
+      signal: options.signal
+    })
+
+    if (!response.ok) {
+      throw await legacyError(response, 'Analysis failed')
+    }
+
+    const data = await response.json()
+
+    return {
+      analysisId: data.analysisId,
+      suggestions: data.suggestions,
+      confidence: data.confidence,
+      trends: data.trends
+    }
+  }
+
+  /**
+   * POST /variations/generate
+   */
+  async generateVariations(baseCanvas: DesignCanvas, options: ProviderVariationOptions): Promise<ProviderVariationResult> {
+    this.assertConfigured()
+
+    const response = await send(`${this.baseUrl}/variations/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`
+      },
+      body: JSON.stringify({
+        baseCanvas: baseCanvas.toJSON(),
+        variationType: options.variationType,
+        count: options.count,
+        preferences: options.preferences
+      }),
+      signal: options.signal
+    })
+
+    if (!response.ok) {
+      throw await legacyError(response, 'Variation generation failed')
+    }
+
+    const data = await response.json()
+
+    // Convert response variations into canvas models
+    let canvases: DesignCanvas[]
+    try {
+      canvases = (data.variations as CanvasJSON[]).map(canvasData => toCanvasModel(canvasData))
+    } catch (error) {
+      throw new AIServiceError(`Invalid variation data: ${error instanceof Error ? error.message : error}`, 'API_ERROR')
+    }
+
+    return {
+      requestId: data.requestId,
+      variations: canvases.map(canvas => toVariationModel(canvas, {
+        parentId: null,
+        source: VariationSource.AI_SUGGESTION,
+        prompt: `${options.variationType} variation`,
+        confidence: data.confidence
+      })),
+      confidence: data.confidence
+    }
+  }
+
+  /**
+   * POST /variations/generate, streamed
+   * Asks for server-sent events or newline-delimited JSON and falls back to reading a
+   * plain JSON batch when the server does not stream.
+   */
+  async streamVariations(baseCanvas: DesignCanvas, options: ProviderVariationOptions): Promise<AsyncIterable<VariationStreamEvent>> {
+    this.assertConfigured()
+
+    const response = await send(`${this.baseUrl}/variations/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': VARIATION_STREAM_ACCEPT,
+        'Authorization': `Bearer ${this.apiKey}`
+      },
+      body: JSON.stringify({
+        baseCanvas: baseCanvas.toJSON(),
+        variationType: options.variationType,
+        count: options.count,
+        preferences: options.preferences,
+        stream: true
+      }),
+      signal: options.signal
+    })
+
+    if (!response.ok) {
+      throw await legacyError(response, 'Variation generation failed')
+    }
+
+    return variationEvents(readVariationStream(response), options)
+  }
+
+  /**
+   * GET /trends/current
+   */
+  async getCurrentTrends(options: ProviderRequestOptions = {}): Promise<CurrentTrendsResponse> {
+    this.assertConfigured()
+
+    const response = await send(`${this.baseUrl}/trends/current`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`
+      },
+      signal: options.signal
+    })
+
+    if (!response.ok) {
+      throw await legacyError(response, 'Trends request failed')
+    }
+
+    const data = await response.json()
+
+    return {
+      trendsId: data.trendsId,
+      categories: data.categories,
+      lastUpdated: data.lastUpdated,
+      confidence: data.confidence
+    }
+  }
+
+  /**
+   * POST /ai/requests with an ai-request.schema.json body, answered with an
+   * ai-response.schema.json body
+   */
+  async handleRequest<T extends AIRequestType>(request: TypedAIRequest<T>, options: ProviderRequestOptions = {}): Promise<ProviderRequestResult<T>> {
+    this.assertConfigured()
+
+    const response = await send(`${this.baseUrl}/ai/requests`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`
+      },
+      body: JSON.stringify(request),
+      signal: options.signal
+    })
+
+    const data: AIResponse | null = await response.json().catch(() => null)
+    if (data?.error) {
+      throw new AIRequestError(data.error)
+    }
+    if (!response.ok) {
+      throw new AIRequestError(httpError(response))
+    }
+    if (data?.status !== 'success' || !data.result) {
+      throw new AIRequestError({ code: 'INTERNAL_ERROR', message: `${request.type} response has no result (status ${data?.status ?? 'missing'})` })
+    }
+
+    return { result: data.result as AIResultMap[T], ...(data.metadata && { metadata: data.metadata }) }
+  }
+
+  /**
+   * GET /health
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/health`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`
+        }
+      })
+      return response.ok
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Configure API settings
+   */
+  configure(options: { apiKey?: string; baseUrl?: string }) {
+    if (options.apiKey) {
+      this.apiKey = options.apiKey
+    }
+    if (options.baseUrl) {
+      this.baseUrl = options.baseUrl
+    }
+  }
+
+  private assertConfigured(): void {
+    if (!this.apiKey) {
+      throw new AIServiceError('API key not configured', 'AUTH_ERROR')
+    }
+  }
+}
+
+/**
+ * fetch that reports a failed connection as a retryable NETWORK_ERROR
+ * Cancellations and timeouts keep their abort reason.
+ */
+async function send(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init)
+  } catch (error) {
+    if (init.signal?.aborted) throw error
+    throw new AIServiceError(`Network request failed: ${error instanceof Error ? error.message : error}`, 'NETWORK_ERROR')
+  }
+}
+
+/**
+ * AIError for an HTTP failure without a structured error body
+ */
+function httpError(response: Response): AIError {
+  const message = `Request failed with HTTP ${response.status}`
+  const retryAfter = Number(response.headers.get('Retry-After'))
+  switch (response.status) {
+    case 400:
+      return { code: 'INVALID_REQUEST', message }
+    case 401:
+    case 403:
+      return { code: 'AUTHENTICATION_FAILED', message }
+    case 402:
+      return { code: 'QUOTA_EXCEEDED', message }
+    case 408:
+    case 504:
+      return { code: 'TIMEOUT', message, retryable: true }
+    case 422:
+      return { code: 'VALIDATION_ERROR', message }
+    case 429:
+      return { code: 'RATE_LIMIT_EXCEEDED', message, retryable: true, ...(retryAfter > 0 && { retryAfter }) }
+    case 503:
+      return { code: 'MODEL_UNAVAILABLE', message, retryable: true, ...(retryAfter > 0 && { retryAfter }) }
+    default:
+      return { code: 'INTERNAL_ERROR', message, retryable: response.status >= 500 }
+  }
+}
+
+/**
+ * Error for a failed legacy endpoint call
+ * Retryable statuses keep their AIError so the executor can back off; the rest stay API_ERRORs.
+ */
+async function legacyError(response: Response, message: string): Promise<AIServiceError> {
+  const detail = httpError(response)
+  if (detail.retryable) {
+    return new AIRequestError(detail)
+  }
+  return new AIServiceError(`${message}: ${await response.text()}`, 'API_ERROR')
+}
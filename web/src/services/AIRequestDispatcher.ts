@@ -0,0 +1,472 @@
+import type {
+  AIError,
+  AIRequest,
+  AIRequestType,
+  AIResponse,
+  AnalysisParams,
+  AnalysisResult,
+  BackgroundRemovalParams,
+  BackgroundRemovalResult,
+  ColorPaletteParams,
+  ColorPaletteResult,
+  ContentFillParams,
+  ContentFillResult,
+  ImageGenerationParams,
+  ImageResult,
+  ObjectDetectionParams,
+  ObjectDetectionResult,
+  StyleTransferParams,
+  StyleTransferResult,
+  SuggestionParams,
+  SuggestionResult,
+  TextGenerationParams,
+  TextResult
+} from '../../../shared/types'
+import { SchemaValidator } from '../../../shared/utils/validation'
+import { AIServiceError } from '../types'
+import type { AIProvider, ProviderRequestOptions, ProviderRequestResult } from './AIProvider'
+import type { AIRequestExecutor } from './AIRequestExecutor'
+import { cacheKey, canvasContent } from './AIResponseCache'
+import type { AIResponseCache } from './AIResponseCache'
+import type { DesignCanvas } from '../models/DesignCanvas'
+
+/**
+ * Parameters accepted by each AIRequestType (ai-request.schema.json)
+ */
+export interface AIRequestParamsMap {
+  'generate-image': ImageGenerationParams
+  'generate-text': TextGenerationParams
+  'suggest-improvement': SuggestionParams
+  'analyze-composition': AnalysisParams
+  'color-palette': ColorPaletteParams
+  'style-transfer': StyleTransferParams
+  'background-removal': BackgroundRemovalParams
+  'object-detection': ObjectDetectionParams
+  'content-aware-fill': ContentFillParams
+}
+
+/**
+ * Result produced for each AIRequestType (ai-response.schema.json)
+ */
+export interface AIResultMap {
+  'generate-image': ImageResult
+  'generate-text': TextResult
+  'suggest-improvement': SuggestionResult
+  'analyze-composition': AnalysisResult
+  'color-palette': ColorPaletteResult
+  'style-transfer': StyleTransferResult
+  'background-removal': BackgroundRemovalResult
+  'object-detection': ObjectDetectionResult
+  'content-aware-fill': ContentFillResult
+}
+
+/**
+ * AIRequest whose parameters match its type
+ */
+export type TypedAIRequest<T extends AIRequestType = AIRequestType> = {
+  [K in T]: Omit<AIRequest, 'type' | 'parameters'> & { type: K; parameters?: AIRequestParamsMap[K] }
+}[T]
+
+/**
+ * AIResponse discriminated by status, with the result type of the request
+ */
+export type TypedAIResponse<T extends AIRequestType = AIRequestType> =
+  | (Omit<AIResponse, 'status' | 'result' | 'error'> & { type: T; status: 'success'; result: AIResultMap[T]; error?: undefined })
+  | (Omit<AIResponse, 'status' | 'result' | 'error'> & { type: T; status: 'error'; error: AIError; result?: undefined })
+
+export const AI_REQUEST_TYPES: readonly AIRequestType[] = [
+  'generate-image',
+  'generate-text',
+  'suggest-improvement',
+  'analyze-composition',
+  'color-palette',
+  'style-transfer',
+  'background-removal',
+  'object-detection',
+  'content-aware-fill'
+]
+
+/**
+ * Provider failure carrying a structured AIError (code, retryable, retryAfter)
+ */
+export class AIRequestError extends AIServiceError {
+  constructor(public readonly detail: AIError) {
+    super(detail.message, detail.code)
+    this.name = 'AIRequestError'
+  }
+}
+
+export interface AIRequestDispatcherOptions {
+  /** Provider name per request type; unlisted types go to the first provider that supports them */
+  routes?: Partial<Record<AIRequestType, string>>
+  /** Clock used for response timestamps; override in tests */
+  now?: () => Date
+  /** Rate-limits and retries provider calls per request type; without one each call runs once */
+  executor?: AIRequestExecutor
+  /** Reuses successful responses for identical requests; responses then carry metadata.cacheHit */
+  cache?: AIResponseCache
+}
+
+export interface AIDispatchOptions extends ProviderRequestOptions {
+  /**
+   * The canvas context.canvasId refers to; its content is part of the cache key.
+   * Requests that read a canvas are not cached without it.
+   */
+  canvas?: DesignCanvas
+}
+
+/**
+ * Build a request with a fresh id and timestamp
+ */
+export function createAIRequest<T extends AIRequestType>(
+  type: T,
+  parameters?: AIRequestParamsMap[T],
+  options: Partial<Pick<AIRequest, 'requestId' | 'context' | 'priority' | 'timeout'>> = {}
+): TypedAIRequest<T> {
+  return {
+    requestId: options.requestId ?? crypto.randomUUID(),
+    type,
+    timestamp: new Date().toISOString(),
+    ...(options.context && { context: options.context }),
+    ...(options.priority && { priority: options.priority }),
+    ...(options.timeout !== undefined && { timeout: options.timeout }),
+    ...(parameters && { parameters })
+  } as TypedAIRequest<T>
+}
+
+/**
+ * Check a request's parameters against the schema for its type
+ * Returns one message per problem, empty when the parameters are valid.
+ */
+export function validateAIRequestParams(type: AIRequestType, parameters: unknown): string[] {
+  const rule = PARAMETER_RULES[type]
+  if (!rule) return [`type must be one of: ${AI_REQUEST_TYPES.join(', ')}`]
+  if (parameters === undefined) {
+    return REQUIRED_PARAMETERS[type].map(key => `parameters.${key} is required for ${type}`)
+  }
+
+  const errors: string[] = []
+  rule(parameters, 'parameters', errors)
+  return errors
+}
+
+/**
+ * Convert any failure into the shared AIError shape
+ */
+export function toAIError(error: unknown): AIError {
+  if (error instanceof AIRequestError) {
+    return { retryable: RETRYABLE_CODES.has(error.detail.code), ...error.detail }
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  let code: AIError['code'] = 'INTERNAL_ERROR'
+  if (error instanceof AIServiceError && error.code) {
+    code = isAIErrorCode(error.code) ? error.code : SERVICE_ERROR_CODES[error.code] ?? 'INTERNAL_ERROR'
+  } else if (error instanceof Error && error.name === 'TimeoutError') {
+    code = 'TIMEOUT'
+  }
+  return { code, message, retryable: RETRYABLE_CODES.has(code) }
+}
+
+/**
+ * Routes any AIRequest to a provider that implements its type
+ *
+ * Requests are validated against the shared schema first; every outcome, including
+ * invalid input, missing providers and provider failures, comes back as a typed
+ * AIResponse rather than a thrown error. The one exception is cancellation: aborting
+ * options.signal rejects with the abort reason.
+ */
+export class AIRequestDispatcher {
+  private providers: AIProvider[]
+  private routes: Partial<Record<AIRequestType, string>>
+  private now: () => Date
+  private executor?: AIRequestExecutor
+  private cache?: AIResponseCache
+
+  constructor(providers: AIProvider[], options: AIRequestDispatcherOptions = {}) {
+    this.providers = providers
+    this.routes = options.routes ?? {}
+    this.now = options.now ?? (() => new Date())
+    this.executor = options.executor
+    this.cache = options.cache
+  }
+
+  async dispatch<T extends AIRequestType>(request: TypedAIRequest<T>, options?: AIDispatchOptions): Promise<TypedAIResponse<T>>
+  async dispatch(request: AIRequest, options?: AIDispatchOptions): Promise<TypedAIResponse>
+  async dispatch(request: AIRequest, options: AIDispatchOptions = {}): Promise<TypedAIResponse> {
+    const startTime = Date.now()
+    const fail = (error: AIError): TypedAIResponse => ({ ...this.envelope(request, startTime), status: 'error', error })
+
+    const envelope = SchemaValidator.validateAIRequest(request)
+    if (!envelope.valid) {
+      return fail({ code: 'INVALID_REQUEST', message: envelope.errors.join('; '), details: { errors: envelope.errors }, retryable: false })
+    }
+
+    const errors = validateAIRequestParams(request.type, request.parameters)
+    if (errors.length > 0) {
+      return fail({ code: 'VALIDATION_ERROR', message: errors.join('; '), details: { errors }, retryable: false })
+    }
+
+    const provider = this.providerFor(request.type)
+    if (!provider?.handleRequest) {
+      return fail({ code: 'MODEL_UNAVAILABLE', message: `No configured provider handles ${request.type} requests`, retryable: false })
+    }
+
+    // The canvas content stands in for its id, which stays the same across edits
+    const readsCanvas = CANVAS_REQUEST_TYPES.has(request.type) || Boolean(request.context?.canvasId)
+    const cache = this.cache?.isEnabled() && (options.canvas || !readsCanvas) ? this.cache : null
+    const key = cache && await cacheKey({
+      provider: provider.name,
+      type: request.type,
+      parameters: request.parameters,
+      context: request.context,
+      canvas: readsCanvas && options.canvas ? canvasContent(options.canvas) : undefined
+    })
+    const cached = key ? await cache!.get<ProviderRequestResult>(key) : null
+    if (cached) {
+      return {
+        ...this.envelope(request, startTime),
+        status: 'success',
+        result: cached.result,
+        metadata: { ...cached.metadata, cacheHit: true }
+      } as TypedAIResponse
+    }
+
+    const handle = provider.handleRequest.bind(provider)
+    const call = (signal?: AbortSignal) => handle(request as TypedAIRequest, { signal })
+
+    try {
+      const { result, metadata } = this.executor
+        ? await this.executor.execute(request.type, call, { timeout: request.timeout, signal: options.signal })
+        : await call(options.signal)
+      if (!hasResultShape(request.type, result)) {
+        return fail({ code: 'INTERNAL_ERROR', message: `Provider ${provider.name} returned a malformed ${request.type} result`, retryable: false })
+      }
+      if (key) {
+        await cache!.set<ProviderRequestResult>(key, { result, ...(metadata && { metadata }) })
+      }
+      return {
+        ...this.envelope(request, startTime),
+        status: 'success',
+        result,
+        ...(key ? { metadata: { ...metadata, cacheHit: false } } : metadata && { metadata })
+      } as TypedAIResponse
+    } catch (error) {
+      if (options.signal?.aborted) throw options.signal.reason ?? error
+      return fail(toAIError(error))
+    }
+  }
+
+  /**
+   * Request types at least one provider can handle
+   */
+  supportedTypes(): AIRequestType[] {
+    return AI_REQUEST_TYPES.filter(type => this.providerFor(type))
+  }
+
+  /**
+   * Provider a request type is routed to, if any
+   */
+  providerFor(type: AIRequestType): AIProvider | undefined {
+    const supports = (provider: AIProvider) => Boolean(provider.handleRequest && provider.supportedRequestTypes?.includes(type))
+    const routed = this.routes[type]
+    if (routed) {
+      return this.providers.find(provider => provider.name === routed && supports(provider))
+    }
+    return this.providers.find(supports)
+  }
+
+  private envelope(request: AIRequest, startTime: number) {
+    return {
+      requestId: request.requestId,
+      type: request.type,
+      timestamp: this.now().toISOString(),
+      processingTime: Date.now() - startTime
+    }
+  }
+}
+
+// Parameter rules
+
+type Rule = (value: unknown, path: string, errors: string[]) => void
+
+const oneOf = (values: readonly string[]): Rule => (value, path, errors) => {
+  if (typeof value !== 'string' || !values.includes(value)) errors.push(`${path} must be one of: ${values.join(', ')}`)
+}
+
+const numeric = (integer: boolean, min?: number, max?: number): Rule => (value, path, errors) => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+    errors.push(`${path} must be ${integer ? 'an integer' : 'a number'}`)
+  } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+    errors.push(`${path} must be ${max === undefined ? `at least ${min}` : min === undefined ? `at most ${max}` : `between ${min} and ${max}`}`)
+  }
+}
+
+const integer = (min?: number, max?: number): Rule => numeric(true, min, max)
+const number = (min?: number, max?: number): Rule => numeric(false, min, max)
+
+const boolean: Rule = (value, path, errors) => {
+  if (typeof value !== 'boolean') errors.push(`${path} must be a boolean`)
+}
+
+const text = (options: { min?: number; max?: number; pattern?: RegExp } = {}): Rule => (value, path, errors) => {
+  if (typeof value !== 'string') {
+    errors.push(`${path} must be a string`)
+  } else if (options.min !== undefined && value.trim().length < options.min) {
+    errors.push(`${path} must be at least ${options.min} characters`)
+  } else if (options.max !== undefined && value.length > options.max) {
+    errors.push(`${path} must be at most ${options.max} characters`)
+  } else if (options.pattern && !options.pattern.test(value)) {
+    errors.push(`${path} must match ${options.pattern.source}`)
+  }
+}
+
+const list = (item: Rule): Rule => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`)
+  } else {
+    value.forEach((entry, index) => item(entry, `${path}[${index}]`, errors))
+  }
+}
+
+const object = (shape: Record<string, Rule>, required: string[] = []): Rule => (value, path, errors) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${path} must be an object`)
+    return
+  }
+  const record = value as Record<string, unknown>
+  for (const key of required) {
+    if (record[key] === undefined) errors.push(`${path}.${key} is required`)
+  }
+  for (const [key, entry] of Object.entries(record)) {
+    if (entry === undefined) continue
+    if (shape[key]) shape[key](entry, `${path}.${key}`, errors)
+    else errors.push(`${path}.${key} is not allowed`)
+  }
+}
+
+const RECTANGLE = object({ x: number(), y: number(), width: number(0), height: number(0) }, ['x', 'y', 'width', 'height'])
+const DIMENSIONS = object({ width: integer(1), height: integer(1) }, ['width', 'height'])
+const PROMPT = text({ min: 5, max: 2000 })
+
+const REQUIRED_PARAMETERS: Record<AIRequestType, string[]> = {
+  'generate-image': ['prompt'],
+  'generate-text': ['prompt'],
+  'suggest-improvement': [],
+  'analyze-composition': [],
+  'color-palette': [],
+  'style-transfer': ['targetStyle'],
+  'background-removal': [],
+  'object-detection': [],
+  'content-aware-fill': ['maskRegion']
+}
+
+const PARAMETER_RULES: Record<AIRequestType, Rule> = {
+  'generate-image': object({
+    prompt: PROMPT,
+    negativePrompt: text({ max: 1000 }),
+    style: oneOf(['photorealistic', 'illustration', 'cartoon', 'abstract', 'minimalist', 'vintage', 'modern', 'artistic', 'technical']),
+    aspectRatio: oneOf(['1:1', '16:9', '9:16', '4:3', '3:4', '21:9', 'custom']),
+    dimensions: DIMENSIONS,
+    seed: integer(0, 4294967295),
+    steps: integer(1, 150),
+    guidance: number(1, 30),
+    model: oneOf(['gemini-visual', 'dalle-3', 'midjourney', 'stable-diffusion'])
+  }, REQUIRED_PARAMETERS['generate-image']),
+  'generate-text': object({
+    prompt: PROMPT,
+    maxLength: integer(10, 5000),
+    tone: oneOf(['professional', 'casual', 'creative', 'technical', 'marketing', 'educational', 'humorous', 'formal']),
+    format: oneOf(['paragraph', 'bullet-points', 'headline', 'tagline', 'description']),
+    audience: oneOf(['general', 'technical', 'business', 'creative', 'academic', 'social']),
+    language: text({ pattern: /^[a-z]{2}(-[A-Z]{2})?$/ })
+  }, REQUIRED_PARAMETERS['generate-text']),
+  'suggest-improvement': object({
+    focus: oneOf(['layout', 'color', 'typography', 'spacing', 'hierarchy', 'overall']),
+    goals: list(oneOf(['engagement', 'clarity', 'aesthetics', 'branding', 'accessibility', 'conversion', 'emotion', 'simplicity'])),
+    constraints: object({ brandColors: list(text()), fonts: list(text()), dimensions: DIMENSIONS })
+  }),
+  'analyze-composition': object({
+    analysisType: oneOf(['composition', 'color-harmony', 'readability', 'brand-consistency', 'accessibility', 'emotional-impact']),
+    includeRecommendations: boolean,
+    detailLevel: oneOf(['basic', 'detailed', 'comprehensive'])
+  }),
+  'color-palette': object({
+    baseColor: text({ pattern: /^#[0-9A-Fa-f]{6}$/ }),
+    paletteType: oneOf(['monochromatic', 'analogous', 'complementary', 'triadic', 'tetradic', 'custom']),
+    colorCount: integer(2, 10),
+    mood: oneOf(['warm', 'cool', 'vibrant', 'muted', 'energetic', 'calming', 'professional']),
+    accessibility: boolean
+  }),
+  'style-transfer': object({
+    targetStyle: oneOf(['watercolor', 'oil-painting', 'sketch', 'digital-art', 'vintage', 'modern', 'minimalist', 'abstract', 'realistic']),
+    strength: number(0.1, 1),
+    preserveColors: boolean,
+    preserveStructure: boolean
+  }, REQUIRED_PARAMETERS['style-transfer']),
+  'background-removal': object({
+    precision: oneOf(['fast', 'balanced', 'precise']),
+    edgeSmoothing: boolean,
+    returnMask: boolean
+  }),
+  'object-detection': object({
+    objectTypes: list(oneOf(['person', 'face', 'text', 'logo', 'product', 'vehicle', 'building', 'nature', 'animal', 'all'])),
+    confidence: number(0.1, 1),
+    returnBounds: boolean,
+    returnLabels: boolean
+  }),
+  'content-aware-fill': object({
+    maskRegion: RECTANGLE,
+    fillType: oneOf(['smart-fill', 'pattern-match', 'blend', 'generate']),
+    contextRadius: integer(5, 100)
+  }, REQUIRED_PARAMETERS['content-aware-fill'])
+}
+
+// Helpers
+
+const AI_ERROR_CODES: readonly AIError['code'][] = [
+  'INVALID_REQUEST', 'TIMEOUT', 'RATE_LIMIT_EXCEEDED', 'CONTENT_FILTERED', 'MODEL_UNAVAILABLE',
+  'QUOTA_EXCEEDED', 'INTERNAL_ERROR', 'AUTHENTICATION_FAILED', 'VALIDATION_ERROR'
+]
+
+const RETRYABLE_CODES = new Set<AIError['code']>(['RATE_LIMIT_EXCEEDED', 'TIMEOUT', 'MODEL_UNAVAILABLE'])
+
+/** AIServiceError codes used by the canvas endpoints */
+const SERVICE_ERROR_CODES: Record<string, AIError['code']> = {
+  AUTH_ERROR: 'AUTHENTICATION_FAILED',
+  NETWORK_ERROR: 'MODEL_UNAVAILABLE',
+  UNPROCESSABLE: 'INVALID_REQUEST',
+  API_ERROR: 'INTERNAL_ERROR'
+}
+
+/** Request types whose result depends on the canvas they are run against */
+const CANVAS_REQUEST_TYPES = new Set<AIRequestType>([
+  'suggest-improvement', 'analyze-composition', 'style-transfer',
+  'background-removal', 'object-detection', 'content-aware-fill'
+])
+
+/** Field every result of a type carries */
+const RESULT_FIELDS: Record<AIRequestType, [string, 'array' | 'object' | 'string']> = {
+  'generate-image': ['images', 'array'],
+  'generate-text': ['text', 'string'],
+  'suggest-improvement': ['suggestions', 'array'],
+  'analyze-composition': ['analysis', 'object'],
+  'color-palette': ['palette', 'object'],
+  'style-transfer': ['image', 'object'],
+  'background-removal': ['image', 'object'],
+  'object-detection': ['objects', 'array'],
+  'content-aware-fill': ['image', 'object']
+}
+
+function isAIErrorCode(code: string): code is AIError['code'] {
+  return (AI_ERROR_CODES as readonly string[]).includes(code)
+}
+
+function hasResultShape(type: AIRequestType, result: unknown): boolean {
+  if (!result || typeof result !== 'object') return false
+  const [field, kind] = RESULT_FIELDS[type]
+  const value = (result as Record<string, unknown>)[field]
+  if (kind === 'array') return Array.isArray(value)
+  if (kind === 'string') return typeof value === 'string'
+  return Boolean(value) && typeof value === 'object'
+}
@@ -0,0 +1,245 @@
+import type { AIError } from '../../../shared/types'
+import { AIRequestError, toAIError } from './AIRequestDispatcher'
+
+/**
+ * Token bucket settings: bursts of up to capacity requests, refilled continuously
+ */
+export interface RateLimit {
+  capacity: number
+  refillPerSecond: number
+}
+
+export interface AIRequestExecutorOptions {
+  /** Rate limit per endpoint (e.g. 'variations/generate' or an AIRequestType) */
+  rateLimits?: Record<string, RateLimit>
+  /** Rate limit for endpoints without their own; null turns limiting off (default 10 burst, 2/s) */
+  defaultRateLimit?: RateLimit | null
+  /** Attempts per request including the first (default 3) */
+  maxAttempts?: number
+  /** Delay before the first retry in ms, doubled for each later one (default 500) */
+  baseDelay?: number
+  /** Longest wait between attempts in ms; a longer retryAfter fails at once (default 10000) */
+  maxDelay?: number
+  /** Per-attempt timeout in ms for requests without their own (default 30000) */
+  timeout?: number
+  /** Spread backoff delays randomly over their upper half so clients do not retry in step (default true) */
+  jitter?: boolean
+}
+
+export interface RetryInfo {
+  /** Attempt that just failed, starting at 1 */
+  attempt: number
+  /** Milliseconds until the next attempt */
+  delay: number
+  error: AIError
+}
+
+export interface ExecuteOptions {
+  /** Per-attempt timeout in ms */
+  timeout?: number
+  /** Cancels waiting, retries and the attempt in flight; the call rejects with the abort reason */
+  signal?: AbortSignal
+  onRetry?: (info: RetryInfo) => void
+}
+
+const DEFAULT_RATE_LIMIT: RateLimit = { capacity: 10, refillPerSecond: 2 }
+
+/**
+ * Rate limiter that holds callers until a token is free
+ */
+export class TokenBucket {
+  private tokens: number
+  private updatedAt = Date.now()
+  private pausedUntil = 0
+
+  constructor(private limit: RateLimit) {
+    if (!(limit.capacity >= 1 && limit.refillPerSecond > 0)) {
+      throw new Error(`Invalid rate limit: capacity ${limit.capacity}, refill ${limit.refillPerSecond}/s`)
+    }
+    this.tokens = limit.capacity
+  }
+
+  /**
+   * Wait for a token and take it
+   */
+  async take(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      const wait = this.waitTime()
+      if (wait === 0) {
+        this.tokens -= 1
+        return
+      }
+      await sleep(wait, signal)
+    }
+  }
+
+  /**
+   * Hold every caller for ms, e.g. after the server answered RATE_LIMIT_EXCEEDED
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+  }
+
+  /**
+   * Whole tokens available right now
+   */
+  available(): number {
+    this.refill()
+    return Date.now() < this.pausedUntil ? 0 : Math.floor(this.tokens)
+  }
+
+  private waitTime(): number {
+    this.refill()
+    const now = Date.now()
+    if (now < this.pausedUntil) return this.pausedUntil - now
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.limit.refillPerSecond * 1000)
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    this.tokens = Math.min(this.limit.capacity, this.tokens + (now - this.updatedAt) / 1000 * this.limit.refillPerSecond)
+    this.updatedAt = now
+  }
+}
+
+/**
+ * Runs AI calls with per-endpoint rate limiting, timeouts, cancellation and retries
+ *
+ * Failures are retried only when their AIError is retryable (rate limits, timeouts,
+ * unavailable models). The server's retryAfter wins over exponential backoff; while a
+ * rate-limited request waits to retry, its endpoint's bucket is paused too, so requests
+ * queued behind it wait instead of hammering the server.
+ */
+export class AIRequestExecutor {
+  private buckets = new Map<string, TokenBucket>()
+  private rateLimits: Record<string, RateLimit>
+  private defaultRateLimit: RateLimit | null
+  private maxAttempts: number
+  private baseDelay: number
+  private maxDelay: number
+  private timeout: number
+  private jitter: boolean
+
+  constructor(options: AIRequestExecutorOptions = {}) {
+    this.rateLimits = options.rateLimits ?? {}
+    this.defaultRateLimit = options.defaultRateLimit === undefined ? DEFAULT_RATE_LIMIT : options.defaultRateLimit
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 3)
+    this.baseDelay = options.baseDelay ?? 500
+    this.maxDelay = options.maxDelay ?? 10_000
+    this.timeout = options.timeout ?? 30_000
+    this.jitter = options.jitter ?? true
+  }
+
+  /**
+   * Run task until it succeeds, fails for good or is cancelled
+   * task receives a signal that aborts when the attempt times out or the caller cancels.
+   * The last attempt's error is rethrown unchanged.
+   */
+  async execute<T>(endpoint: string, task: (signal: AbortSignal) => Promise<T>, options: ExecuteOptions = {}): Promise<T> {
+    const { signal } = options
+    const bucket = this.bucket(endpoint)
+
+    for (let attempt = 1; ; attempt++) {
+      await bucket?.take(signal)
+      if (signal?.aborted) throw signal.reason
+
+      try {
+        return await this.attempt(task, options.timeout ?? this.timeout, signal)
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason ?? error
+
+        const detail = toAIError(error)
+        const delay = this.retryDelay(attempt, detail)
+        if (delay === null) throw error
+        if (detail.code === 'RATE_LIMIT_EXCEEDED' && detail.retryAfter) {
+          bucket?.pause(delay)
+        }
+        options.onRetry?.({ attempt, delay, error: detail })
+        await sleep(delay, signal)
+      }
+    }
+  }
+
+  /**
+   * Bucket for an endpoint, created on first use
+   */
+  bucket(endpoint: string): TokenBucket | null {
+    const limit = this.rateLimits[endpoint] ?? this.defaultRateLimit
+    if (!limit) return null
+
+    let bucket = this.buckets.get(endpoint)
+    if (!bucket) {
+      bucket = new TokenBucket(limit)
+      this.buckets.set(endpoint, bucket)
+    }
+    return bucket
+  }
+
+  private async attempt<T>(task: (signal: AbortSignal) => Promise<T>, timeout: number, signal?: AbortSignal): Promise<T> {
+    const controller = new AbortController()
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let onAbort: (() => void) | undefined
+
+    const interrupted = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new AIRequestError({ code: 'TIMEOUT', message: `Request timed out after ${timeout}ms`, retryable: true })
+        controller.abort(error)
+        reject(error)
+      }, timeout)
+      onAbort = () => {
+        controller.abort(signal!.reason)
+        reject(signal!.reason)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+
+    try {
+      return await Promise.race([task(controller.signal), interrupted])
+    } finally {
+      clearTimeout(timer)
+      if (onAbort) signal?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  /**
+   * Milliseconds before the next attempt, or null to give up
+   */
+  private retryDelay(attempt: number, error: AIError): number | null {
+    if (!error.retryable || attempt >= this.maxAttempts) return null
+
+    if (error.retryAfter !== undefined && error.retryAfter > 0) {
+      const delay = error.retryAfter * 1000
+      return delay > this.maxDelay ? null : delay
+    }
+
+    const backoff = Math.min(this.maxDelay, this.baseDelay * 2 ** (attempt - 1))
+    return this.jitter ? Math.round(backoff / 2 + Math.random() * backoff / 2) : backoff
+  }
+}
+
+/**
+ * Whether an error is a cancellation rather than a failure
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError'
+}
+
+// Helpers
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
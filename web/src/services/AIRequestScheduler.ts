@@ -0,0 +1,306 @@
+import type { AIRequest } from '../../../shared/types'
+import type { AICollaborationState } from '../models/AICollaborationState'
+
+export type AIQueueItem = AICollaborationState['processingQueue'][number]
+
+export type AIRequestPriority = NonNullable<AIRequest['priority']>
+
+/**
+ * Queue priority for each AIRequest priority; higher runs first
+ */
+export const PRIORITY_LEVELS: Record<AIRequestPriority, number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+  urgent: 3
+}
+
+/**
+ * Runs one queue item; should stop work and reject when signal aborts
+ */
+export type AITaskHandler = (item: AIQueueItem, signal: AbortSignal) => Promise<unknown>
+
+export interface ScheduleRequest {
+  type: AIQueueItem['type']
+  prompt: string
+  /** Priority name or raw queue priority (default 'normal') */
+  priority?: AIRequestPriority | number
+  /** Variation the request belongs to; defaults to the current one, null detaches it from navigation */
+  variationId?: string | null
+}
+
+export interface ScheduledRequest {
+  id: string
+  /** Settles with the handler's result; rejects with an AbortError when cancelled */
+  result: Promise<unknown>
+  /** True when an identical pending or running request was reused */
+  deduplicated: boolean
+}
+
+export interface AIRequestSchedulerOptions {
+  /** Requests run at the same time (default 2) */
+  concurrency?: number
+}
+
+interface RunningItem {
+  item: AIQueueItem
+  controller: AbortController
+  startedAt: number
+}
+
+interface Deferred {
+  promise: Promise<unknown>
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+}
+
+/**
+ * Executes the processing queue of an AICollaborationState
+ *
+ * Pending items run in queue order (highest priority first, then oldest) with up to
+ * `concurrency` in flight. When every slot is busy an urgent item preempts a running
+ * low-priority one, which goes back to pending and runs again later. Scheduling a
+ * prompt that is already pending or running for the same type and variation joins
+ * the existing request. Every finished request is recorded in sessionMetrics;
+ * cancelled and preempted runs are not.
+ */
+export class AIRequestScheduler {
+  private running = new Map<string, RunningItem>()
+  private deferred = new Map<string, Deferred>()
+  private listeners = new Set<(state: AICollaborationState) => void>()
+  private idleWaiters: (() => void)[] = []
+  private concurrency: number
+
+  constructor(
+    private state: AICollaborationState,
+    private handler: AITaskHandler,
+    options: AIRequestSchedulerOptions = {}
+  ) {
+    this.concurrency = validConcurrency(options.concurrency ?? 2)
+
+    // Items left processing by an earlier session never finished; run them again
+    for (const item of state.processingQueue) {
+      if (item.status === 'processing') item.status = 'pending'
+    }
+  }
+
+  /**
+   * Queue a request and start it as soon as a slot is free
+   */
+  schedule(request: ScheduleRequest): ScheduledRequest {
+    const priority = typeof request.priority === 'number'
+      ? request.priority
+      : PRIORITY_LEVELS[request.priority ?? 'normal']
+    const variationId = request.variationId === undefined
+      ? this.state.variationId ?? undefined
+      : request.variationId ?? undefined
+
+    const duplicate = this.state.processingQueue.find(item =>
+      isActive(item) &&
+      item.type === request.type &&
+      item.prompt === request.prompt &&
+      item.variationId === variationId
+    )
+    if (duplicate) {
+      if (duplicate.status === 'pending' && priority > duplicate.priority) {
+        this.state.updateQueueItem(duplicate.id, { priority })
+        this.drain()
+      }
+      return { id: duplicate.id, result: this.deferredFor(duplicate.id).promise, deduplicated: true }
+    }
+
+    const id = this.state.addToQueue({ type: request.type, prompt: request.prompt, priority, variationId })
+    const { promise } = this.deferredFor(id)
+    this.drain()
+    return { id, result: promise, deduplicated: false }
+  }
+
+  /**
+   * Cancel a pending or running request and drop it from the queue
+   */
+  cancel(id: string, reason = 'Request cancelled'): boolean {
+    const item = this.state.processingQueue.find(candidate => candidate.id === id)
+    if (!item || !isActive(item)) return false
+
+    const error = abortError(reason)
+    this.running.get(id)?.controller.abort(error)
+    this.running.delete(id)
+    this.state.removeFromQueue(id)
+    this.deferred.get(id)?.reject(error)
+    this.deferred.delete(id)
+    this.drain()
+    return true
+  }
+
+  /**
+   * Move to another variation, cancelling requests made for any other one
+   * Returns how many requests were cancelled.
+   */
+  setVariation(variationId: string | null): number {
+    this.state.variationId = variationId
+    const stale = this.state.processingQueue.filter(item =>
+      isActive(item) && item.variationId !== undefined && item.variationId !== variationId
+    )
+    for (const item of stale) {
+      this.cancel(item.id, `Variation ${item.variationId} is no longer active`)
+    }
+    this.changed()
+    return stale.length
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.concurrency = validConcurrency(concurrency)
+    this.drain()
+  }
+
+  /**
+   * Start pending items while slots are free
+   * Called automatically; call it after adding items to the queue directly.
+   */
+  drain(): void {
+    for (;;) {
+      const next = this.state.getNextQueueItem()
+      if (!next) break
+      if (this.running.size >= this.concurrency && !this.preemptFor(next)) break
+      this.start(next)
+    }
+    this.changed()
+  }
+
+  /**
+   * Resolves once nothing is pending or running
+   */
+  whenIdle(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve()
+    return new Promise(resolve => {
+      this.idleWaiters.push(resolve)
+    })
+  }
+
+  /**
+   * Subscribe to queue changes; returns an unsubscribe function
+   */
+  addListener(listener: (state: AICollaborationState) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Cancel everything pending or running and stop notifying listeners
+   */
+  dispose(): void {
+    // Pending items first, so cancelling a running one does not start them
+    const active = this.state.processingQueue.filter(isActive)
+    const ordered = [...active.filter(item => item.status === 'pending'), ...active.filter(item => item.status === 'processing')]
+    for (const item of ordered) {
+      this.cancel(item.id, 'Scheduler disposed')
+    }
+    this.listeners.clear()
+  }
+
+  // Execution
+
+  private start(item: AIQueueItem): void {
+    const controller = new AbortController()
+    this.running.set(item.id, { item, controller, startedAt: Date.now() })
+    this.state.updateQueueItem(item.id, { status: 'processing' })
+
+    Promise.resolve()
+      .then(() => controller.signal.aborted ? Promise.reject(controller.signal.reason) : this.handler(item, controller.signal))
+      .then(
+        result => this.finish(item.id, controller, { result }),
+        error => this.finish(item.id, controller, { error })
+      )
+  }
+
+  private finish(id: string, controller: AbortController, outcome: { result?: unknown; error?: unknown }): void {
+    // Cancelled or preempted runs settle after they have been replaced; ignore them
+    const run = this.running.get(id)
+    if (run?.controller !== controller) return
+    this.running.delete(id)
+
+    const success = !('error' in outcome)
+    this.state.recordRequest(Date.now() - run.startedAt, success)
+    if (success) {
+      this.state.updateQueueItem(id, { status: 'completed', result: outcome.result })
+      this.deferred.get(id)?.resolve(outcome.result)
+    } else {
+      const error = outcome.error
+      this.state.updateQueueItem(id, { status: 'failed', error: error instanceof Error ? error.message : String(error) })
+      this.deferred.get(id)?.reject(error)
+    }
+    this.deferred.delete(id)
+    this.drain()
+  }
+
+  /**
+   * Free a slot for an urgent item by sending a running low-priority one back to pending
+   */
+  private preemptFor(item: AIQueueItem): boolean {
+    if (item.priority < PRIORITY_LEVELS.urgent) return false
+
+    let victim: RunningItem | undefined
+    for (const candidate of this.running.values()) {
+      if (candidate.item.priority <= PRIORITY_LEVELS.low && (!victim || candidate.item.priority < victim.item.priority)) {
+        victim = candidate
+      }
+    }
+    if (!victim) return false
+
+    victim.controller.abort(abortError(`Preempted by ${item.id}`))
+    this.running.delete(victim.item.id)
+    this.state.updateQueueItem(victim.item.id, { status: 'pending' })
+    return true
+  }
+
+  private deferredFor(id: string): Deferred {
+    let deferred = this.deferred.get(id)
+    if (!deferred) {
+      let resolve!: (value: unknown) => void
+      let reject!: (reason: unknown) => void
+      const promise = new Promise<unknown>((res, rej) => {
+        resolve = res
+        reject = rej
+      })
+      // Callers that never await the result should not see unhandled rejections
+      promise.catch(() => undefined)
+      deferred = { promise, resolve, reject }
+      this.deferred.set(id, deferred)
+    }
+    return deferred
+  }
+
+  private isIdle(): boolean {
+    return this.running.size === 0 && !this.state.getNextQueueItem()
+  }
+
+  private changed(): void {
+    for (const listener of this.listeners) {
+      listener(this.state)
+    }
+    if (this.idleWaiters.length > 0 && this.isIdle()) {
+      const waiters = this.idleWaiters
+      this.idleWaiters = []
+      waiters.forEach(resolve => resolve())
+    }
+  }
+}
+
+// Helpers
+
+function isActive(item: AIQueueItem): boolean {
+  return item.status === 'pending' || item.status === 'processing'
+}
+
+function abortError(message: string): DOMException {
+  return new DOMException(message, 'AbortError')
+}
+
+function validConcurrency(concurrency: number): number {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer, got ${concurrency}`)
+  }
+  return concurrency
+}
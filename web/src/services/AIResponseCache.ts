@@ -0,0 +1,278 @@
+import type { StorageAdapter } from './StorageAdapters'
+import type { DesignCanvas } from '../models/DesignCanvas'
+
+export interface AIResponseCacheOptions {
+  /** Backend that keeps cached responses across reloads; the cache stays in memory when omitted */
+  storage?: StorageAdapter
+  /** Key prefix for the cache; each entry is stored under its own key (default 'ai-response-cache') */
+  storageKey?: string
+  /** Milliseconds an entry stays valid (default one hour) */
+  ttl?: number
+  /** Most entries kept; the least recently used go first (default 200) */
+  maxEntries?: number
+  /** Most serialized characters kept across all entries (default 2,000,000) */
+  maxSize?: number
+  /** Checked on every lookup and write, e.g. () => state.settings.cacheResponses */
+  enabled?: () => boolean
+  /** Clock in epoch milliseconds; override in tests */
+  now?: () => number
+}
+
+export interface AIResponseCacheStats {
+  entries: number
+  size: number
+  hits: number
+  misses: number
+}
+
+interface CacheEntry {
+  key: string
+  /** Serialized value; every hit parses its own copy */
+  json: string
+  /** Epoch milliseconds when the entry was written */
+  storedAt: number
+}
+
+/**
+ * Content-addressed store for AI responses
+ * Keys come from cacheKey, so the same design asked the same question maps to the
+ * same entry no matter which canvas object or undo step produced it. Entries expire
+ * after the TTL and are evicted least recently used first once the entry or size
+ * limit is reached. Values go through JSON, so hits return plain data (dates become
+ * ISO strings) whether they came from memory or storage. Only successful responses
+ * should be stored.
+ */
+export class AIResponseCache {
+  private entries = new Map<string, CacheEntry>()
+  private size = 0
+  private hits = 0
+  private misses = 0
+  private persistQueue: Promise<void>
+  private persistScheduled = false
+  /** Entries as last written to storage, by key */
+  private persisted = new Map<string, CacheEntry>()
+
+  private storage: StorageAdapter | null
+  private storageKey: string
+  private ttl: number
+  private maxEntries: number
+  private maxSize: number
+  private enabled: () => boolean
+  private now: () => number
+
+  /** Resolves with the number of entries restored from storage */
+  readonly ready: Promise<number>
+
+  constructor(options: AIResponseCacheOptions = {}) {
+    this.storage = options.storage ?? null
+    this.storageKey = options.storageKey ?? 'ai-response-cache'
+    this.ttl = options.ttl ?? 60 * 60 * 1000
+    this.maxEntries = options.maxEntries ?? 200
+    this.maxSize = options.maxSize ?? 2_000_000
+    this.enabled = options.enabled ?? (() => true)
+    this.now = options.now ?? (() => Date.now())
+
+    this.ready = this.restore().catch(error => {
+      console.error('Failed to restore AI response cache:', error)
+      return 0
+    })
+    // Nothing is written until the stored cache has been read back
+    this.persistQueue = this.ready.then(() => undefined)
+  }
+
+  /**
+   * Whether lookups and writes currently go through
+   */
+  isEnabled(): boolean {
+    return this.enabled()
+  }
+
+  /**
+   * Cached value for key, or null when missing, expired or caching is off
+   */
+  async get<T>(key: string): Promise<T | null> {
+    if (!this.enabled()) return null
+    await this.ready
+
+    const entry = this.entries.get(key)
+    if (!entry || this.isExpired(entry)) {
+      if (entry) this.remove(entry)
+      this.misses++
+      return null
+    }
+
+    // Re-insert so iteration order stays least recently used first
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    this.hits++
+    return JSON.parse(entry.json) as T
+  }
+
+  /**
+   * Store a value, evicting old entries to stay within the limits
+   * Values larger than maxSize on their own are not stored.
+   */
+  async set<T>(key: string, value: T): Promise<void> {
+    if (!this.enabled()) return
+    await this.ready
+
+    const json = JSON.stringify(value)
+    const existing = this.entries.get(key)
+    if (existing) this.remove(existing)
+    if (json.length <= this.maxSize) {
+      this.entries.set(key, { key, json, storedAt: this.now() })
+      this.size += json.length
+      this.evict()
+    }
+    this.changed()
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ready
+    const entry = this.entries.get(key)
+    if (entry) {
+      this.remove(entry)
+      this.changed()
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.ready
+    this.entries.clear()
+    this.size = 0
+    this.changed()
+  }
+
+  stats(): AIResponseCacheStats {
+    return { entries: this.entries.size, size: this.size, hits: this.hits, misses: this.misses }
+  }
+
+  /**
+   * Resolves once every change made so far has been written to storage
+   */
+  flush(): Promise<void> {
+    return this.persistQueue
+  }
+
+  private evict(): void {
+    for (const entry of this.entries.values()) {
+      if (this.entries.size <= this.maxEntries && this.size <= this.maxSize) break
+      this.remove(entry)
+    }
+  }
+
+  private remove(entry: CacheEntry): void {
+    this.entries.delete(entry.key)
+    this.size -= entry.json.length
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    return this.now() - entry.storedAt >= this.ttl
+  }
+
+  private async restore(): Promise<number> {
+    if (!this.storage) {
+      return 0
+    }
+
+    const storage = this.storage
+    const prefix = this.entryKey('')
+    const keys = (await storage.keys()).filter(key => key.startsWith(prefix))
+    const stored = await Promise.all(keys.map(key => storage.get<CacheEntry>(key)))
+
+    // Least recently used is not stored per entry; oldest written goes first instead
+    const restored = stored
+      .filter((entry): entry is CacheEntry => entry !== null)
+      .sort((a, b) => a.storedAt - b.storedAt)
+    for (const entry of restored) {
+      this.persisted.set(entry.key, entry)
+      if (!this.isExpired(entry)) {
+        this.entries.set(entry.key, entry)
+        this.size += entry.json.length
+      }
+    }
+    this.evict()
+
+    // Drop expired and evicted entries from storage
+    if (this.entries.size < this.persisted.size) {
+      this.changed()
+    }
+    return this.entries.size
+  }
+
+  private entryKey(key: string): string {
+    return `${this.storageKey}/${key}`
+  }
+
+  private changed(): void {
+    if (!this.storage || this.persistScheduled) {
+      return
+    }
+
+    // Coalesce bursts of changes into one write pass
+    this.persistScheduled = true
+    this.persistQueue = this.persistQueue
+      .then(() => {
+        this.persistScheduled = false
+        return this.persistChanges()
+      })
+      .catch(error => {
+        console.error('Failed to persist AI response cache:', error)
+      })
+  }
+
+  /**
+   * Write only the entries added or removed since the last pass
+   */
+  private async persistChanges(): Promise<void> {
+    const storage = this.storage!
+    const writes: Promise<void>[] = []
+
+    for (const [key, entry] of this.entries) {
+      if (this.persisted.get(key) !== entry) {
+        this.persisted.set(key, entry)
+        writes.push(storage.set<CacheEntry>(this.entryKey(key), entry))
+      }
+    }
+    for (const key of Array.from(this.persisted.keys())) {
+      if (!this.entries.has(key)) {
+        this.persisted.delete(key)
+        writes.push(storage.delete(this.entryKey(key)))
+      }
+    }
+
+    await Promise.all(writes)
+  }
+}
+
+/**
+ * SHA-256 of the canonical JSON of parts, as hex
+ */
+export async function cacheKey(parts: Record<string, unknown>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson(parts)))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * JSON with object keys sorted, so equal values always serialize the same way
+ * Undefined properties are dropped and dates are written as ISO strings, as JSON.stringify does.
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, current) => {
+    if (current === null || typeof current !== 'object' || Array.isArray(current)) {
+      return current
+    }
+    return Object.fromEntries(Object.keys(current).sort().map(key => [key, current[key]]))
+  })
+}
+
+/**
+ * The parts of a canvas an AI response depends on
+ * The canvas id, editing state and canvas and layer metadata (timestamps, versions)
+ * are left out, so a design edited back to an earlier look or duplicated into
+ * another variation shares its cache entries.
+ */
+export function canvasContent(canvas: DesignCanvas): Record<string, unknown> {
+  const { deviceType, dimensions, layers } = canvas.toJSON()
+  return { deviceType, dimensions, layers: layers.map(({ metadata: _metadata, ...layer }) => layer) }
+}
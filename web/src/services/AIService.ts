@@ -1,16 +1,22 @@
-import { DesignCanvas } from '../entities/DesignCanvas'
+import { DesignCanvas } from '../models/DesignCanvas'
+import { DesignVariation } from '../models/DesignVariation'
+import { toCanvasModel, CanvasInput } from '../models/adapters'
 import { AIServiceError } from '../types'
+import { AIProvider, RemoteAIProvider } from './AIProvider'
+import type { ProviderAnalysisResult } from './AIProvider'
+import { AIRequestDispatcher } from './AIRequestDispatcher'
+import { AIRequestExecutor } from './AIRequestExecutor'
+import { cacheKey, canvasContent } from './AIResponseCache'
+import type { AIResponseCache } from './AIResponseCache'
+import type { VariationStreamEvent } from './VariationStream'
+import type { AIDispatchOptions, TypedAIRequest, TypedAIResponse } from './AIRequestDispatcher'
+import type { AIRequestType } from '../../../shared/types'
 
 /**
- * Canvas analysis         try {
-          baseCanvas = new DesignCanvas(request.canvas as any)
-        } catch (error) {
-          console.error('Canvas validation error:', error);
-          throw new AIServiceError('Invalid canvas data', 'VALIDATION_ERROR')
-        }st matching ai-api.yaml specification
+ * Canvas analysis request matching ai-api.yaml specification
  */
 export interface CanvasAnalysisRequest {
-  canvas: DesignCanvas | any
+  canvas: CanvasInput
   deviceType: string
   analysisType: ('trends' | 'creative' | 'accessibility' | 'performance')[]
   userPreferences?: UserPreferences
@@ -48,16 +54,20 @@ export interface CanvasAnalysisResponse {
   confidence: number
   trends?: TrendData
   processingTime: number
+  /** Set when a response cache is configured: true when this came from it */
+  cacheHit?: boolean
 }
 
 /**
  * Variation generation request
  */
 export interface VariationRequest {
-  baseCanvas: DesignCanvas | any
+  baseCanvas: CanvasInput
   variationType: 'creative' | 'trend-based' | 'accessibility' | 'brand-aligned'
   count: number
   preferences?: UserPreferences
+  /** Seed for providers that support reproducible output */
+  seed?: number
 }
 
 /**
@@ -66,6 +76,8 @@ export interface VariationRequest {
 export interface VariationResponse {
   requestId: string
   variations: DesignCanvas[]
+  /** Full variation records (prompt, source, confidence) for each canvas */
+  designVariations?: DesignVariation[]
   confidence: number
   processingTime: number
 }
@@ -80,6 +92,16 @@ export interface UserPreferences {
   brandColors?: string[]
 }
 
+/**
+ * Per-call options for AIService requests
+ */
+export interface AIRequestOptions {
+  /** Cancels the call, including rate-limit waits and retries; it rejects with the abort reason */
+  signal?: AbortSignal
+  /** Per-attempt timeout in ms (default: the executor's) */
+  timeout?: number
+}
+
 /**
  * Current trends response
  */
@@ -91,84 +113,63 @@ export interface CurrentTrendsResponse {
 }
 
 /**
- * AI Service for Gemini API integration
- * Implements the contract specifications from ai-api.yaml
+ * AI Service for canvas analysis and variation generation
+ * Validates requests against ai-api.yaml and delegates to a pluggable AIProvider
+ * (remote Gemini by default, or the offline LocalAIProvider). Provider calls go through
+ * an AIRequestExecutor, which rate-limits each endpoint and retries retryable failures.
+ * With an AIResponseCache configured, analyses and typed requests for content that was
+ * already answered are served from it.
  */
 export class AIService {
-  private baseUrl: string
-  private apiKey: string
-
-  constructor(apiKey?: string, baseUrl?: string) {
-    // For web environment, API configuration should be passed explicitly
-    this.baseUrl = baseUrl || 'https://ai.gemini.googleapis.com/v1'
-    this.apiKey = apiKey || ''
+  private provider: AIProvider
+  private executor: AIRequestExecutor
+  private cache: AIResponseCache | null = null
+  private dispatcher: AIRequestDispatcher
+
+  constructor(apiKey?: string, baseUrl?: string, provider?: AIProvider, executor?: AIRequestExecutor) {
+    this.provider = provider ?? new RemoteAIProvider(apiKey, baseUrl)
+    this.executor = executor ?? new AIRequestExecutor()
+    this.dispatcher = this.createDispatcher()
   }
 
   /**
    * Analyze canvas for AI suggestions
    * POST /canvas/analyze
    */
-  async analyzeCanvas(request: CanvasAnalysisRequest): Promise<CanvasAnalysisResponse> {
+  async analyzeCanvas(request: CanvasAnalysisRequest, options: AIRequestOptions = {}): Promise<CanvasAnalysisResponse> {
     const startTime = Date.now()
     
-    try {
-      if (!this.apiKey) {
-        throw new AIServiceError('API key not configured', 'AUTH_ERROR')
-      }
-
-      // Validate canvas data - accept either DesignCanvas instance or plain data
-      let canvas: DesignCanvas;
-      if (request.canvas instanceof DesignCanvas) {
-        canvas = request.canvas;
-        if (!canvas.isValid()) {
-          throw new AIServiceError('Invalid canvas data', 'VALIDATION_ERROR')
-        }
-      } else if (request.canvas && typeof request.canvas === 'object') {
-        // Create DesignCanvas from plain data (e.g., from API)
-        try {
-          canvas = new DesignCanvas(request.canvas as any)
-        } catch (error) {
-          console.error('Canvas validation error:', error);
-          throw new AIServiceError('Invalid canvas data', 'VALIDATION_ERROR')
-        }
-      } else {
-        throw new AIServiceError('Canvas data is required', 'VALIDATION_ERROR')
-      }
-
-      const response = await fetch(`${this.baseUrl}/canvas/analyze`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify({
-          canvas: canvas.toJSON(),
-          deviceType: request.deviceType,
-          analysisType: request.analysisType,
-          userPreferences: request.userPreferences
-        })
-      })
-
-      if (!response.ok) {
-        const error = await response.text()
-        throw new AIServiceError(`Analysis failed: ${error}`, 'API_ERROR')
-      }
+    // Validate canvas data - accept a model or plain data
+    const canvas = this.resolveCanvas(request.canvas, 'Canvas data is required', 'Invalid canvas data')
+
+    const cache = this.cache?.isEnabled() ? this.cache : null
+    const key = cache && await cacheKey({
+      provider: this.provider.name,
+      endpoint: 'canvas/analyze',
+      canvas: canvasContent(canvas),
+      deviceType: request.deviceType,
+      analysisType: request.analysisType,
+      userPreferences: request.userPreferences
+    })
+    const cached = key ? await cache!.get<ProviderAnalysisResult>(key) : null
+    if (cached) {
+      return { ...cached, processingTime: Date.now() - startTime, cacheHit: true }
+    }
 
-      const data = await response.json()
-      const processingTime = Date.now() - startTime
+    const result = await this.execute('canvas/analyze', signal => this.provider.analyzeCanvas(canvas, {
+      deviceType: request.deviceType,
+      analysisType: request.analysisType,
+      userPreferences: request.userPreferences,
+      signal
+    }), options)
+    if (key) {
+      await cache!.set(key, result)
+    }
 
-      return {
-        analysisId: data.analysisId,
-        suggestions: data.suggestions,
-        confidence: data.confidence,
-        trends: data.trends,
-        processingTime
-      }
-    } catch (error) {
-      if (error instanceof AIServiceError) {
-        throw error
-      }
-      throw new AIServiceError(`Canvas analysis failed: ${error}`, 'NETWORK_ERROR')
+    return {
+      ...result,
+      processingTime: Date.now() - startTime,
+      ...(key && { cacheHit: false })
     }
   }
 
@@ -176,141 +177,198 @@ export class AIService {
    * Generate design variations
    * POST /variations/generate
    */
-  async generateVariations(request: VariationRequest): Promise<VariationResponse> {
+  async generateVariations(request: VariationRequest, options: AIRequestOptions = {}): Promise<VariationResponse> {
     const startTime = Date.now()
 
-    try {
-      if (!this.apiKey) {
-        throw new AIServiceError('API key not configured', 'AUTH_ERROR')
-      }
+    const { baseCanvas, variationOptions } = this.resolveVariationRequest(request)
+    const result = await this.execute('variations/generate', signal => this.provider.generateVariations(baseCanvas, {
+      ...variationOptions,
+      signal
+    }), options)
+
+    return {
+      requestId: result.requestId,
+      variations: result.variations.map(variation => variation.canvasState),
+      designVariations: result.variations,
+      confidence: result.confidence,
+      processingTime: Date.now() - startTime
+    }
+  }
 
-      // Validate input - accept either DesignCanvas instance or plain data
-      let baseCanvas: DesignCanvas;
-      if (request.baseCanvas instanceof DesignCanvas) {
-        baseCanvas = request.baseCanvas;
-        if (!baseCanvas.isValid()) {
-          throw new AIServiceError('Invalid base canvas', 'VALIDATION_ERROR')
-        }
-      } else if (request.baseCanvas && typeof request.baseCanvas === 'object') {
-        // Create DesignCanvas from plain data
-        try {
-          baseCanvas = new DesignCanvas(request.baseCanvas as any)
-        } catch (error) {
-          throw new AIServiceError('Invalid base canvas', 'VALIDATION_ERROR')
-        }
-      } else {
-        throw new AIServiceError('Base canvas is required', 'VALIDATION_ERROR')
+  /**
+   * Generate design variations, yielding each one as soon as it is ready
+   * POST /variations/generate
+   * Providers without streaming support deliver their whole batch at once. Opening
+   * the stream is rate-limited and retried like other calls; once variations are
+   * flowing, a failure ends the stream with that error. Stopping iteration early
+   * or aborting options.signal closes the connection.
+   */
+  async *streamVariations(request: VariationRequest, options: AIRequestOptions = {}): AsyncGenerator<VariationStreamEvent> {
+    const { baseCanvas, variationOptions } = this.resolveVariationRequest(request)
+    const provider = this.provider
+
+    if (!provider.streamVariations) {
+      const result = await this.execute('variations/generate', signal => provider.generateVariations(baseCanvas, {
+        ...variationOptions,
+        signal
+      }), options)
+      const total = result.variations.length
+      for (const [index, variation] of result.variations.entries()) {
+        yield { type: 'variation', variation, index, total }
       }
+      yield { type: 'complete', requestId: result.requestId, confidence: result.confidence, total }
+      return
+    }
 
-      if (request.count < 1 || request.count > 5) {
-        throw new AIServiceError('Variation count must be between 1 and 5', 'VALIDATION_ERROR')
-      }
+    let connection: AbortController | undefined
+    try {
+      const events = await this.execute('variations/generate', signal => {
+        connection?.abort()
+        connection = linkedController(signal, options.signal)
+        return provider.streamVariations!(baseCanvas, { ...variationOptions, signal: connection.signal })
+      }, options)
+      yield* events
+    } finally {
+      connection?.abort()
+    }
+  }
 
-      const response = await fetch(`${this.baseUrl}/variations/generate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify({
-          baseCanvas: baseCanvas.toJSON(),
-          variationType: request.variationType,
-          count: request.count,
-          preferences: request.preferences
-        })
-      })
-
-      if (!response.ok) {
-        const error = await response.text()
-        throw new AIServiceError(`Variation generation failed: ${error}`, 'API_ERROR')
-      }
+  /**
+   * Get current design trends
+   * GET /trends/current
+   */
+  async getCurrentTrends(options: AIRequestOptions = {}): Promise<CurrentTrendsResponse> {
+    return this.execute('trends/current', signal => this.provider.getCurrentTrends({ signal }), options)
+  }
 
-      const data = await response.json()
-      const processingTime = Date.now() - startTime
+  /**
+   * Run any AIRequestType through the provider
+   * Invalid parameters and provider failures come back as error responses; only
+   * cancellation through options.signal rejects.
+   */
+  async request<T extends AIRequestType>(request: TypedAIRequest<T>, options?: AIDispatchOptions): Promise<TypedAIResponse<T>> {
+    return this.dispatcher.dispatch(request, options)
+  }
 
-      // Convert response variations back to DesignCanvas instances
-      const variations = data.variations.map((canvasData: any) => 
-        DesignCanvas.fromJSON(canvasData)
-      )
+  /**
+   * Request types the active provider implements
+   */
+  supportedRequestTypes(): AIRequestType[] {
+    return this.dispatcher.supportedTypes()
+  }
 
-      return {
-        requestId: data.requestId,
-        variations,
-        confidence: data.confidence,
-        processingTime
-      }
-    } catch (error) {
-      if (error instanceof AIServiceError) {
-        throw error
-      }
-      throw new AIServiceError(`Variation generation failed: ${error}`, 'NETWORK_ERROR')
-    }
+  /**
+   * Check if AI service is available
+   */
+  async healthCheck(): Promise<boolean> {
+    return this.provider.healthCheck()
   }
 
   /**
-   * Get current design trends
-   * GET /trends/current
+   * Active provider
    */
-  async getCurrentTrends(): Promise<CurrentTrendsResponse> {
-    try {
-      if (!this.apiKey) {
-        throw new AIServiceError('API key not configured', 'AUTH_ERROR')
-      }
+  getProvider(): AIProvider {
+    return this.provider
+  }
 
-      const response = await fetch(`${this.baseUrl}/trends/current`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`
-        }
-      })
+  /**
+   * Run a provider call through the executor
+   * Providers report connection failures as NETWORK_ERRORs, which are retried; any
+   * other error, such as a TypeError from a bug, is rethrown unchanged.
+   */
+  private execute<T>(endpoint: string, call: (signal: AbortSignal) => Promise<T>, options: AIRequestOptions): Promise<T> {
+    return this.executor.execute(endpoint, call, options)
+  }
 
-      if (!response.ok) {
-        const error = await response.text()
-        throw new AIServiceError(`Trends request failed: ${error}`, 'API_ERROR')
-      }
+  private createDispatcher(): AIRequestDispatcher {
+    return new AIRequestDispatcher([this.provider], { executor: this.executor, cache: this.cache ?? undefined })
+  }
 
-      const data = await response.json()
+  /**
+   * Validate a variation request and split off its base canvas
+   */
+  private resolveVariationRequest(request: VariationRequest): { baseCanvas: DesignCanvas; variationOptions: Omit<VariationRequest, 'baseCanvas'> } {
+    // Validate input - accept a model or plain data
+    const baseCanvas = this.resolveCanvas(request.baseCanvas, 'Base canvas is required', 'Invalid base canvas')
 
-      return {
-        trendsId: data.trendsId,
-        categories: data.categories,
-        lastUpdated: data.lastUpdated,
-        confidence: data.confidence
-      }
-    } catch (error) {
-      if (error instanceof AIServiceError) {
-        throw error
-      }
-      throw new AIServiceError(`Trends request failed: ${error}`, 'NETWORK_ERROR')
+    if (request.count < 1 || request.count > 5) {
+      throw new AIServiceError('Variation count must be between 1 and 5', 'VALIDATION_ERROR')
     }
+
+    const { baseCanvas: _baseCanvas, ...variationOptions } = request
+    return { baseCanvas, variationOptions }
   }
 
   /**
-   * Check if AI service is available
+   * Normalise a request canvas into the domain model
    */
-  async healthCheck(): Promise<boolean> {
+  private resolveCanvas(input: CanvasInput | undefined, missingMessage: string, invalidMessage: string): DesignCanvas {
+    if (!input || typeof input !== 'object') {
+      throw new AIServiceError(missingMessage, 'VALIDATION_ERROR')
+    }
+
+    let canvas: DesignCanvas
     try {
-      const response = await fetch(`${this.baseUrl}/health`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`
-        }
-      })
-      return response.ok
+      canvas = toCanvasModel(input)
     } catch {
-      return false
+      throw new AIServiceError(invalidMessage, 'VALIDATION_ERROR')
+    }
+
+    if (!canvas.isValid()) {
+      throw new AIServiceError(invalidMessage, 'VALIDATION_ERROR')
     }
+    return canvas
   }
 
   /**
-   * Configure API settings
+   * Configure API settings or swap the provider
    */
-  configure(options: { apiKey?: string; baseUrl?: string }) {
-    if (options.apiKey) {
-      this.apiKey = options.apiKey
+  configure(options: {
+    apiKey?: string
+    baseUrl?: string
+    provider?: AIProvider
+    executor?: AIRequestExecutor
+    /** Response cache; null turns caching off */
+    cache?: AIResponseCache | null
+  }) {
+    if (options.executor) {
+      this.executor = options.executor
+    }
+    if (options.provider) {
+      this.provider = options.provider
+    }
+    if (options.cache !== undefined) {
+      this.cache = options.cache
     }
-    if (options.baseUrl) {
-      this.baseUrl = options.baseUrl
+    if (options.provider || options.executor || options.cache !== undefined) {
+      this.dispatcher = this.createDispatcher()
+    }
+    if ((options.apiKey || options.baseUrl) && this.provider instanceof RemoteAIProvider) {
+      this.provider.configure({ apiKey: options.apiKey, baseUrl: options.baseUrl })
     }
   }
-}
\ No newline at end of file
+}
+
+// Helpers
+
+/**
+ * Controller that aborts as soon as any of the given signals does
+ * Aborting it detaches its listeners from the given signals.
+ */
+function linkedController(...signals: (AbortSignal | undefined)[]): AbortController {
+  const controller = new AbortController()
+  const sources = signals.filter((signal): signal is AbortSignal => signal !== undefined)
+  const forward = (event: Event) => controller.abort((event.target as AbortSignal).reason)
+  controller.signal.addEventListener('abort', () => {
+    for (const signal of sources) signal.removeEventListener('abort', forward)
+  }, { once: true })
+
+  for (const signal of sources) {
+    if (signal.aborted) {
+      controller.abort(signal.reason)
+      break
+    }
+    signal.addEventListener('abort', forward, { once: true })
+  }
+  return controller
+}
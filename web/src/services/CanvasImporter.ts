@@ -0,0 +1,977 @@
+import { DesignCanvas, LayerData } from '../models/DesignCanvas'
+import { DEVICE_SPECIFICATIONS } from '../data/device-specs'
+import { CanvasState, DeviceType, LayerContent, LayerStyle, LayerType } from '../types'
+import type { ConversionIssue } from './CanvasStateConverter'
+import type { HistoryManager, HistoryNode } from './HistoryManager'
+import { parseCssColor } from './CssColor'
+import { standardFont, textWidth } from './FontMetrics'
+
+export interface ImportOptions {
+  /** Device the imported canvas is laid out for */
+  deviceType: DeviceType
+  /**
+   * How the design is scaled to the device (default 'contain'): 'contain' fits it whole
+   * and centres it, 'cover' fills the screen and crops the overflow
+   */
+  fit?: 'contain' | 'cover'
+  /** Background when the design has none of its own (default '#ffffff') */
+  background?: string
+}
+
+export interface ImportResult {
+  canvas: DesignCanvas
+  format: 'svg' | 'json'
+  /** Everything that could not be imported as-is; paths point into the source document */
+  issues: ConversionIssue[]
+}
+
+/**
+ * Figma-export-like design file accepted by importDesignJson
+ *
+ * The frame's width and height are the artboard; every node is positioned relative to
+ * its parent in design pixels. Paints and effects follow Figma's REST API shapes
+ * (colours use 0–1 channels, fills paint bottom to top). Rotation is in degrees,
+ * clockwise about the node's top-left corner.
+ */
+export interface DesignFile {
+  name?: string
+  frame: DesignNode
+}
+
+export interface DesignNode {
+  type: 'FRAME' | 'GROUP' | 'RECTANGLE' | 'ELLIPSE' | 'TEXT' | 'IMAGE'
+  id?: string
+  name?: string
+  x?: number
+  y?: number
+  width: number
+  height: number
+  rotation?: number
+  opacity?: number
+  visible?: boolean
+  fills?: DesignPaint[]
+  strokes?: DesignPaint[]
+  strokeWeight?: number
+  cornerRadius?: number
+  effects?: DesignEffect[]
+  /** TEXT: the text content */
+  characters?: string
+  /** TEXT: font settings */
+  style?: DesignTextStyle
+  /** IMAGE: the image source; rectangles can also carry an IMAGE fill */
+  imageUrl?: string
+  children?: DesignNode[]
+}
+
+export interface DesignColor {
+  r: number
+  g: number
+  b: number
+  a?: number
+}
+
+export type DesignPaint =
+  | { type: 'SOLID'; color: DesignColor; opacity?: number; visible?: boolean }
+  | { type: 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL'; gradientStops: Array<{ position: number; color: DesignColor }>; visible?: boolean }
+  | { type: 'IMAGE'; imageUrl: string; visible?: boolean }
+
+export type DesignEffect =
+  | { type: 'DROP_SHADOW' | 'INNER_SHADOW'; offset: { x: number; y: number }; radius: number; spread?: number; color: DesignColor; visible?: boolean }
+  | { type: 'LAYER_BLUR' | 'BACKGROUND_BLUR'; radius: number; visible?: boolean }
+
+export interface DesignTextStyle {
+  fontFamily?: string
+  fontSize?: number
+  /** 100–900 */
+  fontWeight?: number
+  italic?: boolean
+  textAlignHorizontal?: 'LEFT' | 'CENTER' | 'RIGHT' | 'JUSTIFIED'
+  lineHeightPx?: number
+}
+
+export class CanvasImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CanvasImportError'
+  }
+}
+
+const DEFAULT_FONT_SIZE = 16
+const DEFAULT_LINE_HEIGHT = 1.2
+/** Layers have no intrinsic size: scale 1 is a 100×100 box */
+const BASE_LAYER_SIZE = 100
+const XLINK = 'http://www.w3.org/1999/xlink'
+
+/**
+ * Import an SVG document
+ *
+ * rect, circle, ellipse, polygon, text (with tspans), image and g elements become
+ * layers; transforms, opacity, fills and strokes (including inherited presentation
+ * attributes and style="" declarations) and gradients from <defs> are carried over. A
+ * leading rect covering the whole view box becomes the background. Documents written by
+ * toSvg import back with their layer ids.
+ */
+export function importSvg(source: string, options: ImportOptions): ImportResult {
+  const document = new DOMParser().parseFromString(source, 'image/svg+xml')
+  const root = document.documentElement
+  if (root.nodeName !== 'svg' || document.getElementsByTagName('parsererror').length > 0) {
+    throw new CanvasImportError('The file is not a well-formed SVG document')
+  }
+
+  const viewBox = (root.getAttribute('viewBox') ?? '').split(/[\s,]+/).filter(Boolean).map(Number)
+  const [minX, minY, width, height] = viewBox.length === 4 && viewBox.every(Number.isFinite)
+    ? viewBox
+    : [0, 0, length(root.getAttribute('width')), length(root.getAttribute('height'))]
+  if (!(width > 0 && height > 0)) {
+    throw new CanvasImportError('The SVG has neither a view box nor a width and height')
+  }
+
+  const builder = new LayerBuilder(options, { width, height })
+  const reader = new SvgReader(document, builder, { x: minX, y: minY, width, height })
+  reader.readChildren(root, multiply(builder.fit, translation(-minX, -minY)), INITIAL_PRESENTATION, 'svg')
+
+  return builder.finish('svg', root.querySelector('title')?.textContent?.trim() || undefined)
+}
+
+/**
+ * Import a design file in the DesignFile format (an object or its JSON text)
+ */
+export function importDesignJson(source: DesignFile | string, options: ImportOptions): ImportResult {
+  let file: DesignFile
+  try {
+    file = typeof source === 'string' ? JSON.parse(source) : source
+  } catch (error) {
+    throw new CanvasImportError(`The file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const frame = file?.frame
+  if (!frame || typeof frame !== 'object' || !(frame.width > 0 && frame.height > 0)) {
+    throw new CanvasImportError('The design file needs a frame with a positive width and height')
+  }
+
+  const builder = new LayerBuilder(options, { width: frame.width, height: frame.height })
+  const reader = new DesignNodeReader(builder)
+  reader.readFrameBackground(frame)
+  reader.readChildren(frame.children ?? [], builder.fit, 'frame', frame.visible !== false)
+
+  return builder.finish('json', file.name ?? frame.name)
+}
+
+/**
+ * Import an SVG or design JSON file, told apart by its first character
+ */
+export function importDesignFile(source: string, options: ImportOptions): ImportResult {
+  return source.trimStart().startsWith('<') ? importSvg(source, options) : importDesignJson(source, options)
+}
+
+/**
+ * Add an import to the history: the root of an empty history, otherwise a child of
+ * parentId (default: the current node)
+ */
+export function recordImport(
+  manager: HistoryManager,
+  result: ImportResult,
+  options: { fileName?: string; parentId?: string } = {}
+): HistoryNode {
+  const metadata = {
+    source: 'import' as const,
+    description: `Imported ${options.fileName ?? result.canvas.metadata.description ?? `${result.format.toUpperCase()} design`}`,
+    tags: ['import', result.format]
+  }
+  return manager.getState().nodes.size === 0
+    ? manager.initialize(result.canvas, metadata)
+    : manager.addNode(result.canvas, options.parentId, metadata)
+}
+
+// Layers
+
+type Matrix = [number, number, number, number, number, number]
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Places boxes through the accumulated transform and collects layers and issues
+ */
+class LayerBuilder {
+  /** Design space to device space */
+  readonly fit: Matrix
+  readonly issues: ConversionIssue[] = []
+  private layers: LayerData[] = []
+  private ids = new Set<string>()
+  private counters = new Map<string, number>()
+  private hasBackground = false
+  private now = new Date()
+
+  constructor(private options: ImportOptions, private source: { width: number; height: number }) {
+    const { width, height } = DEVICE_SPECIFICATIONS[options.deviceType].dimensions
+    const scale = (options.fit ?? 'contain') === 'cover'
+      ? Math.max(width / source.width, height / source.height)
+      : Math.min(width / source.width, height / source.height)
+    this.fit = [scale, 0, 0, scale, (width - source.width * scale) / 2, (height - source.height * scale) / 2]
+  }
+
+  /**
+   * Whether a box is the full artboard, so it can serve as the background
+   */
+  coversArtboard(box: Box, matrix: Matrix, origin: { x: number; y: number } = { x: 0, y: 0 }): boolean {
+    const [a, b, c, d] = matrix
+    const scale = this.fit[0]
+    return !this.hasBackground && this.layers.length === 0 && b === 0 && c === 0 &&
+      Math.abs(a - scale) < 1e-9 && Math.abs(d - scale) < 1e-9 &&
+      Math.abs(box.x - origin.x) < 0.5 && Math.abs(box.y - origin.y) < 0.5 &&
+      Math.abs(box.width - this.source.width) < 0.5 && Math.abs(box.height - this.source.height) < 0.5
+  }
+
+  background(content: LayerContent, path: string, id?: string): string {
+    this.hasBackground = true
+    return this.push({
+      id: this.uniqueId(id, 'background'),
+      type: LayerType.BACKGROUND,
+      content,
+      transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+      style: {},
+      visible: true
+    }, path)
+  }
+
+  /**
+   * Add a layer occupying box in the coordinate system of matrix
+   */
+  layer(
+    type: LayerType,
+    box: Box,
+    matrix: Matrix,
+    data: { id?: string; content: LayerContent; style?: LayerStyle; opacity?: number; visible?: boolean },
+    path: string
+  ): string {
+    const [a, b, c, d, e, f] = matrix
+    const axis = Math.hypot(a, b)
+    const determinant = a * d - b * c
+    if (Math.abs(a * c + b * d) > 1e-6 * axis * axis) {
+      this.issues.push({ path, kind: 'approximated', message: 'Skew is not supported; the layer keeps its rotation and scale only' })
+    }
+    if (determinant < 0) {
+      this.issues.push({ path, kind: 'approximated', message: 'Mirrored content is imported unmirrored' })
+    }
+
+    const rotation = ((Math.atan2(b, a) * 180 / Math.PI) % 360 + 360) % 360
+    return this.push({
+      id: this.uniqueId(data.id, type),
+      type,
+      content: data.content,
+      transform: {
+        x: round(a * box.x + c * box.y + e),
+        y: round(b * box.x + d * box.y + f),
+        scaleX: round(axis * Math.abs(box.width) / BASE_LAYER_SIZE),
+        scaleY: round(Math.abs(determinant) / (axis || 1) * Math.abs(box.height) / BASE_LAYER_SIZE),
+        rotation: round(rotation) % 360,
+        opacity: clamp(data.opacity ?? 1)
+      },
+      style: data.style ?? {},
+      visible: data.visible ?? true
+    }, path)
+  }
+
+  /**
+   * Wrap already added layers in a group sized to their combined bounds; a single layer
+   * is returned as-is with the group's opacity folded in
+   */
+  group(childIds: string[], data: { id?: string; opacity?: number; visible?: boolean }, path: string): string | null {
+    if (childIds.length === 0) return null
+    const children = childIds.map(childId => this.layers.find(layer => layer.id === childId)!)
+    if (children.length === 1) {
+      const [child] = children
+      child.transform.opacity = clamp(child.transform.opacity * (data.opacity ?? 1))
+      if (data.visible === false) child.constraints.visible = false
+      if (data.id && !this.ids.has(cleanId(data.id))) {
+        this.ids.delete(child.id)
+        child.id = this.uniqueId(data.id, child.type)
+      }
+      return child.id
+    }
+
+    const left = Math.min(...children.map(child => child.transform.x))
+    const top = Math.min(...children.map(child => child.transform.y))
+    const right = Math.max(...children.map(child => child.transform.x + child.transform.scaleX * BASE_LAYER_SIZE))
+    const bottom = Math.max(...children.map(child => child.transform.y + child.transform.scaleY * BASE_LAYER_SIZE))
+    return this.push({
+      id: this.uniqueId(data.id, 'group'),
+      type: LayerType.GROUP,
+      content: { childLayerIds: childIds },
+      transform: {
+        x: left,
+        y: top,
+        scaleX: round((right - left) / BASE_LAYER_SIZE),
+        scaleY: round((bottom - top) / BASE_LAYER_SIZE),
+        rotation: 0,
+        opacity: clamp(data.opacity ?? 1)
+      },
+      style: {},
+      visible: data.visible ?? true
+    }, path)
+  }
+
+  /**
+   * Device-space length of a design-space length under matrix
+   */
+  length(value: number, matrix: Matrix): number {
+    return round(value * Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2])))
+  }
+
+  finish(format: 'svg' | 'json', name?: string): ImportResult {
+    if (!this.hasBackground) {
+      this.layers.unshift({
+        id: this.uniqueId(undefined, 'background'),
+        type: LayerType.BACKGROUND,
+        zIndex: 0,
+        content: { color: this.options.background ?? '#ffffff' },
+        transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+        style: {},
+        constraints: { locked: false, visible: true },
+        metadata: { source: 'import', createdAt: this.now }
+      })
+    }
+    this.layers.forEach((layer, index) => { layer.zIndex = index })
+
+    const spec = DEVICE_SPECIFICATIONS[this.options.deviceType]
+    const canvas = new DesignCanvas({
+      id: crypto.randomUUID(),
+      deviceType: this.options.deviceType,
+      dimensions: { ...spec.dimensions },
+      layers: this.layers,
+      metadata: { createdAt: this.now, modifiedAt: this.now, tags: ['import', format], description: name },
+      state: CanvasState.EDITING
+    })
+    return { canvas, format, issues: this.issues }
+  }
+
+  private push(
+    data: Pick<LayerData, 'id' | 'type' | 'content' | 'transform' | 'style'> & { visible: boolean },
+    path: string
+  ): string {
+    const { visible, ...layer } = data
+    if (!validContent(layer.type, layer.content)) {
+      this.ids.delete(layer.id)
+      this.issues.push({ path, kind: 'dropped', message: `Empty ${layer.type} layer left out` })
+      return ''
+    }
+    this.layers.push({
+      ...layer,
+      zIndex: this.layers.length,
+      constraints: { locked: false, visible },
+      metadata: { source: 'import', createdAt: this.now }
+    })
+    return layer.id
+  }
+
+  private uniqueId(preferred: string | undefined, kind: string): string {
+    let base = preferred ? cleanId(preferred) : ''
+    if (!base) {
+      const count = (this.counters.get(kind) ?? 0) + 1
+      this.counters.set(kind, count)
+      base = `${kind}-${count}`
+    }
+    let id = base
+    for (let suffix = 2; this.ids.has(id); suffix++) id = `${base}-${suffix}`
+    this.ids.add(id)
+    return id
+  }
+}
+
+// SVG
+
+interface Presentation {
+  fill: string
+  fillOpacity: number
+  stroke: string
+  strokeWidth: number
+  strokeOpacity: number
+  fontFamily?: string
+  fontSize: number
+  fontWeight?: string
+  fontStyle?: string
+  textAnchor: string
+}
+
+const INITIAL_PRESENTATION: Presentation = {
+  fill: '#000000',
+  fillOpacity: 1,
+  stroke: 'none',
+  strokeWidth: 1,
+  strokeOpacity: 1,
+  fontSize: DEFAULT_FONT_SIZE,
+  textAnchor: 'start'
+}
+
+/** Elements that only define things other elements refer to */
+const DEFINITION_ELEMENTS = new Set(['defs', 'title', 'desc', 'metadata', 'style', 'clipPath', 'mask', 'linearGradient', 'radialGradient', 'pattern', 'filter', 'symbol', 'marker'])
+
+class SvgReader {
+  constructor(private document: Document, private builder: LayerBuilder, private viewBox: Box) {}
+
+  readChildren(parent: Element, matrix: Matrix, inherited: Presentation, path: string): string[] {
+    const ids: string[] = []
+    Array.from(parent.children).forEach((element, index) => {
+      ids.push(...this.readElement(element, matrix, inherited, `${path}.${element.nodeName}[${index}]`))
+    })
+    return ids.filter(Boolean)
+  }
+
+  private readElement(element: Element, parentMatrix: Matrix, inherited: Presentation, path: string): string[] {
+    const name = element.nodeName
+    if (DEFINITION_ELEMENTS.has(name)) return []
+
+    const declarations = this.declarations(element)
+    if (declarations.display === 'none') return []
+
+    const presentation = this.presentation(declarations, inherited)
+    const matrix = multiply(parentMatrix, parseTransform(element.getAttribute('transform')))
+    const opacity = number(declarations.opacity, 1)
+    const visible = declarations.visibility !== 'hidden' && declarations.visibility !== 'collapse'
+    const id = element.getAttribute('id')?.replace(/^layer-/, '') || undefined
+
+    if (declarations.filter && declarations.filter !== 'none') {
+      this.builder.issues.push({ path, kind: 'dropped', message: 'SVG filters are not imported' })
+    }
+
+    const attribute = (key: string, fallback = 0) => length(element.getAttribute(key), fallback)
+    const common = { id, opacity, visible }
+
+    switch (name) {
+      case 'svg':
+      case 'g':
+      case 'a': {
+        const childIds = this.readChildren(element, matrix, presentation, path)
+        const grouped = this.builder.group(childIds, common, path)
+        return grouped ? [grouped] : []
+      }
+
+      case 'rect': {
+        const box = { x: attribute('x'), y: attribute('y'), width: attribute('width'), height: attribute('height') }
+        if (!(box.width > 0 && box.height > 0)) return []
+        const radius = attribute('rx', attribute('ry'))
+        const fill = this.paint(presentation.fill, presentation.fillOpacity, path)
+
+        if (this.builder.coversArtboard(box, matrix, this.viewBox) && opacity === 1 && !radius && (fill.color || fill.gradient)) {
+          return [this.builder.background(fill.gradient ? { gradient: fill.gradient } : { color: fill.color }, path, id)]
+        }
+        return [this.builder.layer(LayerType.SHAPE, box, matrix, {
+          ...common,
+          content: { shapeType: 'rectangle', ...this.shapePaint(fill, presentation, matrix, path) },
+          style: radius ? { borderRadius: this.builder.length(radius, matrix) } : {}
+        }, path)]
+      }
+
+      case 'circle':
+      case 'ellipse': {
+        const rx = name === 'circle' ? attribute('r') : attribute('rx')
+        const ry = name === 'circle' ? attribute('r') : attribute('ry')
+        if (!(rx > 0 && ry > 0)) return []
+        const fill = this.paint(presentation.fill, presentation.fillOpacity, path)
+        return [this.builder.layer(LayerType.SHAPE, { x: attribute('cx') - rx, y: attribute('cy') - ry, width: rx * 2, height: ry * 2 }, matrix, {
+          ...common,
+          content: { shapeType: 'circle', ...this.shapePaint(fill, presentation, matrix, path) }
+        }, path)]
+      }
+
+      case 'polygon': {
+        const values = (element.getAttribute('points') ?? '').split(/[\s,]+/).filter(Boolean).map(Number)
+        const points = Array.from({ length: Math.floor(values.length / 2) }, (_, index) => [values[index * 2], values[index * 2 + 1]])
+        if (points.length < 3) return []
+        const xs = points.map(point => point[0])
+        const ys = points.map(point => point[1])
+        const box = { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) }
+        if (points.length !== 3 && points.length !== 6) {
+          this.builder.issues.push({ path, kind: 'approximated', message: `A ${points.length}-sided polygon was imported as a hexagon` })
+        }
+        const fill = this.paint(presentation.fill, presentation.fillOpacity, path)
+        return [this.builder.layer(LayerType.SHAPE, box, matrix, {
+          ...common,
+          content: { shapeType: points.length === 3 ? 'triangle' : 'polygon', ...this.shapePaint(fill, presentation, matrix, path) }
+        }, path)]
+      }
+
+      case 'text':
+        return [this.text(element, matrix, presentation, common, path)]
+
+      case 'image': {
+        const href = hrefOf(element)
+        const box = { x: attribute('x'), y: attribute('y'), width: attribute('width'), height: attribute('height') }
+        if (!href || !(box.width > 0 && box.height > 0)) return []
+        const radius = this.clipRadius(declarations['clip-path'], path)
+        return [this.builder.layer(LayerType.IMAGE, box, matrix, {
+          ...common,
+          content: href.startsWith('data:') ? { imageData: href } : { imageUrl: href },
+          style: radius ? { borderRadius: this.builder.length(radius, matrix) } : {}
+        }, path)]
+      }
+
+      default:
+        this.builder.issues.push({ path, kind: 'dropped', message: `<${name}> elements are not imported` })
+        return []
+    }
+  }
+
+  private text(element: Element, matrix: Matrix, presentation: Presentation, common: { id?: string; opacity: number; visible: boolean }, path: string): string {
+    const spans = Array.from(element.children).filter(child => child.nodeName === 'tspan')
+    const x = length(element.getAttribute('x'))
+    let baseline = length(element.getAttribute('y'))
+    const lines: Array<{ text: string; x: number; baseline: number }> = []
+
+    if (spans.length === 0) {
+      lines.push({ text: element.textContent ?? '', x, baseline })
+    } else {
+      for (const span of spans) {
+        if (span.hasAttribute('y')) baseline = length(span.getAttribute('y'))
+        baseline += length(span.getAttribute('dy'))
+        lines.push({ text: span.textContent ?? '', x: span.hasAttribute('x') ? length(span.getAttribute('x')) : x, baseline })
+      }
+    }
+
+    const text = lines.map(line => line.text).join('\n')
+    if (!text.trim()) return ''
+
+    const fontSize = presentation.fontSize
+    const font = standardFont({ fontFamily: presentation.fontFamily, fontWeight: presentation.fontWeight, fontStyle: presentation.fontStyle })
+    const width = Math.max(...lines.map(line => textWidth(line.text, font, fontSize)))
+    const lineHeight = lines.length > 1 ? (lines[1].baseline - lines[0].baseline) / fontSize : DEFAULT_LINE_HEIGHT
+    const align = presentation.textAnchor === 'middle' ? 'center' : presentation.textAnchor === 'end' ? 'right' : 'left'
+    const left = align === 'center' ? lines[0].x - width / 2 : align === 'right' ? lines[0].x - width : lines[0].x
+    const top = lines[0].baseline - fontSize
+    const height = fontSize + (lines.length - 1) * lineHeight * fontSize + fontSize * 0.25
+
+    const fill = this.paint(presentation.fill, presentation.fillOpacity, path)
+    if (fill.gradient) {
+      this.builder.issues.push({ path, kind: 'approximated', message: 'Gradient text was imported with its first stop colour' })
+    }
+
+    return this.builder.layer(LayerType.TEXT, { x: left, y: top, width, height }, matrix, {
+      ...common,
+      content: {
+        text,
+        fontSize: this.builder.length(fontSize, matrix),
+        fontFamily: presentation.fontFamily,
+        fontWeight: presentation.fontWeight,
+        fontStyle: presentation.fontStyle === 'italic' || presentation.fontStyle === 'oblique' ? presentation.fontStyle : undefined,
+        textAlign: align,
+        ...(lines.length > 1 && { lineHeight: round(lineHeight) })
+      },
+      style: { color: fill.color ?? fill.gradient?.stops[0]?.color ?? '#000000' }
+    }, path)
+  }
+
+  private shapePaint(fill: { color?: string; gradient?: LayerContent['gradient'] }, presentation: Presentation, matrix: Matrix, path: string): LayerContent {
+    const stroke = this.paint(presentation.stroke, presentation.strokeOpacity, `${path}.stroke`)
+    return {
+      ...(fill.gradient ? { gradient: fill.gradient } : fill.color ? { fill: fill.color } : {}),
+      ...(stroke.color && presentation.strokeWidth > 0 && {
+        stroke: stroke.color,
+        strokeWidth: this.builder.length(presentation.strokeWidth, matrix)
+      })
+    }
+  }
+
+  /**
+   * A colour (with the opacity folded in) or a gradient from a url(#id) reference
+   */
+  private paint(value: string, opacity: number, path: string): { color?: string; gradient?: LayerContent['gradient'] } {
+    if (value === 'none' || value === 'transparent') return {}
+
+    const reference = /^url\(\s*['"]?#([^'")\s]+)['"]?\s*\)/.exec(value)?.[1]
+    if (reference) {
+      const gradient = this.gradient(reference, opacity, path)
+      if (!gradient) {
+        this.builder.issues.push({ path, kind: 'dropped', message: `Paint server #${reference} is not supported` })
+      }
+      return gradient ? { gradient } : {}
+    }
+    return { color: withOpacity(value, opacity) }
+  }
+
+  private gradient(id: string, opacity: number, path: string): LayerContent['gradient'] | null {
+    const element = this.byId(id)
+    if (!element || (element.nodeName !== 'linearGradient' && element.nodeName !== 'radialGradient')) return null
+
+    // Stops may live on a gradient this one references through href
+    let stopsElement: Element | null = element
+    for (let depth = 0; stopsElement && depth < 8 && !Array.from(stopsElement.children).some(child => child.nodeName === 'stop'); depth++) {
+      const href = hrefOf(stopsElement)
+      stopsElement = href?.startsWith('#') ? this.byId(href.slice(1)) : null
+    }
+
+    const stops = Array.from(stopsElement?.children ?? [])
+      .filter(child => child.nodeName === 'stop')
+      .map(stop => {
+        const declarations = this.declarations(stop)
+        const offset = declarations.offset ?? '0'
+        return {
+          color: withOpacity(declarations['stop-color'] ?? '#000000', number(declarations['stop-opacity'], 1) * opacity),
+          position: clamp(offset.endsWith('%') ? parseFloat(offset) / 100 : parseFloat(offset) || 0)
+        }
+      })
+    if (stops.length === 0) return null
+
+    if (element.nodeName === 'linearGradient') {
+      const x1 = length(element.getAttribute('x1'), 0)
+      const x2 = length(element.getAttribute('x2'), element.hasAttribute('x2') ? 0 : 1)
+      const y1 = length(element.getAttribute('y1'), 0)
+      const y2 = length(element.getAttribute('y2'), 0)
+      if (x1 !== x2 || y2 <= y1) {
+        this.builder.issues.push({ path, kind: 'approximated', message: 'Linear gradients are imported running top to bottom' })
+      }
+    }
+    return { type: element.nodeName === 'radialGradient' ? 'radial' : 'linear', stops }
+  }
+
+  /**
+   * Corner radius of a clip path that is a single rounded rect (how toSvg clips images)
+   */
+  private clipRadius(value: string | undefined, path: string): number {
+    const reference = value && /^url\(\s*['"]?#([^'")\s]+)['"]?\s*\)/.exec(value)?.[1]
+    if (!reference) return 0
+    const shapes = Array.from(this.byId(reference)?.children ?? [])
+    if (shapes.length === 1 && shapes[0].nodeName === 'rect') {
+      return length(shapes[0].getAttribute('rx'), length(shapes[0].getAttribute('ry')))
+    }
+    this.builder.issues.push({ path, kind: 'dropped', message: 'Only rounded-rectangle clip paths are imported' })
+    return 0
+  }
+
+  private byId(id: string): Element | null {
+    return this.document.querySelector(`[id="${id.replace(/"/g, '\\"')}"]`)
+  }
+
+  /**
+   * Presentation attributes overridden by style="" declarations
+   */
+  private declarations(element: Element): Record<string, string> {
+    const result: Record<string, string> = {}
+    for (const attribute of Array.from(element.attributes)) result[attribute.name] = attribute.value.trim()
+    for (const declaration of (element.getAttribute('style') ?? '').split(';')) {
+      const colon = declaration.indexOf(':')
+      if (colon > 0) result[declaration.slice(0, colon).trim()] = declaration.slice(colon + 1).replace(/!important/, '').trim()
+    }
+    return result
+  }
+
+  private presentation(declarations: Record<string, string>, inherited: Presentation): Presentation {
+    return {
+      fill: declarations.fill ?? inherited.fill,
+      fillOpacity: declarations['fill-opacity'] !== undefined ? number(declarations['fill-opacity'], 1) : inherited.fillOpacity,
+      stroke: declarations.stroke ?? inherited.stroke,
+      strokeWidth: declarations['stroke-width'] !== undefined ? length(declarations['stroke-width'], 1) : inherited.strokeWidth,
+      strokeOpacity: declarations['stroke-opacity'] !== undefined ? number(declarations['stroke-opacity'], 1) : inherited.strokeOpacity,
+      fontFamily: declarations['font-family']?.split(',')[0].replace(/["']/g, '').trim() ?? inherited.fontFamily,
+      fontSize: declarations['font-size'] !== undefined ? length(declarations['font-size'], inherited.fontSize) : inherited.fontSize,
+      fontWeight: declarations['font-weight'] ?? inherited.fontWeight,
+      fontStyle: declarations['font-style'] ?? inherited.fontStyle,
+      textAnchor: declarations['text-anchor'] ?? inherited.textAnchor
+    }
+  }
+}
+
+/**
+ * SVG transform list as one matrix
+ */
+function parseTransform(value: string | null): Matrix {
+  let matrix = IDENTITY
+  if (!value) return matrix
+
+  for (const [, name, rawArguments] of value.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+    const args = rawArguments.split(/[\s,]+/).filter(Boolean).map(Number)
+    const radians = (args[0] ?? 0) * Math.PI / 180
+    switch (name) {
+      case 'matrix':
+        if (args.length === 6) matrix = multiply(matrix, args as Matrix)
+        break
+      case 'translate':
+        matrix = multiply(matrix, translation(args[0] ?? 0, args[1] ?? 0))
+        break
+      case 'scale':
+        matrix = multiply(matrix, [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0])
+        break
+      case 'rotate': {
+        const [cx, cy] = [args[1] ?? 0, args[2] ?? 0]
+        matrix = multiply(multiply(multiply(matrix, translation(cx, cy)), [Math.cos(radians), Math.sin(radians), -Math.sin(radians), Math.cos(radians), 0, 0]), translation(-cx, -cy))
+        break
+      }
+      case 'skewX':
+        matrix = multiply(matrix, [1, 0, Math.tan(radians), 1, 0, 0])
+        break
+      case 'skewY':
+        matrix = multiply(matrix, [1, Math.tan(radians), 0, 1, 0, 0])
+        break
+    }
+  }
+  return matrix
+}
+
+// Design JSON
+
+class DesignNodeReader {
+  constructor(private builder: LayerBuilder) {}
+
+  /**
+   * The top frame's fills become the background (an image fill becomes a full-size image)
+   */
+  readFrameBackground(frame: DesignNode): void {
+    const fills = visiblePaints(frame.fills)
+    const top = fills[fills.length - 1]
+    if (!top) return
+    if (fills.length > 1) {
+      this.builder.issues.push({ path: 'frame.fills', kind: 'approximated', message: 'Only the top-most frame fill was imported' })
+    }
+
+    if (top.type === 'IMAGE') {
+      this.builder.layer(LayerType.IMAGE, { x: 0, y: 0, width: frame.width, height: frame.height }, this.builder.fit, {
+        content: imageContent(top.imageUrl)
+      }, 'frame.fills')
+    } else {
+      this.builder.background(this.fillContent(top) as LayerContent, 'frame.fills')
+    }
+  }
+
+  readChildren(nodes: DesignNode[], matrix: Matrix, path: string, visible: boolean): string[] {
+    return nodes.flatMap((node, index) => this.readNode(node, matrix, `${path}.children[${index}]`, visible)).filter(Boolean)
+  }
+
+  private readNode(node: DesignNode, parentMatrix: Matrix, path: string, parentVisible: boolean): string[] {
+    if (!node || typeof node !== 'object' || !(node.width >= 0 && node.height >= 0)) {
+      this.builder.issues.push({ path, kind: 'dropped', message: 'Node without a size left out' })
+      return []
+    }
+
+    const radians = (node.rotation ?? 0) * Math.PI / 180
+    const matrix = multiply(parentMatrix, [Math.cos(radians), Math.sin(radians), -Math.sin(radians), Math.cos(radians), node.x ?? 0, node.y ?? 0])
+    const box = { x: 0, y: 0, width: node.width, height: node.height }
+    const visible = parentVisible && node.visible !== false
+    const common = { id: node.id ?? node.name, opacity: node.opacity ?? 1, visible }
+    const style = this.style(node, matrix, path)
+
+    switch (node.type) {
+      case 'FRAME':
+      case 'GROUP': {
+        const ids: string[] = []
+        const fill = node.type === 'FRAME' ? visiblePaints(node.fills).pop() : undefined
+        if (fill) {
+          // A frame's own fill is a rectangle behind its children
+          ids.push(this.rectangle({ ...node, id: undefined, name: undefined, effects: undefined, fills: [fill] }, matrix, box, { visible }, style, `${path}.fills`))
+        }
+        ids.push(...this.readChildren(node.children ?? [], matrix, path, visible))
+        const grouped = this.builder.group(ids.filter(Boolean), common, path)
+        return grouped ? [grouped] : []
+      }
+
+      case 'RECTANGLE':
+        return [this.rectangle(node, matrix, box, common, style, path)]
+
+      case 'ELLIPSE':
+        return [this.builder.layer(LayerType.SHAPE, box, matrix, {
+          ...common,
+          content: { shapeType: 'circle', ...this.shapeContent(node, matrix, path) },
+          style
+        }, path)]
+
+      case 'TEXT': {
+        if (!node.characters) return []
+        const text = node.style ?? {}
+        const fill = visiblePaints(node.fills).pop()
+        const fontSize = text.fontSize ?? DEFAULT_FONT_SIZE
+        return [this.builder.layer(LayerType.TEXT, box, matrix, {
+          ...common,
+          content: {
+            text: node.characters,
+            fontSize: this.builder.length(fontSize, matrix),
+            fontFamily: text.fontFamily,
+            fontWeight: text.fontWeight === undefined ? undefined : text.fontWeight >= 700 ? 'bold' : String(text.fontWeight),
+            fontStyle: text.italic ? 'italic' : undefined,
+            textAlign: ({ LEFT: 'left', CENTER: 'center', RIGHT: 'right', JUSTIFIED: 'justify' } as const)[text.textAlignHorizontal ?? 'LEFT'],
+            ...(text.lineHeightPx && { lineHeight: round(text.lineHeightPx / fontSize) })
+          },
+          style: { ...style, color: fill?.type === 'SOLID' ? designColor(fill.color, fill.opacity) : '#000000' }
+        }, path)]
+      }
+
+      case 'IMAGE':
+        if (!node.imageUrl) return []
+        return [this.builder.layer(LayerType.IMAGE, box, matrix, {
+          ...common,
+          content: { ...imageContent(node.imageUrl), ...this.strokeContent(node, matrix) },
+          style: { ...style, ...(node.cornerRadius && { borderRadius: this.builder.length(node.cornerRadius, matrix) }) }
+        }, path)]
+
+      default:
+        this.builder.issues.push({ path, kind: 'dropped', message: `${String((node as { type?: unknown }).type)} nodes are not imported` })
+        return []
+    }
+  }
+
+  /**
+   * Rectangles with an image fill become image layers
+   */
+  private rectangle(node: DesignNode, matrix: Matrix, box: Box, common: { id?: string; opacity?: number; visible: boolean }, style: LayerStyle, path: string): string {
+    const radius = node.cornerRadius ? { borderRadius: this.builder.length(node.cornerRadius, matrix) } : {}
+    const fill = visiblePaints(node.fills).pop()
+    if (fill?.type === 'IMAGE') {
+      return this.builder.layer(LayerType.IMAGE, box, matrix, {
+        ...common,
+        content: { ...imageContent(fill.imageUrl), ...this.strokeContent(node, matrix) },
+        style: { ...style, ...radius }
+      }, path)
+    }
+    return this.builder.layer(LayerType.SHAPE, box, matrix, {
+      ...common,
+      content: { shapeType: 'rectangle', ...this.shapeContent(node, matrix, path) },
+      style: { ...style, ...radius }
+    }, path)
+  }
+
+  private shapeContent(node: DesignNode, matrix: Matrix, path: string): LayerContent {
+    const fills = visiblePaints(node.fills)
+    if (fills.length > 1) {
+      this.builder.issues.push({ path: `${path}.fills`, kind: 'approximated', message: 'Only the top-most fill was imported' })
+    }
+    const fill = fills[fills.length - 1]
+    if (fill?.type === 'IMAGE') {
+      this.builder.issues.push({ path: `${path}.fills`, kind: 'dropped', message: 'Image fills are only imported on rectangles' })
+    }
+    return { ...(fill && fill.type !== 'IMAGE' ? this.fillContent(fill) : {}), ...this.strokeContent(node, matrix) }
+  }
+
+  private fillContent(paint: Exclude<DesignPaint, { type: 'IMAGE' }>): Pick<LayerContent, 'fill' | 'color' | 'gradient'> {
+    if (paint.type === 'SOLID') {
+      const color = designColor(paint.color, paint.opacity)
+      return { fill: color, color }
+    }
+    return {
+      gradient: {
+        type: paint.type === 'GRADIENT_RADIAL' ? 'radial' : 'linear',
+        stops: paint.gradientStops.map(stop => ({ color: designColor(stop.color), position: clamp(stop.position) }))
+      }
+    }
+  }
+
+  private strokeContent(node: DesignNode, matrix: Matrix): Pick<LayerContent, 'stroke' | 'strokeWidth'> {
+    const stroke = visiblePaints(node.strokes).pop()
+    if (stroke?.type !== 'SOLID' || !(node.strokeWeight ?? 1)) return {}
+    return { stroke: designColor(stroke.color, stroke.opacity), strokeWidth: this.builder.length(node.strokeWeight ?? 1, matrix) }
+  }
+
+  private style(node: DesignNode, matrix: Matrix, path: string): LayerStyle {
+    const style: LayerStyle = {}
+    const effects = (node.effects ?? []).filter(effect => effect.visible !== false)
+    effects.forEach((effect, index) => {
+      const effectPath = `${path}.effects[${index}]`
+      if (effect.type === 'DROP_SHADOW' && !style.boxShadow) {
+        style.boxShadow = {
+          x: this.builder.length(effect.offset.x, matrix),
+          y: this.builder.length(effect.offset.y, matrix),
+          blur: this.builder.length(effect.radius, matrix),
+          spread: this.builder.length(effect.spread ?? 0, matrix),
+          color: designColor(effect.color)
+        }
+      } else if (effect.type === 'LAYER_BLUR' && !style.filter) {
+        // Figma's blur radius is about twice the CSS blur standard deviation
+        style.filter = { blur: this.builder.length(effect.radius / 2, matrix) }
+      } else {
+        this.builder.issues.push({ path: effectPath, kind: 'dropped', message: `${effect.type} effect is not supported` })
+      }
+    })
+    return style
+  }
+}
+
+// Helpers
+
+function multiply([a1, b1, c1, d1, e1, f1]: Matrix, [a2, b2, c2, d2, e2, f2]: Matrix): Matrix {
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1
+  ]
+}
+
+function translation(x: number, y: number): Matrix {
+  return [1, 0, 0, 1, x, y]
+}
+
+function hrefOf(element: Element): string | null {
+  return element.getAttribute('href') ?? element.getAttributeNS(XLINK, 'href') ?? element.getAttribute('xlink:href')
+}
+
+/**
+ * User units from an SVG length; percentages and relative units are not resolved
+ */
+function length(value: string | null | undefined, fallback = 0): number {
+  if (!value) return fallback
+  const parsed = parseFloat(value)
+  if (!Number.isFinite(parsed)) return fallback
+  return value.trim().endsWith('pt') ? parsed * 4 / 3 : parsed
+}
+
+function number(value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback
+  const parsed = value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value)
+  return Number.isFinite(parsed) ? clamp(parsed) : fallback
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+function cleanId(id: string): string {
+  return id.trim().replace(/\s+/g, '-')
+}
+
+/**
+ * Fold an opacity into a colour; colours that cannot be parsed are kept as written
+ */
+function withOpacity(value: string, opacity: number): string {
+  const color = parseCssColor(value)
+  if (!color || (opacity >= 1 && color.a >= 1)) return value
+  return `rgba(${color.r}, ${color.g}, ${color.b}, ${round(color.a * opacity)})`
+}
+
+function designColor(color: DesignColor, opacity: number = 1): string {
+  const channel = (value: number) => Math.round(clamp(value) * 255)
+  const alpha = clamp((color.a ?? 1) * opacity)
+  if (alpha >= 1) {
+    return `#${[color.r, color.g, color.b].map(value => channel(value).toString(16).padStart(2, '0')).join('')}`
+  }
+  return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${round(alpha)})`
+}
+
+function visiblePaints(paints: DesignPaint[] | undefined): DesignPaint[] {
+  return (paints ?? []).filter(paint => paint.visible !== false)
+}
+
+function imageContent(source: string): LayerContent {
+  return source.startsWith('data:') ? { imageData: source } : { imageUrl: source }
+}
+
+function validContent(type: LayerType, content: LayerContent): boolean {
+  switch (type) {
+    case LayerType.TEXT:
+      return Boolean(content.text)
+    case LayerType.IMAGE:
+      return Boolean(content.imageUrl || content.imageData)
+    case LayerType.BACKGROUND:
+      return Boolean(content.color || content.gradient)
+    default:
+      return true
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * CanvasMerge - layer-level three-way merge of design canvases
+ * Used by HistoryManager.mergeBranches to combine the heads of two branches
+ * against their common ancestor. Properties changed on only one side merge
+ * cleanly; properties changed differently on both sides become conflicts.
+ */
+
+import { DesignCanvas, LayerData } from '../models/DesignCanvas';
+import { produceCanvas } from '../models/mutations';
+
+// MARK: - Merge Types
+
+export interface MergeConflict {
+  /** Stable identifier used to key resolutions: `${layerId}:${property}` */
+  id: string;
+  layerId: string;
+  /** Dotted property path such as "style.color", or "layer" for add/remove conflicts */
+  property: string;
+  baseValue: unknown;
+  sourceValue: unknown;
+  targetValue: unknown;
+}
+
+export type ConflictResolution = 'source' | 'target' | { value: unknown };
+
+export interface CanvasMergeResult {
+  canvas: DesignCanvas;
+  conflicts: MergeConflict[];
+  /** Conflicts settled by a supplied resolution */
+  resolved: MergeConflict[];
+}
+
+const LAYER_SECTIONS = ['transform', 'content', 'style', 'constraints'] as const;
+
+// MARK: - Three-Way Merge
+
+/**
+ * Merge source into target relative to base
+ * Unresolved conflicts keep the target value so the returned canvas is always valid
+ */
+export function mergeCanvases(
+  base: DesignCanvas,
+  source: DesignCanvas,
+  target: DesignCanvas,
+  resolutions: Record<string, ConflictResolution> = {}
+): CanvasMergeResult {
+  const conflicts: MergeConflict[] = [];
+  const resolved: MergeConflict[] = [];
+
+  const baseLayers = indexLayers(base);
+  const sourceLayers = indexLayers(source);
+  const targetLayers = indexLayers(target);
+
+  // Target order first, then layers only the source knows about
+  const layerIds = [...new Set([...targetLayers.keys(), ...sourceLayers.keys(), ...baseLayers.keys()])];
+  const merged: LayerData[] = [];
+
+  const decide = (conflict: MergeConflict): unknown => {
+    const resolution = resolutions[conflict.id];
+    if (resolution === undefined) {
+      conflicts.push(conflict);
+      return conflict.targetValue;
+    }
+    resolved.push(conflict);
+    if (resolution === 'source') return conflict.sourceValue;
+    if (resolution === 'target') return conflict.targetValue;
+    return resolution.value;
+  };
+
+  for (const layerId of layerIds) {
+    const baseLayer = baseLayers.get(layerId);
+    const sourceLayer = sourceLayers.get(layerId);
+    const targetLayer = targetLayers.get(layerId);
+
+    // Present on one side only: kept unless the other side deleted it after editing nothing
+    if (!sourceLayer || !targetLayer) {
+      const present = sourceLayer ?? targetLayer;
+      if (!present) continue;
+
+      if (!baseLayer) {
+        merged.push(present);
+        continue;
+      }
+
+      // One side deleted the layer; that wins only if the other side left it untouched
+      if (layerEqual(present, baseLayer)) continue;
+
+      const kept = decide({
+        id: `${layerId}:layer`,
+        layerId,
+        property: 'layer',
+        baseValue: baseLayer,
+        sourceValue: sourceLayer ?? null,
+        targetValue: targetLayer ?? null
+      });
+      if (kept) merged.push(kept as LayerData);
+      continue;
+    }
+
+    merged.push(mergeLayer(baseLayer, sourceLayer, targetLayer, decide));
+  }
+
+  merged.sort((a, b) => a.zIndex - b.zIndex);
+
+  const canvas = produceCanvas(target, draft => {
+    draft.layers = merged as typeof draft.layers;
+  });
+
+  return { canvas, conflicts, resolved };
+}
+
+// MARK: - Helpers
+
+function mergeLayer(
+  base: LayerData | undefined,
+  source: LayerData,
+  target: LayerData,
+  decide: (conflict: MergeConflict) => unknown
+): LayerData {
+  if (layerEqual(source, target)) return target;
+  if (base && layerEqual(source, base)) return target;
+  if (base && layerEqual(target, base)) return source;
+
+  const result: LayerData = {
+    ...target,
+    content: { ...target.content },
+    transform: { ...target.transform },
+    style: { ...target.style },
+    constraints: { ...target.constraints }
+  };
+
+  const mergeValue = (property: string, baseValue: unknown, sourceValue: unknown, targetValue: unknown): unknown => {
+    if (equal(sourceValue, targetValue)) return targetValue;
+    if (base && equal(sourceValue, baseValue)) return targetValue;
+    if (base && equal(targetValue, baseValue)) return sourceValue;
+
+    return decide({
+      id: `${target.id}:${property}`,
+      layerId: target.id,
+      property,
+      baseValue,
+      sourceValue,
+      targetValue
+    });
+  };
+
+  result.type = mergeValue('type', base?.type, source.type, target.type) as LayerData['type'];
+  result.zIndex = mergeValue('zIndex', base?.zIndex, source.zIndex, target.zIndex) as number;
+
+  for (const section of LAYER_SECTIONS) {
+    const baseSection = (base?.[section] ?? {}) as Record<string, unknown>;
+    const sourceSection = source[section] as unknown as Record<string, unknown>;
+    const targetSection = target[section] as unknown as Record<string, unknown>;
+    const resultSection = result[section] as unknown as Record<string, unknown>;
+    const keys = new Set([...Object.keys(baseSection), ...Object.keys(sourceSection), ...Object.keys(targetSection)]);
+
+    for (const key of keys) {
+      const value = mergeValue(`${section}.${key}`, baseSection[key], sourceSection[key], targetSection[key]);
+      if (value === undefined) {
+        delete resultSection[key];
+      } else {
+        resultSection[key] = value;
+      }
+    }
+  }
+
+  return result;
+}
+
+function indexLayers(canvas: DesignCanvas): Map<string, LayerData> {
+  return new Map(canvas.layers.map(layer => [layer.id, layer]));
+}
+
+// Metadata (timestamps, provenance) is not merged and never conflicts
+function layerEqual(a: LayerData, b: LayerData): boolean {
+  return equal({ ...a, metadata: null }, { ...b, metadata: null });
+}
+
+function equal(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
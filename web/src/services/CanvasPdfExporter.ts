@@ -0,0 +1,882 @@
+import { DesignCanvas, LayerData } from '../models/DesignCanvas'
+import { getLayerBounds } from '../components/CanvasPreview'
+import { LayerContent, LayerStyle, LayerType } from '../types'
+import type { ConversionIssue } from './CanvasStateConverter'
+import type { HistoryManager, HistoryNode } from './HistoryManager'
+import { parseCssColor } from './CssColor'
+import { standardFont, textWidth, wrapText } from './FontMetrics'
+import { loadImageBytes } from './ImageLoader'
+import { decodePng, deflate, isPng, parsePng } from './PngCodec'
+
+export interface PdfExportOptions {
+  /** Document title stored in the PDF metadata (default: the canvas description or id) */
+  title?: string
+  author?: string
+  /** Creation date stored in the PDF metadata (default: now) */
+  creationDate?: Date
+  /**
+   * Fetches imageUrl sources; data URLs are decoded without it (default: fetch)
+   * Images that fail to load are left out and reported as issues
+   */
+  loadImage?: (url: string) => Promise<Uint8Array>
+}
+
+export interface PdfDeckOptions extends PdfExportOptions {
+  /** Heading of the cover page (default 'Design variations') */
+  title?: string
+  /** Line under the heading, e.g. the client or campaign name */
+  subtitle?: string
+  /** Cover page size in points (default A4 portrait) */
+  coverSize?: { width: number; height: number }
+}
+
+/**
+ * One variation in a presentation deck
+ */
+export interface PdfSlide {
+  canvas: DesignCanvas
+  title: string
+  prompt?: string
+  source?: string
+  /** 0…1 */
+  confidence?: number
+  timestamp?: Date
+}
+
+export interface PdfExportResult {
+  /** Complete PDF file */
+  data: Uint8Array
+  pageCount: number
+  /** Properties PDF cannot express (blur, filters) and images that could not be embedded */
+  issues: ConversionIssue[]
+}
+
+const A4 = { width: 595.28, height: 841.89 }
+const DEFAULT_FONT_SIZE = 16
+const DEFAULT_LINE_HEIGHT = 1.2
+/** Control point distance for a quarter circle drawn as a cubic Bézier */
+const KAPPA = 0.5522847498
+
+/**
+ * Export a canvas as a one-page vector PDF
+ *
+ * Pages are sized to the canvas (one canvas unit is one point) and follow the layer
+ * geometry of CanvasPreview and the SVG serializer. Text uses the standard PDF fonts
+ * (Helvetica, Times or Courier, picked from the font family), so no fonts are embedded.
+ */
+export async function toPdf(canvas: DesignCanvas, options: PdfExportOptions = {}): Promise<PdfExportResult> {
+  const document = new PdfDocument(options)
+  await document.loadImages([canvas])
+  document.addCanvasPage(canvas, 'canvas')
+
+  return document.finish({
+    title: options.title ?? canvas.metadata.description ?? canvas.id,
+    author: options.author ?? canvas.metadata.author
+  })
+}
+
+/**
+ * Export variations as a presentation deck: a cover listing every variation's prompt,
+ * source and confidence (continued over several pages when needed), then one page per
+ * variation
+ */
+export async function toPdfDeck(slides: PdfSlide[], options: PdfDeckOptions = {}): Promise<PdfExportResult> {
+  if (slides.length === 0) {
+    throw new Error('A PDF deck needs at least one slide')
+  }
+
+  const document = new PdfDocument(options)
+  await document.loadImages(slides.map(slide => slide.canvas))
+
+  const title = options.title ?? 'Design variations'
+  document.addCover(slides, title, options)
+  slides.forEach((slide, index) => document.addCanvasPage(slide.canvas, `slides[${index}]`))
+
+  return document.finish({ title, author: options.author })
+}
+
+/**
+ * Slides for history nodes, in the given order
+ */
+export function slidesFromHistory(manager: HistoryManager, nodeIds: string[]): PdfSlide[] {
+  const nodes = manager.getState().nodes
+  return nodeIds.map(nodeId => {
+    const node = nodes.get(nodeId)
+    if (!node) {
+      throw new Error(`History node ${nodeId} not found`)
+    }
+    return slideFromNode(node)
+  })
+}
+
+/**
+ * Slides for every node of a branch, oldest first
+ */
+export function slidesFromBranch(manager: HistoryManager, branchId: string): PdfSlide[] {
+  const branch = manager.getState().branches.get(branchId)
+  if (!branch) {
+    throw new Error(`Branch ${branchId} not found`)
+  }
+  return slidesFromHistory(manager, branch.nodes)
+}
+
+function slideFromNode(node: HistoryNode): PdfSlide {
+  return {
+    canvas: node.canvasState,
+    title: node.metadata.description ?? `Version ${node.id.slice(0, 8)}`,
+    prompt: node.metadata.aiPrompt,
+    source: node.metadata.source,
+    confidence: node.metadata.confidence,
+    timestamp: node.timestamp
+  }
+}
+
+// Document
+
+interface PdfImage {
+  object: number
+  width: number
+  height: number
+}
+
+/**
+ * Builds the object graph of one PDF file; fonts and images are shared by all pages
+ */
+class PdfDocument {
+  private objects: string[] = []
+  private pages: number[] = []
+  private fonts = new Map<string, number>()
+  private images = new Map<string, PdfImage | null>()
+  private issues: ConversionIssue[] = []
+  private pagesObject: number
+
+  constructor(private options: PdfExportOptions) {
+    this.pagesObject = this.reserve()
+  }
+
+  async loadImages(canvases: DesignCanvas[]): Promise<void> {
+    const sources = new Set(canvases.flatMap(canvas => canvas.layers
+      .filter(layer => layer.type === LayerType.IMAGE)
+      .map(layer => layer.content.imageData ?? layer.content.imageUrl)
+      .filter((source): source is string => Boolean(source))))
+
+    for (const source of sources) {
+      try {
+        const bytes = await loadImageBytes(source, this.options.loadImage)
+        this.images.set(source, await this.embedImage(bytes))
+      } catch (error) {
+        this.images.set(source, null)
+        this.issues.push({
+          path: `image:${source.slice(0, 64)}`,
+          kind: 'dropped',
+          message: `Image could not be embedded: ${error instanceof Error ? error.message : String(error)}`
+        })
+      }
+    }
+  }
+
+  addCanvasPage(canvas: DesignCanvas, path: string): void {
+    const page = new PageBuilder(this, canvas.dimensions.height)
+    const painter = new LayerPainter(canvas, page, path, this.issues, source => this.images.get(source) ?? null)
+    painter.paint()
+    this.addPage(page, canvas.dimensions.width, canvas.dimensions.height)
+  }
+
+  /**
+   * Adds as many cover pages as the variation list needs and returns their count
+   */
+  addCover(slides: PdfSlide[], title: string, options: PdfDeckOptions): number {
+    const { width, height } = options.coverSize ?? A4
+    const margin = 48
+    const contentWidth = width - margin * 2
+    const headerHeight = 76 + (options.subtitle ? 24 : 0)
+
+    const rows = slides.map((slide, index) => {
+      const details = [
+        slide.source && `Source: ${slide.source}`,
+        slide.confidence !== undefined && `Confidence: ${Math.round(slide.confidence * 100)}%`,
+        slide.timestamp && slide.timestamp.toISOString().slice(0, 16).replace('T', ' ')
+      ].filter(Boolean).join(' · ')
+      const prompt = slide.prompt ? wrapText(`Prompt: ${slide.prompt}`, 'Helvetica', 11, contentWidth) : []
+      return { index, heading: `${index + 1}. ${slide.title}`, prompt, details, height: 34 + prompt.length * 15 + (details ? 15 : 0) }
+    })
+
+    // Slide page numbers depend on the number of cover pages, so lay out every row first
+    const coverPages: Array<Array<{ row: typeof rows[number]; top: number }>> = [[]]
+    let y = margin + headerHeight
+    for (const row of rows) {
+      const current = coverPages[coverPages.length - 1]
+      if (y + row.height > height - margin && current.length > 0) {
+        coverPages.push([])
+        y = margin
+      }
+      coverPages[coverPages.length - 1].push({ row, top: y })
+      y += row.height
+    }
+
+    coverPages.forEach((entries, pageIndex) => {
+      const page = new PageBuilder(this, height)
+
+      if (pageIndex === 0) {
+        page.text(title, margin, margin + 28, { font: 'Helvetica-Bold', size: 28, color: [0.06, 0.09, 0.16], maxWidth: contentWidth })
+        let line = margin + 44
+        if (options.subtitle) {
+          page.text(options.subtitle, margin, line + 14, { font: 'Helvetica', size: 14, color: [0.28, 0.33, 0.41], maxWidth: contentWidth })
+          line += 24
+        }
+        const date = (options.creationDate ?? new Date()).toISOString().slice(0, 10)
+        page.text(`${slides.length} variation${slides.length === 1 ? '' : 's'} · ${date}`, margin, line + 11, { font: 'Helvetica', size: 11, color: [0.39, 0.45, 0.55] })
+      }
+
+      for (const { row, top } of entries) {
+        let line = top + 14
+        page.text(row.heading, margin, line, { font: 'Helvetica-Bold', size: 14, color: [0.06, 0.09, 0.16], maxWidth: contentWidth - 60 })
+        page.text(`p. ${coverPages.length + row.index + 1}`, width - margin, line, { font: 'Helvetica', size: 11, color: [0.39, 0.45, 0.55], align: 'right' })
+        line += 8
+        for (const text of row.prompt) {
+          line += 15
+          page.text(text, margin, line, { font: 'Helvetica', size: 11, color: [0.2, 0.25, 0.33] })
+        }
+        if (row.details) {
+          line += 15
+          page.text(row.details, margin, line, { font: 'Helvetica', size: 10, color: [0.39, 0.45, 0.55] })
+        }
+        page.line(margin, top + row.height - 6, width - margin, top + row.height - 6, [0.89, 0.91, 0.94])
+      }
+
+      this.addPage(page, width, height)
+    })
+
+    return coverPages.length
+  }
+
+  finish(info: { title?: string; author?: string }): PdfExportResult {
+    this.set(this.pagesObject, `<< /Type /Pages /Kids [${this.pages.map(page => `${page} 0 R`).join(' ')}] /Count ${this.pages.length} >>`)
+    const catalog = this.add(`<< /Type /Catalog /Pages ${this.pagesObject} 0 R >>`)
+    const infoObject = this.add(`<< ${[
+      info.title && `/Title ${pdfString(info.title)}`,
+      info.author && `/Author ${pdfString(info.author)}`,
+      '/Producer (vyb-web)',
+      `/CreationDate ${pdfString(pdfDate(this.options.creationDate ?? new Date()))}`
+    ].filter(Boolean).join(' ')} >>`)
+
+    let file = '%PDF-1.4\n%âãÏÓ\n'
+    const offsets: number[] = []
+    this.objects.forEach((body, index) => {
+      offsets.push(file.length)
+      file += `${index + 1} 0 obj\n${body}\nendobj\n`
+    })
+
+    const xref = file.length
+    file += `xref\n0 ${this.objects.length + 1}\n0000000000 65535 f \n`
+    file += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+    file += `trailer\n<< /Size ${this.objects.length + 1} /Root ${catalog} 0 R /Info ${infoObject} 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+    return { data: latin1Bytes(file), pageCount: this.pages.length, issues: this.issues }
+  }
+
+  // Objects
+
+  reserve(): number {
+    this.objects.push('null')
+    return this.objects.length
+  }
+
+  set(object: number, body: string): void {
+    this.objects[object - 1] = body
+  }
+
+  add(body: string): number {
+    const object = this.reserve()
+    this.set(object, body)
+    return object
+  }
+
+  stream(dictionary: string, data: string): number {
+    return this.add(`<< ${dictionary} /Length ${data.length} >>\nstream\n${data}\nendstream`)
+  }
+
+  font(name: string): number {
+    let object = this.fonts.get(name)
+    if (!object) {
+      object = this.add(`<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`)
+      this.fonts.set(name, object)
+    }
+    return object
+  }
+
+  private addPage(page: PageBuilder, width: number, height: number): void {
+    const contents = this.stream('', page.content())
+    this.pages.push(this.add(
+      `<< /Type /Page /Parent ${this.pagesObject} 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] ` +
+      `/Resources ${page.resources()} /Contents ${contents} 0 R >>`
+    ))
+  }
+
+  // Images
+
+  private async embedImage(bytes: Uint8Array): Promise<PdfImage> {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return this.embedJpeg(bytes)
+    if (isPng(bytes)) return this.embedPng(bytes)
+    throw new Error('only JPEG and PNG images are supported')
+  }
+
+  private embedJpeg(bytes: Uint8Array): PdfImage {
+    let offset = 2
+    while (offset < bytes.length) {
+      if (bytes[offset] !== 0xff) throw new Error('corrupt JPEG')
+      const marker = bytes[offset + 1]
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3]
+      // Start-of-frame markers, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        const height = (bytes[offset + 5] << 8) | bytes[offset + 6]
+        const width = (bytes[offset + 7] << 8) | bytes[offset + 8]
+        const components = bytes[offset + 9]
+        const colorSpace = components === 1 ? '/DeviceGray' : components === 4 ? '/DeviceCMYK /Decode [1 0 1 0 1 0 1 0]' : '/DeviceRGB'
+        const object = this.stream(
+          `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode`,
+          latin1String(bytes)
+        )
+        return { object, width, height }
+      }
+      offset += 2 + length
+    }
+    throw new Error('JPEG has no frame header')
+  }
+
+  /**
+   * PNG scanlines are stored as-is with the PNG predictor; images with an alpha channel
+   * are decoded and split into colour and a soft mask
+   */
+  private async embedPng(bytes: Uint8Array): Promise<PdfImage> {
+    const { header, palette, data } = parsePng(bytes)
+    const { width, height, bitDepth, colorType } = header
+    if (header.interlace) throw new Error('interlaced PNGs are not supported')
+
+    if (colorType === 0 || colorType === 2 || colorType === 3) {
+      const colors = colorType === 2 ? 3 : 1
+      const colorSpace = colorType === 3
+        ? `[/Indexed /DeviceRGB ${(palette?.length ?? 3) / 3 - 1} ${hexString(palette ?? new Uint8Array(3))}]`
+        : colorType === 2 ? '/DeviceRGB' : '/DeviceGray'
+      const object = this.stream(
+        `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${colorSpace} /BitsPerComponent ${bitDepth} ` +
+        `/Filter /FlateDecode /DecodeParms << /Predictor 15 /Colors ${colors} /BitsPerComponent ${bitDepth} /Columns ${width} >>`,
+        latin1String(data)
+      )
+      return { object, width, height }
+    }
+
+    const image = await decodePng(bytes)
+    const colorBytes = new Uint8Array(width * height * 3)
+    const alphaBytes = new Uint8Array(width * height)
+    for (let pixel = 0; pixel < width * height; pixel++) {
+      colorBytes.set(image.data.subarray(pixel * 4, pixel * 4 + 3), pixel * 3)
+      alphaBytes[pixel] = image.data[pixel * 4 + 3]
+    }
+
+    const mask = this.stream(
+      `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode`,
+      latin1String(await deflate(alphaBytes))
+    )
+    const object = this.stream(
+      `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB ` +
+      `/BitsPerComponent 8 /Filter /FlateDecode /SMask ${mask} 0 R`,
+      latin1String(await deflate(colorBytes))
+    )
+    return { object, width, height }
+  }
+}
+
+// Pages
+
+type RGB = [number, number, number]
+
+interface TextOptions {
+  font: string
+  size: number
+  color: RGB
+  alpha?: number
+  align?: 'left' | 'center' | 'right'
+  /** Truncate with an ellipsis beyond this width */
+  maxWidth?: number
+}
+
+/**
+ * Content stream and resources of one page
+ * Drawing uses top-left origin coordinates like the canvas; the page flips them once.
+ */
+class PageBuilder {
+  private operations: string[] = []
+  private fontNames = new Map<string, string>()
+  private states = new Map<string, string>()
+  private shadings = new Map<number, string>()
+  private xObjects = new Map<number, string>()
+
+  constructor(private document: PdfDocument, height: number) {
+    this.operations.push(`1 0 0 -1 0 ${num(height)} cm`)
+  }
+
+  content(): string {
+    return this.operations.join('\n')
+  }
+
+  resources(): string {
+    const dictionary = (name: string, entries: Array<[string, string]>) =>
+      entries.length > 0 ? `/${name} << ${entries.map(([alias, value]) => `/${alias} ${value}`).join(' ')} >>` : ''
+
+    return `<< ${[
+      dictionary('Font', Array.from(this.fontNames, ([font, alias]) => [alias, `${this.document.font(font)} 0 R`])),
+      dictionary('ExtGState', Array.from(this.states, ([state, alias]) => [alias, state])),
+      dictionary('Shading', Array.from(this.shadings, ([object, alias]) => [alias, `${object} 0 R`])),
+      dictionary('XObject', Array.from(this.xObjects, ([object, alias]) => [alias, `${object} 0 R`]))
+    ].filter(Boolean).join(' ')} >>`
+  }
+
+  push(...operations: string[]): void {
+    this.operations.push(...operations)
+  }
+
+  save(): void {
+    this.operations.push('q')
+  }
+
+  restore(): void {
+    this.operations.push('Q')
+  }
+
+  /**
+   * Fill and stroke opacity for what follows until the next restore
+   */
+  alpha(fill: number, stroke: number = fill): void {
+    if (fill >= 1 && stroke >= 1) return
+    const dictionary = `<< /Type /ExtGState /ca ${num(fill)} /CA ${num(stroke)} >>`
+    let name = this.states.get(dictionary)
+    if (!name) {
+      name = `GS${this.states.size}`
+      this.states.set(dictionary, name)
+    }
+    this.operations.push(`/${name} gs`)
+  }
+
+  shading(object: number): string {
+    let name = this.shadings.get(object)
+    if (!name) {
+      name = `Sh${this.shadings.size}`
+      this.shadings.set(object, name)
+    }
+    return name
+  }
+
+  image(object: number): string {
+    let name = this.xObjects.get(object)
+    if (!name) {
+      name = `Im${this.xObjects.size}`
+      this.xObjects.set(object, name)
+    }
+    return name
+  }
+
+  createShading(dictionary: string): number {
+    return this.document.add(dictionary)
+  }
+
+  /**
+   * Single line of text; y is the baseline
+   */
+  text(value: string, x: number, y: number, options: TextOptions): void {
+    let text = value
+    if (options.maxWidth !== undefined && textWidth(text, options.font, options.size) > options.maxWidth) {
+      while (text.length > 0 && textWidth(`${text}…`, options.font, options.size) > options.maxWidth) {
+        text = text.slice(0, -1)
+      }
+      text = `${text}…`
+    }
+
+    const width = textWidth(text, options.font, options.size)
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x
+
+    let name = this.fontNames.get(options.font)
+    if (!name) {
+      name = `F${this.fontNames.size}`
+      this.fontNames.set(options.font, name)
+    }
+
+    this.save()
+    if (options.alpha !== undefined) this.alpha(options.alpha)
+    this.operations.push(
+      `${rgb(options.color)} rg`,
+      'BT',
+      `/${name} ${num(options.size)} Tf`,
+      `1 0 0 -1 ${num(left)} ${num(y)} Tm`,
+      `${pdfString(text)} Tj`,
+      'ET'
+    )
+    this.restore()
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: RGB): void {
+    this.operations.push(`${rgb(color)} RG`, '0.75 w', `${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`)
+  }
+}
+
+/**
+ * Draws the layers of one canvas onto a page
+ */
+class LayerPainter {
+  private layers: Map<string, LayerData>
+  private rendering = new Set<string>()
+
+  constructor(
+    private canvas: DesignCanvas,
+    private page: PageBuilder,
+    private path: string,
+    private issues: ConversionIssue[],
+    private image: (source: string) => PdfImage | null
+  ) {
+    this.layers = new Map(canvas.layers.map(layer => [layer.id, layer]))
+  }
+
+  paint(): void {
+    const children = new Set(this.canvas.layers
+      .filter(layer => layer.type === LayerType.GROUP)
+      .flatMap(layer => (layer.content.childLayerIds ?? []).filter(childId => childId !== layer.id)))
+    this.paintLayers(this.canvas.layers.filter(layer => !children.has(layer.id)), 1)
+  }
+
+  private paintLayers(layers: LayerData[], opacity: number): void {
+    layers
+      .filter(layer => layer.constraints.visible)
+      .sort((a, b) => a.zIndex - b.zIndex)
+      .forEach(layer => this.paintLayer(layer, opacity))
+  }
+
+  /**
+   * Groups have no transparency group here: their opacity multiplies into each child
+   */
+  private paintLayer(layer: LayerData, parentOpacity: number): void {
+    if (this.rendering.has(layer.id)) return
+    this.rendering.add(layer.id)
+
+    const path = `${this.path}.layers.${layer.id}`
+    const opacity = parentOpacity * layer.transform.opacity
+    this.reportEffects(layer.style, path)
+
+    if (layer.type === LayerType.GROUP) {
+      const children = (layer.content.childLayerIds ?? [])
+        .map(childId => this.layers.get(childId))
+        .filter((child): child is LayerData => Boolean(child))
+      this.paintLayers(children, opacity)
+      this.rendering.delete(layer.id)
+      return
+    }
+
+    const bounds = getLayerBounds(layer, this.canvas)
+    const radians = layer.transform.rotation * Math.PI / 180
+    const cos = Math.cos(radians)
+    const sin = Math.sin(radians)
+
+    this.page.save()
+    this.page.push(`${num(cos)} ${num(sin)} ${num(-sin)} ${num(cos)} ${num(bounds.x)} ${num(bounds.y)} cm`)
+
+    switch (layer.type) {
+      case LayerType.BACKGROUND:
+        this.paintShape(rectanglePath(bounds.width, bounds.height, 0), layer.content, {}, opacity, bounds, path, '#ffffff')
+        break
+      case LayerType.SHAPE:
+        this.paintShadow(layer.content, layer.style, bounds, opacity, path)
+        this.paintShape(shapePath(layer.content, layer.style, bounds.width, bounds.height), layer.content, layer.style, opacity, bounds, path)
+        break
+      case LayerType.TEXT:
+      case LayerType.POST_TEXT:
+        this.paintText(layer.content, layer.style, bounds, opacity, path)
+        break
+      case LayerType.IMAGE:
+        this.paintShadow(layer.content, layer.style, bounds, opacity, path)
+        this.paintImage(layer.content, layer.style, bounds, opacity)
+        break
+    }
+
+    this.page.restore()
+    this.rendering.delete(layer.id)
+  }
+
+  private paintShape(
+    outline: string,
+    content: LayerContent,
+    style: LayerStyle,
+    opacity: number,
+    bounds: { width: number; height: number },
+    path: string,
+    fallbackFill?: string
+  ): void {
+    const gradient = content.gradient && content.gradient.stops.length > 0 ? content.gradient : null
+    const fill = gradient ? null : this.color(content.color ?? content.fill ?? style.backgroundColor ?? fallbackFill, `${path}.content.fill`)
+    const stroke = strokeOf(content, style)
+    const strokeColor = stroke ? this.color(stroke.color, `${path}.content.stroke`) : null
+
+    if (gradient) {
+      this.page.save()
+      this.page.alpha(opacity)
+      this.page.push(outline, 'W n')
+      this.paintGradient(gradient, bounds.width, bounds.height, `${path}.content.gradient`)
+      this.page.restore()
+    } else if (fill) {
+      this.page.save()
+      this.page.alpha(opacity * fill.alpha)
+      this.page.push(`${rgb(fill.rgb)} rg`, outline, 'f')
+      this.page.restore()
+    }
+
+    if (stroke && strokeColor) {
+      this.page.save()
+      this.page.alpha(1, opacity * strokeColor.alpha)
+      this.page.push(`${rgb(strokeColor.rgb)} RG`, `${num(stroke.width)} w`, outline, 'S')
+      this.page.restore()
+    }
+  }
+
+  /**
+   * Gradients are painted in the layer's unit box, matching objectBoundingBox gradients in SVG
+   */
+  private paintGradient(gradient: NonNullable<LayerContent['gradient']>, width: number, height: number, path: string): void {
+    const stops = [...gradient.stops].sort((a, b) => a.position - b.position)
+    const colors = stops.map(stop => this.color(stop.color, path) ?? { rgb: [0, 0, 0] as RGB, alpha: 1 })
+    if (colors.some(color => color.alpha < 1)) {
+      this.issues.push({ path, kind: 'approximated', message: 'Gradient stop transparency is not exported to PDF' })
+    }
+
+    const positions = stops.map(stop => Math.min(1, Math.max(0, stop.position)))
+    const functions = colors.slice(1).map((color, index) =>
+      `<< /FunctionType 2 /Domain [0 1] /C0 [${rgb(colors[index].rgb)}] /C1 [${rgb(color.rgb)}] /N 1 >>`)
+    const shadingFunction = functions.length === 0
+      ? `<< /FunctionType 2 /Domain [0 1] /C0 [${rgb(colors[0].rgb)}] /C1 [${rgb(colors[0].rgb)}] /N 1 >>`
+      : functions.length === 1 && positions[0] === 0 && positions[1] === 1
+        ? functions[0]
+        : `<< /FunctionType 3 /Domain [${num(positions[0])} ${num(positions[positions.length - 1])}] /Functions [${functions.join(' ')}] ` +
+          `/Bounds [${positions.slice(1, -1).map(num).join(' ')}] /Encode [${functions.map(() => '0 1').join(' ')}] >>`
+
+    const shading = gradient.type === 'radial'
+      ? `<< /ShadingType 3 /ColorSpace /DeviceRGB /Coords [0.5 0.5 0 0.5 0.5 0.5] /Function ${shadingFunction} /Extend [true true] >>`
+      : `<< /ShadingType 2 /ColorSpace /DeviceRGB /Coords [0 ${num(positions[0])} 0 ${num(positions[positions.length - 1])}] /Function ${shadingFunction} /Extend [true true] >>`
+
+    const name = this.page.shading(this.page.createShading(shading))
+    this.page.push(`${num(width)} 0 0 ${num(height)} 0 0 cm`, `/${name} sh`)
+  }
+
+  /**
+   * PDF has no blur: the shadow is the layer outline grown by spread and offset, without softening
+   */
+  private paintShadow(content: LayerContent, style: LayerStyle, bounds: { width: number; height: number }, opacity: number, path: string): void {
+    const shadow = style.boxShadow
+    if (!shadow) return
+    const color = this.color(shadow.color, `${path}.style.boxShadow`)
+    if (!color) return
+
+    const spread = shadow.spread
+    const outline = shapePath(content, style, bounds.width + spread * 2, bounds.height + spread * 2)
+    this.page.save()
+    this.page.alpha(opacity * color.alpha)
+    this.page.push(`1 0 0 1 ${num(shadow.x - spread)} ${num(shadow.y - spread)} cm`, `${rgb(color.rgb)} rg`, outline, 'f')
+    this.page.restore()
+  }
+
+  private paintText(content: LayerContent, style: LayerStyle, bounds: { width: number; height: number }, opacity: number, path: string): void {
+    if (style.backgroundColor) {
+      this.paintShape(rectanglePath(bounds.width, bounds.height, style.borderRadius ?? 0), { fill: style.backgroundColor }, {}, opacity, bounds, path)
+    }
+    if (!content.text) return
+
+    const color = this.color(style.color ?? content.color ?? '#000000', `${path}.style.color`)
+    if (!color) return
+
+    const font = standardFont(content)
+    const size = content.fontSize ?? DEFAULT_FONT_SIZE
+    const lineHeight = size * (content.lineHeight ?? DEFAULT_LINE_HEIGHT)
+    const [align, x] = content.textAlign === 'center'
+      ? ['center' as const, bounds.width / 2]
+      : content.textAlign === 'right' ? ['right' as const, bounds.width] : ['left' as const, 0]
+
+    content.text.split('\n').forEach((line, index) => {
+      this.page.text(line, x, size + index * lineHeight, { font, size, color: color.rgb, alpha: opacity * color.alpha, align })
+    })
+  }
+
+  /**
+   * Scaled to cover the layer box and centred, like object-fit: cover
+   */
+  private paintImage(content: LayerContent, style: LayerStyle, bounds: { width: number; height: number }, opacity: number): void {
+    const source = content.imageData ?? content.imageUrl
+    const image = source ? this.image(source) : null
+    if (!image) return
+
+    const scale = Math.max(bounds.width / image.width, bounds.height / image.height)
+    const width = image.width * scale
+    const height = image.height * scale
+
+    this.page.save()
+    this.page.alpha(opacity)
+    this.page.push(rectanglePath(bounds.width, bounds.height, style.borderRadius ?? 0), 'W n')
+    // Image space has y up; the page draws with y down
+    this.page.push(`${num(width)} 0 0 ${num(-height)} ${num((bounds.width - width) / 2)} ${num((bounds.height + height) / 2)} cm`, `/${this.page.image(image.object)} Do`)
+    this.page.restore()
+
+    const stroke = strokeOf(content, style)
+    if (stroke) {
+      this.paintShape(rectanglePath(bounds.width, bounds.height, style.borderRadius ?? 0), {}, { borderWidth: stroke.width, borderColor: stroke.color }, opacity, bounds, '')
+    }
+  }
+
+  private color(value: string | undefined, path: string): { rgb: RGB; alpha: number } | null {
+    if (!value) return null
+    const color = parseColor(value)
+    if (color === undefined) {
+      this.issues.push({ path, kind: 'approximated', message: `Colour '${value}' is not understood and was drawn black` })
+      return { rgb: [0, 0, 0], alpha: 1 }
+    }
+    return color
+  }
+
+  private reportEffects(style: LayerStyle, path: string): void {
+    if (style.boxShadow?.blur) {
+      this.issues.push({ path: `${path}.style.boxShadow`, kind: 'approximated', message: 'Shadow blur is not supported in PDF; the shadow has a hard edge' })
+    }
+    if (style.filter && Object.values(style.filter).some(value => value !== undefined)) {
+      this.issues.push({ path: `${path}.style.filter`, kind: 'dropped', message: 'Layer filters are not supported in PDF' })
+    }
+  }
+}
+
+// Geometry
+
+function shapePath(content: LayerContent, style: LayerStyle, width: number, height: number): string {
+  switch (content.shapeType ?? 'rectangle') {
+    case 'circle':
+      return ellipsePath(width, height)
+    case 'triangle':
+      return polygonPath([[width / 2, 0], [width, height], [0, height]])
+    case 'polygon':
+      return polygonPath([[width / 4, 0], [width * 3 / 4, 0], [width, height / 2], [width * 3 / 4, height], [width / 4, height], [0, height / 2]])
+    default:
+      return rectanglePath(width, height, style.borderRadius ?? 0)
+  }
+}
+
+function rectanglePath(width: number, height: number, radius: number): string {
+  const r = Math.min(radius, width / 2, height / 2)
+  if (r <= 0) return `0 0 ${num(width)} ${num(height)} re`
+
+  const k = r * (1 - KAPPA)
+  return [
+    `${num(r)} 0 m`,
+    `${num(width - r)} 0 l`,
+    `${num(width - k)} 0 ${num(width)} ${num(k)} ${num(width)} ${num(r)} c`,
+    `${num(width)} ${num(height - r)} l`,
+    `${num(width)} ${num(height - k)} ${num(width - k)} ${num(height)} ${num(width - r)} ${num(height)} c`,
+    `${num(r)} ${num(height)} l`,
+    `${num(k)} ${num(height)} 0 ${num(height - k)} 0 ${num(height - r)} c`,
+    `0 ${num(r)} l`,
+    `0 ${num(k)} ${num(k)} 0 ${num(r)} 0 c`,
+    'h'
+  ].join(' ')
+}
+
+function ellipsePath(width: number, height: number): string {
+  const rx = width / 2
+  const ry = height / 2
+  const ox = rx * KAPPA
+  const oy = ry * KAPPA
+  return [
+    `${num(width)} ${num(ry)} m`,
+    `${num(width)} ${num(ry + oy)} ${num(rx + ox)} ${num(height)} ${num(rx)} ${num(height)} c`,
+    `${num(rx - ox)} ${num(height)} 0 ${num(ry + oy)} 0 ${num(ry)} c`,
+    `0 ${num(ry - oy)} ${num(rx - ox)} 0 ${num(rx)} 0 c`,
+    `${num(rx + ox)} 0 ${num(width)} ${num(ry - oy)} ${num(width)} ${num(ry)} c`,
+    'h'
+  ].join(' ')
+}
+
+function polygonPath(points: Array<[number, number]>): string {
+  return `${points.map(([x, y], index) => `${num(x)} ${num(y)} ${index === 0 ? 'm' : 'l'}`).join(' ')} h`
+}
+
+function strokeOf(content: LayerContent, style: LayerStyle): { color: string; width: number } | null {
+  if (content.stroke) return { color: content.stroke, width: content.strokeWidth ?? 1 }
+  if (style.borderWidth) return { color: style.borderColor ?? '#000000', width: style.borderWidth }
+  return null
+}
+
+// Text
+
+/** Unicode code points of WinAnsiEncoding bytes 0x80–0x9F */
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87,
+  0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91,
+  0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98,
+  0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f
+}
+
+/**
+ * Literal string in WinAnsiEncoding; characters outside it become '?'
+ */
+function pdfString(text: string): string {
+  let result = '('
+  for (const character of text) {
+    const code = character.codePointAt(0)!
+    const byte = (code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff) ? code : WIN_ANSI_EXTRAS[code] ?? 0x3f
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+      result += `\\${String.fromCharCode(byte)}`
+    } else if (byte > 126) {
+      result += `\\${byte.toString(8).padStart(3, '0')}`
+    } else {
+      result += String.fromCharCode(byte)
+    }
+  }
+  return `${result})`
+}
+
+function pdfDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+}
+
+// Colours
+
+/**
+ * PDF colour components (0–1); null for transparent, undefined when unknown
+ */
+function parseColor(value: string): { rgb: RGB; alpha: number } | null | undefined {
+  const color = parseCssColor(value)
+  if (!color) return color
+  return { rgb: [color.r / 255, color.g / 255, color.b / 255], alpha: color.a }
+}
+
+function rgb(color: RGB): string {
+  return color.map(num).join(' ')
+}
+
+// Bytes
+
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000)
+}
+
+function latin1Bytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length)
+  for (let index = 0; index < text.length; index++) {
+    bytes[index] = text.charCodeAt(index)
+  }
+  return bytes
+}
+
+function latin1String(bytes: Uint8Array): string {
+  let text = ''
+  for (let index = 0; index < bytes.length; index += 8192) {
+    text += String.fromCharCode(...bytes.subarray(index, index + 8192))
+  }
+  return text
+}
+
+function hexString(bytes: Uint8Array): string {
+  return `<${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}>`
+}
@@ -0,0 +1,366 @@
+import { DesignCanvas, LayerData } from '../models/DesignCanvas'
+import { getLayerBounds } from '../components/CanvasPreview'
+import { LayerContent, LayerStyle, LayerType } from '../types'
+
+/**
+ * The part of CanvasRenderingContext2D that drawCanvas uses
+ * A browser context satisfies it as-is; RasterContext implements it without a DOM.
+ */
+export interface RenderContext2D<TImage> {
+  globalAlpha: number
+  fillStyle: string | CanvasGradient | CanvasPattern
+  strokeStyle: string | CanvasGradient | CanvasPattern
+  lineWidth: number
+  font: string
+  textAlign: CanvasTextAlign
+  textBaseline: CanvasTextBaseline
+  shadowColor: string
+  shadowBlur: number
+  shadowOffsetX: number
+  shadowOffsetY: number
+  filter: string
+  save(): void
+  restore(): void
+  translate(x: number, y: number): void
+  rotate(angle: number): void
+  scale(x: number, y: number): void
+  beginPath(): void
+  closePath(): void
+  moveTo(x: number, y: number): void
+  lineTo(x: number, y: number): void
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void
+  rect(x: number, y: number, width: number, height: number): void
+  fill(): void
+  stroke(): void
+  clip(): void
+  fillRect(x: number, y: number, width: number, height: number): void
+  fillText(text: string, x: number, y: number): void
+  measureText(text: string): { width: number }
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): CanvasGradient
+  createRadialGradient(x0: number, y0: number, r0: number, x1: number, y1: number, r1: number): CanvasGradient
+  drawImage(image: TImage, dx: number, dy: number, dw: number, dh: number): void
+}
+
+export interface DrawCanvasOptions<TImage> {
+  /** Loaded images keyed by the layer's imageData or imageUrl */
+  images?: ReadonlyMap<string, TImage>
+  /** Fill for image layers whose image is missing (default: nothing is drawn) */
+  imagePlaceholder?: string
+  /**
+   * Device pixels per canvas unit (default 1); shadows and filters are applied in
+   * device space, so their offsets and blur radii are scaled by it
+   */
+  scale?: number
+}
+
+const DEFAULT_FONT_SIZE = 16
+const DEFAULT_LINE_HEIGHT = 1.2
+/** Control point distance for a quarter circle drawn as a cubic Bézier */
+const KAPPA = 0.5522847498
+
+/**
+ * Paint a canvas in canvas units onto a 2D context
+ *
+ * Follows the layer geometry of CanvasPreview and the SVG and PDF exporters: layers are
+ * drawn by zIndex, rotate about their top-left corner and group opacity multiplies into
+ * the children. Text wraps at the layer width. The caller sets up scaling and clears
+ * the surface.
+ */
+export function drawCanvas<TImage extends { width: number; height: number }>(
+  ctx: RenderContext2D<TImage>,
+  canvas: DesignCanvas,
+  options: DrawCanvasOptions<TImage> = {}
+): void {
+  const layers = new Map(canvas.layers.map(layer => [layer.id, layer]))
+  const children = new Set(canvas.layers
+    .filter(layer => layer.type === LayerType.GROUP)
+    .flatMap(layer => (layer.content.childLayerIds ?? []).filter(childId => childId !== layer.id)))
+  const rendering = new Set<string>()
+
+  const drawLayers = (candidates: LayerData[], opacity: number): void => {
+    candidates
+      .filter(layer => layer.constraints.visible)
+      .sort((a, b) => a.zIndex - b.zIndex)
+      .forEach(layer => drawLayer(layer, opacity))
+  }
+
+  const drawLayer = (layer: LayerData, parentOpacity: number): void => {
+    if (rendering.has(layer.id)) return
+    rendering.add(layer.id)
+    const opacity = parentOpacity * layer.transform.opacity
+
+    if (layer.type === LayerType.GROUP) {
+      drawLayers((layer.content.childLayerIds ?? [])
+        .map(childId => layers.get(childId))
+        .filter((child): child is LayerData => Boolean(child)), opacity)
+    } else {
+      const bounds = getLayerBounds(layer, canvas)
+      const effects = layerEffects(layer, options.scale ?? 1)
+      ctx.save()
+      ctx.translate(bounds.x, bounds.y)
+      ctx.rotate(layer.transform.rotation * Math.PI / 180)
+      ctx.globalAlpha = opacity
+      if (effects.filter) ctx.filter = effects.filter
+
+      switch (layer.type) {
+        case LayerType.BACKGROUND:
+          drawShape(ctx, { ...layer.content, shapeType: 'rectangle' }, {}, bounds, null, '#ffffff')
+          break
+        case LayerType.SHAPE:
+          drawShape(ctx, layer.content, layer.style, bounds, effects.shadow)
+          break
+        case LayerType.TEXT:
+        case LayerType.POST_TEXT:
+          drawText(ctx, layer.content, layer.style, bounds, effects.shadow)
+          break
+        case LayerType.IMAGE: {
+          const source = layer.content.imageData ?? layer.content.imageUrl
+          const image = source ? options.images?.get(source) : undefined
+          drawImage(ctx, layer.content, layer.style, bounds, effects.shadow, image, options.imagePlaceholder)
+          break
+        }
+      }
+      ctx.restore()
+    }
+    rendering.delete(layer.id)
+  }
+
+  drawLayers(canvas.layers.filter(layer => !children.has(layer.id)), 1)
+}
+
+// Layers
+
+type Size = { width: number; height: number }
+
+interface Shadow {
+  color: string
+  blur: number
+  offsetX: number
+  offsetY: number
+}
+
+/**
+ * Canvas shadows and filters ignore the current transform, so the layer's rotation and
+ * the output scale are applied here; shadow spread has no canvas equivalent
+ */
+function layerEffects(layer: LayerData, scale: number): { shadow: Shadow | null; filter: string | null } {
+  const { boxShadow, filter } = layer.style
+  const radians = layer.transform.rotation * Math.PI / 180
+  const shadow = boxShadow ? {
+    color: boxShadow.color,
+    blur: boxShadow.blur * scale,
+    offsetX: (boxShadow.x * Math.cos(radians) - boxShadow.y * Math.sin(radians)) * scale,
+    offsetY: (boxShadow.x * Math.sin(radians) + boxShadow.y * Math.cos(radians)) * scale
+  } : null
+
+  const functions = [
+    filter?.blur && `blur(${filter.blur * scale}px)`,
+    filter?.brightness !== undefined && `brightness(${filter.brightness})`,
+    filter?.contrast !== undefined && `contrast(${filter.contrast})`,
+    filter?.saturate !== undefined && `saturate(${filter.saturate})`
+  ].filter(Boolean)
+
+  return { shadow, filter: functions.length > 0 ? functions.join(' ') : null }
+}
+
+/**
+ * Fill the current path, casting the shadow if there is one
+ */
+function fillWithShadow<TImage>(ctx: RenderContext2D<TImage>, shadow: Shadow | null): void {
+  if (!shadow) return ctx.fill()
+  ctx.save()
+  ctx.shadowColor = shadow.color
+  ctx.shadowBlur = shadow.blur
+  ctx.shadowOffsetX = shadow.offsetX
+  ctx.shadowOffsetY = shadow.offsetY
+  ctx.fill()
+  ctx.restore()
+}
+
+function drawShape<TImage>(
+  ctx: RenderContext2D<TImage>,
+  content: LayerContent,
+  style: LayerStyle,
+  size: Size,
+  shadow: Shadow | null,
+  fallbackFill?: string
+): void {
+  const gradient = content.gradient && content.gradient.stops.length > 0 ? content.gradient : null
+  const fill = content.color ?? content.fill ?? style.backgroundColor ?? fallbackFill
+
+  if (gradient && size.width > 0 && size.height > 0) {
+    shapePath(ctx, content, style, size)
+    ctx.save()
+    // The path is already fixed; scaling now only maps the gradient onto the layer's unit
+    // box, like objectBoundingBox gradients in SVG
+    ctx.scale(size.width, size.height)
+    const paint = gradient.type === 'radial'
+      ? ctx.createRadialGradient(0.5, 0.5, 0, 0.5, 0.5, 0.5)
+      : ctx.createLinearGradient(0, 0, 0, 1)
+    for (const stop of gradient.stops) {
+      try {
+        paint.addColorStop(Math.min(1, Math.max(0, stop.position)), stop.color)
+      } catch {
+        // Browsers throw on colours they cannot parse; the stop is left out
+      }
+    }
+    ctx.fillStyle = paint
+    fillWithShadow(ctx, shadow)
+    ctx.restore()
+  } else if (fill) {
+    ctx.fillStyle = fill
+    shapePath(ctx, content, style, size)
+    fillWithShadow(ctx, shadow)
+  }
+
+  strokeOutline(ctx, content, style, size)
+}
+
+function drawText<TImage>(ctx: RenderContext2D<TImage>, content: LayerContent, style: LayerStyle, size: Size, shadow: Shadow | null): void {
+  if (style.backgroundColor) {
+    ctx.fillStyle = style.backgroundColor
+    roundedRectPath(ctx, size.width, size.height, style.borderRadius ?? 0)
+    fillWithShadow(ctx, shadow)
+  }
+  strokeOutline(ctx, { shapeType: 'rectangle' }, style, size)
+  if (!content.text) return
+
+  const fontSize = content.fontSize ?? DEFAULT_FONT_SIZE
+  const lineHeight = fontSize * (content.lineHeight ?? DEFAULT_LINE_HEIGHT)
+  const [align, x] = content.textAlign === 'center'
+    ? ['center' as const, size.width / 2]
+    : content.textAlign === 'right' ? ['right' as const, size.width] : ['left' as const, 0]
+
+  ctx.font = [content.fontStyle, content.fontWeight, `${fontSize}px`, content.fontFamily ?? 'sans-serif'].filter(Boolean).join(' ')
+  ctx.fillStyle = style.color ?? content.color ?? '#000000'
+  ctx.textAlign = align
+  ctx.textBaseline = 'alphabetic'
+  wrapLines(ctx, content.text, size.width).forEach((line, index) => ctx.fillText(line, x, fontSize + index * lineHeight))
+}
+
+/**
+ * Greedy word wrap of each paragraph at the context's current font; a word wider than the
+ * box keeps a line of its own
+ */
+function wrapLines<TImage>(ctx: RenderContext2D<TImage>, text: string, maxWidth: number): string[] {
+  return text.split('\n').flatMap(paragraph => {
+    const words = paragraph.split(/\s+/).filter(Boolean)
+    if (words.length === 0 || ctx.measureText(paragraph).width <= maxWidth) return [paragraph]
+
+    const lines: string[] = []
+    let line = ''
+    for (const word of words) {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    }
+    lines.push(line)
+    return lines
+  })
+}
+
+/**
+ * Scaled to cover the layer box and centred, like object-fit: cover
+ * The shadow is cast by the (rounded) box, as CSS box-shadow is.
+ */
+function drawImage<TImage extends Size>(
+  ctx: RenderContext2D<TImage>,
+  content: LayerContent,
+  style: LayerStyle,
+  size: Size,
+  shadow: Shadow | null,
+  image: TImage | undefined,
+  placeholder: string | undefined
+): void {
+  const loaded = image && image.width > 0 && image.height > 0
+  if (shadow || (!loaded && placeholder)) {
+    ctx.fillStyle = loaded ? shadow!.color : placeholder!
+    roundedRectPath(ctx, size.width, size.height, style.borderRadius ?? 0)
+    fillWithShadow(ctx, shadow)
+  }
+
+  if (loaded) {
+    const scale = Math.max(size.width / image.width, size.height / image.height)
+    const width = image.width * scale
+    const height = image.height * scale
+
+    ctx.save()
+    roundedRectPath(ctx, size.width, size.height, style.borderRadius ?? 0)
+    ctx.clip()
+    ctx.drawImage(image, (size.width - width) / 2, (size.height - height) / 2, width, height)
+    ctx.restore()
+  }
+  strokeOutline(ctx, { shapeType: 'rectangle', stroke: content.stroke, strokeWidth: content.strokeWidth }, style, size)
+}
+
+function strokeOutline<TImage>(ctx: RenderContext2D<TImage>, content: LayerContent, style: LayerStyle, size: Size): void {
+  const stroke = content.stroke
+    ? { color: content.stroke, width: content.strokeWidth ?? 1 }
+    : style.borderWidth ? { color: style.borderColor ?? '#000000', width: style.borderWidth } : null
+  if (!stroke) return
+
+  ctx.strokeStyle = stroke.color
+  ctx.lineWidth = stroke.width
+  shapePath(ctx, content, style, size)
+  ctx.stroke()
+}
+
+// Geometry
+
+function shapePath<TImage>(ctx: RenderContext2D<TImage>, content: LayerContent, style: LayerStyle, { width, height }: Size): void {
+  switch (content.shapeType ?? 'rectangle') {
+    case 'circle':
+      return ellipsePath(ctx, width, height)
+    case 'triangle':
+      return polygonPath(ctx, [[width / 2, 0], [width, height], [0, height]])
+    case 'polygon':
+      return polygonPath(ctx, [[width / 4, 0], [width * 3 / 4, 0], [width, height / 2], [width * 3 / 4, height], [width / 4, height], [0, height / 2]])
+    default:
+      return roundedRectPath(ctx, width, height, style.borderRadius ?? 0)
+  }
+}
+
+function roundedRectPath<TImage>(ctx: RenderContext2D<TImage>, width: number, height: number, radius: number): void {
+  const r = Math.min(radius, width / 2, height / 2)
+  ctx.beginPath()
+  if (r <= 0) {
+    ctx.rect(0, 0, width, height)
+    return
+  }
+
+  const k = r * (1 - KAPPA)
+  ctx.moveTo(r, 0)
+  ctx.lineTo(width - r, 0)
+  ctx.bezierCurveTo(width - k, 0, width, k, width, r)
+  ctx.lineTo(width, height - r)
+  ctx.bezierCurveTo(width, height - k, width - k, height, width - r, height)
+  ctx.lineTo(r, height)
+  ctx.bezierCurveTo(k, height, 0, height - k, 0, height - r)
+  ctx.lineTo(0, r)
+  ctx.bezierCurveTo(0, k, k, 0, r, 0)
+  ctx.closePath()
+}
+
+function ellipsePath<TImage>(ctx: RenderContext2D<TImage>, width: number, height: number): void {
+  const rx = width / 2
+  const ry = height / 2
+  const ox = rx * KAPPA
+  const oy = ry * KAPPA
+  ctx.beginPath()
+  ctx.moveTo(width, ry)
+  ctx.bezierCurveTo(width, ry + oy, rx + ox, height, rx, height)
+  ctx.bezierCurveTo(rx - ox, height, 0, ry + oy, 0, ry)
+  ctx.bezierCurveTo(0, ry - oy, rx - ox, 0, rx, 0)
+  ctx.bezierCurveTo(rx + ox, 0, width, ry - oy, width, ry)
+  ctx.closePath()
+}
+
+function polygonPath<TImage>(ctx: RenderContext2D<TImage>, points: Array<[number, number]>): void {
+  ctx.beginPath()
+  points.forEach(([x, y], index) => index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y))
+  ctx.closePath()
+}
@@ -1,6 +1,10 @@
-import { DesignCanvas } from '../entities/DesignCanvas'
-import { DesignVariation } from '../entities/DesignVariation'
-import { Layer } from '../entities/Layer'
+import { DesignCanvas } from '../models/DesignCanvas'
+import { DesignVariation } from '../models/DesignVariation'
+import { Layer, LayerData } from '../models/Layer'
+import { toCanvasModel, toLayerData, toVariationModel, CanvasInput, CanvasJSON, VariationJSON } from '../models/adapters'
+import { mergeCanvasEdits } from '../models/CanvasDocument'
+import { VariationSource } from '../types'
+import { mergeCanvases, ConflictResolution, MergeConflict } from './CanvasMerge'
 
 /**
  * Canvas response with versioning
@@ -8,16 +12,69 @@ import { Layer } from '../entities/Layer'
 export interface CanvasResponse {
   canvas: DesignCanvas
   version: number
-  lastModified?: string
+  lastModified?: Date
 }
 
 /**
  * Canvas update request with optimistic concurrency
  */
 export interface CanvasUpdateRequest {
+  canvas: CanvasInput
+  version: number
+  changeDescription?: string
+}
+
+/**
+ * Result of a successful canvas update; version is what the next update must send
+ */
+export interface CanvasUpdateResult {
   canvas: DesignCanvas
   version: number
+  lastModified: Date
+}
+
+/**
+ * Update that is rebased onto the server canvas when another session saved first
+ */
+export interface CanvasRebaseRequest {
+  /** Canvas as last loaded from the server: the common ancestor of the local and remote edits */
+  base: CanvasInput
+  /** Local canvas including unsaved edits */
+  canvas: CanvasInput
+  /** Version the base was loaded at */
+  version: number
   changeDescription?: string
+  /**
+   * Choices for conflicts reported by an earlier attempt, keyed by MergeConflict.id
+   * 'source' keeps the local value, 'target' keeps the server value
+   */
+  resolutions?: Record<string, ConflictResolution>
+  /**
+   * 'three-way' (default) returns overlapping edits as conflicts; 'crdt' merges them via
+   * CanvasDocument, keeping the local value on property clashes and interleaving text edits
+   */
+  strategy?: 'three-way' | 'crdt'
+  /** Saves attempted before giving up while other sessions keep writing (default 3) */
+  maxAttempts?: number
+}
+
+/**
+ * Outcome of updateCanvasWithRebase
+ * 'saved': the canvas (merged, if the server had moved on) is stored at version
+ * 'conflicted': nothing was saved; canvas is the merge with server values kept for every
+ * conflict, and version is the server version to rebase onto once the user has chosen
+ */
+export type CanvasRebaseResult =
+  | (CanvasUpdateResult & { status: 'saved'; merged: boolean; resolved: MergeConflict[] })
+  | { status: 'conflicted'; canvas: DesignCanvas; remote: DesignCanvas; version: number; conflicts: MergeConflict[] }
+
+/**
+ * Variation tree node as returned alongside the variation history
+ */
+export interface VariationTree {
+  nodeId: string
+  children: VariationTree[]
+  metadata?: VariationJSON['metadata']
 }
 
 /**
@@ -26,6 +83,8 @@ export interface CanvasUpdateRequest {
 export interface VariationHistoryResponse {
   canvasId: string
   variations: DesignVariation[]
+  currentVariationId: string | null
+  treeStructure?: VariationTree
   totalCount: number
   maxDepth: number
 }
@@ -34,9 +93,12 @@ export interface VariationHistoryResponse {
  * Create variation request
  */
 export interface CreateVariationRequest {
-  parentId?: string
-  description: string
-  changes: any[]
+  /** Parent variation ID, null for root variations */
+  parentVariationId: string | null
+  source: VariationSource.USER_EDIT | VariationSource.AI_SUGGESTION | VariationSource.AI_TREND | VariationSource.AI_CREATIVE
+  canvasState: CanvasInput
+  prompt?: string
+  confidence?: number
 }
 
 /**
@@ -44,16 +106,30 @@ export interface CreateVariationRequest {
  */
 export interface VariationCreatedResponse {
   variationId: string
-  canvas: DesignCanvas
-  version: number
+  timestamp: Date
+  /** Path from root to the new variation */
+  parentPath: string[]
 }
 
 /**
  * Layer update request
+ * version is optional for layer edits; when sent, a stale version is rejected with CONFLICT
  */
 export interface LayerUpdateRequest {
-  layer: Layer
+  layer: Layer | LayerData
+  version?: number
+  operation?: 'update' | 'reorder'
+  /** New z-index for reorder operations */
+  newIndex?: number
+}
+
+/**
+ * Result of a successful layer update
+ */
+export interface LayerUpdateResult {
+  layer: LayerData
   version: number
+  lastModified: Date
 }
 
 /**
@@ -119,9 +195,9 @@ export class CanvasService {
       const data = await response.json()
 
       return {
-        canvas: DesignCanvas.fromJSON(data.canvas),
+        canvas: this.parseCanvas(data.canvas),
         version: data.version,
-        lastModified: data.lastModified
+        lastModified: data.lastModified ? new Date(data.lastModified) : undefined
       }
     } catch (error) {
       if (error instanceof CanvasServiceError) {
@@ -135,16 +211,27 @@ export class CanvasService {
    * Update canvas state
    * PUT /canvas/{canvasId}
    */
-  async updateCanvas(canvasId: string, request: CanvasUpdateRequest): Promise<void> {
+  async updateCanvas(canvasId: string, request: CanvasUpdateRequest): Promise<CanvasUpdateResult> {
     try {
       if (!canvasId || canvasId.trim() === '') {
         throw new CanvasServiceError('Canvas ID is required', 'VALIDATION_ERROR')
       }
 
-      if (!request.canvas?.isValid()) {
+      let canvas: DesignCanvas
+      try {
+        canvas = toCanvasModel(request.canvas)
+      } catch {
         throw new CanvasServiceError('Invalid canvas data', 'VALIDATION_ERROR')
       }
 
+      if (!canvas.isValid()) {
+        throw new CanvasServiceError('Invalid canvas data', 'VALIDATION_ERROR')
+      }
+
+      if (canvas.id !== canvasId) {
+        throw new CanvasServiceError('Canvas ID mismatch', 'VALIDATION_ERROR')
+      }
+
       if (!Number.isInteger(request.version) || request.version < 0) {
         throw new CanvasServiceError('Valid version number is required', 'VALIDATION_ERROR')
       }
@@ -156,20 +243,32 @@ export class CanvasService {
           ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
         },
         body: JSON.stringify({
-          canvas: request.canvas.toJSON(),
+          canvas: canvas.toJSON(),
           version: request.version,
           changeDescription: request.changeDescription
         })
       })
 
       if (response.status === 409) {
-        throw new CanvasServiceError('Canvas has been modified by another session', 'CONFLICT')
+        throw new CanvasServiceError('Conflict - canvas modified by another session', 'CONFLICT')
+      }
+
+      if (response.status === 404) {
+        throw new CanvasServiceError('Canvas not found', 'NOT_FOUND')
       }
 
       if (!response.ok) {
         const error = await response.text()
         throw new CanvasServiceError(`Failed to update canvas: ${error}`, 'NETWORK_ERROR')
       }
+
+      const data = await response.json()
+
+      return {
+        canvas: this.parseCanvas(data.canvas),
+        version: data.version,
+        lastModified: new Date(data.lastModified)
+      }
     } catch (error) {
       if (error instanceof CanvasServiceError) {
         throw error
@@ -178,6 +277,57 @@ export class CanvasService {
     }
   }
 
+  /**
+   * Update canvas state, rebasing local edits onto the latest server canvas on CONFLICT
+   * Layer changes that do not overlap are applied automatically; overlapping ones are
+   * returned for the user to resolve and then passed back in as resolutions.
+   */
+  async updateCanvasWithRebase(canvasId: string, request: CanvasRebaseRequest): Promise<CanvasRebaseResult> {
+    const maxAttempts = request.maxAttempts ?? 3
+    let base = toCanvasModel(request.base)
+    let canvas = toCanvasModel(request.canvas)
+    let version = request.version
+    let merged = false
+    const resolved = new Map<string, MergeConflict>()
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.updateCanvas(canvasId, {
+          canvas,
+          version,
+          changeDescription: request.changeDescription
+        })
+        return { ...result, status: 'saved', merged, resolved: Array.from(resolved.values()) }
+      } catch (error) {
+        if (!(error instanceof CanvasServiceError) || error.code !== 'CONFLICT' || attempt >= maxAttempts) {
+          throw error
+        }
+      }
+
+      const latest = await this.getCanvas(canvasId)
+      const rebase = request.strategy === 'crdt'
+        ? { canvas: mergeCanvasEdits(base, [latest.canvas, canvas]), conflicts: [], resolved: [] }
+        : mergeCanvases(base, canvas, latest.canvas, request.resolutions)
+      rebase.resolved.forEach(conflict => resolved.set(conflict.id, conflict))
+
+      if (rebase.conflicts.length > 0) {
+        return {
+          status: 'conflicted',
+          canvas: rebase.canvas,
+          remote: latest.canvas,
+          version: latest.version,
+          conflicts: rebase.conflicts
+        }
+      }
+
+      // The server canvas is the new common ancestor should the next save conflict again
+      base = latest.canvas
+      canvas = rebase.canvas
+      version = latest.version
+      merged = true
+    }
+  }
+
   /**
    * Get design variation history
    * GET /canvas/{canvasId}/variations
@@ -211,15 +361,17 @@ export class CanvasService {
 
       const data = await response.json()
 
-      const variations = data.variations.map((variationData: any) =>
-        DesignVariation.fromJSON(variationData)
+      const variations = (data.variations as VariationJSON[]).map(variationData =>
+        toVariationModel(variationData)
       )
 
       return {
-        canvasId: data.canvasId,
+        canvasId: data.canvasId ?? canvasId,
         variations,
-        totalCount: data.totalCount,
-        maxDepth: data.maxDepth
+        currentVariationId: data.currentVariationId ?? null,
+        treeStructure: data.treeStructure,
+        totalCount: data.totalCount ?? variations.length,
+        maxDepth: data.maxDepth ?? depth
       }
     } catch (error) {
       if (error instanceof CanvasServiceError) {
@@ -239,8 +391,15 @@ export class CanvasService {
         throw new CanvasServiceError('Canvas ID is required', 'VALIDATION_ERROR')
       }
 
-      if (!request.description || request.description.trim() === '') {
-        throw new CanvasServiceError('Variation description is required', 'VALIDATION_ERROR')
+      if (request.confidence !== undefined && (request.confidence < 0 || request.confidence > 1)) {
+        throw new CanvasServiceError('Confidence must be between 0 and 1', 'VALIDATION_ERROR')
+      }
+
+      let canvasState: DesignCanvas
+      try {
+        canvasState = toCanvasModel(request.canvasState)
+      } catch (error) {
+        throw new CanvasServiceError(`Invalid canvas state: ${error instanceof Error ? error.message : error}`, 'VALIDATION_ERROR')
       }
 
       const response = await fetch(`${this.baseUrl}/canvas/${canvasId}/variations`, {
@@ -249,9 +408,13 @@ export class CanvasService {
           'Content-Type': 'application/json',
           ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
         },
-        body: JSON.stringify(request)
+        body: JSON.stringify({ ...request, canvasState: canvasState.toJSON() })
       })
 
+      if (response.status === 404) {
+        throw new CanvasServiceError(`Canvas ${canvasId} not found`, 'NOT_FOUND')
+      }
+
       if (!response.ok) {
         const error = await response.text()
         throw new CanvasServiceError(`Failed to create variation: ${error}`, 'NETWORK_ERROR')
@@ -261,8 +424,8 @@ export class CanvasService {
 
       return {
         variationId: data.variationId,
-        canvas: DesignCanvas.fromJSON(data.canvas),
-        version: data.version
+        timestamp: new Date(data.timestamp),
+        parentPath: data.parentPath ?? []
       }
     } catch (error) {
       if (error instanceof CanvasServiceError) {
@@ -276,7 +439,7 @@ export class CanvasService {
    * Update specific layer
    * PUT /canvas/{canvasId}/layers/{layerId}
    */
-  async updateLayer(canvasId: string, layerId: string, request: LayerUpdateRequest): Promise<void> {
+  async updateLayer(canvasId: string, layerId: string, request: LayerUpdateRequest): Promise<LayerUpdateResult> {
     try {
       if (!canvasId || canvasId.trim() === '') {
         throw new CanvasServiceError('Canvas ID is required', 'VALIDATION_ERROR')
@@ -286,11 +449,18 @@ export class CanvasService {
         throw new CanvasServiceError('Layer ID is required', 'VALIDATION_ERROR')
       }
 
-      // Layer validation happens in constructor, so if it exists it's valid
       if (!request.layer || typeof request.layer !== 'object') {
         throw new CanvasServiceError('Valid layer data is required', 'VALIDATION_ERROR')
       }
 
+      // Plain layer data is validated by constructing the model
+      let layer: Layer
+      try {
+        layer = request.layer instanceof Layer ? request.layer : Layer.fromJSON(request.layer)
+      } catch (error) {
+        throw new CanvasServiceError(`Invalid layer data: ${error instanceof Error ? error.message : error}`, 'VALIDATION_ERROR')
+      }
+
       const response = await fetch(`${this.baseUrl}/canvas/${canvasId}/layers/${layerId}`, {
         method: 'PUT',
         headers: {
@@ -298,8 +468,10 @@ export class CanvasService {
           ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
         },
         body: JSON.stringify({
-          layer: request.layer.toJSON(),
-          version: request.version
+          layer: layer.toJSON(),
+          version: request.version,
+          operation: request.operation,
+          newIndex: request.newIndex
         })
       })
 
@@ -307,10 +479,22 @@ export class CanvasService {
         throw new CanvasServiceError(`Canvas ${canvasId} or layer ${layerId} not found`, 'NOT_FOUND')
       }
 
+      if (response.status === 409) {
+        throw new CanvasServiceError('Conflict - canvas modified by another session', 'CONFLICT')
+      }
+
       if (!response.ok) {
         const error = await response.text()
         throw new CanvasServiceError(`Failed to update layer: ${error}`, 'NETWORK_ERROR')
       }
+
+      const data = await response.json()
+
+      return {
+        layer: toLayerData(data.layer),
+        version: data.version,
+        lastModified: new Date(data.lastModified)
+      }
     } catch (error) {
       if (error instanceof CanvasServiceError) {
         throw error
@@ -322,8 +506,9 @@ export class CanvasService {
   /**
    * Remove layer from canvas
    * DELETE /canvas/{canvasId}/layers/{layerId}
+   * Pass the expected version to have a stale delete rejected with CONFLICT
    */
-  async deleteLayer(canvasId: string, layerId: string): Promise<void> {
+  async deleteLayer(canvasId: string, layerId: string, version?: number): Promise<void> {
     try {
       if (!canvasId || canvasId.trim() === '') {
         throw new CanvasServiceError('Canvas ID is required', 'VALIDATION_ERROR')
@@ -333,7 +518,8 @@ export class CanvasService {
         throw new CanvasServiceError('Layer ID is required', 'VALIDATION_ERROR')
       }
 
-      const response = await fetch(`${this.baseUrl}/canvas/${canvasId}/layers/${layerId}`, {
+      const query = version === undefined ? '' : `?version=${version}`
+      const response = await fetch(`${this.baseUrl}/canvas/${canvasId}/layers/${layerId}${query}`, {
         method: 'DELETE',
         headers: {
           'Content-Type': 'application/json',
@@ -345,6 +531,10 @@ export class CanvasService {
         throw new CanvasServiceError(`Canvas ${canvasId} or layer ${layerId} not found`, 'NOT_FOUND')
       }
 
+      if (response.status === 409) {
+        throw new CanvasServiceError('Conflict - canvas modified by another session', 'CONFLICT')
+      }
+
       if (!response.ok) {
         const error = await response.text()
         throw new CanvasServiceError(`Failed to delete layer: ${error}`, 'NETWORK_ERROR')
@@ -368,4 +558,15 @@ export class CanvasService {
       this.apiKey = options.apiKey
     }
   }
+
+  /**
+   * Convert a canvas payload from the API into the domain model
+   */
+  private parseCanvas(data: CanvasJSON): DesignCanvas {
+    try {
+      return toCanvasModel(data)
+    } catch (error) {
+      throw new CanvasServiceError(`Invalid canvas data from server: ${error instanceof Error ? error.message : error}`, 'VALIDATION_ERROR')
+    }
+  }
 }
\ No newline at end of file
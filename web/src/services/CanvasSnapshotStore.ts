@@ -0,0 +1,234 @@
+/**
+ * CanvasSnapshotStore - structurally shared canvas snapshots for history nodes
+ * Each snapshot is a frozen copy of a canvas whose unchanged layers are the same
+ * objects as its parent's, so a new history node only costs the layers it changed.
+ * DesignCanvas instances are materialised on demand and kept in a small LRU cache.
+ */
+
+import { DesignCanvas, DesignCanvasData, LayerData } from '../models/DesignCanvas';
+import { CanvasDimensions, CanvasMetadata, CanvasState, DeviceType } from '../types';
+
+// MARK: - Snapshot Types
+
+export interface CanvasSnapshot {
+  readonly id: string;
+  readonly deviceType: DeviceType;
+  readonly dimensions: Readonly<CanvasDimensions>;
+  readonly layers: readonly Readonly<LayerData>[];
+  readonly metadata: Readonly<CanvasMetadata>;
+  readonly state: CanvasState;
+}
+
+export interface SnapshotStoreOptions {
+  /** Maximum number of materialised DesignCanvas instances kept in memory (default 32) */
+  maxMaterialized?: number;
+}
+
+export interface SnapshotStoreStats {
+  snapshots: number;
+  /** Distinct layer objects retained across all snapshots */
+  uniqueLayers: number;
+  /** Layer slots across all snapshots; uniqueLayers / layerReferences is the sharing ratio */
+  layerReferences: number;
+  estimatedBytes: number;
+  materialized: number;
+}
+
+// Rough per-snapshot overhead (object headers, layer array, canvas fields)
+const SNAPSHOT_OVERHEAD_BYTES = 256;
+
+// MARK: - Snapshot Store
+
+export class CanvasSnapshotStore {
+  private snapshots = new Map<string, CanvasSnapshot>();
+  private layerRefCounts = new Map<object, number>();
+  private layerSizes = new WeakMap<object, number>();
+  // Frozen caller layers already captured; immer keeps unchanged layers identical across edits
+  // (mutable layers are always compared, since they may have been edited in place since)
+  private capturedLayers = new WeakMap<object, Readonly<LayerData>>();
+  private materialized = new Map<string, DesignCanvas>();
+  private maxMaterialized: number;
+  private retainedBytes = 0;
+  private layerReferences = 0;
+
+  constructor(options: SnapshotStoreOptions = {}) {
+    this.maxMaterialized = options.maxMaterialized ?? 32;
+  }
+
+  /**
+   * Store a snapshot of canvas under key, sharing every layer that is unchanged from parentKey
+   */
+  capture(key: string, canvas: DesignCanvas, parentKey?: string | null): CanvasSnapshot {
+    const parent = parentKey ? this.snapshots.get(parentKey) : undefined;
+    const parentLayers = new Map(parent?.layers.map(layer => [layer.id, layer]) ?? []);
+
+    const layers = canvas.layers.map(layer => {
+      const captured = Object.isFrozen(layer) ? this.capturedLayers.get(layer) : undefined;
+      if (captured) {
+        return captured;
+      }
+
+      const previous = parentLayers.get(layer.id);
+      const shared = previous && (previous === layer || sameValue(previous, layer))
+        ? previous
+        : freezeClone(layer);
+      if (Object.isFrozen(layer)) {
+        this.capturedLayers.set(layer, shared);
+      }
+      return shared;
+    });
+
+    const snapshot: CanvasSnapshot = Object.freeze({
+      id: canvas.id,
+      deviceType: canvas.deviceType,
+      dimensions: parent && sameValue(parent.dimensions, canvas.dimensions)
+        ? parent.dimensions
+        : freezeClone(canvas.dimensions),
+      layers: Object.freeze(layers),
+      metadata: parent && sameValue(parent.metadata, canvas.metadata)
+        ? parent.metadata
+        : freezeClone(canvas.metadata),
+      state: canvas.state
+    });
+
+    this.release(key);
+    this.snapshots.set(key, snapshot);
+    this.retainedBytes += SNAPSHOT_OVERHEAD_BYTES;
+    snapshot.layers.forEach(layer => this.retainLayer(layer));
+
+    return snapshot;
+  }
+
+  /**
+   * Materialise the canvas stored under key, reusing a cached instance when available
+   */
+  materialize(key: string): DesignCanvas {
+    const cached = this.materialized.get(key);
+    if (cached) {
+      // Refresh LRU position
+      this.materialized.delete(key);
+      this.materialized.set(key, cached);
+      return cached;
+    }
+
+    const snapshot = this.snapshots.get(key);
+    if (!snapshot) {
+      throw new Error(`Snapshot ${key} not found`);
+    }
+
+    // Frozen layers are safe to hand out: every canvas mutation goes through immer
+    const canvas = new DesignCanvas(snapshot as unknown as DesignCanvasData);
+    this.materialized.set(key, canvas);
+
+    while (this.materialized.size > this.maxMaterialized) {
+      const oldest = this.materialized.keys().next().value as string;
+      this.materialized.delete(oldest);
+    }
+
+    return canvas;
+  }
+
+  get(key: string): CanvasSnapshot | undefined {
+    return this.snapshots.get(key);
+  }
+
+  has(key: string): boolean {
+    return this.snapshots.has(key);
+  }
+
+  /**
+   * Drop the snapshot stored under key; layers no other snapshot uses become collectable
+   */
+  release(key: string): void {
+    const snapshot = this.snapshots.get(key);
+    if (!snapshot) return;
+
+    snapshot.layers.forEach(layer => this.releaseLayer(layer));
+    this.retainedBytes -= SNAPSHOT_OVERHEAD_BYTES;
+    this.snapshots.delete(key);
+    this.materialized.delete(key);
+  }
+
+  clear(): void {
+    this.snapshots.clear();
+    this.layerRefCounts.clear();
+    this.materialized.clear();
+    this.retainedBytes = 0;
+    this.layerReferences = 0;
+  }
+
+  /**
+   * Approximate heap retained by all snapshots, counting each shared layer once
+   */
+  getEstimatedBytes(): number {
+    return this.retainedBytes;
+  }
+
+  getStats(): SnapshotStoreStats {
+    return {
+      snapshots: this.snapshots.size,
+      uniqueLayers: this.layerRefCounts.size,
+      layerReferences: this.layerReferences,
+      estimatedBytes: this.retainedBytes,
+      materialized: this.materialized.size
+    };
+  }
+
+  // MARK: - Private Methods
+
+  private retainLayer(layer: object): void {
+    const count = this.layerRefCounts.get(layer) ?? 0;
+    if (count === 0) {
+      this.retainedBytes += this.sizeOf(layer);
+    }
+    this.layerRefCounts.set(layer, count + 1);
+    this.layerReferences++;
+  }
+
+  private releaseLayer(layer: object): void {
+    const count = this.layerRefCounts.get(layer) ?? 0;
+    if (count <= 1) {
+      this.layerRefCounts.delete(layer);
+      this.retainedBytes -= this.sizeOf(layer);
+    } else {
+      this.layerRefCounts.set(layer, count - 1);
+    }
+    this.layerReferences--;
+  }
+
+  private sizeOf(layer: object): number {
+    let size = this.layerSizes.get(layer);
+    if (size === undefined) {
+      // UTF-16 string length is a serviceable proxy for object size
+      size = JSON.stringify(layer).length * 2;
+      this.layerSizes.set(layer, size);
+    }
+    return size;
+  }
+}
+
+// MARK: - Helpers
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Deep copy that keeps Dates as Dates and freezes the result
+ */
+function freezeClone<T>(value: T): T {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  }
+  if (Array.isArray(value)) {
+    return Object.freeze(value.map(item => freezeClone(item))) as T;
+  }
+  if (value && typeof value === 'object') {
+    const copy: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      copy[key] = freezeClone(entry);
+    }
+    return Object.freeze(copy) as T;
+  }
+  return value;
+}
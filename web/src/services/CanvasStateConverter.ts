@@ -0,0 +1,588 @@
+/**
+ * CanvasStateConverter - Bidirectional mapping between the shared CanvasState
+ * schema (spoken by the iOS/Android clients) and the web DesignCanvas model
+ * Conversions are lossless where both sides can express a property; everything
+ * else is reported as a ConversionIssue instead of being silently discarded
+ */
+
+import type {
+  CanvasState as SharedCanvasState,
+  CanvasElement,
+  HistoryNode as SharedHistoryNode,
+  TextProperties,
+  ShapeProperties,
+  ImageProperties,
+  AIGeneratedProperties
+} from '../../../shared/types';
+import { SchemaValidator } from '../../../shared/utils/validation';
+import { DesignCanvas, LayerData } from '../models/DesignCanvas';
+import { DEVICE_SPECIFICATIONS } from '../data/device-specs';
+import {
+  CanvasState,
+  DeviceType,
+  LayerContent,
+  LayerStyle,
+  LayerType
+} from '../types';
+
+// MARK: - Conversion Types
+
+export interface ConversionIssue {
+  path: string;
+  kind: 'dropped' | 'approximated' | 'remapped';
+  message: string;
+}
+
+export interface ConversionResult<T> {
+  value: T;
+  issues: ConversionIssue[];
+  /** Maps ids on the source side to the ids used on the produced side */
+  idMap: Record<string, string>;
+}
+
+export interface ToDesignCanvasOptions {
+  /** Target device; inferred from the state's aspect ratio when omitted */
+  deviceType?: DeviceType;
+  /** Id map returned by a previous toCanvasState call, used to restore web ids */
+  idMap?: Record<string, string>;
+}
+
+export interface ToCanvasStateOptions {
+  title?: string;
+  history?: SharedHistoryNode;
+  currentBranch?: string;
+  schemaVersion?: string;
+  /** User ids of everyone editing the canvas, e.g. from CollaborationSession.getCollaboratorIds */
+  collaborators?: string[];
+}
+
+export class CanvasConversionError extends Error {
+  constructor(message: string, public errors: string[] = []) {
+    super(message);
+    this.name = 'CanvasConversionError';
+  }
+}
+
+// MARK: - Constants
+
+/** Layers have no intrinsic size; like Layer.getBoundingBox we treat scale 1 as 100x100 */
+const BASE_LAYER_SIZE = 100;
+const SCHEMA_VERSION = '1.0.0';
+const DEFAULT_FONT_SIZE = 16;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// MARK: - Converter
+
+export class CanvasStateConverter {
+
+  /**
+   * Converts a shared CanvasState into a web DesignCanvas
+   */
+  static toDesignCanvas(
+    state: SharedCanvasState,
+    options: ToDesignCanvasOptions = {}
+  ): ConversionResult<DesignCanvas> {
+    const validation = SchemaValidator.validateCanvasState(state);
+    if (!validation.valid) {
+      throw new CanvasConversionError('Canvas state does not match the shared schema', validation.errors);
+    }
+
+    const issues: ConversionIssue[] = [];
+    const idMap: Record<string, string> = {};
+    const restoreId = (id: string) => options.idMap?.[id] ?? id;
+
+    const sourceDimensions = state.dimensions ?? { width: 1920, height: 1080 };
+    const deviceType = options.deviceType ?? this.inferDeviceType(sourceDimensions);
+    const deviceDimensions = DEVICE_SPECIFICATIONS[deviceType].dimensions;
+    const scaleX = deviceDimensions.width / sourceDimensions.width;
+    const scaleY = deviceDimensions.height / sourceDimensions.height;
+
+    if (Math.abs(scaleX - 1) > 1e-6 || Math.abs(scaleY - 1) > 1e-6) {
+      issues.push({
+        path: 'dimensions',
+        kind: 'approximated',
+        message: `Scaled ${sourceDimensions.width}x${sourceDimensions.height} to ${deviceType} (${deviceDimensions.width}x${deviceDimensions.height})`
+      });
+    }
+
+    const ordered = state.elements
+      .map((element, index) => ({ element, index }))
+      .sort((a, b) => (a.element.position.z ?? a.index) - (b.element.position.z ?? b.index));
+
+    const layers: LayerData[] = [];
+    ordered.forEach(({ element, index }) => {
+      const path = `elements[${index}]`;
+      const layer = this.elementToLayer(element, path, sourceDimensions, layers.length === 0, issues);
+      if (!layer) return;
+
+      layer.transform.x *= scaleX;
+      layer.transform.y *= scaleY;
+      layer.transform.scaleX *= scaleX;
+      layer.transform.scaleY *= scaleY;
+      layer.id = restoreId(element.id);
+      layer.zIndex = layers.length;
+      if (layer.id !== element.id) idMap[element.id] = layer.id;
+
+      layers.push(layer);
+    });
+
+    if (layers.length === 0) {
+      issues.push({
+        path: 'elements',
+        kind: 'approximated',
+        message: 'Added a white background layer because DesignCanvas requires at least one layer'
+      });
+      layers.push(this.createBackgroundLayer(crypto.randomUUID(), '#ffffff', new Date(state.createdAt)));
+    }
+
+    if (state.title) {
+      issues.push({ path: 'title', kind: 'dropped', message: 'DesignCanvas has no title field' });
+    }
+
+    const collaborators = state.metadata?.collaborators ?? [];
+    if (collaborators.length > 1) {
+      issues.push({
+        path: 'metadata.collaborators',
+        kind: 'dropped',
+        message: 'Only the first collaborator is kept as the canvas author'
+      });
+    }
+
+    const canvasId = restoreId(state.id);
+    if (canvasId !== state.id) idMap[state.id] = canvasId;
+
+    const canvas = new DesignCanvas({
+      id: canvasId,
+      deviceType,
+      dimensions: { ...deviceDimensions },
+      layers,
+      metadata: {
+        createdAt: new Date(state.createdAt),
+        modifiedAt: new Date(state.updatedAt),
+        tags: [...(state.metadata?.tags ?? [])],
+        ...(state.description && { description: state.description }),
+        ...(collaborators[0] && { author: collaborators[0] })
+      },
+      state: CanvasState.EDITING
+    });
+
+    return { value: canvas, issues, idMap };
+  }
+
+  /**
+   * Converts a web DesignCanvas into a shared CanvasState
+   */
+  static toCanvasState(
+    canvas: DesignCanvas,
+    options: ToCanvasStateOptions = {}
+  ): ConversionResult<SharedCanvasState> {
+    const issues: ConversionIssue[] = [];
+    const idMap: Record<string, string> = {};
+    const toUUID = (id: string, path: string): string => {
+      if (UUID_PATTERN.test(id)) return id;
+      const uuid = crypto.randomUUID();
+      idMap[id] = uuid;
+      issues.push({ path, kind: 'remapped', message: `Id '${id}' is not a UUID and was replaced by ${uuid}` });
+      return uuid;
+    };
+
+    const createdAt = this.toISODate(canvas.metadata.createdAt);
+    const elements: CanvasElement[] = [];
+    const collaborators = [...new Set([
+      ...(canvas.metadata.author ? [canvas.metadata.author] : []),
+      ...(options.collaborators ?? [])
+    ])];
+
+    [...canvas.layers]
+      .sort((a, b) => a.zIndex - b.zIndex)
+      .forEach(layer => {
+        const path = `layers.${layer.id}`;
+        const element = this.layerToElement(layer, path, canvas, issues);
+        if (!element) return;
+
+        element.id = toUUID(layer.id, path);
+        element.position.z = elements.length;
+        elements.push(element);
+      });
+
+    if (canvas.state !== CanvasState.EDITING) {
+      issues.push({ path: 'state', kind: 'dropped', message: `Canvas state '${canvas.state}' has no shared equivalent` });
+    }
+
+    const state: SharedCanvasState = {
+      version: options.schemaVersion ?? SCHEMA_VERSION,
+      id: toUUID(canvas.id, 'id'),
+      createdAt,
+      updatedAt: this.toISODate(canvas.metadata.modifiedAt),
+      ...(options.title && { title: options.title }),
+      ...(canvas.metadata.description && { description: canvas.metadata.description }),
+      dimensions: {
+        width: canvas.dimensions.width,
+        height: canvas.dimensions.height
+      },
+      elements,
+      history: options.history ?? {
+        id: crypto.randomUUID(),
+        createdAt,
+        action: { type: 'create', description: 'Converted from web DesignCanvas' }
+      },
+      ...(options.currentBranch && { currentBranch: options.currentBranch }),
+      metadata: {
+        tags: [...canvas.metadata.tags],
+        ...(collaborators.length > 0 && { collaborators })
+      }
+    };
+
+    const validation = SchemaValidator.validateCanvasState(state);
+    if (!validation.valid) {
+      throw new CanvasConversionError('Converted canvas state does not match the shared schema', validation.errors);
+    }
+
+    return { value: state, issues, idMap };
+  }
+
+  /**
+   * Picks the device whose aspect ratio is closest to the given dimensions
+   */
+  static inferDeviceType(dimensions: { width: number; height: number }): DeviceType {
+    const ratio = dimensions.width / dimensions.height;
+    let best = DeviceType.DESKTOP_1920X1080;
+    let bestDelta = Infinity;
+
+    for (const deviceType of Object.values(DeviceType)) {
+      const spec = DEVICE_SPECIFICATIONS[deviceType].dimensions;
+      const delta = Math.abs(spec.width / spec.height - ratio);
+      if (delta < bestDelta) {
+        best = deviceType;
+        bestDelta = delta;
+      }
+    }
+
+    return best;
+  }
+
+  // MARK: - Element → Layer
+
+  private static elementToLayer(
+    element: CanvasElement,
+    path: string,
+    canvasDimensions: { width: number; height: number },
+    isBottomMost: boolean,
+    issues: ConversionIssue[]
+  ): LayerData | null {
+    const content: LayerContent = {};
+    const style: LayerStyle = {};
+    let type: LayerType;
+    let source: 'user' | 'ai' = 'user';
+
+    switch (element.type) {
+      case 'text': {
+        const props = element.properties as TextProperties;
+        type = LayerType.TEXT;
+        Object.assign(content, this.textContent(props));
+        if (props.color) style.color = props.color;
+        if (props.backgroundColor) style.backgroundColor = props.backgroundColor;
+        break;
+      }
+
+      case 'shape': {
+        const props = element.properties as ShapeProperties;
+        if (isBottomMost && this.isBackgroundRect(element, canvasDimensions)) {
+          type = LayerType.BACKGROUND;
+          content.color = props.fill;
+          break;
+        }
+
+        type = LayerType.SHAPE;
+        content.shapeType = this.toWebShapeType(props.shapeType, `${path}.properties.shapeType`, issues);
+        if (props.fill) content.fill = props.fill;
+        if (props.stroke?.color) content.stroke = props.stroke.color;
+        if (props.stroke?.width !== undefined) content.strokeWidth = props.stroke.width;
+        if (props.cornerRadius !== undefined) style.borderRadius = props.cornerRadius;
+        if (props.stroke?.dashArray || props.stroke?.lineCap || props.stroke?.lineJoin) {
+          issues.push({ path: `${path}.properties.stroke`, kind: 'dropped', message: 'Stroke dash and cap styles are not supported on web layers' });
+        }
+        if (props.sides !== undefined) {
+          issues.push({ path: `${path}.properties.sides`, kind: 'dropped', message: 'Polygon side count is not supported on web layers' });
+        }
+        break;
+      }
+
+      case 'image': {
+        const props = element.properties as ImageProperties;
+        type = LayerType.IMAGE;
+        if (props.src.startsWith('data:')) {
+          content.imageData = props.src;
+        } else {
+          content.imageUrl = props.src;
+        }
+        this.applyImageFilters(props, style, path, issues);
+        if (props.alt) issues.push({ path: `${path}.properties.alt`, kind: 'dropped', message: 'Image alt text is not stored on web layers' });
+        if (props.crop) issues.push({ path: `${path}.properties.crop`, kind: 'dropped', message: 'Image crop regions are not supported on web layers' });
+        break;
+      }
+
+      case 'ai-generated': {
+        const props = element.properties as AIGeneratedProperties;
+        const params = props.parameters ?? {};
+        source = 'ai';
+
+        if (props.contentType === 'text' && typeof params.text === 'string') {
+          type = LayerType.TEXT;
+          content.text = params.text;
+        } else if (typeof params.src === 'string' || typeof params.url === 'string') {
+          type = LayerType.IMAGE;
+          content.imageUrl = params.src ?? params.url;
+        } else {
+          issues.push({ path, kind: 'dropped', message: 'AI-generated element has no renderable text or image output' });
+          return null;
+        }
+
+        issues.push({ path: `${path}.properties.prompt`, kind: 'dropped', message: 'AI prompt and model details are not stored on web layers' });
+        break;
+      }
+
+      default:
+        issues.push({ path, kind: 'dropped', message: `Element type '${element.type}' cannot be represented as a web layer` });
+        return null;
+    }
+
+    const width = element.dimensions?.width ?? BASE_LAYER_SIZE;
+    const height = element.dimensions?.height ?? BASE_LAYER_SIZE;
+
+    return {
+      id: element.id,
+      type,
+      zIndex: 0,
+      content,
+      transform: {
+        x: element.position.x,
+        y: element.position.y,
+        scaleX: type === LayerType.BACKGROUND ? 1 : width / BASE_LAYER_SIZE,
+        scaleY: type === LayerType.BACKGROUND ? 1 : height / BASE_LAYER_SIZE,
+        rotation: element.rotation ?? 0,
+        opacity: element.opacity ?? 1
+      },
+      style,
+      constraints: {
+        locked: element.locked ?? false,
+        visible: element.visible ?? true
+      },
+      metadata: {
+        source,
+        createdAt: new Date(element.createdAt),
+        ...(element.updatedAt && { modifiedAt: new Date(element.updatedAt) })
+      }
+    };
+  }
+
+  private static textContent(props: TextProperties): LayerContent {
+    return {
+      text: props.text,
+      fontSize: props.fontSize,
+      ...(props.fontFamily && { fontFamily: props.fontFamily }),
+      ...(props.fontWeight && { fontWeight: props.fontWeight }),
+      ...(props.fontStyle && { fontStyle: props.fontStyle }),
+      ...(props.textAlign && { textAlign: props.textAlign }),
+      ...(props.lineHeight !== undefined && { lineHeight: props.lineHeight })
+    };
+  }
+
+  private static toWebShapeType(
+    shapeType: ShapeProperties['shapeType'],
+    path: string,
+    issues: ConversionIssue[]
+  ): NonNullable<LayerContent['shapeType']> {
+    switch (shapeType) {
+      case 'rectangle':
+      case 'circle':
+      case 'triangle':
+      case 'polygon':
+        return shapeType;
+      case 'ellipse':
+        issues.push({ path, kind: 'approximated', message: 'Ellipse mapped to a circle scaled to its bounds' });
+        return 'circle';
+      default:
+        issues.push({ path, kind: 'approximated', message: `Shape '${shapeType}' mapped to a polygon` });
+        return 'polygon';
+    }
+  }
+
+  private static applyImageFilters(
+    props: ImageProperties,
+    style: LayerStyle,
+    path: string,
+    issues: ConversionIssue[]
+  ): void {
+    if (!props.filters) return;
+
+    const { brightness, contrast, saturation, blur, sepia, grayscale } = props.filters;
+    const filter: NonNullable<LayerStyle['filter']> = {};
+    if (brightness !== undefined) filter.brightness = brightness;
+    if (contrast !== undefined) filter.contrast = contrast;
+    if (saturation !== undefined) filter.saturate = saturation;
+    if (blur !== undefined) filter.blur = blur;
+    if (Object.keys(filter).length > 0) style.filter = filter;
+
+    if (sepia !== undefined || grayscale !== undefined) {
+      issues.push({ path: `${path}.properties.filters`, kind: 'dropped', message: 'Sepia and grayscale filters are not supported on web layers' });
+    }
+  }
+
+  private static isBackgroundRect(element: CanvasElement, canvasDimensions: { width: number; height: number }): boolean {
+    const props = element.properties as ShapeProperties | undefined;
+    return props?.shapeType === 'rectangle' &&
+      !!props.fill &&
+      !props.stroke &&
+      element.position.x === 0 &&
+      element.position.y === 0 &&
+      element.dimensions?.width === canvasDimensions.width &&
+      element.dimensions?.height === canvasDimensions.height;
+  }
+
+  private static createBackgroundLayer(id: string, color: string, createdAt: Date): LayerData {
+    return {
+      id,
+      type: LayerType.BACKGROUND,
+      zIndex: 0,
+      content: { color },
+      transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+      style: {},
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'user', createdAt }
+    };
+  }
+
+  // MARK: - Layer → Element
+
+  private static layerToElement(
+    layer: LayerData,
+    path: string,
+    canvas: DesignCanvas,
+    issues: ConversionIssue[]
+  ): CanvasElement | null {
+    const { transform, content, style } = layer;
+    const base = {
+      id: layer.id,
+      position: { x: transform.x, y: transform.y },
+      dimensions: {
+        width: Math.max(1, BASE_LAYER_SIZE * transform.scaleX),
+        height: Math.max(1, BASE_LAYER_SIZE * transform.scaleY)
+      },
+      rotation: ((transform.rotation % 360) + 360) % 360,
+      opacity: transform.opacity,
+      visible: layer.constraints?.visible ?? true,
+      locked: layer.constraints?.locked ?? false,
+      createdAt: this.toISODate(layer.metadata.createdAt),
+      ...(layer.metadata.modifiedAt && { updatedAt: this.toISODate(layer.metadata.modifiedAt) })
+    };
+
+    this.reportUnsupportedStyle(style, path, layer.type, issues);
+
+    switch (layer.type) {
+      case LayerType.TEXT:
+      case LayerType.POST_TEXT: {
+        if (layer.type === LayerType.POST_TEXT) {
+          issues.push({ path, kind: 'approximated', message: 'Post text layer exported as a plain text element' });
+        }
+        const properties: TextProperties = {
+          text: content.text ?? '',
+          fontSize: content.fontSize ?? DEFAULT_FONT_SIZE,
+          ...(content.fontFamily && { fontFamily: content.fontFamily }),
+          ...(content.fontWeight && { fontWeight: content.fontWeight as TextProperties['fontWeight'] }),
+          ...(content.fontStyle && { fontStyle: content.fontStyle }),
+          ...(content.textAlign && { textAlign: content.textAlign }),
+          ...(content.lineHeight !== undefined && { lineHeight: content.lineHeight }),
+          ...(style.color && { color: style.color }),
+          ...(style.backgroundColor && { backgroundColor: style.backgroundColor })
+        };
+        return { ...base, type: 'text', properties };
+      }
+
+      case LayerType.SHAPE: {
+        const properties: ShapeProperties = {
+          shapeType: content.shapeType ?? 'rectangle',
+          ...(content.fill && { fill: content.fill }),
+          ...((content.stroke || content.strokeWidth !== undefined) && {
+            stroke: {
+              ...(content.stroke && { color: content.stroke }),
+              ...(content.strokeWidth !== undefined && { width: content.strokeWidth })
+            }
+          }),
+          ...(style.borderRadius !== undefined && { cornerRadius: style.borderRadius })
+        };
+        return { ...base, type: 'shape', properties };
+      }
+
+      case LayerType.IMAGE: {
+        const src = content.imageUrl || content.imageData;
+        if (!src) {
+          issues.push({ path, kind: 'dropped', message: 'Image layer has no source' });
+          return null;
+        }
+        const filter = style.filter;
+        const properties: ImageProperties = {
+          src,
+          ...(filter && {
+            filters: {
+              ...(filter.brightness !== undefined && { brightness: filter.brightness }),
+              ...(filter.contrast !== undefined && { contrast: filter.contrast }),
+              ...(filter.saturate !== undefined && { saturation: filter.saturate }),
+              ...(filter.blur !== undefined && { blur: filter.blur })
+            }
+          })
+        };
+        return { ...base, type: 'image', properties };
+      }
+
+      case LayerType.BACKGROUND: {
+        let fill = content.color;
+        if (!fill && content.gradient?.stops.length) {
+          fill = content.gradient.stops[0].color;
+          issues.push({ path: `${path}.content.gradient`, kind: 'approximated', message: 'Gradient background flattened to its first stop colour' });
+        }
+        return {
+          ...base,
+          position: { x: 0, y: 0 },
+          dimensions: { width: canvas.dimensions.width, height: canvas.dimensions.height },
+          type: 'shape',
+          properties: { shapeType: 'rectangle', fill: fill ?? '#ffffff' }
+        };
+      }
+
+      case LayerType.GROUP:
+        issues.push({ path, kind: 'dropped', message: 'Groups have no shared equivalent; child layers are exported individually' });
+        return null;
+
+      default:
+        issues.push({ path, kind: 'dropped', message: `Layer type '${layer.type}' has no shared equivalent` });
+        return null;
+    }
+  }
+
+  private static reportUnsupportedStyle(
+    style: LayerStyle,
+    path: string,
+    type: LayerType,
+    issues: ConversionIssue[]
+  ): void {
+    if (style.boxShadow) {
+      issues.push({ path: `${path}.style.boxShadow`, kind: 'dropped', message: 'Shadows are not part of the shared schema' });
+    }
+    if (style.borderWidth !== undefined || style.borderColor) {
+      issues.push({ path: `${path}.style.border`, kind: 'dropped', message: 'Layer borders are not part of the shared schema' });
+    }
+    if (style.filter && type !== LayerType.IMAGE) {
+      issues.push({ path: `${path}.style.filter`, kind: 'dropped', message: 'Filters are only exported for image layers' });
+    }
+  }
+
+  private static toISODate(value: Date | string): string {
+    return (value instanceof Date ? value : new Date(value)).toISOString();
+  }
+}
+
+// MARK: - Convenience Functions
+
+export const toDesignCanvas = CanvasStateConverter.toDesignCanvas.bind(CanvasStateConverter);
+export const toCanvasState = CanvasStateConverter.toCanvasState.bind(CanvasStateConverter);
@@ -0,0 +1,353 @@
+import { DesignCanvas, LayerData } from '../models/DesignCanvas'
+import { getLayerBounds } from '../components/CanvasPreview'
+import { LayerContent, LayerStyle, LayerType } from '../types'
+
+export interface SvgExportOptions {
+  /** Multiplier for the output width and height; the viewBox stays in canvas units (default 1) */
+  scale?: number
+  /** Prepend an XML declaration so the result can be saved as a .svg file (default true) */
+  xmlDeclaration?: boolean
+}
+
+const DEFAULT_FONT_SIZE = 16
+const DEFAULT_LINE_HEIGHT = 1.2
+
+/**
+ * Serialize a DesignCanvas to a standalone SVG document
+ *
+ * Rendering follows CanvasPreview: every layer occupies a 100×100 box scaled by its
+ * transform and rotated about its top-left corner, backgrounds cover the whole canvas,
+ * and hidden layers are left out. Text is drawn line by line (explicit newlines only,
+ * SVG has no automatic wrapping). Group layers wrap their childLayerIds in one <g> that
+ * carries the group's opacity and effects; children keep their own canvas coordinates.
+ */
+export function toSvg(canvas: DesignCanvas, options: SvgExportOptions = {}): string {
+  const scale = options.scale ?? 1
+  const { width, height } = canvas.dimensions
+  const writer = new SvgWriter(canvas)
+
+  const body = writer.renderLayers(topLevelLayers(canvas))
+  const defs = writer.defs.length > 0 ? [tag('defs', {}, writer.defs)] : []
+
+  const svg = tag('svg', {
+    xmlns: 'http://www.w3.org/2000/svg',
+    'xmlns:xlink': 'http://www.w3.org/1999/xlink',
+    width: format(width * scale),
+    height: format(height * scale),
+    viewBox: `0 0 ${format(width)} ${format(height)}`
+  }, [...defs, ...body])
+
+  return (options.xmlDeclaration ?? true) ? `<?xml version="1.0" encoding="UTF-8"?>\n${svg}\n` : svg
+}
+
+/**
+ * SVG document as a data URL, e.g. for a download link
+ */
+export function toSvgDataUrl(canvas: DesignCanvas, options: SvgExportOptions = {}): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(toSvg(canvas, options))}`
+}
+
+/**
+ * Collects <defs> (gradients, filters, clip paths) while rendering layers
+ */
+class SvgWriter {
+  readonly defs: string[] = []
+  private layers: Map<string, LayerData>
+  private rendering = new Set<string>()
+
+  constructor(private canvas: DesignCanvas) {
+    this.layers = new Map(canvas.layers.map(layer => [layer.id, layer]))
+  }
+
+  renderLayers(layers: LayerData[]): string[] {
+    return layers
+      .filter(layer => layer.constraints.visible)
+      .sort((a, b) => a.zIndex - b.zIndex)
+      .map(layer => this.renderLayer(layer))
+      .filter((markup): markup is string => markup !== null)
+  }
+
+  private renderLayer(layer: LayerData): string | null {
+    // A group listing itself (directly or through another group) would never end
+    if (this.rendering.has(layer.id)) return null
+    this.rendering.add(layer.id)
+
+    try {
+      const key = defId(layer.id)
+      const effects = this.effectsFilter(layer.style, key)
+      const attributes = {
+        id: `layer-${key}`,
+        'data-layer-type': layer.type,
+        opacity: layer.transform.opacity < 1 ? format(layer.transform.opacity) : undefined,
+        filter: effects
+      }
+
+      if (layer.type === LayerType.GROUP) {
+        const children = (layer.content.childLayerIds ?? [])
+          .map(childId => this.layers.get(childId))
+          .filter((child): child is LayerData => Boolean(child))
+        return tag('g', attributes, this.renderLayers(children))
+      }
+
+      const bounds = getLayerBounds(layer, this.canvas)
+      const transform = [
+        bounds.x !== 0 || bounds.y !== 0 ? `translate(${format(bounds.x)} ${format(bounds.y)})` : '',
+        layer.transform.rotation ? `rotate(${format(layer.transform.rotation)})` : ''
+      ].filter(Boolean).join(' ')
+
+      return tag('g', { ...attributes, transform: transform || undefined }, this.renderContent(layer, bounds.width, bounds.height, key))
+    } finally {
+      this.rendering.delete(layer.id)
+    }
+  }
+
+  private renderContent(layer: LayerData, width: number, height: number, key: string): string[] {
+    const { content, style } = layer
+
+    switch (layer.type) {
+      case LayerType.BACKGROUND:
+        return [tag('rect', { width: format(width), height: format(height), fill: this.fill(content, key) ?? '#ffffff' })]
+
+      case LayerType.SHAPE:
+        return [this.shape(content, style, width, height, key)]
+
+      case LayerType.TEXT:
+      case LayerType.POST_TEXT:
+        return this.text(content, style, width, height)
+
+      case LayerType.IMAGE:
+        return this.image(content, style, width, height, key)
+
+      default:
+        return []
+    }
+  }
+
+  private shape(content: LayerContent, style: LayerStyle, width: number, height: number, key: string): string {
+    const paint = {
+      fill: this.fill(content, key) ?? style.backgroundColor ?? 'none',
+      ...strokeAttributes(content, style)
+    }
+
+    switch (content.shapeType ?? 'rectangle') {
+      case 'circle':
+        return tag('ellipse', { cx: format(width / 2), cy: format(height / 2), rx: format(width / 2), ry: format(height / 2), ...paint })
+      case 'triangle':
+        return tag('polygon', { points: points([[width / 2, 0], [width, height], [0, height]]), ...paint })
+      case 'polygon':
+        return tag('polygon', { points: points(hexagon(width, height)), ...paint })
+      default:
+        return tag('rect', { width: format(width), height: format(height), ...cornerRadius(style), ...paint })
+    }
+  }
+
+  private text(content: LayerContent, style: LayerStyle, width: number, height: number): string[] {
+    const markup: string[] = []
+    if (style.backgroundColor) {
+      markup.push(tag('rect', { width: format(width), height: format(height), ...cornerRadius(style), fill: style.backgroundColor }))
+    }
+    if (!content.text) return markup
+
+    const fontSize = content.fontSize ?? DEFAULT_FONT_SIZE
+    const lineHeight = fontSize * (content.lineHeight ?? DEFAULT_LINE_HEIGHT)
+    const [anchor, x] = content.textAlign === 'center'
+      ? ['middle', width / 2]
+      : content.textAlign === 'right' ? ['end', width] : ['start', 0]
+
+    const lines = content.text.split('\n').map((line, index) =>
+      tag('tspan', { x: format(x), dy: format(index === 0 ? fontSize : lineHeight) }, [escapeXml(line)]))
+
+    markup.push(tag('text', {
+      'font-family': content.fontFamily,
+      'font-size': format(fontSize),
+      'font-weight': content.fontWeight,
+      'font-style': content.fontStyle,
+      'text-anchor': anchor,
+      fill: style.color ?? content.color ?? '#000000',
+      'xml:space': 'preserve'
+    }, lines))
+    return markup
+  }
+
+  private image(content: LayerContent, style: LayerStyle, width: number, height: number, key: string): string[] {
+    const source = content.imageData ?? content.imageUrl
+    if (!source) return []
+
+    let clip: string | undefined
+    if (style.borderRadius) {
+      this.defs.push(tag('clipPath', { id: `clip-${key}` }, [
+        tag('rect', { width: format(width), height: format(height), ...cornerRadius(style) })
+      ]))
+      clip = `url(#clip-${key})`
+    }
+
+    const border = strokeAttributes(content, style)
+    return [
+      tag('image', {
+        'xlink:href': source,
+        width: format(width),
+        height: format(height),
+        preserveAspectRatio: 'xMidYMid slice',
+        'clip-path': clip
+      }),
+      ...(border.stroke
+        ? [tag('rect', { width: format(width), height: format(height), ...cornerRadius(style), fill: 'none', ...border })]
+        : [])
+    ]
+  }
+
+  /**
+   * Solid colour, or a reference to a gradient added to <defs>
+   * Linear gradients run top to bottom like the CSS default used by CanvasPreview
+   */
+  private fill(content: LayerContent, key: string): string | undefined {
+    const gradient = content.gradient
+    if (!gradient || gradient.stops.length === 0) {
+      return content.color ?? content.fill
+    }
+
+    const stops = [...gradient.stops]
+      .sort((a, b) => a.position - b.position)
+      .map(stop => tag('stop', { offset: format(stop.position), 'stop-color': stop.color }))
+    const id = `gradient-${key}`
+    this.defs.push(gradient.type === 'radial'
+      ? tag('radialGradient', { id, cx: '0.5', cy: '0.5', r: '0.5' }, stops)
+      : tag('linearGradient', { id, x1: '0', y1: '0', x2: '0', y2: '1' }, stops))
+    return `url(#${id})`
+  }
+
+  /**
+   * One filter for style.filter and style.boxShadow; colour adjustments use CSS filter
+   * semantics (1 leaves the image unchanged) and the shadow is cast by the adjusted layer
+   */
+  private effectsFilter(style: LayerStyle, key: string): string | undefined {
+    const { filter, boxShadow } = style
+    const primitives: string[] = []
+    let result = 'SourceGraphic'
+
+    const next = (name: string, attributes: Record<string, string | undefined>, children: string[] = []) => {
+      const output = `adjusted-${primitives.length}`
+      primitives.push(tag(name, { in: result, ...attributes, result: output }, children))
+      result = output
+    }
+
+    if (filter?.blur) {
+      next('feGaussianBlur', { stdDeviation: format(filter.blur) })
+    }
+    if (filter?.brightness !== undefined && filter.brightness !== 1) {
+      next('feComponentTransfer', {}, linearTransfer(filter.brightness, 0))
+    }
+    if (filter?.contrast !== undefined && filter.contrast !== 1) {
+      next('feComponentTransfer', {}, linearTransfer(filter.contrast, 0.5 - filter.contrast / 2))
+    }
+    if (filter?.saturate !== undefined && filter.saturate !== 1) {
+      next('feColorMatrix', { type: 'saturate', values: format(filter.saturate) })
+    }
+
+    if (boxShadow) {
+      const adjusted = result
+      primitives.push(
+        ...(boxShadow.spread > 0
+          ? [tag('feMorphology', { in: adjusted, operator: 'dilate', radius: format(boxShadow.spread), result: 'spread' })]
+          : []),
+        tag('feGaussianBlur', { in: boxShadow.spread > 0 ? 'spread' : adjusted, stdDeviation: format(boxShadow.blur / 2), result: 'blurred' }),
+        tag('feOffset', { in: 'blurred', dx: format(boxShadow.x), dy: format(boxShadow.y), result: 'offset' }),
+        tag('feFlood', { 'flood-color': boxShadow.color, result: 'color' }),
+        tag('feComposite', { in: 'color', in2: 'offset', operator: 'in', result: 'shadow' }),
+        tag('feMerge', {}, [tag('feMergeNode', { in: 'shadow' }), tag('feMergeNode', { in: adjusted })])
+      )
+    }
+
+    if (primitives.length === 0) return undefined
+
+    const id = `effects-${key}`
+    // Leave room for blur and shadow offsets outside the layer bounds
+    this.defs.push(tag('filter', { id, x: '-50%', y: '-50%', width: '200%', height: '200%' }, primitives))
+    return `url(#${id})`
+  }
+}
+
+// Helpers
+
+/**
+ * Layers not listed as a child of some group
+ */
+function topLevelLayers(canvas: DesignCanvas): LayerData[] {
+  const children = new Set(canvas.layers
+    .filter(layer => layer.type === LayerType.GROUP)
+    .flatMap(layer => (layer.content.childLayerIds ?? []).filter(childId => childId !== layer.id)))
+  return canvas.layers.filter(layer => !children.has(layer.id))
+}
+
+function strokeAttributes(content: LayerContent, style: LayerStyle): Record<string, string | undefined> {
+  if (content.stroke) {
+    return { stroke: content.stroke, 'stroke-width': format(content.strokeWidth ?? 1) }
+  }
+  if (style.borderWidth) {
+    return { stroke: style.borderColor ?? '#000000', 'stroke-width': format(style.borderWidth) }
+  }
+  return {}
+}
+
+function cornerRadius(style: LayerStyle): Record<string, string | undefined> {
+  return style.borderRadius ? { rx: format(style.borderRadius), ry: format(style.borderRadius) } : {}
+}
+
+function linearTransfer(slope: number, intercept: number): string[] {
+  return ['feFuncR', 'feFuncG', 'feFuncB'].map(name =>
+    tag(name, { type: 'linear', slope: format(slope), intercept: format(intercept) }))
+}
+
+/**
+ * Regular hexagon stretched to the layer box, flat top and bottom
+ */
+function hexagon(width: number, height: number): Array<[number, number]> {
+  return [[width / 4, 0], [width * 3 / 4, 0], [width, height / 2], [width * 3 / 4, height], [width / 4, height], [0, height / 2]]
+}
+
+function points(coordinates: Array<[number, number]>): string {
+  return coordinates.map(([x, y]) => `${format(x)},${format(y)}`).join(' ')
+}
+
+/**
+ * Ids usable in url(#…) references whatever characters the layer id contains
+ */
+function defId(layerId: string): string {
+  return layerId.replace(/[^A-Za-z0-9_-]/g, '_')
+}
+
+/**
+ * Numbers without float noise (0.30000000000000004 → 0.3) or trailing zeros
+ */
+function format(value: number): string {
+  return String(Math.round(value * 1000) / 1000)
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Element markup; undefined attributes are omitted and children are pre-rendered markup
+ */
+function tag(name: string, attributes: Record<string, string | undefined>, children: string[] = []): string {
+  const rendered = Object.entries(attributes)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([attribute, value]) => ` ${attribute}="${escapeXml(value)}"`)
+    .join('')
+
+  if (children.length === 0) return `<${name}${rendered}/>`
+  const inline = name === 'tspan' || name === 'text'
+  return inline
+    ? `<${name}${rendered}>${children.join('')}</${name}>`
+    : `<${name}${rendered}>\n${children.map(child => indent(child)).join('\n')}\n</${name}>`
+}
+
+function indent(markup: string): string {
+  return markup.split('\n').map(line => `  ${line}`).join('\n')
+}
@@ -0,0 +1,535 @@
+import { CanvasService, CanvasServiceError, CreateVariationRequest, LayerUpdateRequest } from './CanvasService'
+import type { StorageAdapter } from './StorageAdapters'
+import { DesignCanvas, LayerData } from '../models/DesignCanvas'
+import { Layer } from '../models/Layer'
+import { mergeCanvasEdits } from '../models/CanvasDocument'
+import { produceCanvas, removeLayer, reorderLayer } from '../models/mutations'
+import { toCanvasModel, toLayerData, CanvasJSON, LayerJSON } from '../models/adapters'
+
+/**
+ * A CanvasService mutation recorded in the outbox
+ * Payloads are stored as plain JSON so the outbox survives a reload
+ */
+export type OutboxMutation =
+  | {
+      type: 'update_layer'
+      canvasId: string
+      layerId: string
+      layer: LayerJSON
+      /** The layer as it was before these edits; replay merges from it */
+      base: LayerJSON
+      operation: 'update' | 'reorder'
+      newIndex?: number
+    }
+  | { type: 'delete_layer'; canvasId: string; layerId: string }
+  | {
+      type: 'create_variation'
+      canvasId: string
+      request: Omit<CreateVariationRequest, 'canvasState'> & { canvasState: CanvasJSON }
+    }
+
+export interface OutboxEntry {
+  id: string
+  mutation: OutboxMutation
+  /** Epoch milliseconds when the mutation was first recorded */
+  createdAt: number
+  /** Failed delivery attempts so far */
+  attempts: number
+  lastError?: string
+}
+
+/**
+ * idle: nothing pending; syncing: sending; waiting: backing off after a failure;
+ * offline: mutations are held until connectivity returns
+ */
+export type SyncStatus = 'idle' | 'syncing' | 'waiting' | 'offline'
+
+export interface SyncQueueState {
+  status: SyncStatus
+  pending: OutboxEntry[]
+  /** Mutations the server rejected; they are kept for inspection but never retried */
+  failed: OutboxEntry[]
+  /** Epoch milliseconds of the next retry while waiting */
+  nextRetryAt: number | null
+}
+
+export interface SyncQueueOptions {
+  /** Backend for the durable outbox; the outbox stays in memory when omitted */
+  storage?: StorageAdapter
+  /** Storage key for the outbox (default 'outbox') */
+  storageKey?: string
+  /** Delay before the first retry; doubles on every further failure (default 1000) */
+  retryDelayMs?: number
+  /** Upper bound for the retry delay (default 60000) */
+  maxRetryDelayMs?: number
+  /** Connectivity check (default navigator.onLine) */
+  isOnline?: () => boolean
+  /** Sync after every enqueue and whenever the browser comes back online (default true) */
+  autoSync?: boolean
+}
+
+/**
+ * Layer edit for the outbox
+ * base is the layer as the edit started from, usually as last loaded from the server
+ */
+export interface OutboxLayerUpdateRequest extends LayerUpdateRequest {
+  base: Layer | LayerData
+}
+
+type SyncTarget = Pick<CanvasService, 'getCanvas' | 'updateLayer' | 'deleteLayer' | 'createVariation'>
+
+type LayerMutation = Extract<OutboxMutation, { type: 'update_layer' }>
+
+// Merges attempted per send when other sessions keep saving in between
+const MAX_MERGE_ATTEMPTS = 3
+
+interface StoredOutbox {
+  entries: OutboxEntry[]
+  failed: OutboxEntry[]
+}
+
+/**
+ * Offline-first outbox for CanvasService mutations
+ * Layer edits, deletions and new variations are recorded locally, can be applied
+ * optimistically to the in-app canvas with applyPending, and are replayed in order
+ * once the server is reachable. Network failures are retried with exponential
+ * backoff; repeated edits to the same layer are collapsed into one request.
+ *
+ * Layer edits are merged into the server's current layer through the canvas CRDT
+ * (mergeCanvasEdits) before they are sent with its version, so changes saved by
+ * other sessions meanwhile are kept. Where both sides changed the same property the
+ * queued edit wins; text is merged character by character.
+ */
+export class CanvasSyncQueue {
+  private entries: OutboxEntry[] = []
+  private failed: OutboxEntry[] = []
+  private inFlight: OutboxEntry | null = null
+  private status: SyncStatus = 'idle'
+  private nextRetryAt: number | null = null
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private syncing: Promise<void> | null = null
+  private persistQueue: Promise<void>
+  private listeners = new Set<(state: SyncQueueState) => void>()
+
+  private storage: StorageAdapter | null
+  private storageKey: string
+  private retryDelayMs: number
+  private maxRetryDelayMs: number
+  private isOnline: () => boolean
+  private autoSync: boolean
+
+  /** Resolves with the number of mutations restored from storage */
+  readonly ready: Promise<number>
+
+  constructor(private service: SyncTarget, options: SyncQueueOptions = {}) {
+    this.storage = options.storage ?? null
+    this.storageKey = options.storageKey ?? 'outbox'
+    this.retryDelayMs = options.retryDelayMs ?? 1000
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 60000
+    this.isOnline = options.isOnline ?? (() => typeof navigator === 'undefined' || navigator.onLine !== false)
+    this.autoSync = options.autoSync !== false
+
+    this.ready = this.restore().catch(error => {
+      console.error('Failed to restore outbox:', error)
+      return 0
+    })
+    // Nothing is written until the stored outbox has been read back
+    this.persistQueue = this.ready.then(() => undefined)
+
+    if (this.autoSync) {
+      if (typeof window !== 'undefined') {
+        window.addEventListener('online', this.handleOnline)
+      }
+      this.ready.then(restored => {
+        if (restored > 0) void this.sync()
+      })
+    }
+  }
+
+  // Recording mutations
+
+  /**
+   * Record a layer update or reorder
+   * request.version is ignored; replay sends the version the edit was merged onto
+   */
+  updateLayer(canvasId: string, layerId: string, request: OutboxLayerUpdateRequest): OutboxEntry {
+    let layer: LayerJSON
+    let base: LayerJSON
+    try {
+      layer = toLayerJSON(request.layer)
+      base = toLayerJSON(request.base)
+    } catch (error) {
+      throw new CanvasServiceError(`Invalid layer data: ${error instanceof Error ? error.message : error}`, 'VALIDATION_ERROR')
+    }
+
+    if (layer.id !== layerId || base.id !== layerId) {
+      throw new CanvasServiceError('Layer ID mismatch', 'VALIDATION_ERROR')
+    }
+
+    const operation = request.operation ?? 'update'
+    if (operation === 'reorder' && (!Number.isInteger(request.newIndex) || (request.newIndex as number) < 0)) {
+      throw new CanvasServiceError('newIndex must be a non-negative integer for reorder', 'VALIDATION_ERROR')
+    }
+
+    return this.record({ type: 'update_layer', canvasId, layerId, layer, base, operation, newIndex: request.newIndex })
+  }
+
+  /**
+   * Record a layer deletion; pending edits to the layer are dropped
+   */
+  deleteLayer(canvasId: string, layerId: string): OutboxEntry {
+    return this.record({ type: 'delete_layer', canvasId, layerId })
+  }
+
+  /**
+   * Record a new variation
+   */
+  createVariation(canvasId: string, request: CreateVariationRequest): OutboxEntry {
+    let canvasState: CanvasJSON
+    try {
+      canvasState = JSON.parse(JSON.stringify(toCanvasModel(request.canvasState).toJSON()))
+    } catch {
+      throw new CanvasServiceError('Invalid canvas state', 'VALIDATION_ERROR')
+    }
+
+    return this.record({ type: 'create_variation', canvasId, request: { ...request, canvasState } })
+  }
+
+  // Reading state
+
+  /**
+   * Apply every unsent mutation for this canvas on top of it
+   * Mutations that no longer apply (for example to a layer removed elsewhere) are skipped
+   */
+  applyPending(canvas: DesignCanvas): DesignCanvas {
+    return this.entries
+      .filter(entry => entry.mutation.canvasId === canvas.id)
+      .reduce((current, entry) => {
+        try {
+          return applyMutation(current, entry.mutation)
+        } catch {
+          return current
+        }
+      }, canvas)
+  }
+
+  getState(): SyncQueueState {
+    return {
+      status: this.status,
+      pending: [...this.entries],
+      failed: [...this.failed],
+      nextRetryAt: this.nextRetryAt
+    }
+  }
+
+  /**
+   * Subscribe to queue changes; returns an unsubscribe function
+   */
+  addListener(listener: (state: SyncQueueState) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Forget mutations the server rejected
+   */
+  clearFailed(): void {
+    this.failed = []
+    this.changed()
+  }
+
+  // Delivery
+
+  /**
+   * Send pending mutations in order
+   * Resolves when the outbox is empty, the device is offline, or a retry has been scheduled
+   */
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.drain().finally(() => {
+        this.syncing = null
+      })
+    }
+    return this.syncing
+  }
+
+  /**
+   * Resolves once every change made so far has been written to storage
+   */
+  async flush(): Promise<void> {
+    await this.persistQueue
+  }
+
+  /**
+   * Stop listening for connectivity changes and cancel any scheduled retry
+   */
+  dispose(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline)
+    }
+    this.clearRetry()
+  }
+
+  private async drain(): Promise<void> {
+    await this.ready
+    this.clearRetry()
+
+    while (this.entries.length > 0) {
+      if (!this.isOnline()) {
+        this.setStatus('offline')
+        return
+      }
+
+      const entry = this.entries[0]
+      this.inFlight = entry
+      this.setStatus('syncing')
+
+      try {
+        await this.send(entry.mutation)
+        this.entries = this.entries.filter(pending => pending !== entry)
+      } catch (error) {
+        entry.attempts += 1
+        entry.lastError = error instanceof Error ? error.message : String(error)
+
+        if (isRetryable(error)) {
+          this.inFlight = null
+          this.scheduleRetry(entry.attempts)
+          return
+        }
+
+        this.entries = this.entries.filter(pending => pending !== entry)
+        // Deleting a layer that is already gone has the intended effect
+        const alreadyApplied = entry.mutation.type === 'delete_layer'
+          && error instanceof CanvasServiceError
+          && error.code === 'NOT_FOUND'
+        if (!alreadyApplied) {
+          this.failed.push(entry)
+        }
+      } finally {
+        this.inFlight = null
+        this.changed()
+      }
+    }
+
+    this.setStatus('idle')
+  }
+
+  private send(mutation: OutboxMutation): Promise<unknown> {
+    switch (mutation.type) {
+      case 'update_layer':
+        return this.sendLayerUpdate(mutation)
+      case 'delete_layer':
+        return this.service.deleteLayer(mutation.canvasId, mutation.layerId)
+      case 'create_variation':
+        return this.service.createVariation(mutation.canvasId, mutation.request)
+    }
+  }
+
+  /**
+   * Merge a layer edit onto the server's current canvas and send it with that version
+   * A save that lands in between is answered with CONFLICT and merged again.
+   */
+  private async sendLayerUpdate(mutation: LayerMutation): Promise<unknown> {
+    for (let attempt = 1; ; attempt++) {
+      const latest = await this.service.getCanvas(mutation.canvasId)
+      const { layer, index } = mergeLayerEdit(latest.canvas, mutation)
+
+      try {
+        return await this.service.updateLayer(mutation.canvasId, mutation.layerId, {
+          layer,
+          version: latest.version,
+          operation: mutation.operation,
+          newIndex: mutation.operation === 'reorder' ? index : undefined
+        })
+      } catch (error) {
+        if (!(error instanceof CanvasServiceError) || error.code !== 'CONFLICT' || attempt >= MAX_MERGE_ATTEMPTS) {
+          throw error
+        }
+      }
+    }
+  }
+
+  private scheduleRetry(attempts: number): void {
+    const delay = Math.min(this.maxRetryDelayMs, this.retryDelayMs * 2 ** (attempts - 1))
+    this.nextRetryAt = Date.now() + delay
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      void this.sync()
+    }, delay)
+    this.setStatus('waiting')
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+    this.nextRetryAt = null
+  }
+
+  private handleOnline = () => {
+    void this.sync()
+  }
+
+  // Outbox bookkeeping
+
+  /**
+   * Add a mutation, collapsing it into an unsent mutation of the same layer where possible
+   */
+  private record(mutation: OutboxMutation): OutboxEntry {
+    let entry: OutboxEntry | undefined
+
+    if (mutation.type === 'update_layer') {
+      // Only the latest unsent mutation of this layer may absorb the edit, so order is preserved
+      const previous = [...this.entries].reverse().find(pending => touchesLayer(pending, mutation.canvasId, mutation.layerId))
+      if (previous && previous !== this.inFlight && previous.mutation.type === 'update_layer') {
+        const reorder = mutation.operation === 'reorder' || previous.mutation.operation === 'reorder'
+        previous.mutation = {
+          ...mutation,
+          // The combined edit still starts from the first one's base
+          base: previous.mutation.base,
+          operation: reorder ? 'reorder' : 'update',
+          newIndex: mutation.operation === 'reorder' ? mutation.newIndex : previous.mutation.newIndex
+        }
+        entry = previous
+      }
+    }
+
+    if (mutation.type === 'delete_layer') {
+      this.entries = this.entries.filter(pending =>
+        pending === this.inFlight
+        || pending.mutation.type !== 'update_layer'
+        || !touchesLayer(pending, mutation.canvasId, mutation.layerId)
+      )
+      entry = this.entries.find(pending =>
+        pending !== this.inFlight
+        && pending.mutation.type === 'delete_layer'
+        && touchesLayer(pending, mutation.canvasId, mutation.layerId)
+      )
+    }
+
+    if (!entry) {
+      entry = { id: crypto.randomUUID(), mutation, createdAt: Date.now(), attempts: 0 }
+      this.entries.push(entry)
+    }
+
+    this.changed()
+    if (this.autoSync) {
+      void this.sync()
+    }
+    return entry
+  }
+
+  private async restore(): Promise<number> {
+    if (!this.storage) {
+      return 0
+    }
+
+    const stored = await this.storage.get<StoredOutbox>(this.storageKey)
+    if (!stored) {
+      return 0
+    }
+
+    // Mutations recorded while restoring go after the stored ones
+    this.entries = [...stored.entries, ...this.entries]
+    this.failed = [...stored.failed, ...this.failed]
+    this.notifyListeners()
+    return stored.entries.length
+  }
+
+  private changed(): void {
+    this.notifyListeners()
+
+    if (!this.storage) {
+      return
+    }
+    const storage = this.storage
+    this.persistQueue = this.persistQueue
+      .then(() => storage.set<StoredOutbox>(this.storageKey, { entries: this.entries, failed: this.failed }))
+      .catch(error => {
+        console.error('Failed to persist outbox:', error)
+      })
+  }
+
+  private setStatus(status: SyncStatus): void {
+    if (status !== 'waiting') {
+      this.nextRetryAt = null
+    }
+    if (this.status !== status) {
+      this.status = status
+      this.notifyListeners()
+    }
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState()
+    this.listeners.forEach(listener => listener(state))
+  }
+}
+
+// Helpers
+
+function touchesLayer(entry: OutboxEntry, canvasId: string, layerId: string): boolean {
+  return entry.mutation.type !== 'create_variation'
+    && entry.mutation.canvasId === canvasId
+    && entry.mutation.layerId === layerId
+}
+
+function toLayerJSON(layer: Layer | LayerData): LayerJSON {
+  const model = layer instanceof Layer ? layer : Layer.fromJSON(layer)
+  return JSON.parse(JSON.stringify(model.toJSON()))
+}
+
+/**
+ * A queued layer edit merged with the server's copy of the layer
+ * Both are diffed against the edit's base, which takes the layer's place in the
+ * server canvas so that only this layer is merged.
+ */
+function mergeLayerEdit(remote: DesignCanvas, mutation: LayerMutation): { layer: LayerData; index: number } {
+  const position = remote.layers.findIndex(layer => layer.id === mutation.layerId)
+  if (position === -1) {
+    throw new CanvasServiceError(`Layer ${mutation.layerId} not found`, 'NOT_FOUND')
+  }
+
+  const base = produceCanvas(remote, draft => {
+    draft.layers[position] = toLayerData(mutation.base) as typeof draft.layers[number]
+  }, { touch: false })
+  const merged = mergeCanvasEdits(base, [remote, applyMutation(base, mutation)])
+  const index = merged.layers.findIndex(layer => layer.id === mutation.layerId)
+  return { layer: merged.layers[index], index }
+}
+
+function isRetryable(error: unknown): boolean {
+  // Anything that is not a CanvasServiceError is a transport failure
+  return !(error instanceof CanvasServiceError) || error.code === 'NETWORK_ERROR'
+}
+
+/**
+ * Mirror the server's handling of a mutation on a local canvas
+ */
+function applyMutation(canvas: DesignCanvas, mutation: OutboxMutation): DesignCanvas {
+  switch (mutation.type) {
+    case 'update_layer': {
+      const existing = canvas.layers.find(layer => layer.id === mutation.layerId)
+      if (!existing) {
+        return canvas
+      }
+      const layer = toLayerData(mutation.layer, mutation.layer.zIndex ?? existing.zIndex)
+      const updated = produceCanvas(canvas, draft => {
+        const index = draft.layers.findIndex(candidate => candidate.id === layer.id)
+        draft.layers[index] = layer as typeof draft.layers[number]
+      })
+      return mutation.operation === 'reorder'
+        ? reorderLayer(updated, layer.id, Math.min(mutation.newIndex ?? 0, updated.layers.length - 1))
+        : updated
+    }
+    case 'delete_layer':
+      return canvas.layers.some(layer => layer.id === mutation.layerId)
+        ? removeLayer(canvas, mutation.layerId)
+        : canvas
+    case 'create_variation':
+      return canvas
+  }
+}
@@ -0,0 +1,263 @@
+import { fabric } from 'fabric'
+import type { CollaborationSession, CollaborationState, Collaborator } from './CollaborationSession'
+
+export interface CollaborationOverlayOptions {
+  /** Minimum interval between cursor broadcasts (default 50) */
+  cursorThrottleMs?: number
+}
+
+type LayerObject = fabric.Object & { layerId?: string }
+
+const CURSOR_PATH = 'M 0 0 L 0 16 L 4 12 L 7 19 L 10 18 L 7 11 L 12 11 z'
+
+/**
+ * Connects a fabric canvas to a CollaborationSession
+ * Local pointer moves, selections and object edits are sent to the session; remote
+ * cursors and selection outlines are drawn on top of the canvas, and remote layer
+ * transforms are applied to the matching fabric objects (matched by layerId).
+ */
+export class CollaborationOverlay {
+  private cursors = new Map<string, fabric.Group>()
+  private outlines: fabric.Rect[] = []
+  private unsubscribe: () => void
+  private cursorThrottleMs: number
+  private lastCursorAt = 0
+  private pendingCursor: ReturnType<typeof setTimeout> | null = null
+  private handlers: Array<[string, (event: fabric.IEvent) => void]>
+
+  constructor(private canvas: fabric.Canvas, private session: CollaborationSession, options: CollaborationOverlayOptions = {}) {
+    this.cursorThrottleMs = options.cursorThrottleMs ?? 50
+
+    this.handlers = [
+      ['mouse:move', event => this.handlePointer(event)],
+      ['mouse:out', () => this.sendCursor(null)],
+      ['selection:created', () => this.handleSelection()],
+      ['selection:updated', () => this.handleSelection()],
+      ['selection:cleared', () => this.session.select([])],
+      ['object:modified', event => this.handleModified(event)]
+    ]
+    this.handlers.forEach(([name, handler]) => this.canvas.on(name, handler))
+
+    this.unsubscribe = session.addListener(state => this.render(state))
+    this.render(session.getState())
+  }
+
+  /**
+   * Remove every overlay object and stop listening to the canvas and the session
+   */
+  dispose(): void {
+    this.handlers.forEach(([name, handler]) => this.canvas.off(name, handler))
+    this.unsubscribe()
+    if (this.pendingCursor) {
+      clearTimeout(this.pendingCursor)
+      this.pendingCursor = null
+    }
+    this.cursors.forEach(cursor => this.canvas.remove(cursor))
+    this.cursors.clear()
+    this.clearOutlines()
+    this.canvas.requestRenderAll()
+  }
+
+  // Local input
+
+  private handlePointer(event: fabric.IEvent): void {
+    if (!event.e) return
+    const pointer = this.canvas.getPointer(event.e)
+    this.sendCursor({ x: Math.round(pointer.x), y: Math.round(pointer.y) })
+  }
+
+  /**
+   * Leading-edge throttle with a trailing send, so the last position always arrives
+   */
+  private sendCursor(position: { x: number; y: number } | null): void {
+    if (this.pendingCursor) {
+      clearTimeout(this.pendingCursor)
+      this.pendingCursor = null
+    }
+
+    const wait = this.lastCursorAt + this.cursorThrottleMs - Date.now()
+    if (position === null || wait <= 0) {
+      this.lastCursorAt = Date.now()
+      this.session.moveCursor(position)
+      return
+    }
+
+    this.pendingCursor = setTimeout(() => {
+      this.pendingCursor = null
+      this.lastCursorAt = Date.now()
+      this.session.moveCursor(position)
+    }, wait)
+  }
+
+  private handleSelection(): void {
+    const layerIds = (this.canvas.getActiveObjects() as LayerObject[])
+      .map(object => object.layerId)
+      .filter((layerId): layerId is string => Boolean(layerId))
+    this.session.select(layerIds)
+  }
+
+  private handleModified(event: fabric.IEvent): void {
+    const objects = event.target instanceof fabric.ActiveSelection
+      ? event.target.getObjects() as LayerObject[]
+      : [event.target as LayerObject | undefined]
+
+    for (const object of objects) {
+      if (!object?.layerId) continue
+
+      try {
+        this.session.editLayer(object.layerId, absoluteTransform(object))
+      } catch (error) {
+        console.error(`Failed to share edit of layer ${object.layerId}:`, error)
+      }
+    }
+  }
+
+  // Rendering
+
+  private render(state: CollaborationState): void {
+    this.syncObjects(state)
+
+    const remote = state.collaborators.filter(collaborator => !collaborator.isLocal)
+    this.renderCursors(remote)
+    this.renderOutlines(remote)
+    this.canvas.requestRenderAll()
+  }
+
+  /**
+   * Move fabric objects to the transforms in the shared canvas
+   */
+  private syncObjects(state: CollaborationState): void {
+    const layers = new Map(state.canvas.layers.map(layer => [layer.id, layer]))
+    const active = new Set(this.canvas.getActiveObjects())
+
+    for (const object of this.canvas.getObjects() as LayerObject[]) {
+      const layer = object.layerId ? layers.get(object.layerId) : undefined
+      // Objects the local user is manipulating are left alone until they are committed
+      if (!layer || active.has(object)) continue
+
+      const { x, y, rotation, scaleX, scaleY, opacity } = layer.transform
+      if (object.left !== x || object.top !== y || object.angle !== rotation ||
+          object.scaleX !== scaleX || object.scaleY !== scaleY || object.opacity !== opacity) {
+        object.set({ left: x, top: y, angle: rotation, scaleX, scaleY, opacity })
+        object.setCoords()
+      }
+    }
+  }
+
+  private renderCursors(collaborators: Collaborator[]): void {
+    const visible = new Set<string>()
+
+    for (const collaborator of collaborators) {
+      if (!collaborator.cursor) continue
+      visible.add(collaborator.userId)
+
+      let cursor = this.cursors.get(collaborator.userId)
+      if (!cursor) {
+        cursor = this.createCursor(collaborator)
+        this.cursors.set(collaborator.userId, cursor)
+        this.canvas.add(cursor)
+      }
+      cursor.set({ left: collaborator.cursor.x, top: collaborator.cursor.y })
+      cursor.bringToFront()
+    }
+
+    this.cursors.forEach((cursor, userId) => {
+      if (!visible.has(userId)) {
+        this.canvas.remove(cursor)
+        this.cursors.delete(userId)
+      }
+    })
+  }
+
+  private renderOutlines(collaborators: Collaborator[]): void {
+    this.clearOutlines()
+
+    const objects = new Map((this.canvas.getObjects() as LayerObject[])
+      .filter(object => object.layerId)
+      .map(object => [object.layerId!, object]))
+
+    for (const collaborator of collaborators) {
+      for (const layerId of collaborator.selection) {
+        const object = objects.get(layerId)
+        if (!object) continue
+
+        const bounds = object.getBoundingRect(true, true)
+        const outline = new fabric.Rect({
+          left: bounds.left - 2,
+          top: bounds.top - 2,
+          width: bounds.width + 4,
+          height: bounds.height + 4,
+          fill: 'transparent',
+          stroke: collaborator.color,
+          strokeWidth: 2,
+          strokeDashArray: [6, 4],
+          ...OVERLAY_OBJECT
+        })
+        this.outlines.push(outline)
+        this.canvas.add(outline)
+      }
+    }
+  }
+
+  private clearOutlines(): void {
+    this.outlines.forEach(outline => this.canvas.remove(outline))
+    this.outlines = []
+  }
+
+  private createCursor(collaborator: Collaborator): fabric.Group {
+    const pointer = new fabric.Path(CURSOR_PATH, {
+      fill: collaborator.color,
+      stroke: '#ffffff',
+      strokeWidth: 1
+    })
+    const label = new fabric.Text(collaborator.name, {
+      left: 12,
+      top: 18,
+      fontSize: 11,
+      fontFamily: 'Inter, system-ui, sans-serif',
+      fill: '#ffffff',
+      backgroundColor: collaborator.color
+    })
+    return new fabric.Group([pointer, label], OVERLAY_OBJECT)
+  }
+}
+
+/**
+ * Layer transform of an object as path/value pairs for CollaborationSession.editLayer
+ * Objects inside an active selection report positions relative to the selection,
+ * so their absolute placement is recovered from the full transform matrix
+ */
+function absoluteTransform(object: fabric.Object): Record<string, number> {
+  if (!object.group) {
+    return {
+      'transform.x': object.left ?? 0,
+      'transform.y': object.top ?? 0,
+      'transform.rotation': object.angle ?? 0,
+      'transform.scaleX': object.scaleX ?? 1,
+      'transform.scaleY': object.scaleY ?? 1
+    }
+  }
+
+  const { translateX, translateY, angle, scaleX, scaleY } = fabric.util.qrDecompose(object.calcTransformMatrix())
+  const center = new fabric.Point(translateX, translateY)
+  const topLeft = fabric.util.rotatePoint(
+    new fabric.Point(translateX - (object.width ?? 0) * scaleX / 2, translateY - (object.height ?? 0) * scaleY / 2),
+    center,
+    fabric.util.degreesToRadians(angle)
+  )
+  return {
+    'transform.x': topLeft.x,
+    'transform.y': topLeft.y,
+    'transform.rotation': angle,
+    'transform.scaleX': scaleX,
+    'transform.scaleY': scaleY
+  }
+}
+
+// Overlay objects are decoration only: never selectable, hit-tested or exported
+const OVERLAY_OBJECT = {
+  selectable: false,
+  evented: false,
+  excludeFromExport: true,
+  hoverCursor: 'default'
+}
@@ -0,0 +1,443 @@
+import type { CollaborationEvent, CollaborationTransport } from './CollaborationTransport'
+import { DesignCanvas, LayerData } from '../models/DesignCanvas'
+import { addLayer, produceCanvas, removeLayer, setLayerProperty } from '../models/mutations'
+import { toLayerData, LayerJSON } from '../models/adapters'
+import { ValidationError } from '../types'
+
+/**
+ * One participant of a collaboration session, including the local user
+ */
+export interface Collaborator {
+  userId: string
+  name: string
+  color: string
+  /** Pointer position in canvas coordinates, null when outside the canvas */
+  cursor: { x: number; y: number } | null
+  /** Layers the participant has selected */
+  selection: string[]
+  isLocal: boolean
+}
+
+export interface CollaborationState {
+  canvas: DesignCanvas
+  collaborators: Collaborator[]
+}
+
+/**
+ * A change to one property of a layer
+ * path is a dotted property path ("transform.x", "content.text", "zIndex"),
+ * or "layer" for the whole layer, where a null value removes it
+ */
+export interface LayerChange {
+  layerId: string
+  path: string
+  value: unknown
+}
+
+export interface CollaborationSessionOptions {
+  /** Canvas every participant starts from, e.g. as loaded from CanvasService */
+  canvas: DesignCanvas
+  transport: CollaborationTransport
+  userId: string
+  name?: string
+  /** Cursor and outline color; derived from the user id when omitted */
+  color?: string
+}
+
+/** Edits are stamped with a Lamport clock; the user id breaks ties */
+interface Register {
+  value: unknown
+  clock: number
+  userId: string
+}
+
+interface RegisterSnapshot extends Register {
+  layerId: string
+  path: string
+}
+
+const LAYER_PATH = 'layer'
+
+const COLLABORATOR_COLORS = ['#EF4444', '#F59E0B', '#10B981', '#3B82F6', '#8B5CF6', '#EC4899', '#14B8A6', '#F97316']
+
+/**
+ * Real-time collaboration on one canvas over the shared CollaborationEvent protocol
+ *
+ * Every layer property is a last-writer-wins register ordered by (Lamport clock, user id).
+ * Each replica applies the same rule to whichever edits it has seen, so concurrent edits
+ * converge to the same canvas no matter in which order they arrive. A whole-layer write
+ * (add or remove) supersedes every older property edit of that layer.
+ *
+ * Late joiners receive the full register set from every participant that greets them.
+ */
+export class CollaborationSession {
+  readonly userId: string
+  readonly canvasId: string
+
+  private base: DesignCanvas
+  private canvas: DesignCanvas
+  private transport: CollaborationTransport
+  private registers = new Map<string, Map<string, Register>>()
+  private clock = 0
+  private collaborators = new Map<string, Collaborator>()
+  private listeners = new Set<(state: CollaborationState) => void>()
+  private unsubscribe: (() => void) | null = null
+
+  constructor(options: CollaborationSessionOptions) {
+    this.userId = options.userId
+    this.canvasId = options.canvas.id
+    this.base = options.canvas
+    this.canvas = options.canvas
+    this.transport = options.transport
+    this.collaborators.set(this.userId, {
+      userId: this.userId,
+      name: options.name ?? this.userId,
+      color: options.color ?? colorFor(this.userId),
+      cursor: null,
+      selection: [],
+      isLocal: true
+    })
+  }
+
+  // Lifecycle
+
+  /**
+   * Start receiving events and announce the local user
+   */
+  join(): void {
+    if (this.unsubscribe) return
+
+    this.unsubscribe = this.transport.subscribe(event => this.handleEvent(event))
+    const local = this.localCollaborator()
+    this.broadcast('user-join', { name: local.name, color: local.color })
+  }
+
+  /**
+   * Announce departure and stop receiving events; the transport is left open
+   */
+  leave(): void {
+    if (!this.unsubscribe) return
+
+    this.broadcast('user-leave', {})
+    this.unsubscribe()
+    this.unsubscribe = null
+    this.collaborators = new Map([[this.userId, this.localCollaborator()]])
+    this.notifyListeners()
+  }
+
+  // State
+
+  getCanvas(): DesignCanvas {
+    return this.canvas
+  }
+
+  getCollaborators(): Collaborator[] {
+    return Array.from(this.collaborators.values()).sort((a, b) => a.userId.localeCompare(b.userId))
+  }
+
+  /**
+   * User ids of everyone in the session, for CanvasState.metadata.collaborators
+   */
+  getCollaboratorIds(): string[] {
+    return this.getCollaborators().map(collaborator => collaborator.userId)
+  }
+
+  getState(): CollaborationState {
+    return { canvas: this.canvas, collaborators: this.getCollaborators() }
+  }
+
+  /**
+   * Subscribe to canvas and presence changes; returns an unsubscribe function
+   */
+  addListener(listener: (state: CollaborationState) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // Local actions
+
+  moveCursor(position: { x: number; y: number } | null): void {
+    this.updateLocal({ cursor: position })
+    this.broadcast('cursor-move', { position })
+  }
+
+  select(layerIds: string[]): void {
+    this.updateLocal({ selection: [...layerIds] })
+    this.broadcast('element-select', { layerIds })
+  }
+
+  /**
+   * Edit properties of one layer, keyed by dotted path
+   * Throws ValidationError, without broadcasting anything, if the edit is invalid
+   */
+  editLayer(layerId: string, changes: Record<string, unknown>): DesignCanvas {
+    let candidate = this.canvas
+    for (const [path, value] of Object.entries(changes)) {
+      if (path === LAYER_PATH) {
+        throw new ValidationError('Use addLayer or removeLayer to replace a whole layer', path)
+      }
+      candidate = path === 'zIndex'
+        ? setZIndex(candidate, layerId, value)
+        : setLayerProperty(candidate, layerId, path, value, { touch: false })
+    }
+
+    return this.commit(Object.entries(changes).map(([path, value]) => ({ layerId, path, value })))
+  }
+
+  addLayer(layer: LayerData): DesignCanvas {
+    const added = addLayer(this.canvas, layer, { touch: false })
+    const validated = added.layers.find(candidate => candidate.id === layer.id)!
+    return this.commit([{ layerId: layer.id, path: LAYER_PATH, value: validated }])
+  }
+
+  removeLayer(layerId: string): DesignCanvas {
+    removeLayer(this.canvas, layerId, { touch: false })
+    return this.commit([{ layerId, path: LAYER_PATH, value: null }])
+  }
+
+  // Remote events
+
+  private handleEvent(event: CollaborationEvent): void {
+    if (event.canvasId !== this.canvasId || event.userId === this.userId) return
+
+    switch (event.type) {
+      case 'user-join':
+        this.handleJoin(event)
+        break
+      case 'user-leave':
+        this.collaborators.delete(event.userId)
+        this.notifyListeners()
+        break
+      case 'cursor-move':
+        this.updateRemote(event.userId, { cursor: event.data.position ?? null })
+        break
+      case 'element-select':
+        this.updateRemote(event.userId, { selection: Array.isArray(event.data.layerIds) ? event.data.layerIds : [] })
+        break
+      case 'element-edit':
+        this.receiveChanges(event.data.clock, event.userId, event.data.changes ?? [])
+        break
+    }
+  }
+
+  private handleJoin(event: CollaborationEvent): void {
+    const { name, color, reply, cursor, selection, registers } = event.data
+    this.collaborators.set(event.userId, {
+      userId: event.userId,
+      name: name ?? event.userId,
+      color: color ?? colorFor(event.userId),
+      cursor: cursor ?? null,
+      selection: selection ?? [],
+      isLocal: false
+    })
+
+    if (Array.isArray(registers)) {
+      this.receiveSnapshot(registers)
+    }
+
+    // Greet newcomers with our presence and everything we know; replies are not answered
+    if (!reply) {
+      const local = this.localCollaborator()
+      this.broadcast('user-join', {
+        name: local.name,
+        color: local.color,
+        cursor: local.cursor,
+        selection: local.selection,
+        registers: this.snapshot(),
+        reply: true
+      })
+    }
+
+    this.notifyListeners()
+  }
+
+  private receiveChanges(clock: unknown, userId: string, changes: LayerChange[]): void {
+    if (typeof clock !== 'number') return
+
+    this.clock = Math.max(this.clock, clock)
+    const applied = changes.filter(change => this.applyRegister(change.layerId, change.path, {
+      value: decodeValue(change.path, change.value),
+      clock,
+      userId
+    }))
+
+    if (applied.length > 0) {
+      this.rebuild()
+    }
+  }
+
+  private receiveSnapshot(registers: RegisterSnapshot[]): void {
+    let applied = false
+    for (const { layerId, path, value, clock, userId } of registers) {
+      this.clock = Math.max(this.clock, clock)
+      applied = this.applyRegister(layerId, path, { value: decodeValue(path, value), clock, userId }) || applied
+    }
+
+    if (applied) {
+      this.rebuild()
+    }
+  }
+
+  // Registers
+
+  private commit(changes: LayerChange[]): DesignCanvas {
+    this.clock += 1
+    const clock = this.clock
+    changes.forEach(change => this.applyRegister(change.layerId, change.path, { value: change.value, clock, userId: this.userId }))
+
+    this.broadcast('element-edit', { clock, changes })
+    this.rebuild()
+    return this.canvas
+  }
+
+  /**
+   * Store a register value if it is newer than the one held; returns whether it was stored
+   */
+  private applyRegister(layerId: string, path: string, register: Register): boolean {
+    const layerRegisters = this.registers.get(layerId) ?? new Map<string, Register>()
+    const current = layerRegisters.get(path)
+    if (current && !isNewer(register, current)) {
+      return false
+    }
+
+    layerRegisters.set(path, register)
+    this.registers.set(layerId, layerRegisters)
+    return true
+  }
+
+  private snapshot(): RegisterSnapshot[] {
+    const snapshot: RegisterSnapshot[] = []
+    this.registers.forEach((layerRegisters, layerId) => {
+      layerRegisters.forEach((register, path) => snapshot.push({ layerId, path, ...register }))
+    })
+    return snapshot
+  }
+
+  /**
+   * Recompute the canvas from the base canvas and the registers
+   */
+  private rebuild(): void {
+    const baseLayers = new Map(this.base.layers.map(layer => [layer.id, layer]))
+    const layerIds = new Set([...baseLayers.keys(), ...this.registers.keys()])
+    const layers: LayerData[] = []
+
+    for (const layerId of layerIds) {
+      const layerRegisters = this.registers.get(layerId)
+      const whole = layerRegisters?.get(LAYER_PATH)
+      const start = whole ? whole.value as LayerData | null : baseLayers.get(layerId)
+      if (!start) continue
+
+      const layer: LayerData = {
+        ...start,
+        content: { ...start.content },
+        transform: { ...start.transform },
+        style: { ...start.style },
+        constraints: { ...start.constraints }
+      }
+      layerRegisters?.forEach((register, path) => {
+        if (path === LAYER_PATH || (whole && !isNewer(register, whole))) return
+        setPath(layer, path, register.value)
+      })
+      layers.push(layer)
+    }
+
+    layers.sort((a, b) => a.zIndex - b.zIndex || a.id.localeCompare(b.id))
+
+    try {
+      this.canvas = new DesignCanvas({ ...this.base.toJSON(), layers })
+    } catch (error) {
+      // Concurrent edits can combine into an invalid canvas (e.g. every layer removed);
+      // keep showing the last valid one until further edits make the state valid again
+      console.error('Collaborative canvas is invalid:', error)
+    }
+    this.notifyListeners()
+  }
+
+  // Presence
+
+  private localCollaborator(): Collaborator {
+    return this.collaborators.get(this.userId)!
+  }
+
+  private updateLocal(changes: Partial<Collaborator>): void {
+    this.collaborators.set(this.userId, { ...this.localCollaborator(), ...changes })
+    this.notifyListeners()
+  }
+
+  private updateRemote(userId: string, changes: Partial<Collaborator>): void {
+    const collaborator = this.collaborators.get(userId)
+    if (!collaborator) return
+
+    this.collaborators.set(userId, { ...collaborator, ...changes })
+    this.notifyListeners()
+  }
+
+  private broadcast(type: CollaborationEvent['type'], data: Record<string, unknown>): void {
+    if (!this.unsubscribe) return
+
+    this.transport.send({
+      id: crypto.randomUUID(),
+      type,
+      userId: this.userId,
+      canvasId: this.canvasId,
+      timestamp: new Date().toISOString(),
+      data
+    })
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState()
+    this.listeners.forEach(listener => listener(state))
+  }
+}
+
+// Helpers
+
+function isNewer(a: Register, b: Register): boolean {
+  return a.clock !== b.clock ? a.clock > b.clock : a.userId > b.userId
+}
+
+/**
+ * Whole layers arrive as wire JSON with string dates
+ */
+function decodeValue(path: string, value: unknown): unknown {
+  return path === LAYER_PATH && value ? toLayerData(value as LayerJSON) : value
+}
+
+function setPath(layer: LayerData, path: string, value: unknown): void {
+  const [section, key] = path.split('.')
+  if (!key) {
+    (layer as unknown as Record<string, unknown>)[section] = value
+    return
+  }
+
+  const target = (layer as unknown as Record<string, Record<string, unknown>>)[section]
+  if (!target || typeof target !== 'object') return
+  if (value === undefined) {
+    delete target[key]
+  } else {
+    target[key] = value
+  }
+}
+
+function setZIndex(canvas: DesignCanvas, layerId: string, value: unknown): DesignCanvas {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new ValidationError('zIndex must be a non-negative integer', 'zIndex')
+  }
+  if (!canvas.layers.some(layer => layer.id === layerId)) {
+    throw new ValidationError(`Layer ${layerId} not found`, 'layers')
+  }
+  return produceCanvas(canvas, draft => {
+    draft.layers.find(layer => layer.id === layerId)!.zIndex = value
+  }, { touch: false })
+}
+
+function colorFor(userId: string): string {
+  let hash = 0
+  for (const char of userId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+  }
+  return COLLABORATOR_COLORS[hash % COLLABORATOR_COLORS.length]
+}
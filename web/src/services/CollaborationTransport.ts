@@ -0,0 +1,224 @@
+import type { CollaborationEvent } from '../../../shared/types'
+
+export type { CollaborationEvent }
+
+/**
+ * Moves collaboration events between the participants of a canvas
+ * A transport delivers every event sent by one participant to all the others,
+ * in the order it was sent; it never echoes an event back to its sender.
+ */
+export interface CollaborationTransport {
+  send(event: CollaborationEvent): void
+  /** Returns an unsubscribe function */
+  subscribe(listener: (event: CollaborationEvent) => void): () => void
+  close(): void
+}
+
+/**
+ * In-process hub connecting any number of loopback transports
+ * Events are delivered asynchronously, like a network would, so edits made before
+ * delivery are concurrent. Used by tests and by the single-device demo.
+ */
+export class LoopbackHub {
+  private transports = new Set<LoopbackTransport>()
+  private queue: Array<{ from: LoopbackTransport; event: CollaborationEvent }> = []
+  private draining: Promise<void> | null = null
+
+  /**
+   * Create a transport connected to this hub
+   */
+  connect(): CollaborationTransport {
+    const transport = new LoopbackTransport(this)
+    this.transports.add(transport)
+    return transport
+  }
+
+  /**
+   * Resolves once every event sent so far (and any sent in response) has been delivered
+   */
+  async idle(): Promise<void> {
+    while (this.draining) {
+      await this.draining
+    }
+  }
+
+  /** @internal */
+  enqueue(from: LoopbackTransport, event: CollaborationEvent): void {
+    // Serialize like a real transport so receivers never share objects with the sender
+    this.queue.push({ from, event: JSON.parse(JSON.stringify(event)) })
+    if (!this.draining) {
+      this.draining = Promise.resolve().then(() => this.drain())
+    }
+  }
+
+  /** @internal */
+  disconnect(transport: LoopbackTransport): void {
+    this.transports.delete(transport)
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0) {
+      const { from, event } = this.queue.shift()!
+      this.transports.forEach(transport => {
+        if (transport !== from) transport.deliver(event)
+      })
+    }
+    this.draining = null
+  }
+}
+
+class LoopbackTransport implements CollaborationTransport {
+  private listeners = new Set<(event: CollaborationEvent) => void>()
+  private closed = false
+
+  constructor(private hub: LoopbackHub) {}
+
+  send(event: CollaborationEvent): void {
+    if (!this.closed) this.hub.enqueue(this, event)
+  }
+
+  subscribe(listener: (event: CollaborationEvent) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  close(): void {
+    this.closed = true
+    this.listeners.clear()
+    this.hub.disconnect(this)
+  }
+
+  deliver(event: CollaborationEvent): void {
+    this.listeners.forEach(listener => listener(event))
+  }
+}
+
+/**
+ * Minimal WebSocket surface used by the transport, so tests can supply a fake
+ */
+export interface WebSocketLike {
+  readonly readyState: number
+  onopen: ((event: unknown) => void) | null
+  onclose: ((event: unknown) => void) | null
+  onmessage: ((event: { data: unknown }) => void) | null
+  onerror: ((event: unknown) => void) | null
+  send(data: string): void
+  close(): void
+}
+
+export interface WebSocketTransportOptions {
+  /** Constructor used to open sockets (default: the global WebSocket) */
+  WebSocketImpl?: new (url: string) => WebSocketLike
+  /** Delay before the first reconnect; doubles up to maxReconnectDelayMs (default 1000) */
+  reconnectDelayMs?: number
+  maxReconnectDelayMs?: number
+}
+
+const WEBSOCKET_OPEN = 1
+
+/**
+ * Transport over a WebSocket relay
+ * The relay is expected to broadcast every text frame to the other sockets connected
+ * to the same URL (typically one URL per canvas). Events sent while the socket is
+ * connecting are buffered, and dropped connections are re-established with backoff.
+ */
+export class WebSocketTransport implements CollaborationTransport {
+  private socket: WebSocketLike | null = null
+  private listeners = new Set<(event: CollaborationEvent) => void>()
+  private outbox: string[] = []
+  private reconnectAttempts = 0
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private closed = false
+  private WebSocketImpl: new (url: string) => WebSocketLike
+  private reconnectDelayMs: number
+  private maxReconnectDelayMs: number
+
+  constructor(private url: string, options: WebSocketTransportOptions = {}) {
+    const Impl = options.WebSocketImpl
+      ?? (typeof WebSocket !== 'undefined' ? WebSocket as unknown as new (url: string) => WebSocketLike : undefined)
+    if (!Impl) {
+      throw new Error('WebSocket is not available in this environment')
+    }
+    this.WebSocketImpl = Impl
+    this.reconnectDelayMs = options.reconnectDelayMs ?? 1000
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 30000
+    this.open()
+  }
+
+  send(event: CollaborationEvent): void {
+    if (this.closed) return
+
+    const data = JSON.stringify(event)
+    if (this.socket?.readyState === WEBSOCKET_OPEN) {
+      this.socket.send(data)
+    } else {
+      this.outbox.push(data)
+    }
+  }
+
+  subscribe(listener: (event: CollaborationEvent) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  close(): void {
+    this.closed = true
+    this.listeners.clear()
+    this.outbox = []
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    this.socket?.close()
+    this.socket = null
+  }
+
+  private open(): void {
+    const socket = new this.WebSocketImpl(this.url)
+    this.socket = socket
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0
+      const pending = this.outbox
+      this.outbox = []
+      pending.forEach(data => socket.send(data))
+    }
+
+    socket.onmessage = ({ data }) => {
+      if (typeof data !== 'string') return
+
+      let event: CollaborationEvent
+      try {
+        event = JSON.parse(data)
+      } catch {
+        // Frames that are not JSON events are not part of the protocol
+        return
+      }
+      if (!event || typeof event.type !== 'string' || typeof event.userId !== 'string') return
+
+      this.listeners.forEach(listener => listener(event))
+    }
+
+    socket.onclose = () => {
+      if (this.closed || this.socket !== socket) return
+      this.socket = null
+      this.scheduleReconnect()
+    }
+
+    // Errors are followed by close, which handles reconnection
+    socket.onerror = () => {}
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(this.maxReconnectDelayMs, this.reconnectDelayMs * 2 ** this.reconnectAttempts)
+    this.reconnectAttempts += 1
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      if (!this.closed) this.open()
+    }, delay)
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * CSS colour parsing shared by the exporters and the headless renderer
+ */
+
+/**
+ * Channels 0–255, alpha 0–1
+ */
+export interface RGBA {
+  r: number
+  g: number
+  b: number
+  a: number
+}
+
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  lime: [0, 255, 0],
+  blue: [0, 0, 255],
+  yellow: [255, 255, 0],
+  orange: [255, 165, 0],
+  purple: [128, 0, 128],
+  pink: [255, 192, 203],
+  cyan: [0, 255, 255],
+  magenta: [255, 0, 255],
+  navy: [0, 0, 128],
+  teal: [0, 128, 128],
+  silver: [192, 192, 192],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128]
+}
+
+/**
+ * Hex, rgb()/rgba(), hsl()/hsla() and common named colours
+ * Returns null for transparent and undefined when the value is not understood.
+ */
+export function parseCssColor(value: string): RGBA | null | undefined {
+  const color = value.trim().toLowerCase()
+  if (color === 'transparent' || color === 'none') return null
+
+  const named = NAMED_COLORS[color]
+  if (named) return { r: named[0], g: named[1], b: named[2], a: 1 }
+
+  const hex = /^#([0-9a-f]{3,8})$/.exec(color)?.[1]
+  if (hex && [3, 4, 6, 8].includes(hex.length)) {
+    const full = hex.length <= 4 ? hex.split('').map(digit => digit + digit).join('') : hex
+    const channel = (index: number) => parseInt(full.slice(index * 2, index * 2 + 2), 16)
+    return { r: channel(0), g: channel(1), b: channel(2), a: full.length === 8 ? channel(3) / 255 : 1 }
+  }
+
+  const functional = /^(rgba?|hsla?)\(([^)]+)\)$/.exec(color)
+  if (!functional) return undefined
+
+  const parts = functional[2].split(/[\s,/]+/).filter(Boolean)
+  if (parts.length < 3 || parts.slice(0, 3).some(part => Number.isNaN(parseFloat(part)))) return undefined
+  const alpha = parts[3] === undefined ? 1 : parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3])
+
+  if (functional[1].startsWith('rgb')) {
+    const channel = (part: string) => part.endsWith('%') ? parseFloat(part) * 2.55 : parseFloat(part)
+    return { r: clampChannel(channel(parts[0])), g: clampChannel(channel(parts[1])), b: clampChannel(channel(parts[2])), a: clampAlpha(alpha) }
+  }
+
+  const [r, g, b] = hslToRgb(parseFloat(parts[0]), parseFloat(parts[1]) / 100, parseFloat(parts[2]) / 100)
+  return { r, g, b, a: clampAlpha(alpha) }
+}
+
+// Helpers
+
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+  const h = ((hue % 360) + 360) % 360 / 60
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation
+  const x = chroma * (1 - Math.abs(h % 2 - 1))
+  const [r, g, b] = h < 1 ? [chroma, x, 0] : h < 2 ? [x, chroma, 0] : h < 3 ? [0, chroma, x]
+    : h < 4 ? [0, x, chroma] : h < 5 ? [x, 0, chroma] : [chroma, 0, x]
+  const m = lightness - chroma / 2
+  return [clampChannel((r + m) * 255), clampChannel((g + m) * 255), clampChannel((b + m) * 255)]
+}
+
+function clampChannel(value: number): number {
+  return Math.round(Math.min(255, Math.max(0, value)))
+}
+
+function clampAlpha(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
@@ -0,0 +1,95 @@
+/**
+ * Text measurement without font files
+ * Widths come from the standard PDF font metrics, which is close enough for layout
+ * decisions (truncation, wrapping, alignment) when the real font is not available.
+ */
+
+export interface FontSettings {
+  fontFamily?: string
+  fontWeight?: string
+  fontStyle?: string
+}
+
+/**
+ * Closest of the 14 standard PDF fonts for a layer's font settings
+ */
+export function standardFont(font: FontSettings): string {
+  const family = (font.fontFamily ?? '').toLowerCase()
+  const bold = font.fontWeight === 'bold' || Number(font.fontWeight) >= 600
+  const italic = font.fontStyle === 'italic' || font.fontStyle === 'oblique'
+
+  if (/mono|courier|code/.test(family)) {
+    return `Courier${bold || italic ? '-' : ''}${bold ? 'Bold' : ''}${italic ? 'Oblique' : ''}`
+  }
+  if (/serif/.test(family) && !/sans/.test(family) || /times|georgia|garamond|playfair|merriweather/.test(family)) {
+    return bold && italic ? 'Times-BoldItalic' : bold ? 'Times-Bold' : italic ? 'Times-Italic' : 'Times-Roman'
+  }
+  return `Helvetica${bold || italic ? '-' : ''}${bold ? 'Bold' : ''}${italic ? 'Oblique' : ''}`
+}
+
+/**
+ * Helvetica advance widths (1/1000 em) for ASCII 32–126
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+
+/**
+ * Width of a line in points for a standard font name; Courier is exact, other fonts are
+ * approximated from Helvetica
+ */
+export function textWidth(text: string, font: string, size: number): number {
+  if (font.startsWith('Courier')) return text.length * 0.6 * size
+
+  const factor = font.includes('Bold') ? 1.06 : font.startsWith('Times') ? 0.92 : 1
+  let units = 0
+  for (const character of text) {
+    const code = character.charCodeAt(0)
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556
+  }
+  return units / 1000 * size * factor
+}
+
+/**
+ * Greedy word wrap; words longer than maxWidth get a line of their own
+ */
+export function wrapText(text: string, font: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (line && textWidth(candidate, font, size) > maxWidth) {
+      lines.push(line)
+      line = word
+    } else {
+      line = candidate
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+/**
+ * Font size and standard font of a CSS font shorthand such as 'bold italic 24px Inter, sans-serif'
+ */
+export function parseCssFont(font: string): { size: number; font: string } {
+  const match = /(?:^|\s)(\d*\.?\d+)(px|pt)(?:\/\S+)?\s+(.+)$/.exec(font.trim())
+  if (!match) return { size: 10, font: 'Helvetica' }
+
+  const keywords = font.slice(0, match.index).toLowerCase().split(/\s+/)
+  const weight = keywords.find(keyword => keyword === 'bold' || keyword === 'bolder' || /^\d00$/.test(keyword))
+  const size = parseFloat(match[1]) * (match[2] === 'pt' ? 4 / 3 : 1)
+  return {
+    size,
+    font: standardFont({
+      fontFamily: match[3].split(',')[0].replace(/["']/g, ''),
+      fontWeight: weight === 'bolder' ? 'bold' : weight,
+      fontStyle: keywords.includes('italic') ? 'italic' : keywords.includes('oblique') ? 'oblique' : undefined
+    })
+  }
+}
@@ -73,6 +73,10 @@ export class GestureService {
         body: JSON.stringify(request)
       })
 
+      if (response.status === 404) {
+        throw new GestureServiceError(`Variation ${request.currentVariationId} not found`, 'NOT_FOUND')
+      }
+
       if (!response.ok) {
         const error = await response.text()
         throw new GestureServiceError(`Navigation failed: ${error}`, 'NETWORK_ERROR')
@@ -0,0 +1,194 @@
+import type { CanvasState as SharedCanvasState } from '../../../shared/types'
+import { DesignCanvas } from '../models/DesignCanvas'
+import { DEVICE_SPECIFICATIONS } from '../data/device-specs'
+import { LayerType } from '../types'
+import { drawCanvas } from './CanvasRenderer'
+import { toDesignCanvas } from './CanvasStateConverter'
+import type { ConversionIssue } from './CanvasStateConverter'
+import { parseCssColor } from './CssColor'
+import { loadImageBytes } from './ImageLoader'
+import type { ImageFetcher } from './ImageLoader'
+import { decodePng, encodePng, isPng } from './PngCodec'
+import type { RasterImage } from './PngCodec'
+import { RasterContext } from './RasterContext'
+
+export interface HeadlessRenderOptions {
+  /** Output pixels per canvas unit (default: the device's pixelDensity) */
+  pixelRatio?: number
+  /** Shrink the output to fit within this size, e.g. for thumbnails */
+  maxWidth?: number
+  maxHeight?: number
+  /** Fill behind the layers (default '#ffffff'; 'transparent' keeps the alpha channel) */
+  background?: string
+  /** Fetches imageUrl sources; data URLs are decoded without it (default: fetch) */
+  loadImage?: ImageFetcher
+  /** Decodes image formats other than PNG, e.g. JPEG through an image library */
+  decodeImage?: (bytes: Uint8Array) => Promise<RasterImage>
+}
+
+export interface HeadlessRenderResult {
+  /** Complete PNG file */
+  png: Uint8Array
+  width: number
+  height: number
+  /** Output pixels per canvas unit */
+  scale: number
+  /** Effects drawn approximately or not at all, images that failed and CanvasState conversion issues */
+  issues: ConversionIssue[]
+}
+
+export interface RasterDiff {
+  /** Pixels where any channel differs by more than the threshold */
+  mismatchedPixels: number
+  /** mismatchedPixels as a share of all pixels (0…1) */
+  ratio: number
+  /** Mismatched pixels in red over a faded copy of the expected image */
+  diff: RasterImage
+}
+
+type CanvasInput = DesignCanvas | SharedCanvasState
+
+const DEFAULT_THUMBNAIL_SIZE = { width: 300, height: 200 }
+
+/**
+ * Render a canvas (or a shared CanvasState) to RGBA pixels without a browser
+ */
+export async function renderToRaster(
+  input: CanvasInput,
+  options: HeadlessRenderOptions = {}
+): Promise<{ image: RasterImage; scale: number; issues: ConversionIssue[] }> {
+  const { canvas, issues } = designCanvasOf(input)
+  const { width, height } = canvas.dimensions
+
+  let scale = options.pixelRatio ?? DEVICE_SPECIFICATIONS[canvas.deviceType]?.pixelDensity ?? 1
+  if (options.maxWidth !== undefined) scale = Math.min(scale, options.maxWidth / width)
+  if (options.maxHeight !== undefined) scale = Math.min(scale, options.maxHeight / height)
+  if (!(scale > 0)) {
+    throw new Error(`Cannot render ${canvas.id} at scale ${scale}`)
+  }
+
+  const context = new RasterContext(width * scale, height * scale)
+  const background = options.background ?? '#ffffff'
+  if (parseCssColor(background) === undefined) {
+    throw new Error(`Background colour '${background}' is not understood`)
+  }
+  context.fillStyle = background
+  context.fillRect(0, 0, context.width, context.height)
+
+  const images = await loadImages(canvas, options, issues)
+  context.scale(scale, scale)
+  drawCanvas(context, canvas, { images })
+  issues.push(...unsupportedEffects(canvas))
+
+  return { image: context.toImage(), scale, issues }
+}
+
+/**
+ * Render a canvas to a PNG at full device resolution (or the given pixelRatio)
+ */
+export async function renderToPng(input: CanvasInput, options: HeadlessRenderOptions = {}): Promise<HeadlessRenderResult> {
+  const { image, scale, issues } = await renderToRaster(input, options)
+  return { png: await encodePng(image), width: image.width, height: image.height, scale, issues }
+}
+
+/**
+ * Render canvases to PNG thumbnails that fit within size (default 300×200), one after
+ * another so a large batch does not hold every raster in memory at once
+ */
+export async function renderThumbnails(
+  inputs: CanvasInput[],
+  size: { width: number; height: number } = DEFAULT_THUMBNAIL_SIZE,
+  options: Omit<HeadlessRenderOptions, 'maxWidth' | 'maxHeight'> = {}
+): Promise<HeadlessRenderResult[]> {
+  const results: HeadlessRenderResult[] = []
+  for (const input of inputs) {
+    results.push(await renderToPng(input, { ...options, maxWidth: size.width, maxHeight: size.height }))
+  }
+  return results
+}
+
+/**
+ * Compare two renders pixel by pixel for visual regression tests
+ * threshold is the largest per-channel difference (0–255) still treated as equal.
+ */
+export function compareRasters(actual: RasterImage, expected: RasterImage, threshold: number = 0): RasterDiff {
+  if (actual.width !== expected.width || actual.height !== expected.height) {
+    throw new Error(`Cannot compare a ${actual.width}×${actual.height} image with a ${expected.width}×${expected.height} one`)
+  }
+
+  const diff = new Uint8ClampedArray(actual.data.length)
+  let mismatchedPixels = 0
+  for (let offset = 0; offset < actual.data.length; offset += 4) {
+    let mismatch = false
+    for (let channel = 0; channel < 4; channel++) {
+      if (Math.abs(actual.data[offset + channel] - expected.data[offset + channel]) > threshold) mismatch = true
+    }
+    if (mismatch) {
+      mismatchedPixels++
+      diff.set([255, 0, 0, 255], offset)
+    } else {
+      const grey = 255 - (255 - (expected.data[offset] + expected.data[offset + 1] + expected.data[offset + 2]) / 3) * 0.2
+      diff.set([grey, grey, grey, 255], offset)
+    }
+  }
+
+  const pixels = actual.width * actual.height
+  return {
+    mismatchedPixels,
+    ratio: pixels === 0 ? 0 : mismatchedPixels / pixels,
+    diff: { width: actual.width, height: actual.height, data: diff }
+  }
+}
+
+// Helpers
+
+function designCanvasOf(input: CanvasInput): { canvas: DesignCanvas; issues: ConversionIssue[] } {
+  if (input instanceof DesignCanvas) return { canvas: input, issues: [] }
+  const { value, issues } = toDesignCanvas(input)
+  return { canvas: value, issues: [...issues] }
+}
+
+async function loadImages(canvas: DesignCanvas, options: HeadlessRenderOptions, issues: ConversionIssue[]): Promise<Map<string, RasterImage>> {
+  const images = new Map<string, RasterImage>()
+  const sources = new Set(canvas.layers
+    .filter(layer => layer.type === LayerType.IMAGE && layer.constraints.visible)
+    .map(layer => layer.content.imageData ?? layer.content.imageUrl)
+    .filter((source): source is string => Boolean(source)))
+
+  for (const source of sources) {
+    try {
+      const bytes = await loadImageBytes(source, options.loadImage)
+      if (isPng(bytes)) {
+        images.set(source, await decodePng(bytes))
+      } else if (options.decodeImage) {
+        images.set(source, await options.decodeImage(bytes))
+      } else {
+        throw new Error('only PNG images can be decoded without a decodeImage option')
+      }
+    } catch (error) {
+      issues.push({
+        path: `image:${source.slice(0, 64)}`,
+        kind: 'dropped',
+        message: `Image could not be rendered: ${error instanceof Error ? error.message : String(error)}`
+      })
+    }
+  }
+  return images
+}
+
+function unsupportedEffects(canvas: DesignCanvas): ConversionIssue[] {
+  return canvas.layers.filter(layer => layer.constraints.visible).flatMap(layer => {
+    const path = `canvas.layers.${layer.id}`
+    const issues: ConversionIssue[] = []
+    if (layer.style.boxShadow) {
+      issues.push({ path: `${path}.style.boxShadow`, kind: 'dropped', message: 'Shadows are not rendered headlessly' })
+    }
+    if (layer.style.filter && Object.values(layer.style.filter).some(value => value !== undefined)) {
+      issues.push({ path: `${path}.style.filter`, kind: 'dropped', message: 'Layer filters are not rendered headlessly' })
+    }
+    if ((layer.type === LayerType.TEXT || layer.type === LayerType.POST_TEXT) && layer.content.text?.trim()) {
+      issues.push({ path: `${path}.content.text`, kind: 'approximated', message: 'Text is drawn as word blocks without font rendering' })
+    }
+    return issues
+  })
+}
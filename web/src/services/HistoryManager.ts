@@ -4,22 +4,31 @@
  * Provides immutable state management, branching operations, and version control
  */
 
-import { DesignCanvas } from '../models/DesignCanvas';
+import { DesignCanvas, LayerData } from '../models/DesignCanvas';
+import { toCanvasModel, CanvasJSON } from '../models/adapters';
+import { diffCanvases, CanvasChange, CanvasDiff } from '../models/diff';
+import { mergeCanvasEdits } from '../models/CanvasDocument';
+import { CanvasSnapshotStore, SnapshotStoreStats } from './CanvasSnapshotStore';
+import { mergeCanvases, MergeConflict, ConflictResolution } from './CanvasMerge';
+import type { StorageAdapter } from './StorageAdapters';
 
 // MARK: - History Node Types
 
 export interface HistoryNode {
   id: string;
   parentId: string | null;
-  canvasState: DesignCanvas;
+  /** Materialised on access from a snapshot that shares unchanged layers with the parent */
+  readonly canvasState: DesignCanvas;
   timestamp: Date;
   metadata: HistoryMetadata;
   children: string[];
   branchName?: string;
+  /** Second parent of a merge node (the merged-in branch head) */
+  mergeParentId?: string;
 }
 
 export interface HistoryMetadata {
-  source: 'user' | 'ai' | 'import' | 'fork';
+  source: 'user' | 'ai' | 'import' | 'fork' | 'merge';
   description?: string;
   tags?: string[];
   author?: string;
@@ -59,6 +68,42 @@ export interface HistoryStats {
   userModifiedNodes: number;
 }
 
+// MARK: - Persistence Types
+
+export interface HistoryPersistenceOptions {
+  /** Backend used to persist the DAG; history stays in memory when omitted */
+  storage?: StorageAdapter;
+  /** Key prefix so several histories can share one backend (default 'history') */
+  namespace?: string;
+  /** Restore the persisted DAG on construction (default true) */
+  autoRestore?: boolean;
+}
+
+export interface HistoryManagerOptions extends HistoryPersistenceOptions {
+  /** Approximate bytes of snapshot data to retain before the oldest nodes are pruned */
+  memoryBudget?: number;
+  /** Number of materialised canvases kept cached (default 32) */
+  maxMaterializedSnapshots?: number;
+}
+
+type HistoryNodeFields = Omit<HistoryNode, 'canvasState'>;
+
+// Stored records keep dates as ISO strings so every backend can hold them
+type StoredHistoryNode = Omit<HistoryNodeFields, 'timestamp'> & { timestamp: string; canvasState: CanvasJSON };
+
+type StoredHistoryBranch = Omit<HistoryBranch, 'metadata'> & {
+  metadata: Omit<BranchMetadata, 'createdAt'> & { createdAt: string };
+};
+
+interface StoredHistoryMeta {
+  version: string;
+  currentNodeId: string | null;
+  currentBranchId: string | null;
+  rootNodeId: string | null;
+}
+
+const HISTORY_STORAGE_VERSION = '1.0';
+
 // MARK: - Navigation Types
 
 export interface NavigationResult {
@@ -73,6 +118,8 @@ export interface ComparisonResult {
   nodeB: HistoryNode;
   changes: ChangeDetail[];
   similarity: number;
+  /** Property-level diff from nodeA to nodeB; diff.patch turns one into the other */
+  diff: CanvasDiff;
 }
 
 export interface ChangeDetail {
@@ -81,6 +128,43 @@ export interface ChangeDetail {
   oldValue?: any;
   newValue?: any;
   layerId?: string;
+  /** Semantic change kind from the diff engine */
+  kind?: CanvasChange['kind'];
+}
+
+// MARK: - Merge Types
+
+export type { MergeConflict, ConflictResolution };
+
+export interface MergeOptions {
+  /** Resolutions keyed by MergeConflict.id */
+  resolutions?: Record<string, ConflictResolution>;
+  description?: string;
+  /**
+   * 'three-way' (default) reports overlapping changes as conflicts;
+   * 'crdt' merges them via CanvasDocument, the source branch winning property clashes
+   */
+  strategy?: MergeStrategy;
+}
+
+export type MergeStrategy = 'three-way' | 'crdt';
+
+export interface MergePreview {
+  baseNodeId: string;
+  sourceHeadId: string;
+  targetHeadId: string;
+  /** Merged canvas; unresolved conflicts keep the target value */
+  canvas: DesignCanvas;
+  conflicts: MergeConflict[];
+  /** Source head is already an ancestor of the target head */
+  upToDate: boolean;
+}
+
+export interface MergeResult {
+  success: boolean;
+  mergeNode: HistoryNode | null;
+  conflicts: MergeConflict[];
+  error?: string;
 }
 
 // MARK: - Error Types
@@ -98,10 +182,38 @@ export class HistoryManager {
   private state: HistoryState;
   private maxHistorySize: number;
   private listeners: Set<(state: HistoryState) => void> = new Set();
-
-  constructor(maxHistorySize: number = 1000) {
+  private snapshots: CanvasSnapshotStore;
+  private memoryBudget: number;
+
+  // Persistence: records last written to storage, compared by reference to find changes
+  private storage: StorageAdapter | null;
+  private namespace: string;
+  private persistedNodes = new Map<string, HistoryNode>();
+  private persistedBranches = new Map<string, HistoryBranch>();
+  private persistedMeta: string | null = null;
+  private resetStorage = false;
+  private persistScheduled = false;
+  private persistQueue: Promise<void> = Promise.resolve();
+  private persistError: HistoryError | null = null;
+
+  /** Resolves once the persisted history has been restored (true) or none was found (false) */
+  readonly ready: Promise<boolean>;
+
+  constructor(maxHistorySize: number = 1000, options: HistoryManagerOptions = {}) {
     this.maxHistorySize = maxHistorySize;
+    this.memoryBudget = options.memoryBudget ?? Infinity;
+    this.snapshots = new CanvasSnapshotStore({ maxMaterialized: options.maxMaterializedSnapshots });
     this.state = this.createEmptyState();
+    this.storage = options.storage ?? null;
+    this.namespace = options.namespace ?? 'history';
+    this.ready = this.storage && options.autoRestore !== false
+      ? this.restore().catch(error => {
+          console.error('Failed to restore history:', error);
+          return false;
+        })
+      : Promise.resolve(false);
+    // Nothing is written until the stored history has been read back
+    this.persistQueue = this.ready.then(() => undefined);
   }
 
   // MARK: - Public API
@@ -110,10 +222,13 @@ export class HistoryManager {
    * Initialize history with a root canvas
    */
   initialize(canvas: DesignCanvas, metadata?: Partial<HistoryMetadata>): HistoryNode {
-    const rootNode: HistoryNode = {
-      id: this.generateId(),
+    const rootId = this.generateId();
+    this.snapshots.clear();
+    this.snapshots.capture(rootId, toCanvasModel(canvas), null);
+
+    const rootNode = this.createNode({
+      id: rootId,
       parentId: null,
-      canvasState: this.deepClone(canvas),
       timestamp: new Date(),
       metadata: {
         source: 'user',
@@ -122,7 +237,7 @@ export class HistoryManager {
       },
       children: [],
       branchName: 'main'
-    };
+    });
 
     // Create main branch
     const mainBranch: HistoryBranch = {
@@ -139,6 +254,7 @@ export class HistoryManager {
       }
     };
 
+    this.resetStorage = true;
     this.state = {
       nodes: new Map([[rootNode.id, rootNode]]),
       branches: new Map([[mainBranch.id, mainBranch]]),
@@ -153,11 +269,16 @@ export class HistoryManager {
 
   /**
    * Add a new node to the history
+   * The new node becomes current and the head of the current branch unless
+   * options.select is false, which lets background work such as streamed AI
+   * variations land without moving the user; such a node joins the current
+   * branch once navigated to.
    */
   addNode(
     canvas: DesignCanvas,
     parentId?: string,
-    metadata?: Partial<HistoryMetadata>
+    metadata?: Partial<HistoryMetadata>,
+    options: { select?: boolean } = {}
   ): HistoryNode {
     const actualParentId = parentId || this.state.currentNodeId;
     
@@ -165,20 +286,24 @@ export class HistoryManager {
       throw new HistoryError('No parent node available. Initialize history first.', 'NO_PARENT');
     }
 
-    const parent = this.state.nodes.get(actualParentId);
-    if (!parent) {
+    if (!this.state.nodes.has(actualParentId)) {
       throw new HistoryError(`Parent node ${actualParentId} not found`, 'PARENT_NOT_FOUND');
     }
 
-    // Check history size limit
+    // Check history size limit; the parent is kept so the new node has something to attach to
     if (this.state.nodes.size >= this.maxHistorySize) {
-      this.pruneOldestNodes();
+      this.pruneOldestNodes([actualParentId]);
     }
 
-    const newNode: HistoryNode = {
-      id: this.generateId(),
+    // Read after pruning, which may have handed the parent the children of a spliced node
+    const parent = this.state.nodes.get(actualParentId)!;
+
+    const newId = this.generateId();
+    this.snapshots.capture(newId, toCanvasModel(canvas), actualParentId);
+
+    const newNode = this.createNode({
+      id: newId,
       parentId: actualParentId,
-      canvasState: this.deepClone(canvas),
       timestamp: new Date(),
       metadata: {
         source: 'user',
@@ -186,19 +311,22 @@ export class HistoryManager {
       },
       children: [],
       branchName: parent.branchName
-    };
+    });
 
     // Update parent's children
-    const updatedParent = { ...parent };
-    updatedParent.children.push(newNode.id);
-    
+    const updatedParent = this.updateNode(parent, { children: [...parent.children, newNode.id] });
+
     // Update state
     this.state.nodes.set(actualParentId, updatedParent);
     this.state.nodes.set(newNode.id, newNode);
-    this.state.currentNodeId = newNode.id;
+
+    // Unselected nodes stay off the branch too, so its head remains the user's node
+    if (options.select !== false) {
+      this.state.currentNodeId = newNode.id;
+    }
 
     // Update current branch
-    if (this.state.currentBranchId) {
+    if (options.select !== false && this.state.currentBranchId) {
       const currentBranch = this.state.branches.get(this.state.currentBranchId);
       if (currentBranch) {
         const updatedBranch = { ...currentBranch };
@@ -207,6 +335,7 @@ export class HistoryManager {
       }
     }
 
+    this.enforceMemoryBudget();
     this.notifyListeners();
     return newNode;
   }
@@ -323,6 +452,12 @@ export class HistoryManager {
     const nodeBranchId = this.findNodeBranch(nodeId);
     if (nodeBranchId && nodeBranchId !== this.state.currentBranchId) {
       this.switchBranch(nodeBranchId);
+    } else if (!nodeBranchId && this.state.currentBranchId) {
+      // A node added without selecting it becomes the current branch's head once picked
+      const currentBranch = this.state.branches.get(this.state.currentBranchId);
+      if (currentBranch) {
+        this.state.branches.set(currentBranch.id, { ...currentBranch, nodes: [...currentBranch.nodes, nodeId] });
+      }
     }
 
     this.notifyListeners();
@@ -398,14 +533,14 @@ export class HistoryManager {
       throw new HistoryError('One or both nodes not found for comparison', 'NODES_NOT_FOUND');
     }
 
-    const changes = this.calculateChanges(nodeA.canvasState, nodeB.canvasState);
-    const similarity = this.calculateSimilarity(changes);
+    const diff = diffCanvases(nodeA.canvasState, nodeB.canvasState);
 
     return {
       nodeA,
       nodeB,
-      changes,
-      similarity
+      changes: diff.changes.map(change => this.toChangeDetail(change)),
+      similarity: diff.similarity,
+      diff
     };
   }
 
@@ -436,6 +571,226 @@ export class HistoryManager {
     return descendants;
   }
 
+  /**
+   * Nearest node reachable from both nodes through parent and merge-parent links
+   */
+  findCommonAncestor(nodeAId: string, nodeBId: string): HistoryNode | null {
+    const distancesA = this.getAncestorDistances(nodeAId);
+    const distancesB = this.getAncestorDistances(nodeBId);
+
+    let best: string | null = null;
+    let bestDistance = Infinity;
+    for (const [id, distanceA] of distancesA) {
+      const distanceB = distancesB.get(id);
+      if (distanceB !== undefined && distanceA + distanceB < bestDistance) {
+        best = id;
+        bestDistance = distanceA + distanceB;
+      }
+    }
+
+    return best ? this.state.nodes.get(best) || null : null;
+  }
+
+  /**
+   * Merge the head of one branch into another without changing history
+   */
+  previewMerge(
+    sourceBranchId: string,
+    targetBranchId: string,
+    resolutions?: Record<string, ConflictResolution>,
+    strategy: MergeStrategy = 'three-way'
+  ): MergePreview {
+    const { source, target } = this.getMergeBranches(sourceBranchId, targetBranchId);
+    const sourceHeadId = source.nodes[source.nodes.length - 1];
+    const targetHeadId = target.nodes[target.nodes.length - 1];
+
+    const base = this.findCommonAncestor(sourceHeadId, targetHeadId);
+    if (!base) {
+      throw new HistoryError('Branches do not share a common ancestor', 'NO_COMMON_ANCESTOR');
+    }
+
+    const sourceHead = this.state.nodes.get(sourceHeadId)!;
+    const targetHead = this.state.nodes.get(targetHeadId)!;
+    const { canvas, conflicts } = strategy === 'crdt'
+      ? { canvas: mergeCanvasEdits(base.canvasState, [targetHead.canvasState, sourceHead.canvasState]), conflicts: [] }
+      : mergeCanvases(base.canvasState, sourceHead.canvasState, targetHead.canvasState, resolutions);
+
+    return {
+      baseNodeId: base.id,
+      sourceHeadId,
+      targetHeadId,
+      canvas,
+      conflicts,
+      upToDate: base.id === sourceHeadId
+    };
+  }
+
+  /**
+   * Merge the source branch into the target branch
+   * Creates a merge node whose parents are both branch heads; when conflicts remain
+   * unresolved nothing is created and the conflicts are returned for resolution
+   */
+  mergeBranches(sourceBranchId: string, targetBranchId: string, options: MergeOptions = {}): MergeResult {
+    let preview: MergePreview;
+    try {
+      preview = this.previewMerge(sourceBranchId, targetBranchId, options.resolutions, options.strategy);
+    } catch (error) {
+      if (!(error instanceof HistoryError)) throw error;
+      return { success: false, mergeNode: null, conflicts: [], error: error.message };
+    }
+
+    if (preview.upToDate) {
+      return { success: true, mergeNode: null, conflicts: [] };
+    }
+
+    if (preview.conflicts.length > 0) {
+      return {
+        success: false,
+        mergeNode: null,
+        conflicts: preview.conflicts,
+        error: `${preview.conflicts.length} merge conflict(s) need resolution`
+      };
+    }
+
+    const source = this.state.branches.get(sourceBranchId)!;
+    const target = this.state.branches.get(targetBranchId)!;
+    const sourceHead = this.state.nodes.get(preview.sourceHeadId)!;
+    const targetHead = this.state.nodes.get(preview.targetHeadId)!;
+
+    const mergeId = this.generateId();
+    this.snapshots.capture(mergeId, preview.canvas, targetHead.id);
+
+    const mergeNode = this.createNode({
+      id: mergeId,
+      parentId: targetHead.id,
+      mergeParentId: sourceHead.id,
+      timestamp: new Date(),
+      metadata: {
+        source: 'merge',
+        description: options.description ?? `Merge ${source.name} into ${target.name}`
+      },
+      children: [],
+      branchName: target.name
+    });
+
+    this.state.nodes.set(mergeId, mergeNode);
+    this.state.nodes.set(targetHead.id, this.updateNode(targetHead, { children: [...targetHead.children, mergeId] }));
+    this.state.nodes.set(sourceHead.id, this.updateNode(sourceHead, { children: [...sourceHead.children, mergeId] }));
+
+    // Continue on the target branch from the merge node
+    if (this.state.currentBranchId && this.state.currentBranchId !== targetBranchId) {
+      const current = this.state.branches.get(this.state.currentBranchId);
+      if (current) {
+        this.state.branches.set(current.id, { ...current, isActive: false });
+      }
+    }
+    this.state.branches.set(targetBranchId, { ...target, nodes: [...target.nodes, mergeId], isActive: true });
+    this.state.currentBranchId = targetBranchId;
+    this.state.currentNodeId = mergeId;
+
+    this.enforceMemoryBudget();
+    this.notifyListeners();
+
+    return { success: true, mergeNode, conflicts: [] };
+  }
+
+  /**
+   * Add a tag to a node's metadata; tagging twice is a no-op
+   */
+  tagNode(nodeId: string, tag: string): HistoryNode {
+    const node = this.getNodeOrThrow(nodeId);
+    const trimmed = tag.trim();
+    if (!trimmed) {
+      throw new HistoryError('Tag cannot be empty', 'INVALID_TAG');
+    }
+    if (node.metadata.tags?.includes(trimmed)) {
+      return node;
+    }
+
+    const updated = this.updateNode(node, {
+      metadata: { ...node.metadata, tags: [...(node.metadata.tags ?? []), trimmed] }
+    });
+    this.state.nodes.set(nodeId, updated);
+    this.notifyListeners();
+    return updated;
+  }
+
+  /**
+   * Remove a tag from a node's metadata
+   */
+  untagNode(nodeId: string, tag: string): HistoryNode {
+    const node = this.getNodeOrThrow(nodeId);
+    if (!node.metadata.tags?.includes(tag)) {
+      return node;
+    }
+
+    const updated = this.updateNode(node, {
+      metadata: { ...node.metadata, tags: node.metadata.tags.filter(existing => existing !== tag) }
+    });
+    this.state.nodes.set(nodeId, updated);
+    this.notifyListeners();
+    return updated;
+  }
+
+  /**
+   * Delete a node and all of its descendants
+   * Branches based inside the pruned subtree are removed with it; if the current node
+   * is pruned, the pruned node's parent becomes current. Returns the removed node ids.
+   */
+  pruneNode(nodeId: string): string[] {
+    const node = this.getNodeOrThrow(nodeId);
+    if (!node.parentId || nodeId === this.state.rootNodeId) {
+      throw new HistoryError('Cannot prune the root node', 'CANNOT_PRUNE_ROOT');
+    }
+
+    const pruned = new Set([nodeId, ...this.getDescendants(nodeId).map(descendant => descendant.id)]);
+
+    const removedBranches = Array.from(this.state.branches.values())
+      .filter(branch => pruned.has(branch.baseNodeId));
+    const protectedBranch = removedBranches.find(branch => branch.metadata.isProtected);
+    if (protectedBranch) {
+      throw new HistoryError(`Branch '${protectedBranch.name}' is protected`, 'BRANCH_PROTECTED');
+    }
+
+    const parent = this.state.nodes.get(node.parentId);
+    if (parent) {
+      this.state.nodes.set(parent.id, this.updateNode(parent, {
+        children: parent.children.filter(childId => childId !== nodeId)
+      }));
+    }
+
+    // Merge nodes outside the subtree lose their link to a pruned second parent
+    for (const other of this.state.nodes.values()) {
+      if (other.mergeParentId && pruned.has(other.mergeParentId) && !pruned.has(other.id)) {
+        const { mergeParentId: _mergeParentId, ...fields } = this.nodeFields(other);
+        this.state.nodes.set(other.id, this.createNode(fields));
+      }
+    }
+
+    pruned.forEach(id => this.removeNode(id));
+    removedBranches.forEach(branch => this.state.branches.delete(branch.id));
+
+    for (const branch of this.state.branches.values()) {
+      if (branch.nodes.some(id => pruned.has(id))) {
+        this.state.branches.set(branch.id, { ...branch, nodes: branch.nodes.filter(id => !pruned.has(id)) });
+      }
+    }
+
+    if (this.state.currentNodeId && pruned.has(this.state.currentNodeId)) {
+      this.state.currentNodeId = node.parentId;
+    }
+    if (this.state.currentBranchId && !this.state.branches.has(this.state.currentBranchId)) {
+      const branchId = this.findNodeBranch(node.parentId);
+      this.state.currentBranchId = branchId;
+      if (branchId) {
+        this.state.branches.set(branchId, { ...this.state.branches.get(branchId)!, isActive: true });
+      }
+    }
+
+    this.notifyListeners();
+    return Array.from(pruned);
+  }
+
   /**
    * Get history statistics
    */
@@ -473,6 +828,10 @@ export class HistoryManager {
     return { ...this.state };
   }
 
+  getMemoryStats(): SnapshotStoreStats {
+    return this.snapshots.getStats();
+  }
+
   // MARK: - Event Handling
 
   addListener(listener: (state: HistoryState) => void): () => void {
@@ -514,9 +873,13 @@ export class HistoryManager {
         throw new HistoryError('Unsupported history version', 'VERSION_MISMATCH');
       }
 
+      const nodes = this.hydrateNodes((data.nodes as [string, StoredHistoryNode][]).map(([, node]) => node));
+
+      this.resetStorage = true;
       this.state = {
-        nodes: new Map(data.nodes),
-        branches: new Map(data.branches),
+        nodes,
+        branches: new Map((data.branches as [string, StoredHistoryBranch][])
+          .map(([id, branch]) => [id, this.deserializeBranch(branch)])),
         currentNodeId: data.currentNodeId,
         currentBranchId: data.currentBranchId,
         rootNodeId: data.rootNodeId
@@ -528,8 +891,403 @@ export class HistoryManager {
     }
   }
 
+  // MARK: - Persistence
+
+  /**
+   * Load the persisted DAG from storage, replacing the in-memory state
+   * Returns false when nothing has been persisted yet
+   */
+  async restore(): Promise<boolean> {
+    if (!this.storage) {
+      return false;
+    }
+
+    const rootBeforeRestore = this.state.rootNodeId;
+
+    try {
+      const meta = await this.storage.get<StoredHistoryMeta>(this.storageKey('meta'));
+      if (!meta) {
+        return false;
+      }
+      if (meta.version !== HISTORY_STORAGE_VERSION) {
+        throw new HistoryError(`Unsupported stored history version ${meta.version}`, 'VERSION_MISMATCH');
+      }
+
+      const keys = await this.storage.keys();
+      const storedNodes: StoredHistoryNode[] = [];
+      const branches = new Map<string, HistoryBranch>();
+
+      for (const key of keys) {
+        if (key.startsWith(this.storageKey('node/'))) {
+          const stored = await this.storage.get<StoredHistoryNode>(key);
+          if (stored) storedNodes.push(stored);
+        } else if (key.startsWith(this.storageKey('branch/'))) {
+          const stored = await this.storage.get<StoredHistoryBranch>(key);
+          if (stored) branches.set(stored.id, this.deserializeBranch(stored));
+        }
+      }
+
+      if (meta.rootNodeId && !storedNodes.some(node => node.id === meta.rootNodeId)) {
+        throw new HistoryError('Stored history is missing its root node', 'RESTORE_FAILED');
+      }
+
+      // History was initialized or imported while loading; keep it and let it replace storage
+      if (this.state.rootNodeId !== rootBeforeRestore) {
+        return false;
+      }
+
+      const nodes = this.hydrateNodes(storedNodes);
+
+      this.state = {
+        nodes,
+        branches,
+        currentNodeId: meta.currentNodeId,
+        currentBranchId: meta.currentBranchId,
+        rootNodeId: meta.rootNodeId
+      };
+      this.persistedNodes = new Map(nodes);
+      this.persistedBranches = new Map(branches);
+      this.persistedMeta = JSON.stringify(meta);
+      this.resetStorage = false;
+
+      this.notifyListeners();
+      return true;
+    } catch (error) {
+      if (error instanceof HistoryError) throw error;
+      throw new HistoryError('Failed to restore history: ' + (error as Error).message, 'RESTORE_FAILED');
+    }
+  }
+
+  /**
+   * Resolves once every change made so far has been written to storage
+   * Rejects with a PERSIST_FAILED HistoryError when a write failed; writes that failed
+   * are retried by the next pass, so calling flush again retries them.
+   */
+  async flush(): Promise<void> {
+    this.schedulePersist();
+    await this.persistQueue;
+
+    const error = this.persistError;
+    if (error) {
+      this.persistError = null;
+      throw error;
+    }
+  }
+
+  private schedulePersist(): void {
+    if (!this.storage || this.persistScheduled) {
+      return;
+    }
+
+    // Coalesce synchronous bursts of changes into one write pass
+    this.persistScheduled = true;
+    this.persistQueue = this.persistQueue
+      .then(() => {
+        this.persistScheduled = false;
+        this.persistError = null;
+        return this.persistChanges();
+      })
+      .catch(error => {
+        this.persistError = new HistoryError('Failed to persist history: ' + (error as Error).message, 'PERSIST_FAILED');
+      });
+  }
+
+  /**
+   * Write only the nodes, branches and pointers that changed since the last pass
+   * A record counts as persisted once its write resolves, so failed writes are retried next pass
+   */
+  private async persistChanges(): Promise<void> {
+    const storage = this.storage!;
+    const writes: Promise<void>[] = [];
+
+    if (this.resetStorage) {
+      this.resetStorage = false;
+      try {
+        const prefix = this.storageKey('');
+        const keys = await storage.keys();
+        await Promise.all(keys.filter(key => key.startsWith(prefix)).map(key => storage.delete(key)));
+      } catch (error) {
+        this.resetStorage = true;
+        throw error;
+      }
+      this.persistedNodes.clear();
+      this.persistedBranches.clear();
+      this.persistedMeta = null;
+    }
+
+    // Snapshot synchronously so changes made while writing are picked up by the next pass
+    for (const [id, node] of this.state.nodes) {
+      if (this.persistedNodes.get(id) !== node) {
+        writes.push(storage.set(this.storageKey(`node/${id}`), this.serializeNode(node))
+          .then(() => { this.persistedNodes.set(id, node); }));
+      }
+    }
+    for (const id of Array.from(this.persistedNodes.keys())) {
+      if (!this.state.nodes.has(id)) {
+        writes.push(storage.delete(this.storageKey(`node/${id}`))
+          .then(() => { this.persistedNodes.delete(id); }));
+      }
+    }
+
+    for (const [id, branch] of this.state.branches) {
+      if (this.persistedBranches.get(id) !== branch) {
+        writes.push(storage.set(this.storageKey(`branch/${id}`), this.serializeBranch(branch))
+          .then(() => { this.persistedBranches.set(id, branch); }));
+      }
+    }
+    for (const id of Array.from(this.persistedBranches.keys())) {
+      if (!this.state.branches.has(id)) {
+        writes.push(storage.delete(this.storageKey(`branch/${id}`))
+          .then(() => { this.persistedBranches.delete(id); }));
+      }
+    }
+
+    const meta: StoredHistoryMeta = {
+      version: HISTORY_STORAGE_VERSION,
+      currentNodeId: this.state.currentNodeId,
+      currentBranchId: this.state.currentBranchId,
+      rootNodeId: this.state.rootNodeId
+    };
+    const serializedMeta = JSON.stringify(meta);
+    if (serializedMeta !== this.persistedMeta) {
+      writes.push(storage.set(this.storageKey('meta'), meta)
+        .then(() => { this.persistedMeta = serializedMeta; }));
+    }
+
+    // Let every write settle before reporting, so the records that did land are marked
+    const results = await Promise.allSettled(writes);
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  private storageKey(suffix: string): string {
+    return `${this.namespace}/${suffix}`;
+  }
+
+  private serializeNode(node: HistoryNode): StoredHistoryNode {
+    return this.deepClone({
+      ...this.nodeFields(node),
+      canvasState: node.canvasState.toJSON(),
+      timestamp: node.timestamp.toISOString()
+    });
+  }
+
+  /**
+   * Rebuild nodes from stored records, capturing parents first so snapshots share layers again
+   */
+  private hydrateNodes(records: StoredHistoryNode[]): Map<string, HistoryNode> {
+    const byId = new Map(records.map(record => [record.id, record]));
+    const nodes = new Map<string, HistoryNode>();
+    const revivedLayers = new Map<string, LayerData>();
+    this.snapshots.clear();
+
+    const hydrate = (record: StoredHistoryNode): void => {
+      if (nodes.has(record.id)) return;
+
+      const parent = record.parentId ? byId.get(record.parentId) : undefined;
+      if (parent) hydrate(parent);
+
+      this.snapshots.capture(record.id, this.reviveCanvas(record.canvasState, revivedLayers), parent?.id);
+      const { canvasState: _canvasState, ...fields } = record;
+      nodes.set(record.id, this.createNode({ ...fields, timestamp: new Date(record.timestamp) }));
+    };
+
+    records.forEach(hydrate);
+    return nodes;
+  }
+
+  private serializeBranch(branch: HistoryBranch): StoredHistoryBranch {
+    return this.deepClone({
+      ...branch,
+      metadata: { ...branch.metadata, createdAt: new Date(branch.metadata.createdAt).toISOString() }
+    });
+  }
+
+  private deserializeBranch(stored: StoredHistoryBranch): HistoryBranch {
+    return { ...stored, metadata: { ...stored.metadata, createdAt: new Date(stored.metadata.createdAt) } };
+  }
+
+  /**
+   * Revive stored canvas JSON, reusing one model per identical stored layer
+   * Validation stamps a fresh modifiedAt on layers without one, which would otherwise defeat sharing
+   */
+  private reviveCanvas(json: CanvasJSON, revivedLayers: Map<string, LayerData>): DesignCanvas {
+    const canvas = toCanvasModel(json);
+    const storedLayers = new Map(json.layers.map(layer => [layer.id, JSON.stringify(layer)]));
+
+    const layers = canvas.layers.map(layer => {
+      const key = storedLayers.get(layer.id)!;
+      const existing = revivedLayers.get(key);
+      if (existing) return existing;
+      revivedLayers.set(key, layer);
+      return layer;
+    });
+
+    return new DesignCanvas({ ...canvas.toJSON(), layers });
+  }
+
+  // MARK: - Merge Helpers
+
+  private getMergeBranches(sourceBranchId: string, targetBranchId: string): { source: HistoryBranch; target: HistoryBranch } {
+    const source = this.state.branches.get(sourceBranchId);
+    const target = this.state.branches.get(targetBranchId);
+
+    if (!source || !target) {
+      throw new HistoryError(`Branch ${source ? targetBranchId : sourceBranchId} not found`, 'BRANCH_NOT_FOUND');
+    }
+    if (source.id === target.id) {
+      throw new HistoryError('Cannot merge a branch into itself', 'SAME_BRANCH');
+    }
+    if (target.metadata.isProtected) {
+      throw new HistoryError(`Branch '${target.name}' is protected`, 'BRANCH_PROTECTED');
+    }
+
+    return { source, target };
+  }
+
+  /**
+   * Breadth-first distances from a node to each of its ancestors (including itself)
+   */
+  private getAncestorDistances(nodeId: string): Map<string, number> {
+    const distances = new Map<string, number>();
+    const queue: [string, number][] = [[nodeId, 0]];
+
+    while (queue.length > 0) {
+      const [id, distance] = queue.shift()!;
+      if (distances.has(id)) continue;
+
+      const node = this.state.nodes.get(id);
+      if (!node) continue;
+
+      distances.set(id, distance);
+      if (node.parentId) queue.push([node.parentId, distance + 1]);
+      if (node.mergeParentId) queue.push([node.mergeParentId, distance + 1]);
+    }
+
+    return distances;
+  }
+
+  // MARK: - Snapshots
+
+  /**
+   * Node records expose canvasState as a getter so the canvas is only built when read
+   */
+  private createNode(fields: HistoryNodeFields): HistoryNode {
+    const snapshots = this.snapshots;
+    return Object.defineProperty({ ...fields }, 'canvasState', {
+      enumerable: true,
+      get: () => snapshots.materialize(fields.id)
+    }) as HistoryNode;
+  }
+
+  private updateNode(node: HistoryNode, changes: Partial<Omit<HistoryNodeFields, 'id'>>): HistoryNode {
+    return this.createNode({ ...this.nodeFields(node), ...changes });
+  }
+
+  private nodeFields(node: HistoryNode): HistoryNodeFields {
+    return {
+      id: node.id,
+      parentId: node.parentId,
+      timestamp: node.timestamp,
+      metadata: node.metadata,
+      children: node.children,
+      branchName: node.branchName,
+      ...(node.mergeParentId ? { mergeParentId: node.mergeParentId } : {})
+    };
+  }
+
+  /**
+   * Prune the oldest prunable nodes until retained snapshot data fits the budget
+   * Snapshots never depend on their parent, so any node can be spliced out independently
+   */
+  private enforceMemoryBudget(): void {
+    if (this.snapshots.getEstimatedBytes() <= this.memoryBudget) {
+      return;
+    }
+
+    const pinnedIds = this.getPinnedNodeIds();
+    const candidates = Array.from(this.state.nodes.values())
+      .filter(node => !pinnedIds.has(node.id))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    for (const node of candidates) {
+      if (this.snapshots.getEstimatedBytes() <= this.memoryBudget) break;
+      this.spliceNode(node.id);
+    }
+  }
+
+  /**
+   * Nodes automatic pruning must keep: the root, the current node and every branch base and head
+   */
+  private getPinnedNodeIds(): Set<string> {
+    const pinned = new Set<string>();
+    for (const branch of this.state.branches.values()) {
+      pinned.add(branch.baseNodeId);
+      if (branch.nodes.length > 0) pinned.add(branch.nodes[branch.nodes.length - 1]);
+    }
+    if (this.state.rootNodeId) pinned.add(this.state.rootNodeId);
+    if (this.state.currentNodeId) pinned.add(this.state.currentNodeId);
+    return pinned;
+  }
+
+  /**
+   * Remove a single node, handing its children to its parent
+   * Merge links to the node move to its parent as well, and its id leaves every branch.
+   */
+  private spliceNode(nodeId: string): void {
+    const node = this.state.nodes.get(nodeId);
+    if (!node || !node.parentId) return;
+    const parentId = node.parentId;
+
+    for (const childId of node.children) {
+      const child = this.state.nodes.get(childId);
+      if (!child) continue;
+
+      const fields = this.nodeFields(child);
+      if (fields.parentId === nodeId) fields.parentId = parentId;
+      if (fields.mergeParentId === nodeId) fields.mergeParentId = parentId;
+      if (fields.mergeParentId === fields.parentId) delete fields.mergeParentId;
+      this.state.nodes.set(childId, this.createNode(fields));
+    }
+
+    // Both parents list the node as a child; the parent adopts its children in its place
+    for (const id of [parentId, node.mergeParentId]) {
+      const parent = id ? this.state.nodes.get(id) : undefined;
+      if (!parent) continue;
+
+      const children = parent.children.flatMap(childId => {
+        if (childId !== nodeId) return [childId];
+        return id === parentId ? node.children : [];
+      });
+      this.state.nodes.set(parent.id, this.updateNode(parent, { children: Array.from(new Set(children)) }));
+    }
+
+    for (const branch of this.state.branches.values()) {
+      if (branch.nodes.includes(nodeId)) {
+        this.state.branches.set(branch.id, { ...branch, nodes: branch.nodes.filter(id => id !== nodeId) });
+      }
+    }
+
+    this.removeNode(nodeId);
+  }
+
+  private removeNode(nodeId: string): void {
+    this.state.nodes.delete(nodeId);
+    this.snapshots.release(nodeId);
+  }
+
   // MARK: - Private Methods
 
+  private getNodeOrThrow(nodeId: string): HistoryNode {
+    const node = this.state.nodes.get(nodeId);
+    if (!node) {
+      throw new HistoryError(`Node ${nodeId} not found`, 'NODE_NOT_FOUND');
+    }
+    return node;
+  }
+
   private createEmptyState(): HistoryState {
     return {
       nodes: new Map(),
@@ -549,6 +1307,7 @@ export class HistoryManager {
   }
 
   private notifyListeners(): void {
+    this.schedulePersist();
     this.listeners.forEach(listener => {
       try {
         listener({ ...this.state });
@@ -581,60 +1340,25 @@ export class HistoryManager {
     return calculateDepth(this.state.rootNodeId);
   }
 
-  private calculateChanges(canvasA: DesignCanvas, canvasB: DesignCanvas): ChangeDetail[] {
-    const changes: ChangeDetail[] = [];
-
-    // Check canvas dimensions
-    if (canvasA.dimensions.width !== canvasB.dimensions.width ||
-        canvasA.dimensions.height !== canvasB.dimensions.height) {
-      changes.push({
-        type: 'canvas_resized',
-        path: 'dimensions',
-        oldValue: canvasA.dimensions,
-        newValue: canvasB.dimensions
-      });
+  private toChangeDetail(change: CanvasChange): ChangeDetail {
+    if (change.layerId === null) {
+      return {
+        type: change.property === 'dimensions' ? 'canvas_resized' : 'metadata_changed',
+        path: change.property,
+        oldValue: change.from,
+        newValue: change.to,
+        kind: change.kind
+      };
     }
 
-    // Check layers - simplified comparison
-    const layersA = canvasA.layers;
-    const layersB = canvasB.layers;
-
-    // Find added/removed layers
-    const layerIdsA = new Set(layersA.map(l => l.id));
-    const layerIdsB = new Set(layersB.map(l => l.id));
-
-    layerIdsB.forEach(id => {
-      if (!layerIdsA.has(id)) {
-        changes.push({
-          type: 'layer_added',
-          path: `layers.${id}`,
-          newValue: layersB.find(l => l.id === id),
-          layerId: id
-        });
-      }
-    });
-
-    layerIdsA.forEach(id => {
-      if (!layerIdsB.has(id)) {
-        changes.push({
-          type: 'layer_removed',
-          path: `layers.${id}`,
-          oldValue: layersA.find(l => l.id === id),
-          layerId: id
-        });
-      }
-    });
-
-    return changes;
-  }
-
-  private calculateSimilarity(changes: ChangeDetail[]): number {
-    if (changes.length === 0) return 1.0;
-    
-    // Simple similarity calculation based on change count
-    // Could be enhanced with more sophisticated comparison
-    const maxChanges = 20; // Arbitrary max for normalization
-    return Math.max(0, 1 - (changes.length / maxChanges));
+    return {
+      type: change.kind === 'layer_added' || change.kind === 'layer_removed' ? change.kind : 'layer_modified',
+      path: change.property === 'layer' ? `layers.${change.layerId}` : `layers.${change.layerId}.${change.property}`,
+      oldValue: change.from,
+      newValue: change.to,
+      layerId: change.layerId,
+      kind: change.kind
+    };
   }
 
   private generateBranchColor(): string {
@@ -648,27 +1372,21 @@ export class HistoryManager {
     return colors[Math.floor(Math.random() * colors.length)];
   }
 
-  private pruneOldestNodes(): void {
-    // Simple pruning strategy - remove oldest non-branch nodes
-    // In a production implementation, this would be more sophisticated
+  private pruneOldestNodes(keepIds: string[] = []): void {
+    // Simple pruning strategy - splice out the oldest nodes nothing else points at
+    const pinnedIds = this.getPinnedNodeIds();
+    keepIds.forEach(id => pinnedIds.add(id));
     const nodes = Array.from(this.state.nodes.values())
+      .filter(node => !pinnedIds.has(node.id))
       .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
     
-    const nodesToRemove = Math.floor(this.maxHistorySize * 0.1); // Remove 10%
+    // Remove 10%, and always enough to make room for one more node below the limit
+    const nodesToRemove = Math.max(
+      Math.floor(this.maxHistorySize * 0.1),
+      this.state.nodes.size - this.maxHistorySize + 1
+    );
     
-    for (let i = 0; i < nodesToRemove && nodes.length > i; i++) {
-      const node = nodes[i];
-      
-      // Don't remove root node or nodes that are branch bases
-      if (node.id === this.state.rootNodeId) continue;
-      
-      const isBranchBase = Array.from(this.state.branches.values())
-        .some(branch => branch.baseNodeId === node.id);
-      
-      if (isBranchBase) continue;
-      
-      this.state.nodes.delete(node.id);
-    }
+    nodes.slice(0, nodesToRemove).forEach(node => this.spliceNode(node.id));
   }
 }
 
@@ -679,18 +1397,37 @@ import { useState, useEffect, useCallback } from 'react';
 export interface UseHistoryManagerOptions {
   maxHistorySize?: number;
   autoSave?: boolean;
+  /** Backend used when autoSave is enabled */
+  storage?: StorageAdapter;
+  namespace?: string;
 }
 
 export function useHistoryManager(options: UseHistoryManagerOptions = {}) {
-  const [manager] = useState(() => new HistoryManager(options.maxHistorySize));
+  const [manager] = useState(() => new HistoryManager(options.maxHistorySize, {
+    storage: options.autoSave === false ? undefined : options.storage,
+    namespace: options.namespace
+  }));
   const [state, setState] = useState<HistoryState>(manager.getState());
   const [isInitialized, setIsInitialized] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(Boolean(options.storage) && options.autoSave !== false);
 
   useEffect(() => {
     const unsubscribe = manager.addListener(setState);
     return unsubscribe;
   }, [manager]);
 
+  useEffect(() => {
+    let cancelled = false;
+    manager.ready.then(restored => {
+      if (cancelled) return;
+      setIsRestoring(false);
+      if (restored) setIsInitialized(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [manager]);
+
   const initialize = useCallback((canvas: DesignCanvas, metadata?: Partial<HistoryMetadata>) => {
     const rootNode = manager.initialize(canvas, metadata);
     setIsInitialized(true);
@@ -721,6 +1458,22 @@ export function useHistoryManager(options: UseHistoryManagerOptions = {}) {
     return manager.navigateToNode(nodeId);
   }, [manager]);
 
+  const mergeBranches = useCallback((
+    sourceBranchId: string,
+    targetBranchId: string,
+    mergeOptions?: MergeOptions
+  ) => {
+    return manager.mergeBranches(sourceBranchId, targetBranchId, mergeOptions);
+  }, [manager]);
+
+  const tagNode = useCallback((nodeId: string, tag: string) => {
+    return manager.tagNode(nodeId, tag);
+  }, [manager]);
+
+  const pruneNode = useCallback((nodeId: string) => {
+    return manager.pruneNode(nodeId);
+  }, [manager]);
+
   const undo = useCallback(() => {
     return manager.undo();
   }, [manager]);
@@ -733,6 +1486,7 @@ export function useHistoryManager(options: UseHistoryManagerOptions = {}) {
     manager,
     state,
     isInitialized,
+    isRestoring,
     currentNode: manager.getCurrentNode(),
     currentBranch: manager.getCurrentBranch(),
     stats: manager.getStats(),
@@ -742,14 +1496,19 @@ export function useHistoryManager(options: UseHistoryManagerOptions = {}) {
     createBranch,
     switchBranch,
     navigateToNode,
+    mergeBranches,
+    tagNode,
+    pruneNode,
     undo,
     redo,
     // Utilities
     getPathToNode: manager.getPathToNode.bind(manager),
     compareNodes: manager.compareNodes.bind(manager),
     getDescendants: manager.getDescendants.bind(manager),
+    previewMerge: manager.previewMerge.bind(manager),
     exportHistory: manager.exportHistory.bind(manager),
-    importHistory: manager.importHistory.bind(manager)
+    importHistory: manager.importHistory.bind(manager),
+    flush: manager.flush.bind(manager)
   };
 }
 
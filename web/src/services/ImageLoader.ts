@@ -0,0 +1,47 @@
+/**
+ * Loads the bytes behind an image layer's imageData or imageUrl
+ */
+
+export type ImageFetcher = (url: string) => Promise<Uint8Array>
+
+/**
+ * Data URLs are decoded in place; anything else goes through the fetcher (default: fetch)
+ */
+export function loadImageBytes(source: string, fetcher: ImageFetcher = fetchImageBytes): Promise<Uint8Array> {
+  if (source.startsWith('data:')) {
+    try {
+      return Promise.resolve(decodeDataUrl(source))
+    } catch (error) {
+      return Promise.reject(error)
+    }
+  }
+  return fetcher(source)
+}
+
+export function decodeDataUrl(url: string): Uint8Array {
+  const comma = url.indexOf(',')
+  if (comma < 0) throw new Error('malformed data URL')
+  const header = url.slice(0, comma)
+  const payload = url.slice(comma + 1)
+  return header.endsWith(';base64')
+    ? latin1Bytes(atob(payload))
+    : latin1Bytes(payload.replace(/%([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))))
+}
+
+export async function fetchImageBytes(url: string): Promise<Uint8Array> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`)
+  }
+  return new Uint8Array(await response.arrayBuffer())
+}
+
+// Helpers
+
+function latin1Bytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length)
+  for (let index = 0; index < text.length; index++) {
+    bytes[index] = text.charCodeAt(index)
+  }
+  return bytes
+}
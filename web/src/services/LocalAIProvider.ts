@@ -0,0 +1,969 @@
+import { Draft } from 'immer'
+import { DesignCanvas, DesignCanvasData } from '../models/DesignCanvas'
+import { DesignVariation } from '../models/DesignVariation'
+import { LayerData } from '../models/Layer'
+import { produceCanvas } from '../models/mutations'
+import { AIServiceError, LayerType, VariationSource } from '../types'
+import type { AISuggestion, CurrentTrendsResponse, TrendData, UserPreferences, VariationRequest } from './AIService'
+import type {
+  AIProvider,
+  ProviderAnalysisOptions,
+  ProviderAnalysisResult,
+  ProviderRequestResult,
+  ProviderVariationOptions,
+  ProviderVariationResult
+} from './AIProvider'
+import type {
+  AIRequestType,
+  AnalysisResult,
+  ColorPaletteParams,
+  ColorPaletteResult,
+  CompositionAnalysis,
+  PaletteColor,
+  Rectangle,
+  RequestContext,
+  Suggestion,
+  SuggestionParams,
+  SuggestionResult
+} from '../../../shared/types'
+import { AIRequestError } from './AIRequestDispatcher'
+import type { TypedAIRequest } from './AIRequestDispatcher'
+
+/**
+ * Local AI provider options
+ */
+export interface LocalAIProviderOptions {
+  /** Default seed when a request does not carry its own */
+  seed?: number
+  /** Model name recorded in variation metadata */
+  model?: string
+  /** Clock used for timestamps; override in tests */
+  now?: () => Date
+}
+
+type StrategyId = 'palette' | 'type-scale' | 'layout' | 'spacing'
+
+interface StrategyContext {
+  random: () => number
+  variationType: VariationRequest['variationType']
+  preferences?: UserPreferences
+}
+
+interface StrategyOutcome {
+  description: string
+  confidence: number
+}
+
+/**
+ * A strategy edits the canvas draft in place and describes what it did,
+ * or returns null when it has nothing to change on this canvas
+ */
+type Strategy = (draft: Draft<DesignCanvasData>, context: StrategyContext) => StrategyOutcome | null
+
+// Layers have no intrinsic size; scale 1 is a 100x100 box (see Layer.getBoundingBox)
+const BASE_LAYER_SIZE = 100
+const GRID = 4
+
+const PALETTES: Record<string, string[]> = {
+  Midnight: ['#0f172a', '#1e293b', '#38bdf8', '#e2e8f0', '#f8fafc'],
+  Sunset: ['#3d0c11', '#b3261e', '#f97316', '#fed7aa', '#fff7ed'],
+  Forest: ['#052e16', '#166534', '#65a30d', '#d9f99d', '#f7fee7'],
+  Lavender: ['#2e1065', '#6d28d9', '#a78bfa', '#ede9fe', '#faf5ff'],
+  Monochrome: ['#111111', '#444444', '#888888', '#dddddd', '#ffffff'],
+  Ocean: ['#082f49', '#0369a1', '#06b6d4', '#cffafe', '#f0fdfa']
+}
+
+const TREND_PALETTES: Record<string, string[]> = {
+  'Digital Lavender': ['#1f1147', '#5b3fa8', '#b9a5e8', '#e6dcfa', '#fbf8ff'],
+  'Peach Fuzz': ['#3b1d14', '#a3543a', '#ffbe98', '#ffe3d3', '#fffaf6'],
+  'Neo Mint': ['#0b2b26', '#1f7a66', '#7ee0c3', '#d5f7ec', '#f4fffb']
+}
+
+const TYPE_SCALE_RATIOS = [1.125, 1.2, 1.25, 1.333, 1.5]
+
+/** Hue offsets (degrees) of each colour harmony */
+const HARMONY_OFFSETS: Record<Exclude<NonNullable<ColorPaletteParams['paletteType']>, 'custom'>, number[]> = {
+  monochromatic: [0],
+  analogous: [0, 30, -30, 60, -60],
+  complementary: [0, 180],
+  triadic: [0, 120, 240],
+  tetradic: [0, 90, 180, 270]
+}
+
+/** Lightness shifts for colours that repeat a hue */
+const LIGHTNESS_STEPS = [0, 0.25, -0.2, 0.38, -0.32]
+
+const MOOD_COLORS: Record<NonNullable<ColorPaletteParams['mood']>, { hue: number; saturation: number; lightness: number }> = {
+  warm: { hue: 24, saturation: 0.75, lightness: 0.55 },
+  cool: { hue: 205, saturation: 0.6, lightness: 0.5 },
+  vibrant: { hue: 320, saturation: 0.9, lightness: 0.55 },
+  muted: { hue: 190, saturation: 0.25, lightness: 0.55 },
+  energetic: { hue: 8, saturation: 0.85, lightness: 0.52 },
+  calming: { hue: 165, saturation: 0.4, lightness: 0.6 },
+  professional: { hue: 220, saturation: 0.45, lightness: 0.4 }
+}
+
+const HUE_NAMES: Array<[number, string]> = [
+  [15, 'Red'], [45, 'Orange'], [70, 'Yellow'], [160, 'Green'], [200, 'Teal'], [250, 'Blue'], [290, 'Violet'], [335, 'Magenta'], [360, 'Red']
+]
+
+/** Suggestion types each SuggestionParams.focus keeps */
+const FOCUS_TYPES: Record<NonNullable<SuggestionParams['focus']>, Suggestion['type'][] | null> = {
+  layout: ['layout-adjustment', 'element-addition', 'element-removal'],
+  spacing: ['spacing-improvement'],
+  hierarchy: ['style-enhancement', 'layout-adjustment'],
+  color: ['color-change', 'branding-alignment'],
+  typography: ['font-change'],
+  overall: null
+}
+
+/** Edges closer than this (canvas units) count as aligned */
+const ALIGNMENT_TOLERANCE = 2
+
+const STRATEGY_ORDER: Record<VariationRequest['variationType'], StrategyId[]> = {
+  'creative': ['palette', 'layout', 'type-scale', 'spacing'],
+  'trend-based': ['palette', 'spacing', 'type-scale', 'layout'],
+  'accessibility': ['palette', 'type-scale', 'spacing'],
+  'brand-aligned': ['palette', 'type-scale', 'spacing']
+}
+
+const TRENDS: TrendData[] = [
+  {
+    category: 'color',
+    trends: [
+      { name: 'Digital Lavender', popularity: 0.82, description: 'Soft purple gradients paired with deep ink text' },
+      { name: 'Peach Fuzz', popularity: 0.76, description: 'Warm peach backgrounds with brown accents' },
+      { name: 'Neo Mint', popularity: 0.64, description: 'Fresh mint highlights on dark teal' }
+    ]
+  },
+  {
+    category: 'typography',
+    trends: [
+      { name: 'Oversized headlines', popularity: 0.79, description: 'Dramatic type scales with 1.5x ratios' },
+      { name: 'Variable weights', popularity: 0.68, description: 'Weight contrast instead of size contrast' }
+    ]
+  },
+  {
+    category: 'layout',
+    trends: [
+      { name: 'Generous whitespace', popularity: 0.74, description: 'Wider spacing and fewer elements per screen' },
+      { name: 'Left-aligned stacks', popularity: 0.61, description: 'Editorial left rail alignment for mobile posts' }
+    ]
+  }
+]
+
+/**
+ * LocalAIProvider - Offline, rule-based variation engine
+ * Produces palette swaps, type scale changes, layout reflows and spacing tweaks.
+ * Output depends only on the canvas, the request and the seed, so the same
+ * inputs always produce the same variations (ids included)
+ */
+export class LocalAIProvider implements AIProvider {
+  readonly name = 'local-rules'
+  readonly requiresNetwork = false
+  readonly supportedRequestTypes: readonly AIRequestType[] = ['color-palette', 'analyze-composition', 'suggest-improvement']
+
+  private seed: number
+  private model: string
+  private now: () => Date
+
+  private strategies: Record<StrategyId, Strategy> = {
+    'palette': (draft, context) => this.applyPalette(draft, context),
+    'type-scale': (draft, context) => this.applyTypeScale(draft, context),
+    'layout': (draft, context) => this.applyLayoutReflow(draft, context),
+    'spacing': (draft, context) => this.applySpacing(draft, context)
+  }
+
+  constructor(options: LocalAIProviderOptions = {}) {
+    this.seed = options.seed ?? 1
+    this.model = options.model ?? 'local-rules-v1'
+    this.now = options.now ?? (() => new Date())
+  }
+
+  /**
+   * Generate rule-based variations of the base canvas
+   */
+  async generateVariations(baseCanvas: DesignCanvas, options: ProviderVariationOptions): Promise<ProviderVariationResult> {
+    const requestSeed = hashString([
+      options.seed ?? this.seed,
+      options.variationType,
+      options.count,
+      JSON.stringify(baseCanvas.layers)
+    ].join(':'))
+    const requestRandom = createRandom(requestSeed)
+    const order = STRATEGY_ORDER[options.variationType] ?? STRATEGY_ORDER.creative
+    const variations: DesignVariation[] = []
+
+    for (let index = 0; index < options.count; index++) {
+      const random = createRandom(hashString(`${requestSeed}:${index}`))
+      const context: StrategyContext = { random, variationType: options.variationType, preferences: options.preferences }
+      const outcomes: StrategyOutcome[] = []
+      const applied: StrategyId[] = []
+
+      const canvas = produceCanvas(baseCanvas, draft => {
+        // Primary strategy rotates through the order; fall through when not applicable
+        for (let offset = 0; offset < order.length; offset++) {
+          const id = order[(index + offset) % order.length]
+          const outcome = this.strategies[id](draft, context)
+          if (outcome) {
+            outcomes.push(outcome)
+            applied.push(id)
+            break
+          }
+        }
+
+        // Creative requests sometimes layer a second, different strategy on top
+        if (applied.length > 0 && options.variationType !== 'accessibility' && random() < 0.5) {
+          const remaining = order.filter(id => !applied.includes(id))
+          const id = remaining[Math.floor(random() * remaining.length)]
+          const outcome = id ? this.strategies[id](draft, context) : null
+          if (outcome) {
+            outcomes.push(outcome)
+            applied.push(id)
+          }
+        }
+      }, { touch: false })
+
+      if (outcomes.length === 0) {
+        continue
+      }
+
+      const confidence = round2(outcomes.reduce((sum, outcome) => sum + outcome.confidence, 0) / outcomes.length)
+      variations.push(new DesignVariation({
+        id: createSeededUUID(random),
+        // Variations of a bare canvas start a lineage; the caller links them into history
+        parentId: null,
+        canvasState: canvas,
+        source: options.variationType === 'creative' ? VariationSource.AI_CREATIVE : VariationSource.AI_SUGGESTION,
+        prompt: outcomes.map(outcome => outcome.description).join('; '),
+        confidence,
+        timestamp: this.now(),
+        metadata: {
+          tags: applied,
+          notes: '',
+          approvalStatus: 'pending',
+          aiMetadata: { model: this.model }
+        }
+      }))
+    }
+
+    if (variations.length === 0) {
+      throw new AIServiceError('Canvas has no layers the local provider can vary', 'UNPROCESSABLE')
+    }
+
+    return {
+      requestId: createSeededUUID(requestRandom),
+      variations,
+      confidence: round2(variations.reduce((sum, variation) => sum + variation.confidence, 0) / variations.length)
+    }
+  }
+
+  /**
+   * Heuristic canvas analysis (contrast, type sizes, palette size, bounds)
+   */
+  async analyzeCanvas(canvas: DesignCanvas, options: ProviderAnalysisOptions): Promise<ProviderAnalysisResult> {
+    const random = createRandom(hashString(`${this.seed}:analyze:${JSON.stringify(canvas.layers)}`))
+    const suggestions: AISuggestion[] = []
+    const suggest = (type: AISuggestion['type'], description: string, confidence: number) => {
+      suggestions.push({ id: createSeededUUID(random), type, description, confidence })
+    }
+
+    const textLayers = canvas.layers.filter(isTextLayer)
+    const lowContrast = textLayers.filter(layer => contrastRatio(textColor(layer), backdropColor(canvas.layers, layer)) < 4.5)
+    if (lowContrast.length > 0) {
+      suggest('color', `Increase contrast for ${lowContrast.length} text layer(s) to meet WCAG AA`, 0.9)
+    }
+
+    const smallText = textLayers.filter(layer => (layer.content.fontSize ?? 16) < 12)
+    if (smallText.length > 0) {
+      suggest('typography', `Raise ${smallText.length} text layer(s) to at least 12px for legibility`, 0.85)
+    }
+
+    const sizes = new Set(textLayers.map(layer => layer.content.fontSize ?? 16))
+    if (sizes.size > 3) {
+      suggest('typography', `Consolidate ${sizes.size} font sizes into a modular type scale`, 0.7)
+    }
+
+    const colors = collectColors(canvas.layers)
+    if (colors.length > 6) {
+      suggest('color', `Reduce the palette from ${colors.length} colours to five`, 0.65)
+    }
+
+    const outOfBounds = canvas.layers.filter(layer => layer.type !== LayerType.BACKGROUND && !fitsCanvas(layer, canvas.dimensions))
+    if (outOfBounds.length > 0) {
+      suggest('layout', `Reflow ${outOfBounds.length} layer(s) that extend past the ${canvas.deviceType} screen`, 0.8)
+    }
+
+    if (suggestions.length === 0) {
+      suggest('composition', 'Try a layout reflow or palette swap variation', 0.5)
+    }
+
+    const colorTrends = TRENDS[0]
+    return {
+      analysisId: createSeededUUID(random),
+      suggestions,
+      confidence: round2(suggestions.reduce((sum, item) => sum + item.confidence, 0) / suggestions.length),
+      ...(options.analysisType.includes('trends') && { trends: colorTrends })
+    }
+  }
+
+  /**
+   * Built-in trend catalogue used by the trend-based strategy
+   */
+  async getCurrentTrends(): Promise<CurrentTrendsResponse> {
+    const random = createRandom(hashString(`${this.seed}:trends`))
+    return {
+      trendsId: createSeededUUID(random),
+      categories: TRENDS.map(category => ({ ...category, trends: [...category.trends] })),
+      lastUpdated: this.now().toISOString(),
+      confidence: 0.7
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true
+  }
+
+  // Typed requests
+
+  /**
+   * Request types that need no generative model: harmony-rule palettes, and
+   * composition analysis and suggestions from the element bounds in the request context
+   */
+  async handleRequest<T extends AIRequestType>(request: TypedAIRequest<T>): Promise<ProviderRequestResult<T>> {
+    const typed = request as TypedAIRequest
+    const random = createRandom(hashString(`${this.seed}:${typed.type}:${JSON.stringify(typed.parameters ?? {})}:${JSON.stringify(typed.context ?? {})}`))
+    const metadata = { model: this.model }
+
+    switch (typed.type) {
+      case 'color-palette':
+        return { result: this.createPalette(typed.parameters ?? {}, random), metadata } as ProviderRequestResult<T>
+
+      case 'analyze-composition': {
+        const parameters = typed.parameters ?? {}
+        if (parameters.analysisType && parameters.analysisType !== 'composition') {
+          throw new AIRequestError({ code: 'MODEL_UNAVAILABLE', message: `The local provider cannot run ${parameters.analysisType} analysis`, retryable: false })
+        }
+        const metrics = measureComposition(requireLayoutContext(typed.context))
+        const { coverage: _coverage, offset: _offset, elements: _elements, ...composition } = metrics
+        const result: AnalysisResult = {
+          analysis: { composition: parameters.detailLevel === 'basic' ? { ...composition, focusPoints: undefined } : composition },
+          score: compositionScore(metrics),
+          ...(parameters.includeRecommendations !== false && { recommendations: compositionSuggestions(metrics, random) })
+        }
+        return { result, metadata } as ProviderRequestResult<T>
+      }
+
+      case 'suggest-improvement':
+        return { result: this.suggestImprovements(typed.parameters ?? {}, typed.context, random), metadata } as ProviderRequestResult<T>
+
+      default:
+        throw new AIRequestError({ code: 'MODEL_UNAVAILABLE', message: `The local provider cannot handle ${typed.type} requests`, retryable: false })
+    }
+  }
+
+  /**
+   * Harmony-rule palette; text and background roles are adjusted to meet WCAG AA
+   * unless accessibility is turned off
+   */
+  private createPalette(parameters: ColorPaletteParams, random: () => number): ColorPaletteResult {
+    const type = parameters.paletteType ?? 'analogous'
+    const count = parameters.colorCount ?? 5
+    const mood = parameters.mood ? MOOD_COLORS[parameters.mood] : undefined
+    const base = parameters.baseColor
+      ? toHsl(parameters.baseColor)
+      : { hue: mood?.hue ?? Math.floor(random() * 360), saturation: mood?.saturation ?? 0.65, lightness: mood?.lightness ?? 0.5 }
+    const saturation = parameters.baseColor && mood ? (base.saturation + mood.saturation) / 2 : base.saturation
+    const offsets = type === 'custom'
+      ? Array.from({ length: count }, (_, index) => index === 0 ? 0 : Math.floor(random() * 360))
+      : HARMONY_OFFSETS[type]
+
+    const hexes = Array.from({ length: count }, (_, index) => {
+      const lightness = type === 'monochromatic'
+        ? 0.12 + 0.8 * index / (count - 1)
+        : base.lightness + LIGHTNESS_STEPS[Math.floor(index / offsets.length) % LIGHTNESS_STEPS.length]
+      return fromHsl(base.hue + offsets[index % offsets.length], saturation, lightness)
+    })
+    const baseHex = parameters.baseColor ? normalizeHex(parameters.baseColor)! : undefined
+    if (baseHex) {
+      // The requested colour replaces its nearest generated shade
+      const distance = (hex: string) => Math.abs(toHsl(hex).lightness - base.lightness)
+      const nearest = type === 'monochromatic'
+        ? hexes.reduce((best, hex, index) => distance(hex) < distance(hexes[best]) ? index : best, 0)
+        : 0
+      hexes[nearest] = baseHex
+    }
+
+    const colors: PaletteColor[] = hexes.map(hex => ({ hex, role: 'accent' }))
+    const primary = colors.find(color => color.hex === baseHex) ?? colors[0]
+    primary.role = 'primary'
+    let text: PaletteColor | undefined
+    let background: PaletteColor | undefined
+    if (count >= 4) {
+      const byLuminance = colors.filter(color => color !== primary).sort((a, b) => luminance(a.hex) - luminance(b.hex))
+      text = byLuminance[0]
+      background = byLuminance[byLuminance.length - 1]
+      text.role = 'text'
+      background.role = 'background'
+    }
+    const secondary = colors.find(color => color.role === 'accent')
+    if (secondary) secondary.role = 'secondary'
+
+    if (text && background && parameters.accessibility !== false) {
+      // Darken the text and lighten the background until they reach 4.5:1
+      for (let step = 0; step < 20 && contrastRatio(text.hex, background.hex) < 4.5; step++) {
+        const [dark, light] = [toHsl(text.hex), toHsl(background.hex)]
+        text.hex = fromHsl(dark.hue, dark.saturation, dark.lightness - 0.05)
+        background.hex = fromHsl(light.hue, light.saturation, light.lightness + 0.05)
+      }
+    }
+
+    const pairs: Array<[string, string]> = text && background ? [[text.hex, background.hex]] : [[primary.hex, '#ffffff']]
+    const contrastRatios = pairs.map(([foreground, backdrop]) => ({
+      foreground,
+      background: backdrop,
+      ratio: round2(contrastRatio(foreground, backdrop))
+    }))
+    return {
+      palette: { colors, name: `${type[0].toUpperCase()}${type.slice(1)} ${hueName(base.hue)}`, type },
+      harmony: type === 'custom' ? 'fair' : count <= offsets.length * 2 ? 'excellent' : 'good',
+      accessibility: {
+        wcagAA: contrastRatios.every(pair => pair.ratio >= 4.5),
+        wcagAAA: contrastRatios.every(pair => pair.ratio >= 7),
+        contrastRatios
+      }
+    }
+  }
+
+  /**
+   * Composition findings filtered to the requested focus, plus brand constraints
+   */
+  private suggestImprovements(parameters: SuggestionParams, context: RequestContext | undefined, random: () => number): SuggestionResult {
+    const focus = parameters.focus ?? 'overall'
+    const suggestions = compositionSuggestions(measureComposition(requireLayoutContext(context)), random)
+    const impact = parameters.goals?.includes('branding') ? 'high' : 'medium'
+
+    const brandColors = parameters.constraints?.brandColors ?? []
+    if (brandColors.length > 0) {
+      suggestions.push({
+        id: createSeededUUID(random),
+        type: 'branding-alignment',
+        description: `Draw accent colours from the brand palette (${brandColors.join(', ')})`,
+        impact,
+        effort: 'easy',
+        actionable: true,
+        parameters: { colors: brandColors }
+      })
+    }
+    const fonts = parameters.constraints?.fonts ?? []
+    if (fonts.length > 0) {
+      suggestions.push({
+        id: createSeededUUID(random),
+        type: 'font-change',
+        description: `Set headings and body text in ${fonts.slice(0, 2).join(' and ')}`,
+        impact,
+        effort: 'easy',
+        actionable: true,
+        parameters: { fonts }
+      })
+    }
+
+    const allowed = FOCUS_TYPES[focus]
+    const kept = allowed ? suggestions.filter(suggestion => allowed.includes(suggestion.type)) : suggestions
+    const impacts = kept.map(suggestion => suggestion.impact)
+    return {
+      suggestions: kept,
+      priority: impacts.includes('high') ? 'high' : impacts.includes('medium') ? 'medium' : 'low',
+      category: focus
+    }
+  }
+
+  // Strategies
+
+  /**
+   * Palette swap, contrast repair (accessibility) or brand colours (brand-aligned)
+   */
+  private applyPalette(draft: Draft<DesignCanvasData>, context: StrategyContext): StrategyOutcome | null {
+    if (context.variationType === 'accessibility') {
+      return this.applyContrastFix(draft)
+    }
+
+    const colors = collectColors(draft.layers)
+    if (colors.length === 0) return null
+
+    let name: string
+    let palette: string[]
+    const brandColors = (context.preferences?.brandColors ?? []).filter(color => parseHex(color))
+    if (context.variationType === 'brand-aligned' && brandColors.length > 0) {
+      name = 'brand colours'
+      palette = brandColors
+    } else {
+      const source = context.variationType === 'trend-based' ? TREND_PALETTES : PALETTES
+      name = pick(Object.keys(source), context.random)
+      palette = source[name]
+    }
+
+    // Map colours to the palette by luminance rank so light/dark relationships survive
+    const sortedPalette = [...palette].sort((a, b) => luminance(a) - luminance(b))
+    const sortedColors = [...colors].sort((a, b) => luminance(a) - luminance(b))
+    const mapping = new Map<string, string>()
+    sortedColors.forEach((color, rank) => {
+      const position = sortedColors.length === 1
+        ? (luminance(color) > 0.5 ? sortedPalette.length - 1 : 0)
+        : Math.round(rank * (sortedPalette.length - 1) / (sortedColors.length - 1))
+      mapping.set(color, sortedPalette[position])
+    })
+
+    let changed = false
+    for (const layer of editableLayers(draft.layers, true)) {
+      changed = remapLayerColors(layer, mapping) || changed
+    }
+
+    return changed
+      ? { description: `Palette swap: ${name}`, confidence: jitter(0.8, context.random) }
+      : null
+  }
+
+  private applyContrastFix(draft: Draft<DesignCanvasData>): StrategyOutcome | null {
+    let fixed = 0
+    for (const layer of editableLayers(draft.layers, false).filter(isTextLayer)) {
+      const backdrop = backdropColor(draft.layers as LayerData[], layer as LayerData)
+      if (contrastRatio(textColor(layer as LayerData), backdrop) >= 4.5) continue
+
+      layer.style.color = contrastRatio('#000000', backdrop) >= contrastRatio('#ffffff', backdrop) ? '#000000' : '#ffffff'
+      fixed++
+    }
+
+    return fixed > 0
+      ? { description: `Raised contrast on ${fixed} text layer(s) to WCAG AA`, confidence: 0.9 }
+      : null
+  }
+
+  /**
+   * Re-sizes text layers along a modular scale, preserving their size ranking
+   */
+  private applyTypeScale(draft: Draft<DesignCanvasData>, context: StrategyContext): StrategyOutcome | null {
+    const textLayers = editableLayers(draft.layers, false).filter(isTextLayer)
+    if (textLayers.length === 0) return null
+
+    const ratio = pick(TYPE_SCALE_RATIOS, context.random)
+    const currentSizes = [...new Set(textLayers.map(layer => layer.content.fontSize ?? 16))].sort((a, b) => a - b)
+    const minimum = context.variationType === 'accessibility' ? 16 : 10
+    const base = Math.max(minimum, Math.round(currentSizes[0] * (0.9 + context.random() * 0.2)))
+
+    let changed = false
+    for (const layer of textLayers) {
+      const rank = currentSizes.indexOf(layer.content.fontSize ?? 16)
+      const fontSize = Math.min(160, Math.round(base * Math.pow(ratio, rank)))
+      if (fontSize !== layer.content.fontSize) {
+        layer.content.fontSize = fontSize
+        changed = true
+      }
+    }
+
+    return changed
+      ? { description: `Type scale ${ratio}x from ${base}px`, confidence: jitter(0.75, context.random) }
+      : null
+  }
+
+  /**
+   * Reflows movable layers into a stacked, left-aligned or centred layout
+   */
+  private applyLayoutReflow(draft: Draft<DesignCanvasData>, context: StrategyContext): StrategyOutcome | null {
+    const layers = editableLayers(draft.layers, false)
+      .filter(layer => layer.type !== LayerType.BACKGROUND)
+      .sort((a, b) => a.transform.y - b.transform.y || a.transform.x - b.transform.x)
+    if (layers.length === 0) return null
+
+    const { width, height } = draft.dimensions
+    const margin = snap(Math.min(width, height) * 0.06)
+    const mode = pick(['stack', 'left', 'center'] as const, context.random)
+
+    if (mode === 'stack') {
+      const heights = layers.map(layer => BASE_LAYER_SIZE * layer.transform.scaleY)
+      const total = heights.reduce((sum, value) => sum + value, 0)
+      const gap = layers.length > 1 ? Math.max(0, (height - 2 * margin - total) / (layers.length + 1)) : 0
+      let y = margin + gap
+      layers.forEach((layer, index) => {
+        const layerWidth = BASE_LAYER_SIZE * layer.transform.scaleX
+        layer.transform.x = (width - layerWidth) / 2
+        layer.transform.y = y
+        y += heights[index] + gap
+      })
+    } else {
+      layers.forEach(layer => {
+        const layerWidth = BASE_LAYER_SIZE * layer.transform.scaleX
+        layer.transform.x = mode === 'left' ? margin : (width - layerWidth) / 2
+      })
+    }
+
+    layers.forEach(layer => clampToCanvas(layer, width, height))
+
+    const labels = { stack: 'Stacked vertical layout', left: 'Left-aligned layout', center: 'Centred layout' }
+    return { description: labels[mode], confidence: jitter(0.65, context.random) }
+  }
+
+  /**
+   * Expands or tightens the spacing between movable layers around their centroid
+   */
+  private applySpacing(draft: Draft<DesignCanvasData>, context: StrategyContext): StrategyOutcome | null {
+    const layers = editableLayers(draft.layers, false).filter(layer => layer.type !== LayerType.BACKGROUND)
+    if (layers.length < 2) return null
+
+    let factor = 0.8 + context.random() * 0.45
+    if (Math.abs(factor - 1) < 0.05) factor = 1.1
+
+    const centers = layers.map(layer => ({
+      x: layer.transform.x + BASE_LAYER_SIZE * layer.transform.scaleX / 2,
+      y: layer.transform.y + BASE_LAYER_SIZE * layer.transform.scaleY / 2
+    }))
+    const centroid = {
+      x: centers.reduce((sum, point) => sum + point.x, 0) / centers.length,
+      y: centers.reduce((sum, point) => sum + point.y, 0) / centers.length
+    }
+
+    const { width, height } = draft.dimensions
+    layers.forEach((layer, index) => {
+      const halfWidth = BASE_LAYER_SIZE * layer.transform.scaleX / 2
+      const halfHeight = BASE_LAYER_SIZE * layer.transform.scaleY / 2
+      layer.transform.x = snap(centroid.x + (centers[index].x - centroid.x) * factor - halfWidth)
+      layer.transform.y = snap(centroid.y + (centers[index].y - centroid.y) * factor - halfHeight)
+      clampToCanvas(layer, width, height)
+    })
+
+    const percent = Math.round((factor - 1) * 100)
+    return {
+      description: `${percent > 0 ? 'Looser' : 'Tighter'} spacing (${percent > 0 ? '+' : ''}${percent}%)`,
+      confidence: jitter(0.7, context.random)
+    }
+  }
+}
+
+// Layer helpers
+
+function editableLayers<T extends LayerData | Draft<LayerData>>(layers: T[], includeBackground: boolean): T[] {
+  return layers.filter(layer =>
+    !layer.constraints.locked &&
+    layer.constraints.visible !== false &&
+    (includeBackground || layer.type !== LayerType.BACKGROUND)
+  )
+}
+
+function isTextLayer<T extends LayerData | Draft<LayerData>>(layer: T): boolean {
+  return layer.type === LayerType.TEXT || layer.type === LayerType.POST_TEXT
+}
+
+function textColor(layer: LayerData): string {
+  return normalizeHex(layer.style.color ?? '') ?? '#000000'
+}
+
+/**
+ * Colour directly behind a text layer: the topmost filled layer beneath it that covers its box
+ */
+function backdropColor(layers: readonly LayerData[], target: LayerData): string {
+  const below = layers
+    .filter(layer => layer.zIndex < target.zIndex && layer.constraints.visible !== false)
+    .sort((a, b) => b.zIndex - a.zIndex)
+
+  for (const layer of below) {
+    const fill = normalizeHex(layer.content.color ?? layer.content.fill ?? layer.style.backgroundColor ?? '')
+    if (!fill) continue
+    if (layer.type === LayerType.BACKGROUND || covers(layer, target)) return fill
+  }
+  return '#ffffff'
+}
+
+function covers(outer: LayerData, inner: LayerData): boolean {
+  const a = outer.transform
+  const b = inner.transform
+  return a.x <= b.x && a.y <= b.y &&
+    a.x + BASE_LAYER_SIZE * a.scaleX >= b.x + BASE_LAYER_SIZE * b.scaleX &&
+    a.y + BASE_LAYER_SIZE * a.scaleY >= b.y + BASE_LAYER_SIZE * b.scaleY
+}
+
+function fitsCanvas(layer: LayerData, dimensions: { width: number; height: number }): boolean {
+  const { x, y, scaleX, scaleY } = layer.transform
+  return x >= 0 && y >= 0 &&
+    x + BASE_LAYER_SIZE * scaleX <= dimensions.width &&
+    y + BASE_LAYER_SIZE * scaleY <= dimensions.height
+}
+
+function clampToCanvas(layer: Draft<LayerData>, width: number, height: number): void {
+  const maxX = Math.max(0, width - BASE_LAYER_SIZE * layer.transform.scaleX)
+  const maxY = Math.max(0, height - BASE_LAYER_SIZE * layer.transform.scaleY)
+  layer.transform.x = Math.min(Math.max(0, layer.transform.x), maxX)
+  layer.transform.y = Math.min(Math.max(0, layer.transform.y), maxY)
+}
+
+function collectColors(layers: readonly (LayerData | Draft<LayerData>)[]): string[] {
+  const colors = new Set<string>()
+  const add = (value?: string) => {
+    const hex = value ? normalizeHex(value) : null
+    if (hex) colors.add(hex)
+  }
+
+  for (const layer of editableLayers(layers as LayerData[], true)) {
+    add(layer.content.color)
+    add(layer.content.fill)
+    add(layer.content.stroke)
+    add(layer.style.color)
+    add(layer.style.backgroundColor)
+    add(layer.style.borderColor)
+    layer.content.gradient?.stops.forEach(stop => add(stop.color))
+  }
+  return [...colors]
+}
+
+function remapLayerColors(layer: Draft<LayerData>, mapping: Map<string, string>): boolean {
+  let changed = false
+  const swap = (value: string | undefined): string | undefined => {
+    const hex = value ? normalizeHex(value) : null
+    const next = hex ? mapping.get(hex) : undefined
+    if (next && next !== hex) {
+      changed = true
+      return next
+    }
+    return value
+  }
+
+  const { content, style } = layer
+  if (content.color !== undefined) content.color = swap(content.color)
+  if (content.fill !== undefined) content.fill = swap(content.fill)
+  if (content.stroke !== undefined) content.stroke = swap(content.stroke)
+  if (style.color !== undefined) style.color = swap(style.color)
+  if (style.backgroundColor !== undefined) style.backgroundColor = swap(style.backgroundColor)
+  if (style.borderColor !== undefined) style.borderColor = swap(style.borderColor)
+  content.gradient?.stops.forEach(stop => {
+    stop.color = swap(stop.color) ?? stop.color
+  })
+  return changed
+}
+
+// Composition helpers
+
+type ElementBounds = { id: string; bounds: Rectangle }
+
+interface CompositionMetrics extends CompositionAnalysis {
+  balance: number
+  alignment: number
+  spacing: number
+  hierarchy: number
+  density: NonNullable<CompositionAnalysis['density']>
+  /** Share of the canvas covered by elements (0–1) */
+  coverage: number
+  /** Area-weighted centre relative to the canvas centre, -1…1 on each axis */
+  offset: { x: number; y: number }
+  elements: ElementBounds[]
+}
+
+function requireLayoutContext(context: RequestContext | undefined): { elements: ElementBounds[]; width: number; height: number } {
+  const dimensions = context?.canvasDimensions
+  if (!dimensions || !Array.isArray(context?.visibleElements)) {
+    throw new AIRequestError({
+      code: 'VALIDATION_ERROR',
+      message: 'context.canvasDimensions and context.visibleElements are required for local composition analysis',
+      retryable: false
+    })
+  }
+  return { elements: context.visibleElements, width: dimensions.width, height: dimensions.height }
+}
+
+/**
+ * Balance, alignment, spacing rhythm, hierarchy and density from element bounds
+ */
+function measureComposition({ elements, width, height }: { elements: ElementBounds[]; width: number; height: number }): CompositionMetrics {
+  const area = (box: Rectangle) => Math.max(0, box.width) * Math.max(0, box.height)
+  const areas = elements.map(element => area(element.bounds))
+  const total = areas.reduce((sum, value) => sum + value, 0)
+
+  const centre = total > 0
+    ? elements.reduce((point, element, index) => ({
+        x: point.x + (element.bounds.x + element.bounds.width / 2) * areas[index] / total,
+        y: point.y + (element.bounds.y + element.bounds.height / 2) * areas[index] / total
+      }), { x: 0, y: 0 })
+    : { x: width / 2, y: height / 2 }
+  const offset = { x: (centre.x - width / 2) / (width / 2), y: (centre.y - height / 2) / (height / 2) }
+
+  const edges = elements.map(({ bounds }) => [bounds.x, bounds.x + bounds.width / 2, bounds.x + bounds.width])
+  const aligned = edges.filter((own, index) => edges.some((other, otherIndex) =>
+    otherIndex !== index && own.some(edge => other.some(otherEdge => Math.abs(edge - otherEdge) <= ALIGNMENT_TOLERANCE))))
+
+  const stacked = [...elements].sort((a, b) => a.bounds.y - b.bounds.y)
+  const gaps = stacked.slice(1)
+    .map((element, index) => element.bounds.y - (stacked[index].bounds.y + stacked[index].bounds.height))
+    .filter(gap => gap >= 0)
+  const meanGap = gaps.reduce((sum, gap) => sum + gap, 0) / (gaps.length || 1)
+  const gapDeviation = Math.sqrt(gaps.reduce((sum, gap) => sum + (gap - meanGap) ** 2, 0) / (gaps.length || 1))
+
+  const sortedAreas = [...areas].sort((a, b) => b - a)
+  const coverage = Math.min(1, total / (width * height))
+
+  return {
+    balance: round2(1 - Math.min(1, Math.hypot(offset.x, offset.y) / Math.SQRT2)),
+    alignment: elements.length < 2 ? 1 : round2(aligned.length / elements.length),
+    spacing: gaps.length < 2 || meanGap === 0 ? 1 : round2(1 - Math.min(1, gapDeviation / meanGap)),
+    hierarchy: sortedAreas.length < 2 || sortedAreas[1] === 0 ? 1 : round2(Math.min(1, (sortedAreas[0] / sortedAreas[1] - 1) / 2)),
+    density: coverage < 0.25 ? 'sparse' : coverage < 0.6 ? 'balanced' : coverage < 0.9 ? 'dense' : 'overcrowded',
+    focusPoints: elements
+      .map((element, index) => ({
+        x: round2(element.bounds.x + element.bounds.width / 2),
+        y: round2(element.bounds.y + element.bounds.height / 2),
+        strength: total > 0 ? round2(areas[index] / total) : 0,
+        elementId: element.id
+      }))
+      .sort((a, b) => b.strength - a.strength)
+      .slice(0, 3),
+    coverage: round2(coverage),
+    offset,
+    elements
+  }
+}
+
+function compositionScore(metrics: CompositionMetrics): number {
+  const density = { sparse: 0.7, balanced: 1, dense: 0.7, overcrowded: 0.3 }[metrics.density]
+  return Math.round((metrics.balance + metrics.alignment + metrics.spacing + metrics.hierarchy + density) / 5 * 100)
+}
+
+function compositionSuggestions(metrics: CompositionMetrics, random: () => number): Suggestion[] {
+  const suggestions: Suggestion[] = []
+  const suggest = (type: Suggestion['type'], description: string, impact: Suggestion['impact'], effort: Suggestion['effort'], targetElementIds?: string[]) => {
+    suggestions.push({ id: createSeededUUID(random), type, description, impact, effort, actionable: true, ...(targetElementIds && { targetElementIds }) })
+  }
+  const ids = metrics.elements.map(element => element.id)
+
+  if (metrics.balance < 0.7) {
+    const { x, y } = metrics.offset
+    const side = Math.abs(x) > Math.abs(y) ? (x > 0 ? 'right' : 'left') : (y > 0 ? 'bottom' : 'top')
+    suggest('layout-adjustment', `Re-centre the layout; its visual weight sits toward the ${side}`, 'medium', 'easy', ids)
+  }
+  if (metrics.alignment < 0.5) {
+    suggest('layout-adjustment', `Align elements to shared edges; only ${Math.round(metrics.alignment * 100)}% line up with another element`, 'medium', 'easy', ids)
+  }
+  if (metrics.spacing < 0.6) {
+    suggest('spacing-improvement', 'Even out the vertical gaps between stacked elements', 'medium', 'easy', ids)
+  }
+  if (metrics.hierarchy < 0.3) {
+    suggest('style-enhancement', 'Make one element clearly dominant to give the design a focal point', 'high', 'medium', metrics.focusPoints?.slice(0, 2).map(point => point.elementId!))
+  }
+  if (metrics.density === 'overcrowded') {
+    suggest('element-removal', `Remove or merge elements; they cover ${Math.round(metrics.coverage * 100)}% of the canvas`, 'high', 'medium')
+  } else if (metrics.density === 'dense') {
+    suggest('spacing-improvement', 'Add breathing room around the densest elements', 'low', 'easy')
+  } else if (metrics.density === 'sparse' && metrics.elements.length < 3) {
+    suggest('element-addition', 'Add a supporting element such as a caption or accent shape', 'low', 'medium')
+  }
+  return suggestions
+}
+
+// Colour helpers
+
+function parseHex(value: string): [number, number, number] | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim())
+  if (!match) return null
+  const hex = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1]
+  return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16)) as [number, number, number]
+}
+
+function normalizeHex(value: string): string | null {
+  const rgb = parseHex(value)
+  return rgb ? '#' + rgb.map(channel => channel.toString(16).padStart(2, '0')).join('') : null
+}
+
+/**
+ * WCAG relative luminance
+ */
+function luminance(color: string): number {
+  const rgb = parseHex(color) ?? [0, 0, 0]
+  const [r, g, b] = rgb.map(channel => {
+    const value = channel / 255
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4)
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+function contrastRatio(a: string, b: string): number {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x)
+  return (light + 0.05) / (dark + 0.05)
+}
+
+function toHsl(color: string): { hue: number; saturation: number; lightness: number } {
+  const [r, g, b] = (parseHex(color) ?? [0, 0, 0]).map(channel => channel / 255)
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const lightness = (max + min) / 2
+  if (max === min) return { hue: 0, saturation: 0, lightness }
+
+  const delta = max - min
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1))
+  const hue = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4
+  return { hue: (hue * 60 + 360) % 360, saturation, lightness }
+}
+
+function fromHsl(hue: number, saturation: number, lightness: number): string {
+  const h = ((hue % 360) + 360) % 360
+  const s = Math.min(1, Math.max(0, saturation))
+  const l = Math.min(0.97, Math.max(0.03, lightness))
+  const chroma = (1 - Math.abs(2 * l - 1)) * s
+  const x = chroma * (1 - Math.abs((h / 60) % 2 - 1))
+  const [r, g, b] = h < 60 ? [chroma, x, 0] : h < 120 ? [x, chroma, 0] : h < 180 ? [0, chroma, x]
+    : h < 240 ? [0, x, chroma] : h < 300 ? [x, 0, chroma] : [chroma, 0, x]
+  const m = l - chroma / 2
+  return '#' + [r, g, b].map(channel => Math.round((channel + m) * 255).toString(16).padStart(2, '0')).join('')
+}
+
+function hueName(hue: number): string {
+  const h = ((hue % 360) + 360) % 360
+  return HUE_NAMES.find(([limit]) => h < limit)?.[1] ?? 'Red'
+}
+
+// Seeded randomness
+
+/**
+ * FNV-1a string hash
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * mulberry32 PRNG
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function createSeededUUID(random: () => number): string {
+  const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16))
+  hex[12] = '4'
+  hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)
+  const s = hex.join('')
+  return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`
+}
+
+function pick<T>(items: readonly T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+function jitter(value: number, random: () => number): number {
+  return round2(value + (random() - 0.5) * 0.1)
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function snap(value: number): number {
+  return Math.round(value / GRID) * GRID
+}
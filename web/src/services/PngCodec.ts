@@ -0,0 +1,273 @@
+/**
+ * PNG reading and writing without a DOM or native modules
+ * Compression uses the Compression Streams API (browsers, Node 18+); without it PNGs are
+ * still written, uncompressed.
+ */
+
+/**
+ * Straight (non-premultiplied) RGBA pixels, row by row
+ */
+export interface RasterImage {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+export interface PngHeader {
+  width: number
+  height: number
+  bitDepth: number
+  colorType: number
+  interlace: number
+}
+
+/**
+ * Chunks of a PNG needed to decode it; data is the concatenated, still compressed IDAT stream
+ */
+export interface PngFile {
+  header: PngHeader
+  palette: Uint8Array | null
+  transparency: Uint8Array | null
+  data: Uint8Array
+}
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+export function isPng(bytes: Uint8Array): boolean {
+  return SIGNATURE.every((byte, index) => bytes[index] === byte)
+}
+
+export function parsePng(bytes: Uint8Array): PngFile {
+  if (!isPng(bytes)) throw new Error('not a PNG file')
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let header: PngHeader | null = null
+  let palette: Uint8Array | null = null
+  let transparency: Uint8Array | null = null
+  const data: Uint8Array[] = []
+
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length)
+    if (type === 'IHDR') {
+      header = { width: view.getUint32(offset + 8), height: view.getUint32(offset + 12), bitDepth: chunk[8], colorType: chunk[9], interlace: chunk[12] }
+    } else if (type === 'PLTE') {
+      palette = chunk
+    } else if (type === 'tRNS') {
+      transparency = chunk
+    } else if (type === 'IDAT') {
+      data.push(chunk)
+    } else if (type === 'IEND') {
+      break
+    }
+    offset += 12 + length
+  }
+
+  if (!header) throw new Error('PNG has no header')
+  return { header, palette, transparency, data: concatBytes(data) }
+}
+
+/**
+ * Decode any non-interlaced PNG to RGBA (16-bit samples keep their high byte)
+ */
+export async function decodePng(bytes: Uint8Array): Promise<RasterImage> {
+  const { header, palette, transparency, data } = parsePng(bytes)
+  const { width, height, bitDepth, colorType } = header
+  if (header.interlace) throw new Error('interlaced PNGs are not supported')
+
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType]
+  if (!channels) throw new Error(`PNG colour type ${colorType} is not supported`)
+
+  const bitsPerPixel = channels * bitDepth
+  const stride = Math.ceil(width * bitsPerPixel / 8)
+  const samples = unfilterScanlines(await inflate(data), stride, height, Math.max(1, bitsPerPixel >> 3))
+  const pixels = new Uint8ClampedArray(width * height * 4)
+
+  const sample = (row: number, index: number): number => {
+    const offset = row * stride
+    if (bitDepth === 8) return samples[offset + index]
+    if (bitDepth === 16) return samples[offset + index * 2]
+    const bit = index * bitDepth
+    const value = (samples[offset + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1)
+    // Palette indices stay as they are; grey levels are scaled to 0–255
+    return colorType === 3 ? value : Math.round(value * 255 / ((1 << bitDepth) - 1))
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4
+      const first = x * channels
+      if (colorType === 3) {
+        const index = sample(y, first)
+        pixels[target] = palette?.[index * 3] ?? 0
+        pixels[target + 1] = palette?.[index * 3 + 1] ?? 0
+        pixels[target + 2] = palette?.[index * 3 + 2] ?? 0
+        pixels[target + 3] = transparency?.[index] ?? 255
+      } else if (colorType === 0 || colorType === 4) {
+        const grey = sample(y, first)
+        pixels[target] = pixels[target + 1] = pixels[target + 2] = grey
+        pixels[target + 3] = colorType === 4 ? sample(y, first + 1) : 255
+      } else {
+        pixels[target] = sample(y, first)
+        pixels[target + 1] = sample(y, first + 1)
+        pixels[target + 2] = sample(y, first + 2)
+        pixels[target + 3] = colorType === 6 ? sample(y, first + 3) : 255
+      }
+    }
+  }
+
+  return { width, height, data: pixels }
+}
+
+/**
+ * Encode RGBA pixels as an 8-bit truecolour-with-alpha PNG
+ */
+export async function encodePng(image: RasterImage): Promise<Uint8Array> {
+  const { width, height, data } = image
+  const stride = width * 4
+  // Filter type 1 (Sub) on every row: cheap and compresses flat design areas well
+  const filtered = new Uint8Array((stride + 1) * height)
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1)
+    filtered[row] = 1
+    for (let x = 0; x < stride; x++) {
+      const left = x >= 4 ? data[y * stride + x - 4] : 0
+      filtered[row + 1 + x] = (data[y * stride + x] - left) & 0xff
+    }
+  }
+
+  const header = new Uint8Array(13)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, width)
+  view.setUint32(4, height)
+  header.set([8, 6, 0, 0, 0], 8)
+
+  const compressed = typeof CompressionStream === 'undefined' ? storedZlib(filtered) : await deflate(filtered)
+  return concatBytes([
+    new Uint8Array(SIGNATURE),
+    chunk('IHDR', header),
+    chunk('IDAT', compressed),
+    chunk('IEND', new Uint8Array(0))
+  ])
+}
+
+export function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    return Promise.reject(new Error('decompression needs the Compression Streams API'))
+  }
+  return pipe(bytes, new DecompressionStream('deflate'))
+}
+
+export function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  if (typeof CompressionStream === 'undefined') {
+    return Promise.reject(new Error('compression needs the Compression Streams API'))
+  }
+  return pipe(bytes, new CompressionStream('deflate'))
+}
+
+/**
+ * Undo PNG scanline filtering (None, Sub, Up, Average, Paeth)
+ * bytesPerPixel is rounded up to 1 for bit depths below 8, as the PNG spec requires
+ */
+export function unfilterScanlines(data: Uint8Array, stride: number, height: number, bytesPerPixel: number): Uint8Array {
+  const pixels = new Uint8Array(stride * height)
+
+  for (let row = 0; row < height; row++) {
+    const filter = data[row * (stride + 1)]
+    const input = row * (stride + 1) + 1
+    const output = row * stride
+
+    for (let column = 0; column < stride; column++) {
+      const raw = data[input + column]
+      const left = column >= bytesPerPixel ? pixels[output + column - bytesPerPixel] : 0
+      const up = row > 0 ? pixels[output - stride + column] : 0
+      const upLeft = row > 0 && column >= bytesPerPixel ? pixels[output - stride + column - bytesPerPixel] : 0
+
+      let predicted = 0
+      if (filter === 1) predicted = left
+      else if (filter === 2) predicted = up
+      else if (filter === 3) predicted = (left + up) >> 1
+      else if (filter === 4) {
+        const estimate = left + up - upLeft
+        const distances = [Math.abs(estimate - left), Math.abs(estimate - up), Math.abs(estimate - upLeft)]
+        predicted = distances[0] <= distances[1] && distances[0] <= distances[2] ? left : distances[1] <= distances[2] ? up : upLeft
+      }
+      pixels[output + column] = (raw + predicted) & 0xff
+    }
+  }
+  return pixels
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of chunks) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+// Helpers
+
+async function pipe(bytes: Uint8Array, stream: GenericTransformStream): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter()
+  void writer.write(bytes).then(() => writer.close())
+
+  const chunks: Uint8Array[] = []
+  const reader = stream.readable.getReader()
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    chunks.push(result.value)
+  }
+  return concatBytes(chunks)
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const result = new Uint8Array(data.length + 12)
+  const view = new DataView(result.buffer)
+  view.setUint32(0, data.length)
+  for (let index = 0; index < 4; index++) result[4 + index] = type.charCodeAt(index)
+  result.set(data, 8)
+  view.setUint32(data.length + 8, crc32(result.subarray(4, data.length + 8)))
+  return result
+}
+
+/**
+ * zlib stream of uncompressed deflate blocks
+ */
+function storedZlib(data: Uint8Array): Uint8Array {
+  const blocks: Uint8Array[] = [new Uint8Array([0x78, 0x01])]
+  for (let offset = 0; offset < data.length || offset === 0; offset += 65535) {
+    const block = data.subarray(offset, offset + 65535)
+    const last = offset + 65535 >= data.length
+    blocks.push(new Uint8Array([last ? 1 : 0, block.length & 0xff, block.length >> 8, ~block.length & 0xff, (~block.length >> 8) & 0xff]), block)
+    if (last) break
+  }
+
+  let a = 1
+  let b = 0
+  for (const byte of data) {
+    a = (a + byte) % 65521
+    b = (b + a) % 65521
+  }
+  blocks.push(new Uint8Array([b >> 8, b & 0xff, a >> 8, a & 0xff]))
+  return concatBytes(blocks)
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
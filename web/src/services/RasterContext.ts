@@ -0,0 +1,664 @@
+import type { RenderContext2D } from './CanvasRenderer'
+import type { RasterImage } from './PngCodec'
+import { parseCssColor } from './CssColor'
+import type { RGBA } from './CssColor'
+import { parseCssFont, textWidth } from './FontMetrics'
+
+/**
+ * Software implementation of the 2D context subset used by drawCanvas
+ *
+ * Paths are filled with the nonzero rule, anti-aliased with four sub-scanlines per pixel
+ * and exact horizontal coverage. Without font files, text is drawn as one bar per word
+ * (greeking) at the width the standard font metrics give; layout and alignment still match.
+ * Shadow and filter settings are kept with the state but not drawn.
+ */
+export class RasterContext implements RenderContext2D<RasterImage> {
+  readonly width: number
+  readonly height: number
+  private data: Uint8ClampedArray
+  private state: DrawingState = {
+    transform: [1, 0, 0, 1, 0, 0],
+    globalAlpha: 1,
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    lineWidth: 1,
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    shadowColor: 'rgba(0, 0, 0, 0)',
+    shadowBlur: 0,
+    shadowOffsetX: 0,
+    shadowOffsetY: 0,
+    filter: 'none',
+    clip: null
+  }
+  private stack: DrawingState[] = []
+  private path: Subpath[] = []
+
+  constructor(width: number, height: number) {
+    this.width = Math.max(1, Math.round(width))
+    this.height = Math.max(1, Math.round(height))
+    this.data = new Uint8ClampedArray(this.width * this.height * 4)
+  }
+
+  /**
+   * The pixels drawn so far (shared, not copied)
+   */
+  toImage(): RasterImage {
+    return { width: this.width, height: this.height, data: this.data }
+  }
+
+  // State
+
+  get globalAlpha(): number { return this.state.globalAlpha }
+  set globalAlpha(value: number) {
+    if (Number.isFinite(value) && value >= 0 && value <= 1) this.state.globalAlpha = value
+  }
+
+  get fillStyle(): string | CanvasGradient | CanvasPattern { return this.state.fillStyle }
+  set fillStyle(value: string | CanvasGradient | CanvasPattern) {
+    // Like browsers, values that cannot be parsed are ignored
+    if (value instanceof RasterGradient || (typeof value === 'string' && parseCssColor(value) !== undefined)) this.state.fillStyle = value
+  }
+
+  get strokeStyle(): string | CanvasGradient | CanvasPattern { return this.state.strokeStyle }
+  set strokeStyle(value: string | CanvasGradient | CanvasPattern) {
+    if (value instanceof RasterGradient || (typeof value === 'string' && parseCssColor(value) !== undefined)) this.state.strokeStyle = value
+  }
+
+  get lineWidth(): number { return this.state.lineWidth }
+  set lineWidth(value: number) {
+    if (Number.isFinite(value) && value > 0) this.state.lineWidth = value
+  }
+
+  get font(): string { return this.state.font }
+  set font(value: string) { this.state.font = value }
+
+  get textAlign(): CanvasTextAlign { return this.state.textAlign }
+  set textAlign(value: CanvasTextAlign) { this.state.textAlign = value }
+
+  get textBaseline(): CanvasTextBaseline { return this.state.textBaseline }
+  set textBaseline(value: CanvasTextBaseline) { this.state.textBaseline = value }
+
+  get shadowColor(): string { return this.state.shadowColor }
+  set shadowColor(value: string) { this.state.shadowColor = value }
+
+  get shadowBlur(): number { return this.state.shadowBlur }
+  set shadowBlur(value: number) { this.state.shadowBlur = value }
+
+  get shadowOffsetX(): number { return this.state.shadowOffsetX }
+  set shadowOffsetX(value: number) { this.state.shadowOffsetX = value }
+
+  get shadowOffsetY(): number { return this.state.shadowOffsetY }
+  set shadowOffsetY(value: number) { this.state.shadowOffsetY = value }
+
+  get filter(): string { return this.state.filter }
+  set filter(value: string) { this.state.filter = value }
+
+  save(): void {
+    this.stack.push({ ...this.state, transform: [...this.state.transform] })
+  }
+
+  restore(): void {
+    const state = this.stack.pop()
+    if (state) this.state = state
+  }
+
+  // Transforms
+
+  translate(x: number, y: number): void {
+    const [a, b, c, d, e, f] = this.state.transform
+    this.state.transform = [a, b, c, d, e + a * x + c * y, f + b * x + d * y]
+  }
+
+  rotate(angle: number): void {
+    const [a, b, c, d, e, f] = this.state.transform
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    this.state.transform = [a * cos + c * sin, b * cos + d * sin, c * cos - a * sin, d * cos - b * sin, e, f]
+  }
+
+  scale(x: number, y: number): void {
+    const [a, b, c, d, e, f] = this.state.transform
+    this.state.transform = [a * x, b * x, c * y, d * y, e, f]
+  }
+
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.state.transform = [a, b, c, d, e, f]
+  }
+
+  // Paths
+
+  beginPath(): void {
+    this.path = []
+  }
+
+  closePath(): void {
+    const current = this.path[this.path.length - 1]
+    if (!current || current.points.length === 0) return
+    current.closed = true
+    this.path.push({ points: [current.points[0]], closed: false })
+  }
+
+  moveTo(x: number, y: number): void {
+    this.path.push({ points: [this.project(x, y)], closed: false })
+  }
+
+  lineTo(x: number, y: number): void {
+    const current = this.path[this.path.length - 1]
+    if (!current) return this.moveTo(x, y)
+    current.points.push(this.project(x, y))
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    const current = this.path[this.path.length - 1]
+    if (!current) this.moveTo(cp1x, cp1y)
+    const points = this.path[this.path.length - 1].points
+    const [x0, y0] = points[points.length - 1]
+    const [x1, y1] = this.project(cp1x, cp1y)
+    const [x2, y2] = this.project(cp2x, cp2y)
+    const [x3, y3] = this.project(x, y)
+
+    // Flatten finely enough that the chords stay well under a pixel from the curve
+    const length = Math.hypot(x1 - x0, y1 - y0) + Math.hypot(x2 - x1, y2 - y1) + Math.hypot(x3 - x2, y3 - y2)
+    const steps = Math.min(100, Math.max(2, Math.ceil(Math.sqrt(length) * 1.5)))
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps
+      const u = 1 - t
+      points.push([
+        u * u * u * x0 + 3 * u * u * t * x1 + 3 * u * t * t * x2 + t * t * t * x3,
+        u * u * u * y0 + 3 * u * u * t * y1 + 3 * u * t * t * y2 + t * t * t * y3
+      ])
+    }
+  }
+
+  rect(x: number, y: number, width: number, height: number): void {
+    this.path.push({
+      points: [this.project(x, y), this.project(x + width, y), this.project(x + width, y + height), this.project(x, y + height)],
+      closed: true
+    })
+    this.moveTo(x, y)
+  }
+
+  // Drawing
+
+  fill(): void {
+    this.paint(this.path.map(subpath => subpath.points), this.state.fillStyle)
+  }
+
+  stroke(): void {
+    const [a, b, c, d] = this.state.transform
+    const half = this.state.lineWidth * Math.sqrt(Math.abs(a * d - b * c)) / 2
+    const polygons: Point[][] = []
+
+    for (const { points, closed } of this.path) {
+      const vertices = closed ? [...points, points[0]] : points
+      for (let index = 1; index < vertices.length; index++) {
+        const [px, py] = vertices[index - 1]
+        const [qx, qy] = vertices[index]
+        const length = Math.hypot(qx - px, qy - py)
+        if (length === 0) continue
+        const nx = -(qy - py) / length * half
+        const ny = (qx - px) / length * half
+        polygons.push(oriented([[px + nx, py + ny], [qx + nx, qy + ny], [qx - nx, qy - ny], [px - nx, py - ny]]))
+      }
+      // Round joins between segments (and around the start of closed paths)
+      const joins = closed ? vertices.slice(0, -1) : vertices.slice(1, -1)
+      joins.forEach(([x, y]) => polygons.push(circle(x, y, half)))
+    }
+
+    this.paint(polygons, this.state.strokeStyle)
+  }
+
+  clip(): void {
+    const coverage = this.coverage(this.path.map(subpath => subpath.points))
+    const mask = new Float32Array(this.width * this.height)
+    if (coverage) {
+      for (let row = 0; row < coverage.height; row++) {
+        for (let column = 0; column < coverage.width; column++) {
+          const index = (coverage.y + row) * this.width + coverage.x + column
+          mask[index] = Math.min(1, coverage.values[row * coverage.width + column]) * (this.state.clip ? this.state.clip[index] : 1)
+        }
+      }
+    }
+    this.state.clip = mask
+  }
+
+  fillRect(x: number, y: number, width: number, height: number): void {
+    this.paint([[this.project(x, y), this.project(x + width, y), this.project(x + width, y + height), this.project(x, y + height)]], this.state.fillStyle)
+  }
+
+  fillText(text: string, x: number, y: number): void {
+    const { size, font } = parseCssFont(this.state.font)
+    const width = textWidth(text, font, size)
+    const align = this.state.textAlign
+    const left = align === 'center' ? x - width / 2 : align === 'right' || align === 'end' ? x - width : x
+    const baseline = this.state.textBaseline === 'top' || this.state.textBaseline === 'hanging' ? y + size * 0.75
+      : this.state.textBaseline === 'middle' ? y + size * 0.3
+      : this.state.textBaseline === 'bottom' || this.state.textBaseline === 'ideographic' ? y - size * 0.2
+      : y
+
+    // One bar per word, spanning the x-height
+    const bars: Point[][] = []
+    for (const match of text.matchAll(/\S+/g)) {
+      const start = left + textWidth(text.slice(0, match.index ?? 0), font, size)
+      const end = start + textWidth(match[0], font, size)
+      const top = baseline - size * 0.52
+      bars.push([this.project(start, top), this.project(end, top), this.project(end, baseline), this.project(start, baseline)])
+    }
+    this.paint(bars, this.state.fillStyle)
+  }
+
+  measureText(text: string): { width: number } {
+    const { size, font } = parseCssFont(this.state.font)
+    return { width: textWidth(text, font, size) }
+  }
+
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): CanvasGradient {
+    return new RasterGradient('linear', [x0, y0, x1, y1])
+  }
+
+  /**
+   * Radial gradients are treated as concentric around the end circle's centre
+   */
+  createRadialGradient(_x0: number, _y0: number, r0: number, x1: number, y1: number, r1: number): CanvasGradient {
+    return new RasterGradient('radial', [x1, y1, r0, r1])
+  }
+
+  /**
+   * Bilinear sampling; images shrunk below half size are box-filtered first
+   */
+  drawImage(image: RasterImage, dx: number, dy: number, dw: number, dh: number): void {
+    if (image.width === 0 || image.height === 0 || dw === 0 || dh === 0) return
+
+    let source = image
+    let [a, b, c, d, e, f] = this.state.transform
+    e += a * dx + c * dy
+    f += b * dx + d * dy
+    a *= dw / image.width
+    b *= dw / image.width
+    c *= dh / image.height
+    d *= dh / image.height
+
+    const factor = Math.floor(1 / Math.sqrt(Math.abs(a * d - b * c)))
+    if (factor >= 2) {
+      source = downsample(image, factor)
+      a *= image.width / source.width
+      b *= image.width / source.width
+      c *= image.height / source.height
+      d *= image.height / source.height
+    }
+
+    const inverse = invert([a, b, c, d, e, f])
+    if (!inverse) return
+    const corners: Point[] = [[e, f], [a * source.width + e, b * source.width + f], [c * source.height + e, d * source.height + f],
+      [a * source.width + c * source.height + e, b * source.width + d * source.height + f]]
+    const box = this.bounds(corners)
+    if (!box) return
+
+    const pixel: RGBA = { r: 0, g: 0, b: 0, a: 0 }
+    for (let y = box.y; y < box.y + box.height; y++) {
+      for (let x = box.x; x < box.x + box.width; x++) {
+        const [u, v] = apply(inverse, x + 0.5, y + 0.5)
+        if (u < 0 || v < 0 || u >= source.width || v >= source.height) continue
+        sampleBilinear(source, u - 0.5, v - 0.5, pixel)
+        this.blend(y * this.width + x, pixel, pixel.a)
+      }
+    }
+  }
+
+  // Rasterization
+
+  private project(x: number, y: number): Point {
+    return apply(this.state.transform, x, y)
+  }
+
+  private paint(polygons: Point[][], style: string | CanvasGradient | CanvasPattern): void {
+    const coverage = this.coverage(polygons)
+    if (!coverage) return
+
+    const gradient = style instanceof RasterGradient ? style : null
+    const solid = typeof style === 'string' ? parseCssColor(style) : null
+    if (!gradient && !solid) return
+    const inverse = gradient ? invert(this.state.transform) : null
+    if (gradient && !inverse) return
+
+    const color: RGBA = solid ? { ...solid } : { r: 0, g: 0, b: 0, a: 0 }
+    for (let row = 0; row < coverage.height; row++) {
+      const y = coverage.y + row
+      for (let column = 0; column < coverage.width; column++) {
+        const amount = Math.min(1, coverage.values[row * coverage.width + column])
+        if (amount <= 0) continue
+        const x = coverage.x + column
+        if (gradient && inverse) {
+          const [u, v] = apply(inverse, x + 0.5, y + 0.5)
+          gradient.colorAt(u, v, color)
+        }
+        this.blend(y * this.width + x, color, color.a * amount)
+      }
+    }
+  }
+
+  /**
+   * Source-over onto straight alpha pixels, after globalAlpha and the clip mask
+   */
+  private blend(index: number, color: RGBA, alpha: number): void {
+    const source = alpha * this.state.globalAlpha * (this.state.clip ? this.state.clip[index] : 1)
+    if (source <= 0) return
+
+    const offset = index * 4
+    const destination = this.data[offset + 3] / 255
+    const remaining = destination * (1 - source)
+    const result = source + remaining
+    this.data[offset] = (color.r * source + this.data[offset] * remaining) / result
+    this.data[offset + 1] = (color.g * source + this.data[offset + 1] * remaining) / result
+    this.data[offset + 2] = (color.b * source + this.data[offset + 2] * remaining) / result
+    this.data[offset + 3] = result * 255
+  }
+
+  private bounds(points: Point[]): { x: number; y: number; width: number; height: number } | null {
+    if (points.length === 0) return null
+    const xs = points.map(point => point[0])
+    const ys = points.map(point => point[1])
+    const x0 = Math.max(0, Math.floor(Math.min(...xs)))
+    const y0 = Math.max(0, Math.floor(Math.min(...ys)))
+    const x1 = Math.min(this.width, Math.ceil(Math.max(...xs)))
+    const y1 = Math.min(this.height, Math.ceil(Math.max(...ys)))
+    return x1 > x0 && y1 > y0 ? { x: x0, y: y0, width: x1 - x0, height: y1 - y0 } : null
+  }
+
+  /**
+   * Per-pixel coverage (0…1, nonzero winding) of implicitly closed polygons
+   */
+  private coverage(polygons: Point[][]): Coverage | null {
+    let minX = Infinity
+    let minY = Infinity
+    let maxX = -Infinity
+    let maxY = -Infinity
+    const edges: Edge[] = []
+    for (const polygon of polygons) {
+      for (let index = 0; index < polygon.length; index++) {
+        const [x0, y0] = polygon[index]
+        const [x1, y1] = polygon[(index + 1) % polygon.length]
+        minX = Math.min(minX, x0)
+        maxX = Math.max(maxX, x0)
+        minY = Math.min(minY, y0)
+        maxY = Math.max(maxY, y0)
+        if (y0 !== y1) {
+          edges.push(y0 < y1
+            ? { top: y0, bottom: y1, x: x0, slope: (x1 - x0) / (y1 - y0), direction: 1 }
+            : { top: y1, bottom: y0, x: x1, slope: (x0 - x1) / (y0 - y1), direction: -1 })
+        }
+      }
+    }
+
+    const box = this.bounds([[minX, minY], [maxX, maxY]])
+    if (!box || edges.length === 0) return null
+
+    const values = new Float32Array(box.width * box.height)
+    const interior = new Float32Array(box.width + 1)
+    const weight = 1 / SUBSAMPLES
+    const right = box.x + box.width
+    edges.sort((first, second) => first.top - second.top)
+
+    let active: Edge[] = []
+    let next = 0
+    const crossings: Array<[number, number]> = []
+
+    for (let row = 0; row < box.height; row++) {
+      const y = box.y + row
+      while (next < edges.length && edges[next].top < y + 1) active.push(edges[next++])
+      active = active.filter(edge => edge.bottom > y)
+      if (active.length === 0) continue
+      interior.fill(0)
+      const rowOffset = row * box.width
+
+      for (let sample = 0; sample < SUBSAMPLES; sample++) {
+        const sy = y + (sample + 0.5) * weight
+        crossings.length = 0
+        for (const edge of active) {
+          if (edge.top <= sy && sy < edge.bottom) crossings.push([edge.x + (sy - edge.top) * edge.slope, edge.direction])
+        }
+        crossings.sort((first, second) => first[0] - second[0])
+
+        let winding = 0
+        let start = 0
+        for (const [x, direction] of crossings) {
+          const before = winding
+          winding += direction
+          if (before === 0 && winding !== 0) {
+            start = x
+          } else if (before !== 0 && winding === 0) {
+            // Span [start, x): partial pixels at the ends, whole pixels through the prefix sum
+            const from = Math.max(box.x, start)
+            const to = Math.min(right, x)
+            if (to <= from) continue
+            const first = Math.floor(from)
+            const last = Math.floor(to)
+            if (first === last) {
+              values[rowOffset + first - box.x] += (to - from) * weight
+            } else {
+              values[rowOffset + first - box.x] += (first + 1 - from) * weight
+              interior[first + 1 - box.x] += weight
+              interior[last - box.x] -= weight
+              if (last < right) values[rowOffset + last - box.x] += (to - last) * weight
+            }
+          }
+        }
+      }
+
+      let running = 0
+      for (let column = 0; column < box.width; column++) {
+        running += interior[column]
+        values[rowOffset + column] += running
+      }
+    }
+
+    return { ...box, values }
+  }
+}
+
+// Gradients
+
+class RasterGradient implements CanvasGradient {
+  private stops: Array<{ offset: number; color: RGBA }> = []
+
+  constructor(private kind: 'linear' | 'radial', private coords: number[]) {}
+
+  addColorStop(offset: number, color: string): void {
+    if (!(offset >= 0 && offset <= 1)) throw new RangeError(`Colour stop offset ${offset} is outside 0…1`)
+    const parsed = parseCssColor(color)
+    if (parsed === undefined) throw new SyntaxError(`Colour '${color}' could not be parsed`)
+    this.stops.push({ offset, color: parsed ?? { r: 0, g: 0, b: 0, a: 0 } })
+    this.stops.sort((first, second) => first.offset - second.offset)
+  }
+
+  /**
+   * Colour at a point in the user space the gradient was created in, written into target
+   */
+  colorAt(x: number, y: number, target: RGBA): void {
+    const stops = this.stops
+    if (stops.length === 0) {
+      target.a = 0
+      return
+    }
+
+    let t: number
+    if (this.kind === 'linear') {
+      const [x0, y0, x1, y1] = this.coords
+      const dx = x1 - x0
+      const dy = y1 - y0
+      const length = dx * dx + dy * dy
+      t = length === 0 ? 0 : ((x - x0) * dx + (y - y0) * dy) / length
+    } else {
+      const [cx, cy, r0, r1] = this.coords
+      t = r1 === r0 ? 1 : (Math.hypot(x - cx, y - cy) - r0) / (r1 - r0)
+    }
+
+    let upper = stops.findIndex(stop => stop.offset > t)
+    if (upper === -1) upper = stops.length
+    const from = stops[Math.max(0, upper - 1)]
+    const to = stops[Math.min(stops.length - 1, upper)]
+    const span = to.offset - from.offset
+    const mix = span === 0 ? 0 : (t - from.offset) / span
+
+    // Interpolate premultiplied so transparent stops do not darken their neighbours
+    const alpha = from.color.a + (to.color.a - from.color.a) * mix
+    const channel = (key: 'r' | 'g' | 'b') => alpha === 0 ? 0
+      : (from.color[key] * from.color.a * (1 - mix) + to.color[key] * to.color.a * mix) / alpha
+    target.r = channel('r')
+    target.g = channel('g')
+    target.b = channel('b')
+    target.a = alpha
+  }
+}
+
+// Helpers
+
+type Point = [number, number]
+/** a b c d e f: x' = a·x + c·y + e, y' = b·x + d·y + f */
+type Matrix = [number, number, number, number, number, number]
+
+interface DrawingState {
+  transform: Matrix
+  globalAlpha: number
+  fillStyle: string | CanvasGradient | CanvasPattern
+  strokeStyle: string | CanvasGradient | CanvasPattern
+  lineWidth: number
+  font: string
+  textAlign: CanvasTextAlign
+  textBaseline: CanvasTextBaseline
+  shadowColor: string
+  shadowBlur: number
+  shadowOffsetX: number
+  shadowOffsetY: number
+  filter: string
+  /** Per-pixel clip coverage; replaced, never mutated, so saved states can share it */
+  clip: Float32Array | null
+}
+
+interface Subpath {
+  points: Point[]
+  closed: boolean
+}
+
+interface Edge {
+  top: number
+  bottom: number
+  /** x at top */
+  x: number
+  slope: number
+  direction: number
+}
+
+interface Coverage {
+  x: number
+  y: number
+  width: number
+  height: number
+  values: Float32Array
+}
+
+const SUBSAMPLES = 4
+
+function apply([a, b, c, d, e, f]: Matrix, x: number, y: number): Point {
+  return [a * x + c * y + e, b * x + d * y + f]
+}
+
+function invert([a, b, c, d, e, f]: Matrix): Matrix | null {
+  const determinant = a * d - b * c
+  if (Math.abs(determinant) < 1e-12) return null
+  return [d / determinant, -b / determinant, -c / determinant, a / determinant, (c * f - d * e) / determinant, (b * e - a * f) / determinant]
+}
+
+/**
+ * Polygons wound the same way, so overlapping stroke pieces never cancel out
+ */
+function oriented(points: Point[]): Point[] {
+  let area = 0
+  points.forEach(([x0, y0], index) => {
+    const [x1, y1] = points[(index + 1) % points.length]
+    area += x0 * y1 - x1 * y0
+  })
+  return area < 0 ? points.reverse() : points
+}
+
+function circle(x: number, y: number, radius: number): Point[] {
+  const segments = Math.min(32, Math.max(8, Math.ceil(radius * 2)))
+  return Array.from({ length: segments }, (_, index) => {
+    const angle = index / segments * Math.PI * 2
+    return [x + Math.cos(angle) * radius, y + Math.sin(angle) * radius] as Point
+  })
+}
+
+function sampleBilinear(image: RasterImage, u: number, v: number, target: RGBA): void {
+  const x0 = Math.max(0, Math.min(image.width - 1, Math.floor(u)))
+  const y0 = Math.max(0, Math.min(image.height - 1, Math.floor(v)))
+  const x1 = Math.min(image.width - 1, x0 + 1)
+  const y1 = Math.min(image.height - 1, y0 + 1)
+  const fx = Math.max(0, Math.min(1, u - x0))
+  const fy = Math.max(0, Math.min(1, v - y0))
+  const weights = [(1 - fx) * (1 - fy), fx * (1 - fy), (1 - fx) * fy, fx * fy]
+  const offsets = [(y0 * image.width + x0) * 4, (y0 * image.width + x1) * 4, (y1 * image.width + x0) * 4, (y1 * image.width + x1) * 4]
+
+  let r = 0
+  let g = 0
+  let b = 0
+  let a = 0
+  offsets.forEach((offset, index) => {
+    const weight = weights[index] * image.data[offset + 3]
+    r += image.data[offset] * weight
+    g += image.data[offset + 1] * weight
+    b += image.data[offset + 2] * weight
+    a += weight
+  })
+  target.r = a > 0 ? r / a : 0
+  target.g = a > 0 ? g / a : 0
+  target.b = a > 0 ? b / a : 0
+  target.a = a / 255
+}
+
+const downsampled = new WeakMap<RasterImage, Map<number, RasterImage>>()
+
+/**
+ * Average factor × factor blocks (alpha-weighted), cached per image
+ */
+function downsample(image: RasterImage, factor: number): RasterImage {
+  const cache = downsampled.get(image) ?? new Map<number, RasterImage>()
+  downsampled.set(image, cache)
+  const cached = cache.get(factor)
+  if (cached) return cached
+
+  const width = Math.max(1, Math.ceil(image.width / factor))
+  const height = Math.max(1, Math.ceil(image.height / factor))
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      let count = 0
+      for (let sy = y * factor; sy < Math.min(image.height, (y + 1) * factor); sy++) {
+        for (let sx = x * factor; sx < Math.min(image.width, (x + 1) * factor); sx++) {
+          const offset = (sy * image.width + sx) * 4
+          const alpha = image.data[offset + 3]
+          r += image.data[offset] * alpha
+          g += image.data[offset + 1] * alpha
+          b += image.data[offset + 2] * alpha
+          a += alpha
+          count++
+        }
+      }
+      const offset = (y * width + x) * 4
+      data[offset] = a > 0 ? r / a : 0
+      data[offset + 1] = a > 0 ? g / a : 0
+      data[offset + 2] = a > 0 ? b / a : 0
+      data[offset + 3] = a / count
+    }
+  }
+
+  const result = { width, height, data }
+  cache.set(factor, result)
+  return result
+}
@@ -0,0 +1,210 @@
+import type { StorageAdapter } from '../../../shared/types'
+
+export type { StorageAdapter }
+
+/**
+ * Error raised when a storage backend cannot be opened or accessed
+ */
+export class StorageError extends Error {
+  constructor(message: string, public code: 'UNAVAILABLE' | 'READ_FAILED' | 'WRITE_FAILED') {
+    super(message)
+    this.name = 'StorageError'
+  }
+}
+
+/**
+ * In-memory adapter for tests and environments without persistent storage
+ * Values are serialized on write so callers observe the same behaviour as the browser adapters
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private entries = new Map<string, string>()
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = this.entries.get(key)
+    return value === undefined ? null : JSON.parse(value) as T
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    this.entries.set(key, JSON.stringify(value))
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.entries.keys())
+  }
+}
+
+/**
+ * Adapter backed by window.localStorage
+ * Keys are namespaced with a prefix so clear() only removes this adapter's entries
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  private storage: Storage
+  private prefix: string
+
+  constructor(prefix: string = 'vyb:', storage?: Storage) {
+    const resolved = storage ?? (typeof localStorage !== 'undefined' ? localStorage : undefined)
+    if (!resolved) {
+      throw new StorageError('localStorage is not available', 'UNAVAILABLE')
+    }
+    this.storage = resolved
+    this.prefix = prefix
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = this.storage.getItem(this.prefix + key)
+    if (value === null) {
+      return null
+    }
+
+    try {
+      return JSON.parse(value) as T
+    } catch (error) {
+      throw new StorageError(`Corrupt entry for ${key}: ${(error as Error).message}`, 'READ_FAILED')
+    }
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    try {
+      this.storage.setItem(this.prefix + key, JSON.stringify(value))
+    } catch (error) {
+      // Typically QuotaExceededError
+      throw new StorageError(`Failed to write ${key}: ${(error as Error).message}`, 'WRITE_FAILED')
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.storage.removeItem(this.prefix + key)
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.keys()
+    keys.forEach(key => this.storage.removeItem(this.prefix + key))
+  }
+
+  async keys(): Promise<string[]> {
+    const keys: string[] = []
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i)
+      if (key?.startsWith(this.prefix)) {
+        keys.push(key.slice(this.prefix.length))
+      }
+    }
+    return keys
+  }
+}
+
+/**
+ * Adapter backed by a single IndexedDB object store
+ * The database is opened lazily on first access and reused afterwards
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  constructor(
+    private databaseName: string = 'vyb',
+    private storeName: string = 'keyval',
+    private factory?: IDBFactory
+  ) {}
+
+  /**
+   * Whether IndexedDB exists in the current environment
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined'
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = await this.request<T | undefined>('readonly', store => store.get(key))
+    return value === undefined ? null : value
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key))
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key))
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear())
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.request<IDBValidKey[]>('readonly', store => store.getAllKeys())
+    return keys.map(String)
+  }
+
+  /**
+   * Close the underlying database connection
+   */
+  async close(): Promise<void> {
+    if (this.dbPromise) {
+      const db = await this.dbPromise
+      db.close()
+      this.dbPromise = null
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const factory = this.factory ?? (IndexedDBStorageAdapter.isAvailable() ? indexedDB : undefined)
+      if (!factory) {
+        return Promise.reject(new StorageError('IndexedDB is not available', 'UNAVAILABLE'))
+      }
+
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = factory.open(this.databaseName, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName)
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          this.dbPromise = null
+          reject(new StorageError(`Failed to open ${this.databaseName}: ${request.error?.message}`, 'UNAVAILABLE'))
+        }
+      })
+    }
+    return this.dbPromise
+  }
+
+  private async request<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open()
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode)
+      const request = action(transaction.objectStore(this.storeName))
+      transaction.oncomplete = () => resolve(request.result as T)
+      // A transaction aborted by the browser (e.g. quota exceeded) fires abort without error
+      transaction.onerror = transaction.onabort = () => {
+        const code = mode === 'readonly' ? 'READ_FAILED' : 'WRITE_FAILED'
+        const reason = transaction.error?.message ?? request.error?.message ?? 'transaction aborted'
+        reject(new StorageError(`IndexedDB ${mode} failed: ${reason}`, code))
+      }
+    })
+  }
+}
+
+/**
+ * Picks the most durable adapter the browser supports:
+ * IndexedDB, then localStorage, then memory
+ */
+export function createBrowserStorageAdapter(namespace: string = 'vyb'): StorageAdapter {
+  if (IndexedDBStorageAdapter.isAvailable()) {
+    return new IndexedDBStorageAdapter(namespace)
+  }
+
+  try {
+    return new LocalStorageAdapter(`${namespace}:`)
+  } catch {
+    return new MemoryStorageAdapter()
+  }
+}
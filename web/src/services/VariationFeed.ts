@@ -0,0 +1,128 @@
+import { DesignCanvas } from '../models/DesignCanvas'
+import { DesignVariation } from '../models/DesignVariation'
+import { toCanvasModel } from '../models/adapters'
+import { AIProcessingState } from '../types'
+import type { AICollaborationState } from '../models/AICollaborationState'
+import type { AIRequestOptions, AIService, VariationRequest } from './AIService'
+import { isAbortError } from './AIRequestExecutor'
+import { HistoryError } from './HistoryManager'
+import type { HistoryManager, HistoryNode } from './HistoryManager'
+import { variationProcessor } from './VariationProcessor'
+import type { VariationProcessor } from './VariationProcessor'
+
+export interface VariationFeedOptions extends AIRequestOptions {
+  history: HistoryManager
+  /** Checks each variation against layer constraints and device bounds (default: the shared processor) */
+  processor?: VariationProcessor
+  /** Receives progress, the generating/ready/error state and a confidence score per node */
+  state?: AICollaborationState
+  /** History node the variations branch from (default: the current node) */
+  parentNodeId?: string
+  /** Variations below this confidence are dropped (default: state.settings.confidenceThreshold, else 0) */
+  confidenceThreshold?: number
+  onVariation?: (node: HistoryNode, variation: DesignVariation) => void
+}
+
+export interface VariationFeedResult {
+  requestId: string | null
+  /** History nodes added, in arrival order */
+  nodes: HistoryNode[]
+  /** Variations dropped for low confidence or because they could not be processed */
+  skipped: number
+  confidence: number
+}
+
+/**
+ * Stream AI variations into history as they arrive
+ *
+ * Each variation goes through the VariationProcessor and becomes a sibling node under
+ * the parent without changing the current node, so a GestureNavigationManager on the
+ * same history gains a card per variation while the user keeps swiping. Resolves once
+ * the stream completes; cancelling through options.signal keeps the nodes added so far.
+ */
+export async function streamVariationsToFeed(
+  service: AIService,
+  request: VariationRequest,
+  options: VariationFeedOptions
+): Promise<VariationFeedResult> {
+  const { history, state } = options
+  const processor = options.processor ?? variationProcessor
+  const threshold = options.confidenceThreshold ?? state?.settings.confidenceThreshold ?? 0
+
+  const parentId = options.parentNodeId ?? history.getCurrentNode()?.id
+  if (!parentId) {
+    throw new HistoryError('No parent node available. Initialize history first.', 'NO_PARENT')
+  }
+
+  const result: VariationFeedResult = { requestId: null, nodes: [], skipped: 0, confidence: 0 }
+  let received = 0
+
+  const addVariation = async (variation: DesignVariation, baseCanvas: DesignCanvas) => {
+    if (variation.confidence < threshold) {
+      result.skipped++
+      return
+    }
+
+    let processed: DesignVariation
+    try {
+      processed = (await processor.processVariation(variation, baseCanvas)).variation
+    } catch (error) {
+      console.error(`Failed to process variation ${variation.id}:`, error)
+      result.skipped++
+      return
+    }
+
+    const node = history.addNode(processed.canvasState, parentId, {
+      source: 'ai',
+      description: processed.prompt,
+      confidence: processed.confidence,
+      aiPrompt: processed.prompt,
+      tags: ['variation', request.variationType]
+    }, { select: false })
+    state?.updateConfidenceScore(node.id, processed.confidence)
+    result.nodes.push(node)
+    options.onVariation?.(node, processed)
+  }
+
+  if (state) {
+    state.clearError()
+    state.setState(AIProcessingState.GENERATING)
+    state.metadata.currentPrompt = `${request.variationType} variations`
+    state.setGenerationProgress(0, request.count)
+  }
+
+  try {
+    const baseCanvas = toCanvasModel(request.baseCanvas)
+
+    for await (const event of service.streamVariations(request, options)) {
+      switch (event.type) {
+        case 'progress':
+          state?.setGenerationProgress(Math.min(event.completed, event.total), event.total)
+          break
+        case 'variation':
+          received++
+          await addVariation(event.variation, baseCanvas)
+          state?.setGenerationProgress(Math.min(received, event.total), Math.max(received, event.total))
+          break
+        case 'complete':
+          result.requestId = event.requestId
+          result.confidence = event.confidence
+          break
+      }
+    }
+
+    state?.clearGenerationProgress()
+    state?.setState(AIProcessingState.READY)
+    return result
+  } catch (error) {
+    if (state) {
+      state.clearGenerationProgress()
+      if (isAbortError(error) || options.signal?.aborted) {
+        state.reset()
+      } else {
+        state.setError(error instanceof Error ? error.message : String(error))
+      }
+    }
+    throw error
+  }
+}
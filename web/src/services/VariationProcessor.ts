@@ -7,16 +7,26 @@
 import React from 'react';
 import { DesignCanvas, LayerData } from '../models/DesignCanvas';
 import { DesignVariation } from '../models/DesignVariation';
+import { Layer } from '../models/Layer';
+import { produceCanvas, setLayerProperty } from '../models/mutations';
+import { toVariationModel } from '../models/adapters';
+import { diffLayers } from '../models/diff';
+import { LayerType, ValidationError } from '../types';
+import { DEVICE_SPECIFICATIONS } from '../data/device-specs';
 import { AISuggestion, VariationResponse } from './AIService';
+import { drawCanvas } from './CanvasRenderer';
 
 // MARK: - Processing Types
 
 export interface LayerChange {
+  /** The canvas id for canvas-level changes (deviceType, dimensions) */
   layerId: string;
   property: string;
   currentValue: any;
   suggestedValue: any;
   reason: string;
+  /** Why the change was not applied (only set on rejected changes) */
+  rejectionReason?: string;
 }
 
 export interface ProcessingOptions {
@@ -52,6 +62,16 @@ export interface ChangeApplication {
   error?: string;
 }
 
+/** Image types a browser 2D context can draw and measure */
+export type PreviewImage = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+export interface VariationProcessorOptions {
+  /** Loads an image layer's imageData or imageUrl for previews (default: an <img> element) */
+  loadPreviewImage?: (source: string) => Promise<PreviewImage>;
+  /** How many decoded images previews keep around (default 50) */
+  imageCacheSize?: number;
+}
+
 export interface VariationTree {
   root: DesignVariation;
   branches: Map<string, DesignVariation[]>;
@@ -62,6 +82,23 @@ export interface VariationTree {
   };
 }
 
+// Relative tolerance for scaleX/scaleY when a layer must keep its aspect ratio
+const ASPECT_RATIO_TOLERANCE = 0.01;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+type LayerSection = 'transform' | 'content' | 'style' | 'constraints';
+const LAYER_SECTIONS: readonly LayerSection[] = ['transform', 'content', 'style', 'constraints'];
+
+const isLayerSection = (value: string): value is LayerSection =>
+  (LAYER_SECTIONS as readonly string[]).includes(value);
+
+const DEFAULT_IMAGE_CACHE_SIZE = 50;
+const IMAGE_LOAD_TIMEOUT_MS = 10000;
+const PREVIEW_BACKGROUND = '#ffffff';
+// Stands in for images that could not be loaded, so the card still shows the layout
+const IMAGE_PLACEHOLDER = '#e5e7eb';
+
 // MARK: - Variation Processor Class
 
 export class VariationProcessor {
@@ -81,6 +118,16 @@ export class VariationProcessor {
     autoSave: true
   };
 
+  /** Loads in flight or finished, least recently used first */
+  private imageCache = new Map<string, Promise<PreviewImage | null>>();
+  private loadPreviewImage: (source: string) => Promise<PreviewImage>;
+  private imageCacheSize: number;
+
+  constructor(options: VariationProcessorOptions = {}) {
+    this.loadPreviewImage = options.loadPreviewImage ?? loadImageElement;
+    this.imageCacheSize = options.imageCacheSize ?? DEFAULT_IMAGE_CACHE_SIZE;
+  }
+
   // MARK: - Public API
 
   /**
@@ -95,21 +142,24 @@ export class VariationProcessor {
     const startTime = Date.now();
 
     try {
-      // Validate AI response
-      this.validateAIResponse(aiResponse);
+      // Prefer full variation records (prompt, source) over bare canvases
+      const candidates: (DesignCanvas | DesignVariation)[] = aiResponse.designVariations ?? aiResponse.variations;
+
+      // Validate the variations that will actually be processed
+      this.validateAIResponse(candidates);
 
       // Process each variation
       const processedVariations: DesignVariation[] = [];
       const appliedChanges: LayerChange[] = [];
       const rejectedChanges: LayerChange[] = [];
 
-      for (const variationData of aiResponse.variations) {
+      for (const variationData of candidates) {
         if (processedVariations.length >= processOptions.maxVariations) {
           break;
         }
 
-        // Convert DesignCanvas to DesignVariation if needed
-        const variation = this.ensureDesignVariation(variationData, baseCanvas);
+        // Wrap bare canvases as variations of the base canvas
+        const variation = this.ensureDesignVariation(variationData, baseCanvas, aiResponse.confidence);
 
         if (variation.confidence < processOptions.confidenceThreshold) {
           console.warn(`Skipping variation ${variation.id} due to low confidence: ${variation.confidence}`);
@@ -119,6 +169,7 @@ export class VariationProcessor {
         try {
           const processedVariation = await this.processVariation(
             variation,
+            baseCanvas,
             processOptions
           );
 
@@ -163,8 +214,8 @@ export class VariationProcessor {
     const processOptions = { ...this.defaultOptions, ...options };
     const changes: ChangeApplication[] = [];
 
-    // Create a deep copy of the canvas
-    const modifiedCanvas = this.deepCloneCanvas(targetCanvas);
+    // Each applied change yields a new canvas; targetCanvas is never modified
+    let modifiedCanvas = targetCanvas;
 
     for (const suggestion of suggestions) {
       if (suggestion.confidence < processOptions.confidenceThreshold) {
@@ -174,7 +225,8 @@ export class VariationProcessor {
       if (suggestion.changes) {
         for (const change of suggestion.changes) {
           try {
-            const application = await this.applyLayerChange(modifiedCanvas, change);
+            const { canvas, application } = this.applyLayerChange(modifiedCanvas, change);
+            modifiedCanvas = canvas;
             changes.push(application);
           } catch (error) {
             changes.push({
@@ -193,8 +245,95 @@ export class VariationProcessor {
     return { canvas: modifiedCanvas, changes };
   }
 
+  /**
+   * Diff a variation against its base canvas and keep only the changes that
+   * respect layer constraints and device bounds
+   * The returned variation's canvas is the base canvas with the applied changes;
+   * a different device or canvas size is always rejected, since the layers were
+   * only checked against the base canvas bounds.
+   */
+  async processVariation(
+    variation: DesignVariation,
+    baseCanvas: DesignCanvas,
+    _options: Partial<ProcessingOptions> = {}
+  ): Promise<{
+    variation: DesignVariation;
+    appliedChanges: LayerChange[];
+    rejectedChanges: LayerChange[];
+  }> {
+    // Validate variation canvas
+    this.validateVariationCanvas(variation.canvasState);
+
+    const bounds = this.getDeviceBounds(baseCanvas);
+    const appliedChanges: LayerChange[] = [];
+    const rejectedChanges: LayerChange[] = this.diffCanvasFields(baseCanvas, variation.canvasState)
+      .map(change => ({ ...change, rejectionReason: 'Device and canvas size can only be changed by the user' }));
+
+    const baseLayers = new Map(baseCanvas.layers.map(layer => [layer.id, layer]));
+    const variationLayers = new Map(variation.canvasState.layers.map(layer => [layer.id, layer]));
+
+    for (const baseLayer of baseCanvas.layers) {
+      const suggested = variationLayers.get(baseLayer.id);
+
+      if (!suggested) {
+        const change = this.createChange(baseLayer.id, 'layer', baseLayer, null, 'Layer removed');
+        if (baseLayer.constraints.locked) {
+          rejectedChanges.push({ ...change, rejectionReason: 'Layer is locked' });
+        } else {
+          appliedChanges.push(change);
+        }
+        continue;
+      }
+
+      const result = this.validateLayerChanges(baseLayer, this.diffLayer(baseLayer, suggested), bounds);
+      appliedChanges.push(...result.applied);
+      rejectedChanges.push(...result.rejected);
+    }
+
+    for (const layer of variation.canvasState.layers) {
+      if (baseLayers.has(layer.id)) {
+        continue;
+      }
+
+      const change = this.createChange(layer.id, 'layer', null, layer, 'Layer added');
+      const rejectionReason = this.validateLayer(layer, null, bounds);
+      if (rejectionReason) {
+        rejectedChanges.push({ ...change, rejectionReason });
+      } else {
+        appliedChanges.push(change);
+      }
+    }
+
+    if (rejectedChanges.length === 0) {
+      return { variation, appliedChanges, rejectedChanges };
+    }
+
+    const canvasState = produceCanvas(variation.canvasState, draft => {
+      draft.deviceType = baseCanvas.deviceType;
+      draft.dimensions = { ...baseCanvas.dimensions };
+      draft.layers = this.applyChanges(baseCanvas.layers, appliedChanges);
+    }, { touch: false });
+
+    return {
+      variation: new DesignVariation({
+        id: variation.id,
+        parentId: variation.parentId,
+        canvasState,
+        source: variation.source,
+        prompt: variation.prompt,
+        confidence: variation.confidence,
+        timestamp: variation.timestamp,
+        metadata: variation.metadata
+      }),
+      appliedChanges,
+      rejectedChanges
+    };
+  }
+
   /**
    * Generate variation preview
+   * The design is scaled to fit and centred; layers are drawn by zIndex with their
+   * transforms, gradients, borders, shadows, filters, images and wrapped text.
    */
   async generateVariationPreview(
     variation: DesignVariation,
@@ -212,20 +351,18 @@ export class VariationProcessor {
       }
 
       // Render canvas background
-      ctx.fillStyle = '#ffffff';
+      ctx.fillStyle = PREVIEW_BACKGROUND;
       ctx.fillRect(0, 0, size.width, size.height);
 
       // Scale to fit canvas dimensions
-      const scaleX = size.width / variation.canvasState.dimensions.width;
-      const scaleY = size.height / variation.canvasState.dimensions.height;
-      const scale = Math.min(scaleX, scaleY);
+      const { width, height } = variation.canvasState.dimensions;
+      const scale = Math.min(size.width / width, size.height / height);
 
+      ctx.translate((size.width - width * scale) / 2, (size.height - height * scale) / 2);
       ctx.scale(scale, scale);
 
-      // Render layers
-      for (const layer of variation.canvasState.layers) {
-        await this.renderLayerToCanvas(ctx, layer);
-      }
+      const images = await this.loadPreviewImages(variation.canvasState);
+      drawCanvas<PreviewImage>(ctx, variation.canvasState, { images, imagePlaceholder: IMAGE_PLACEHOLDER, scale });
 
       // Return base64 data URL
       return canvas.toDataURL('image/png');
@@ -238,56 +375,21 @@ export class VariationProcessor {
 
   // MARK: - Private Processing Methods
 
-  private ensureDesignVariation(data: any, baseCanvas: DesignCanvas): DesignVariation {
-    // If data is already a DesignVariation, return it
-    if (data instanceof DesignVariation) {
-      return data;
-    }
-
-    // Convert from API response format to DesignVariation
-    return new DesignVariation({
-      id: data.id || this.generateId(),
-      parentId: data.parentId || baseCanvas.id,
-      canvasState: data.canvas || data.canvasState || data,
-      source: data.source || 'ai_suggestion',
-      prompt: data.prompt || 'AI generated variation',
-      confidence: data.confidence || 0.5,
-      timestamp: new Date(data.timestamp || Date.now()),
-      metadata: data.metadata || {
-        tags: [],
-        notes: '',
-        approvalStatus: 'pending' as const
-      }
+  private ensureDesignVariation(
+    data: DesignCanvas | DesignVariation,
+    baseCanvas: DesignCanvas,
+    confidence: number
+  ): DesignVariation {
+    return toVariationModel(data, {
+      parentId: baseCanvas.id,
+      confidence
     });
   }
 
-  private async processVariation(
-    variation: DesignVariation,
-    _options: ProcessingOptions
-  ): Promise<{
-    variation: DesignVariation;
-    appliedChanges: LayerChange[];
-    rejectedChanges: LayerChange[];
-  }> {
-    const appliedChanges: LayerChange[] = [];
-    const rejectedChanges: LayerChange[] = [];
-
-    // Validate variation canvas
-    this.validateVariationCanvas(variation.canvasState);
-
-    // For now, we'll just return the variation as-is
-    // In a real implementation, you might process actual changes
-    return {
-      variation,
-      appliedChanges,
-      rejectedChanges
-    };
-  }
-
-  private async applyLayerChange(
+  private applyLayerChange(
     canvas: DesignCanvas,
     change: LayerChange
-  ): Promise<ChangeApplication> {
+  ): { canvas: DesignCanvas; application: ChangeApplication } {
     const layer = canvas.layers.find(l => l.id === change.layerId);
     
     if (!layer) {
@@ -297,14 +399,15 @@ export class VariationProcessor {
     const previousValue = this.getLayerProperty(layer, change.property);
     
     try {
-      this.setLayerProperty(layer, change.property, change.suggestedValue);
-      
       return {
-        layerId: change.layerId,
-        property: change.property,
-        previousValue,
-        newValue: change.suggestedValue,
-        success: true
+        canvas: setLayerProperty(canvas, change.layerId, change.property, change.suggestedValue),
+        application: {
+          layerId: change.layerId,
+          property: change.property,
+          previousValue,
+          newValue: change.suggestedValue,
+          success: true
+        }
       };
     } catch (error) {
       throw new Error(`Failed to apply change: ${error}`);
@@ -314,7 +417,7 @@ export class VariationProcessor {
   private getLayerProperty(layer: LayerData, propertyPath: string): any {
     const path = propertyPath.split('.');
     let current: any = layer;
-    
+
     for (const segment of path) {
       if (current && typeof current === 'object' && segment in current) {
         current = current[segment];
@@ -326,117 +429,256 @@ export class VariationProcessor {
     return current;
   }
 
-  private setLayerProperty(layer: LayerData, propertyPath: string, value: any): void {
-    const path = propertyPath.split('.');
-    let current: any = layer;
-    
-    for (let i = 0; i < path.length - 1; i++) {
-      const segment = path[i];
-      if (current && typeof current === 'object' && segment in current) {
-        current = current[segment];
-      } else {
-        throw new Error(`Property path ${propertyPath} not valid`);
-      }
+  // MARK: - Preview Images
+
+  private async loadPreviewImages(canvas: DesignCanvas): Promise<Map<string, PreviewImage>> {
+    const sources = new Set(canvas.layers
+      .filter(layer => layer.type === LayerType.IMAGE && layer.constraints.visible)
+      .map(layer => layer.content.imageData ?? layer.content.imageUrl)
+      .filter((source): source is string => Boolean(source)));
+
+    const images = new Map<string, PreviewImage>();
+    await Promise.all(Array.from(sources, async source => {
+      const image = await this.cachedImage(source);
+      if (image) images.set(source, image);
+    }));
+    return images;
+  }
+
+  private cachedImage(source: string): Promise<PreviewImage | null> {
+    let image = this.imageCache.get(source);
+    if (image) {
+      // Re-insert to mark as most recently used
+      this.imageCache.delete(source);
+    } else {
+      image = this.loadPreviewImage(source).catch(error => {
+        console.warn(`Preview image could not be loaded: ${source.slice(0, 64)}`, error);
+        // Failures are not cached so the next preview tries again
+        this.imageCache.delete(source);
+        return null;
+      });
     }
-    
-    const finalProperty = path[path.length - 1];
-    current[finalProperty] = value;
+    this.imageCache.set(source, image);
+
+    while (this.imageCache.size > this.imageCacheSize) {
+      this.imageCache.delete(this.imageCache.keys().next().value!);
+    }
+    return image;
   }
 
-  private async renderLayerToCanvas(ctx: CanvasRenderingContext2D, layer: LayerData): Promise<void> {
-    ctx.save();
-    
-    // Apply transform
-    ctx.globalAlpha = layer.transform.opacity;
-    ctx.translate(layer.transform.x, layer.transform.y);
-    ctx.scale(layer.transform.scaleX, layer.transform.scaleY);
-    ctx.rotate((layer.transform.rotation * Math.PI) / 180);
+  // MARK: - Change Detection
+
+  private diffLayer(base: LayerData, suggested: LayerData): LayerChange[] {
+    return diffLayers(base, suggested).map(change => this.createChange(
+      base.id,
+      change.property,
+      change.from,
+      change.to,
+      change.kind === 'type' ? 'Layer type changed'
+        : change.kind === 'z_order' ? 'Stacking order changed'
+        : `${change.property} changed`
+    ));
+  }
 
-    try {
-      switch (layer.type) {
-        case 'text':
-          await this.renderTextLayer(ctx, layer);
-          break;
-        case 'shape':
-          await this.renderShapeLayer(ctx, layer);
-          break;
-        case 'image':
-          await this.renderImageLayer(ctx, layer);
-          break;
-        case 'background':
-          await this.renderBackgroundLayer(ctx, layer);
-          break;
-        default:
-          console.warn(`Unknown layer type: ${layer.type}`);
+  private diffCanvasFields(base: DesignCanvas, suggested: DesignCanvas): LayerChange[] {
+    const changes: LayerChange[] = [];
+    const { width, height, pixelDensity } = suggested.dimensions;
+
+    if (suggested.deviceType !== base.deviceType) {
+      changes.push(this.createChange(base.id, 'deviceType', base.deviceType, suggested.deviceType, 'Device changed'));
+    }
+    if (width !== base.dimensions.width || height !== base.dimensions.height || pixelDensity !== base.dimensions.pixelDensity) {
+      changes.push(this.createChange(base.id, 'dimensions', base.dimensions, suggested.dimensions, 'Canvas resized'));
+    }
+
+    return changes;
+  }
+
+  private createChange(
+    layerId: string,
+    property: string,
+    currentValue: any,
+    suggestedValue: any,
+    reason: string
+  ): LayerChange {
+    return { layerId, property, currentValue, suggestedValue, reason };
+  }
+
+  private applyChanges(layers: LayerData[], changes: LayerChange[]): LayerData[] {
+    const removed = new Set(
+      changes.filter(c => c.property === 'layer' && c.suggestedValue === null).map(c => c.layerId)
+    );
+    const added = changes
+      .filter(c => c.property === 'layer' && c.currentValue === null)
+      .map(c => c.suggestedValue as LayerData);
+
+    const result = layers
+      .filter(layer => !removed.has(layer.id))
+      .map(layer => {
+        const layerChanges = changes.filter(c => c.layerId === layer.id && c.property !== 'layer');
+        return layerChanges.length > 0 ? this.withChanges(layer, layerChanges) : layer;
+      });
+
+    return [...result, ...added].sort((a, b) => a.zIndex - b.zIndex);
+  }
+
+  private withChanges(layer: LayerData, changes: LayerChange[]): LayerData {
+    const next: LayerData = {
+      ...layer,
+      content: { ...layer.content },
+      transform: { ...layer.transform },
+      style: { ...layer.style },
+      constraints: { ...layer.constraints }
+    };
+
+    for (const change of changes) {
+      const [section, key] = change.property.split('.');
+      if (change.property === 'type') {
+        next.type = change.suggestedValue as LayerType;
+      } else if (change.property === 'zIndex') {
+        next.zIndex = change.suggestedValue as number;
+      } else if (key && isLayerSection(section)) {
+        const values = next[section] as unknown as Record<string, unknown>;
+        if (change.suggestedValue === undefined) {
+          delete values[key];
+        } else {
+          values[key] = change.suggestedValue;
+        }
+      } else {
+        throw new VariationProcessingError(`Unsupported layer change: ${change.property}`);
       }
-    } catch (error) {
-      console.error(`Failed to render layer ${layer.id}:`, error);
     }
 
-    ctx.restore();
+    return next;
   }
 
-  private async renderTextLayer(ctx: CanvasRenderingContext2D, layer: LayerData): Promise<void> {
-    if (!layer.content.text) return;
+  // MARK: - Constraint Validation
 
-    const fontSize = layer.content.fontSize || 16;
-    const fontFamily = layer.content.fontFamily || 'Inter';
-    const color = layer.style?.color || '#000000';
+  private validateLayerChanges(
+    base: LayerData,
+    changes: LayerChange[],
+    bounds: { width: number; height: number }
+  ): { applied: LayerChange[]; rejected: LayerChange[] } {
+    if (changes.length === 0) {
+      return { applied: [], rejected: [] };
+    }
 
-    ctx.font = `${fontSize}px ${fontFamily}`;
-    ctx.fillStyle = color;
-    ctx.textAlign = 'left';
-    ctx.textBaseline = 'top';
+    if (base.constraints.locked) {
+      return { applied: [], rejected: changes.map(c => ({ ...c, rejectionReason: 'Layer is locked' })) };
+    }
 
-    ctx.fillText(layer.content.text, 0, 0);
+    const applied: LayerChange[] = [];
+    const rejected: LayerChange[] = [];
+    const candidates: LayerChange[] = [];
+
+    for (const change of changes) {
+      if (change.property === 'type') {
+        rejected.push({ ...change, rejectionReason: 'Layer type cannot be changed by a variation' });
+      } else if (change.property.startsWith('constraints.')) {
+        rejected.push({ ...change, rejectionReason: 'Layer constraints can only be changed by the user' });
+      } else {
+        candidates.push(change);
+      }
+    }
+
+    // Related changes (e.g. move + resize) are often only valid together
+    if (candidates.length > 0 && !this.validateLayer(this.withChanges(base, candidates), base, bounds)) {
+      return { applied: candidates, rejected };
+    }
+
+    for (const change of candidates) {
+      const rejectionReason = this.validateLayer(this.withChanges(base, [...applied, change]), base, bounds);
+      if (rejectionReason) {
+        rejected.push({ ...change, rejectionReason });
+      } else {
+        applied.push(change);
+      }
+    }
+
+    return { applied, rejected };
   }
 
-  private async renderShapeLayer(ctx: CanvasRenderingContext2D, layer: LayerData): Promise<void> {
-    const width = 100; // Default shape size
-    const height = 100;
-    const fill = layer.content.fill || '#3B82F6';
-    const stroke = layer.content.stroke;
-    const strokeWidth = layer.content.strokeWidth || 0;
+  /**
+   * Returns the reason a candidate layer is invalid, or null when it can be applied
+   */
+  private validateLayer(
+    candidate: LayerData,
+    base: LayerData | null,
+    bounds: { width: number; height: number }
+  ): string | null {
+    try {
+      Layer.fromJSON(candidate);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return error.message;
+      }
+      throw error;
+    }
+
+    const { constraints, transform } = base ?? candidate;
+    const width = 100 * Math.abs(candidate.transform.scaleX);
+    const height = 100 * Math.abs(candidate.transform.scaleY);
+
+    if (constraints.minWidth !== undefined && width < constraints.minWidth) {
+      return `Width ${round(width)} is below the minimum of ${constraints.minWidth}`;
+    }
+    if (constraints.maxWidth !== undefined && width > constraints.maxWidth) {
+      return `Width ${round(width)} exceeds the maximum of ${constraints.maxWidth}`;
+    }
+    if (constraints.minHeight !== undefined && height < constraints.minHeight) {
+      return `Height ${round(height)} is below the minimum of ${constraints.minHeight}`;
+    }
+    if (constraints.maxHeight !== undefined && height > constraints.maxHeight) {
+      return `Height ${round(height)} exceeds the maximum of ${constraints.maxHeight}`;
+    }
 
-    ctx.fillStyle = fill;
-    ctx.fillRect(0, 0, width, height);
+    if (base && constraints.maintainAspectRatio && transform.scaleY !== 0 && candidate.transform.scaleY !== 0) {
+      const before = transform.scaleX / transform.scaleY;
+      const after = candidate.transform.scaleX / candidate.transform.scaleY;
+      if (Math.abs(before - after) > ASPECT_RATIO_TOLERANCE * Math.abs(before)) {
+        return 'Layer must maintain its aspect ratio';
+      }
+    }
 
-    if (stroke && strokeWidth > 0) {
-      ctx.strokeStyle = stroke;
-      ctx.lineWidth = strokeWidth;
-      ctx.strokeRect(0, 0, width, height);
+    // Backgrounds always fill the canvas and are exempt from bounds checks
+    if (candidate.type !== LayerType.BACKGROUND) {
+      const overflow = this.getOverflow(candidate, bounds);
+      // Layers that already overflow may move, as long as they do not overflow further
+      if (overflow > 0 && overflow > (base ? this.getOverflow(base, bounds) : 0)) {
+        return `Layer extends outside the ${bounds.width}x${bounds.height} device bounds`;
+      }
     }
+
+    return null;
   }
 
-  private async renderImageLayer(ctx: CanvasRenderingContext2D, _layer: LayerData): Promise<void> {
-    // Placeholder for image rendering
-    ctx.fillStyle = '#E5E7EB';
-    ctx.fillRect(0, 0, 100, 100);
-    
-    ctx.fillStyle = '#9CA3AF';
-    ctx.font = '12px Inter';
-    ctx.textAlign = 'center';
-    ctx.fillText('Image', 50, 50);
+  private getOverflow(layer: LayerData, bounds: { width: number; height: number }): number {
+    const { x, y } = layer.transform;
+    const width = 100 * Math.abs(layer.transform.scaleX);
+    const height = 100 * Math.abs(layer.transform.scaleY);
+
+    return Math.max(0, -x) + Math.max(0, -y) +
+      Math.max(0, x + width - bounds.width) +
+      Math.max(0, y + height - bounds.height);
   }
 
-  private async renderBackgroundLayer(ctx: CanvasRenderingContext2D, layer: LayerData): Promise<void> {
-    const color = layer.content.color || '#ffffff';
-    ctx.fillStyle = color;
-    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  private getDeviceBounds(canvas: DesignCanvas): { width: number; height: number } {
+    const spec = DEVICE_SPECIFICATIONS[canvas.deviceType];
+    return spec ? spec.dimensions : canvas.dimensions;
   }
 
   // MARK: - Validation Methods
 
-  private validateAIResponse(response: VariationResponse): void {
-    if (!response.variations || !Array.isArray(response.variations)) {
+  private validateAIResponse(variations: (DesignCanvas | DesignVariation)[] | undefined): void {
+    if (!variations || !Array.isArray(variations)) {
       throw new VariationProcessingError('Invalid AI response: missing variations array');
     }
 
-    if (response.variations.length === 0) {
+    if (variations.length === 0) {
       throw new VariationProcessingError('AI response contains no variations');
     }
 
-    for (const variation of response.variations) {
+    for (const variation of variations) {
       if (!variation.id) {
         throw new VariationProcessingError('Invalid variation: missing id');
       }
@@ -457,14 +699,6 @@ export class VariationProcessor {
 
   // MARK: - Utility Methods
 
-  private generateId(): string {
-    return crypto.randomUUID();
-  }
-
-  private deepCloneCanvas(canvas: DesignCanvas): DesignCanvas {
-    return JSON.parse(JSON.stringify(canvas)) as DesignCanvas;
-  }
-
   private calculateOverallConfidence(variations: DesignVariation[]): number {
     if (variations.length === 0) return 0;
     
@@ -502,6 +736,33 @@ export class VariationProcessor {
       averageProcessingTime: 0
     };
   }
+
+  /**
+   * Forget decoded preview images, e.g. after a memory warning
+   */
+  clearImageCache(): void {
+    this.imageCache.clear();
+  }
+}
+
+// MARK: - Helpers
+
+function loadImageElement(source: string): Promise<PreviewImage> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    // Keeps the preview canvas untainted so toDataURL works for remote images
+    image.crossOrigin = 'anonymous';
+    const timeout = setTimeout(() => reject(new Error('Image load timed out')), IMAGE_LOAD_TIMEOUT_MS);
+    image.onload = () => {
+      clearTimeout(timeout);
+      resolve(image);
+    };
+    image.onerror = () => {
+      clearTimeout(timeout);
+      reject(new Error('Image failed to load'));
+    };
+    image.src = source;
+  });
 }
 
 // MARK: - Error Classes
@@ -0,0 +1,155 @@
+import { DesignVariation } from '../models/DesignVariation'
+import { toCanvasModel, toVariationModel, CanvasJSON } from '../models/adapters'
+import { AIServiceError, VariationSource } from '../types'
+import type { AIResponse } from '../../../shared/types'
+import { AIRequestError } from './AIRequestDispatcher'
+
+/**
+ * One message of a streamed POST /variations/generate response
+ * processing reports progress, partial carries one finished variation, success
+ * closes the stream and error aborts it.
+ */
+export interface VariationStreamChunk extends Omit<AIResponse, 'requestId' | 'timestamp' | 'result'> {
+  requestId?: string
+  timestamp?: string
+  result?: {
+    /** partial: the variation that just finished */
+    variation?: CanvasJSON
+    /** partial: position of the variation in the batch */
+    index?: number
+    /** Variations the server will send in total */
+    total?: number
+    /** processing: variations finished so far */
+    completed?: number
+    confidence?: number
+  }
+}
+
+export type VariationStreamEvent =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'variation'; variation: DesignVariation; index: number; total: number }
+  | { type: 'complete'; requestId: string | null; confidence: number; total: number }
+
+/** Accept header for streamed variation requests, most incremental format first */
+export const VARIATION_STREAM_ACCEPT = 'text/event-stream, application/x-ndjson;q=0.9, application/json;q=0.8'
+
+/**
+ * Read the chunks of a variation response as they arrive
+ * Understands server-sent events and newline-delimited JSON; a plain JSON batch
+ * from a server that does not stream is replayed as one partial chunk per variation.
+ */
+export async function* readVariationStream(response: Response): AsyncGenerator<VariationStreamChunk> {
+  const contentType = response.headers.get('Content-Type') ?? ''
+
+  if (!response.body || !/event-stream|ndjson|jsonl/.test(contentType)) {
+    const data = await response.json()
+    const variations: CanvasJSON[] = data.variations ?? []
+    for (const [index, variation] of variations.entries()) {
+      yield { status: 'partial', result: { variation, index, total: variations.length, confidence: data.confidence } }
+    }
+    yield { status: 'success', requestId: data.requestId, result: { total: variations.length, confidence: data.confidence } }
+    return
+  }
+
+  if (contentType.includes('event-stream')) {
+    // Server-sent events: data lines accumulate until a blank line ends the event
+    let data: string[] = []
+    for await (const line of readLines(response.body)) {
+      if (line === '') {
+        if (data.length > 0) yield parseChunk(data.join('\n'))
+        data = []
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(line.startsWith('data: ') ? 6 : 5))
+      }
+    }
+    if (data.length > 0) yield parseChunk(data.join('\n'))
+    return
+  }
+
+  for await (const line of readLines(response.body)) {
+    if (line.trim() !== '') yield parseChunk(line)
+  }
+}
+
+/**
+ * Turn wire chunks into variation events
+ * Throws the server's AIError when the stream reports one, and a retryable
+ * INTERNAL_ERROR when it ends without a success chunk.
+ */
+export async function* variationEvents(
+  chunks: AsyncIterable<VariationStreamChunk>,
+  options: { variationType: string; count: number }
+): AsyncGenerator<VariationStreamEvent> {
+  let total = options.count
+  let delivered = 0
+
+  for await (const chunk of chunks) {
+    const result = chunk.result ?? {}
+    total = result.total ?? total
+
+    switch (chunk.status) {
+      case 'error':
+        throw new AIRequestError(chunk.error ?? { code: 'INTERNAL_ERROR', message: 'Variation stream failed' })
+      case 'processing':
+        yield { type: 'progress', completed: result.completed ?? delivered, total }
+        break
+      case 'partial':
+        if (result.variation) {
+          yield { type: 'variation', variation: toVariation(result.variation, options.variationType, result.confidence), index: result.index ?? delivered, total }
+          delivered++
+        }
+        break
+      case 'success':
+        yield { type: 'complete', requestId: chunk.requestId ?? null, confidence: result.confidence ?? 0, total: delivered }
+        return
+    }
+  }
+
+  throw new AIRequestError({ code: 'INTERNAL_ERROR', message: 'Variation stream ended before completing', retryable: true })
+}
+
+// Helpers
+
+function toVariation(data: CanvasJSON, variationType: string, confidence?: number): DesignVariation {
+  try {
+    return toVariationModel(toCanvasModel(data), {
+      parentId: null,
+      source: VariationSource.AI_SUGGESTION,
+      prompt: `${variationType} variation`,
+      confidence
+    })
+  } catch (error) {
+    throw new AIServiceError(`Invalid variation data: ${error instanceof Error ? error.message : error}`, 'API_ERROR')
+  }
+}
+
+function parseChunk(text: string): VariationStreamChunk {
+  try {
+    return JSON.parse(text) as VariationStreamChunk
+  } catch {
+    throw new AIServiceError(`Malformed variation stream message: ${text.slice(0, 80)}`, 'API_ERROR')
+  }
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ''
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      buffered += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      const lines = buffered.split(/\r?\n/)
+      buffered = lines.pop() ?? ''
+      yield* lines
+
+      if (done) break
+    }
+    if (buffered !== '') yield buffered
+  } finally {
+    // Stops the download when the consumer gives up early
+    await reader.cancel().catch(() => undefined)
+  }
+}
@@ -1,6 +1,32 @@
 export { AIService } from './AIService'
+export { RemoteAIProvider } from './AIProvider'
+export { LocalAIProvider } from './LocalAIProvider'
+export { AIRequestDispatcher, AIRequestError, createAIRequest, validateAIRequestParams, toAIError } from './AIRequestDispatcher'
+export { AIRequestExecutor, TokenBucket, isAbortError } from './AIRequestExecutor'
+export { AIRequestScheduler, PRIORITY_LEVELS } from './AIRequestScheduler'
+export { AIResponseCache, cacheKey, canonicalJson, canvasContent } from './AIResponseCache'
+export { readVariationStream, variationEvents, VARIATION_STREAM_ACCEPT } from './VariationStream'
+export { streamVariationsToFeed } from './VariationFeed'
 export { CanvasService } from './CanvasService'
 export { GestureService } from './GestureService'
+export { CanvasSyncQueue } from './CanvasSyncQueue'
+export { CollaborationSession } from './CollaborationSession'
+export { CollaborationOverlay } from './CollaborationOverlay'
+export { LoopbackHub, WebSocketTransport } from './CollaborationTransport'
+export { toSvg, toSvgDataUrl } from './CanvasSvgSerializer'
+export { toPdf, toPdfDeck, slidesFromHistory, slidesFromBranch } from './CanvasPdfExporter'
+export { drawCanvas } from './CanvasRenderer'
+export { RasterContext } from './RasterContext'
+export { renderToPng, renderToRaster, renderThumbnails, compareRasters } from './HeadlessRenderer'
+export { decodePng, encodePng } from './PngCodec'
+export { importSvg, importDesignJson, importDesignFile, recordImport, CanvasImportError } from './CanvasImporter'
+export {
+  MemoryStorageAdapter,
+  LocalStorageAdapter,
+  IndexedDBStorageAdapter,
+  StorageError,
+  createBrowserStorageAdapter
+} from './StorageAdapters'
 
 export type {
   CanvasAnalysisRequest,
@@ -9,19 +35,124 @@ export type {
   VariationResponse,
   CurrentTrendsResponse,
   AISuggestion,
-  TrendData
+  TrendData,
+  AIRequestOptions
 } from './AIService'
 
+export type {
+  AIProvider,
+  ProviderAnalysisOptions,
+  ProviderAnalysisResult,
+  ProviderVariationOptions,
+  ProviderVariationResult,
+  ProviderRequestOptions,
+  ProviderRequestResult
+} from './AIProvider'
+
+export type { LocalAIProviderOptions } from './LocalAIProvider'
+
+export type {
+  AIRequestParamsMap,
+  AIResultMap,
+  TypedAIRequest,
+  TypedAIResponse,
+  AIRequestDispatcherOptions,
+  AIDispatchOptions
+} from './AIRequestDispatcher'
+
+export type {
+  RateLimit,
+  RetryInfo,
+  ExecuteOptions,
+  AIRequestExecutorOptions
+} from './AIRequestExecutor'
+
+export type {
+  AIQueueItem,
+  AIRequestPriority,
+  AITaskHandler,
+  ScheduleRequest,
+  ScheduledRequest,
+  AIRequestSchedulerOptions
+} from './AIRequestScheduler'
+
+export type { AIResponseCacheOptions, AIResponseCacheStats } from './AIResponseCache'
+
+export type { VariationStreamChunk, VariationStreamEvent } from './VariationStream'
+
+export type { VariationFeedOptions, VariationFeedResult } from './VariationFeed'
+
 export type {
   CanvasResponse,
   CanvasUpdateRequest,
+  CanvasUpdateResult,
+  CanvasRebaseRequest,
+  CanvasRebaseResult,
   VariationHistoryResponse,
+  VariationTree,
   CreateVariationRequest,
   VariationCreatedResponse,
-  LayerUpdateRequest
+  LayerUpdateRequest,
+  LayerUpdateResult
 } from './CanvasService'
 
+export type {
+  OutboxMutation,
+  OutboxEntry,
+  SyncStatus,
+  SyncQueueState,
+  SyncQueueOptions
+} from './CanvasSyncQueue'
+
+export type {
+  Collaborator,
+  CollaborationState,
+  LayerChange,
+  CollaborationSessionOptions
+} from './CollaborationSession'
+
+export type { CollaborationOverlayOptions } from './CollaborationOverlay'
+
+export type {
+  CollaborationEvent,
+  CollaborationTransport,
+  WebSocketLike,
+  WebSocketTransportOptions
+} from './CollaborationTransport'
+
+export type { SvgExportOptions } from './CanvasSvgSerializer'
+
+export type {
+  PdfExportOptions,
+  PdfDeckOptions,
+  PdfSlide,
+  PdfExportResult
+} from './CanvasPdfExporter'
+
+export type { RenderContext2D, DrawCanvasOptions } from './CanvasRenderer'
+
+export type {
+  HeadlessRenderOptions,
+  HeadlessRenderResult,
+  RasterDiff
+} from './HeadlessRenderer'
+
+export type { RasterImage } from './PngCodec'
+
+export type {
+  ImportOptions,
+  ImportResult,
+  DesignFile,
+  DesignNode,
+  DesignColor,
+  DesignPaint,
+  DesignEffect,
+  DesignTextStyle
+} from './CanvasImporter'
+
 export type {
   GestureNavigationRequest,
   GestureNavigationResponse
-} from './GestureService'
\ No newline at end of file
+} from './GestureService'
+
+export type { StorageAdapter } from './StorageAdapters'
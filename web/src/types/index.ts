@@ -25,6 +25,7 @@ export enum VariationSource {
   USER_EDIT = 'user_edit',
   AI_SUGGESTION = 'ai_suggestion',
   AI_CREATIVE = 'ai_creative',
+  AI_TREND = 'ai_trend',
   IMPORT = 'import',
   BRANCH = 'branch'
 }
@@ -62,6 +63,10 @@ export interface LayerContent {
   text?: string
   fontSize?: number
   fontFamily?: string
+  fontWeight?: string
+  fontStyle?: 'normal' | 'italic' | 'oblique'
+  textAlign?: 'left' | 'center' | 'right' | 'justify'
+  lineHeight?: number
   // Image layer
   imageUrl?: string
   imageData?: string
@@ -82,6 +87,7 @@ export interface LayerContent {
 
 // Layer Style Properties
 export interface LayerStyle {
+  color?: string
   backgroundColor?: string
   borderRadius?: number
   borderWidth?: number
@@ -114,7 +120,7 @@ export interface LayerConstraints {
 
 // Metadata Types
 export interface LayerMetadata {
-  source: 'user' | 'ai'
+  source: 'user' | 'ai' | 'import'
   createdAt: Date
   modifiedAt?: Date
   version?: number
@@ -163,6 +169,11 @@ export interface AICollaborationMetadata {
     suggestions: string[]
   }
   errorMessage?: string
+  /** Variations received so far for the generation in progress */
+  generationProgress?: {
+    completed: number
+    total: number
+  }
 }
 
 // Gesture Navigation Types
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
 
 /**
  * CONTRACT TEST: Canvas API GET /canvas/{canvasId}
@@ -6,20 +6,29 @@ import { describe, it, expect, beforeEach } from 'vitest';
  * This test validates the contract for the Canvas retrieval API endpoint.
  * Based on: /specs/002-visual-ai-collaboration/contracts/canvas-api.yaml
  * 
- * CRITICAL: This test MUST FAIL initially as the CanvasService implementation does not exist yet.
- * This follows TDD methodology - write failing tests before implementation.
+ * Runs against the file-backed reference server (server/app.ts) on a free port.
  */
 
-// Import the service that doesn't exist yet - this will cause the test to fail
 import { CanvasService } from '../../src/services/CanvasService';
 import { CanvasResponse } from '../../src/types/canvas-contracts';
+import { startReferenceServer, seedCanvas, RunningReferenceServer } from './support/reference-server';
 
 describe('Canvas API Contract: GET /canvas/{canvasId}', () => {
+  let server: RunningReferenceServer;
   let canvasService: CanvasService;
 
+  beforeAll(async () => {
+    server = await startReferenceServer();
+    await seedCanvas(server.baseUrl, '123e4567-e89b-12d3-a456-426614174000');
+    await seedCanvas(server.baseUrl, '987fcdeb-51a2-43d7-9fff-123456789abc');
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
   beforeEach(() => {
-    // Use a test server URL that will properly fail with network errors (expected in TDD)
-    canvasService = new CanvasService('http://localhost:8080/api/v1');
+    canvasService = new CanvasService(server.baseUrl);
   });
 
   it('should retrieve canvas successfully with valid UUID', async () => {
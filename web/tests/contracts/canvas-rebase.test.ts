@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { CanvasService } from '../../src/services/CanvasService'
+import { DesignCanvas } from '../../src/models/DesignCanvas'
+import { LayerData } from '../../src/models/Layer'
+import { startReferenceServer, seedCanvas, RunningReferenceServer } from './support/reference-server'
+
+/**
+ * CONTRACT TEST: CanvasService.updateCanvasWithRebase
+ * Two sessions edit the same canvas; the one that saves second rebases onto the first.
+ */
+
+const CANVAS_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7'
+
+const editLayer = (canvas: DesignCanvas, layerId: string, edit: (layer: LayerData) => Partial<LayerData>) =>
+  canvas.updateLayer(layerId, edit(canvas.layers.find(layer => layer.id === layerId)!))
+
+const setText = (canvas: DesignCanvas, layerId: string, text: string) =>
+  editLayer(canvas, layerId, layer => ({ content: { ...layer.content, text } }))
+
+describe('Canvas API Contract: conflict resolution', () => {
+  let server: RunningReferenceServer
+  let sessionA: CanvasService
+  let sessionB: CanvasService
+  let base: DesignCanvas
+  let baseVersion: number
+
+  beforeEach(async () => {
+    server = await startReferenceServer()
+    sessionA = new CanvasService(server.baseUrl)
+    sessionB = new CanvasService(server.baseUrl)
+    const seeded = await seedCanvas(server.baseUrl, CANVAS_ID)
+    base = seeded.canvas
+    baseVersion = seeded.version
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  it('saves directly when nobody else has written', async () => {
+    const result = await sessionA.updateCanvasWithRebase(CANVAS_ID, {
+      base,
+      canvas: setText(base, 'headline', 'Spring sale'),
+      version: baseVersion
+    })
+
+    expect(result).toMatchObject({ status: 'saved', merged: false, version: baseVersion + 1 })
+  })
+
+  it('merges non-overlapping layer edits from both sessions', async () => {
+    await sessionB.updateCanvas(CANVAS_ID, { canvas: setText(base, 'headline', 'From B'), version: baseVersion })
+
+    const local = editLayer(base, 'accent', layer => ({ content: { ...layer.content, fill: '#ef4444' } }))
+    const result = await sessionA.updateCanvasWithRebase(CANVAS_ID, { base, canvas: local, version: baseVersion })
+
+    expect(result).toMatchObject({ status: 'saved', merged: true, version: baseVersion + 2 })
+
+    const { canvas } = await sessionB.getCanvas(CANVAS_ID)
+    expect(canvas.layers.find(layer => layer.id === 'headline')?.content.text).toBe('From B')
+    expect(canvas.layers.find(layer => layer.id === 'accent')?.content.fill).toBe('#ef4444')
+  })
+
+  it('returns overlapping edits as conflicts without saving, then applies the chosen resolution', async () => {
+    await sessionB.updateCanvas(CANVAS_ID, { canvas: setText(base, 'headline', 'From B'), version: baseVersion })
+    const local = setText(base, 'headline', 'From A')
+
+    const conflicted = await sessionA.updateCanvasWithRebase(CANVAS_ID, { base, canvas: local, version: baseVersion })
+
+    expect(conflicted.status).toBe('conflicted')
+    if (conflicted.status !== 'conflicted') return
+    expect(conflicted.version).toBe(baseVersion + 1)
+    expect(conflicted.conflicts).toEqual([
+      expect.objectContaining({
+        id: 'headline:content.text',
+        baseValue: 'Design with AI',
+        sourceValue: 'From A',
+        targetValue: 'From B'
+      })
+    ])
+    expect((await sessionB.getCanvas(CANVAS_ID)).version).toBe(baseVersion + 1)
+
+    const saved = await sessionA.updateCanvasWithRebase(CANVAS_ID, {
+      base,
+      canvas: local,
+      version: baseVersion,
+      resolutions: { 'headline:content.text': 'source' }
+    })
+
+    expect(saved).toMatchObject({ status: 'saved', merged: true, version: baseVersion + 2 })
+    if (saved.status !== 'saved') return
+    expect(saved.resolved.map(conflict => conflict.id)).toEqual(['headline:content.text'])
+    expect(saved.canvas.layers.find(layer => layer.id === 'headline')?.content.text).toBe('From A')
+  })
+
+  it('merges overlapping text edits character by character with the crdt strategy', async () => {
+    await sessionB.updateCanvas(CANVAS_ID, { canvas: setText(base, 'headline', 'Design with AI today'), version: baseVersion })
+
+    const result = await sessionA.updateCanvasWithRebase(CANVAS_ID, {
+      base,
+      canvas: setText(base, 'headline', 'Go Design with AI'),
+      version: baseVersion,
+      strategy: 'crdt'
+    })
+
+    expect(result).toMatchObject({ status: 'saved', merged: true, version: baseVersion + 2 })
+    const { canvas } = await sessionB.getCanvas(CANVAS_ID)
+    expect(canvas.layers.find(layer => layer.id === 'headline')?.content.text).toBe('Go Design with AI today')
+  })
+
+  it('gives up with CONFLICT after maxAttempts', async () => {
+    await sessionB.updateCanvas(CANVAS_ID, { canvas: setText(base, 'headline', 'From B'), version: baseVersion })
+
+    await expect(sessionA.updateCanvasWithRebase(CANVAS_ID, {
+      base,
+      canvas: setText(base, 'body', 'From A'),
+      version: baseVersion,
+      maxAttempts: 1
+    })).rejects.toMatchObject({ code: 'CONFLICT' })
+  })
+})
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { CanvasService, CanvasServiceError } from '../../src/services/CanvasService'
+import { GestureService } from '../../src/services/GestureService'
+import { DesignCanvas } from '../../src/models/DesignCanvas'
+import { VariationSource } from '../../src/types'
+import { startReferenceServer, seedCanvas, RunningReferenceServer } from './support/reference-server'
+
+/**
+ * CONTRACT TEST: CanvasService and GestureService against the reference server
+ * Based on: /specs/002-visual-ai-collaboration/contracts/canvas-api.yaml
+ */
+
+const CANVAS_ID = '5b0f6a2e-4c1d-4e8a-9b7f-2d3c4e5f6a7b'
+
+const layerOf = (canvas: DesignCanvas, layerId: string) => canvas.layers.find(layer => layer.id === layerId)
+
+describe('Canvas API Contract: reference server', () => {
+  let server: RunningReferenceServer
+  let canvasService: CanvasService
+  let gestureService: GestureService
+
+  beforeEach(async () => {
+    server = await startReferenceServer()
+    canvasService = new CanvasService(server.baseUrl)
+    gestureService = new GestureService(server.baseUrl)
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  describe('PUT /canvas/{canvasId}', () => {
+    it('creates a canvas at version 0 and increments the version on every update', async () => {
+      const created = await seedCanvas(server.baseUrl, CANVAS_ID)
+      expect(created.version).toBe(1)
+      expect(created.lastModified).toBeInstanceOf(Date)
+
+      const updated = await canvasService.updateCanvas(CANVAS_ID, {
+        canvas: created.canvas.updateLayer('headline', { content: { text: 'Updated' } }),
+        version: created.version
+      })
+      expect(updated.version).toBe(2)
+
+      const fetched = await canvasService.getCanvas(CANVAS_ID)
+      expect(fetched.version).toBe(2)
+      expect(layerOf(fetched.canvas, 'headline')?.content.text).toBe('Updated')
+    })
+
+    it('rejects a stale version with CONFLICT', async () => {
+      const created = await seedCanvas(server.baseUrl, CANVAS_ID)
+      await canvasService.updateCanvas(CANVAS_ID, { canvas: created.canvas, version: created.version })
+
+      const stale = canvasService.updateCanvas(CANVAS_ID, { canvas: created.canvas, version: created.version })
+      await expect(stale).rejects.toBeInstanceOf(CanvasServiceError)
+      await expect(stale).rejects.toMatchObject({ code: 'CONFLICT' })
+    })
+
+    it('accepts exactly one of two concurrent writes from the same version', async () => {
+      const created = await seedCanvas(server.baseUrl, CANVAS_ID)
+      const results = await Promise.allSettled([
+        canvasService.updateCanvas(CANVAS_ID, { canvas: created.canvas, version: created.version }),
+        canvasService.updateCanvas(CANVAS_ID, { canvas: created.canvas, version: created.version })
+      ])
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1)
+      expect(results.filter(result => result.status === 'rejected')).toHaveLength(1)
+    })
+
+    it('returns NOT_FOUND when updating a canvas that was never created', async () => {
+      const created = await seedCanvas(server.baseUrl, CANVAS_ID)
+      const otherId = '00000000-0000-4000-8000-000000000001'
+      const canvas = created.canvas.toJSON()
+
+      await expect(canvasService.updateCanvas(otherId, { canvas: { ...canvas, id: otherId }, version: 1 }))
+        .rejects.toMatchObject({ code: 'NOT_FOUND' })
+    })
+
+    it('persists canvases across server restarts', async () => {
+      await seedCanvas(server.baseUrl, CANVAS_ID)
+      await server.stop()
+
+      server = await startReferenceServer(server.dataDir)
+      const fetched = await new CanvasService(server.baseUrl).getCanvas(CANVAS_ID)
+      expect(fetched.version).toBe(1)
+      expect(fetched.canvas.layers.map(layer => layer.id)).toEqual(['background', 'headline', 'body', 'accent'])
+    })
+  })
+
+  describe('/canvas/{canvasId}/variations', () => {
+    it('creates variations and returns the tree limited to the requested depth', async () => {
+      const { canvas } = await seedCanvas(server.baseUrl, CANVAS_ID)
+
+      const root = await canvasService.createVariation(CANVAS_ID, {
+        parentVariationId: null,
+        source: VariationSource.USER_EDIT,
+        canvasState: canvas
+      })
+      const child = await canvasService.createVariation(CANVAS_ID, {
+        parentVariationId: root.variationId,
+        source: VariationSource.AI_SUGGESTION,
+        canvasState: canvas,
+        prompt: 'Bolder headline',
+        confidence: 0.8
+      })
+      const grandchild = await canvasService.createVariation(CANVAS_ID, {
+        parentVariationId: child.variationId,
+        source: VariationSource.AI_TREND,
+        canvasState: canvas
+      })
+
+      expect(grandchild.parentPath).toEqual([root.variationId, child.variationId, grandchild.variationId])
+      expect(grandchild.timestamp).toBeInstanceOf(Date)
+
+      const history = await canvasService.getVariations(CANVAS_ID)
+      expect(history.totalCount).toBe(3)
+      expect(history.currentVariationId).toBe(grandchild.variationId)
+      expect(history.treeStructure?.nodeId).toBe(root.variationId)
+      expect(history.treeStructure?.children[0].nodeId).toBe(child.variationId)
+      expect(history.variations.find(v => v.id === child.variationId)?.parentId).toBe(root.variationId)
+
+      const shallow = await canvasService.getVariations(CANVAS_ID, 1)
+      expect(shallow.variations.map(v => v.id)).toEqual([root.variationId, child.variationId])
+    })
+
+    it('does not change the canvas version', async () => {
+      const { canvas, version } = await seedCanvas(server.baseUrl, CANVAS_ID)
+      await canvasService.createVariation(CANVAS_ID, {
+        parentVariationId: null,
+        source: VariationSource.USER_EDIT,
+        canvasState: canvas
+      })
+
+      expect((await canvasService.getCanvas(CANVAS_ID)).version).toBe(version)
+    })
+  })
+
+  describe('/canvas/{canvasId}/layers/{layerId}', () => {
+    it('updates a layer and bumps the canvas version', async () => {
+      const { canvas, version } = await seedCanvas(server.baseUrl, CANVAS_ID)
+      const headline = layerOf(canvas, 'headline')!
+
+      const result = await canvasService.updateLayer(CANVAS_ID, 'headline', {
+        layer: { ...headline, content: { ...headline.content, text: 'Layer edit' } },
+        version
+      })
+
+      expect(result.version).toBe(version + 1)
+      expect(result.layer.content.text).toBe('Layer edit')
+      expect(layerOf((await canvasService.getCanvas(CANVAS_ID)).canvas, 'headline')?.content.text).toBe('Layer edit')
+    })
+
+    it('reorders a layer to the requested z-index', async () => {
+      const { canvas } = await seedCanvas(server.baseUrl, CANVAS_ID)
+
+      const result = await canvasService.updateLayer(CANVAS_ID, 'accent', {
+        layer: layerOf(canvas, 'accent')!,
+        operation: 'reorder',
+        newIndex: 1
+      })
+
+      expect(result.layer.zIndex).toBe(1)
+      const ordered = (await canvasService.getCanvas(CANVAS_ID)).canvas.layers
+        .slice()
+        .sort((a, b) => a.zIndex - b.zIndex)
+        .map(layer => layer.id)
+      expect(ordered).toEqual(['background', 'accent', 'headline', 'body'])
+    })
+
+    it('rejects layer writes with a stale version', async () => {
+      const { canvas, version } = await seedCanvas(server.baseUrl, CANVAS_ID)
+      await canvasService.updateCanvas(CANVAS_ID, { canvas, version })
+
+      await expect(canvasService.updateLayer(CANVAS_ID, 'headline', { layer: layerOf(canvas, 'headline')!, version }))
+        .rejects.toMatchObject({ code: 'CONFLICT' })
+      await expect(canvasService.deleteLayer(CANVAS_ID, 'headline', version))
+        .rejects.toMatchObject({ code: 'CONFLICT' })
+    })
+
+    it('deletes a layer once', async () => {
+      const { version } = await seedCanvas(server.baseUrl, CANVAS_ID)
+
+      await canvasService.deleteLayer(CANVAS_ID, 'body', version)
+      const fetched = await canvasService.getCanvas(CANVAS_ID)
+      expect(layerOf(fetched.canvas, 'body')).toBeUndefined()
+      expect(fetched.version).toBe(version + 1)
+
+      await expect(canvasService.deleteLayer(CANVAS_ID, 'body')).rejects.toMatchObject({ code: 'NOT_FOUND' })
+    })
+  })
+
+  describe('POST /gesture/navigate', () => {
+    it('moves between siblings, into children and back to the parent', async () => {
+      const { canvas } = await seedCanvas(server.baseUrl, CANVAS_ID)
+      const create = (parentVariationId: string | null) => canvasService.createVariation(CANVAS_ID, {
+        parentVariationId,
+        source: VariationSource.AI_SUGGESTION,
+        canvasState: canvas
+      }).then(response => response.variationId)
+
+      const root = await create(null)
+      const first = await create(root)
+      const second = await create(root)
+
+      const down = await gestureService.navigate({ currentVariationId: first, gestureType: 'scroll_down', velocity: 20 })
+      expect(down).toMatchObject({ targetVariationId: second, transitionType: 'animated', animationDuration: 300 })
+
+      const back = await gestureService.navigate({ currentVariationId: second, gestureType: 'swipe_left', velocity: 100 })
+      expect(back).toMatchObject({ targetVariationId: root, transitionType: 'momentum', animationDuration: 800 })
+
+      const into = await gestureService.navigate({ currentVariationId: root, gestureType: 'swipe_right', velocity: 5 })
+      expect(into).toMatchObject({ targetVariationId: first, transitionType: 'immediate' })
+      expect(into.preloadVariations).toContain(second)
+
+      expect((await canvasService.getVariations(CANVAS_ID)).currentVariationId).toBe(first)
+    })
+
+    it('stays on the current variation at a boundary', async () => {
+      const { canvas } = await seedCanvas(server.baseUrl, CANVAS_ID)
+      const { variationId } = await canvasService.createVariation(CANVAS_ID, {
+        parentVariationId: null,
+        source: VariationSource.USER_EDIT,
+        canvasState: canvas
+      })
+
+      const response = await gestureService.navigate({ currentVariationId: variationId, gestureType: 'scroll_up', velocity: 80 })
+      expect(response).toMatchObject({ targetVariationId: variationId, transitionType: 'immediate', animationDuration: 0 })
+    })
+
+    it('reports unknown variations as NOT_FOUND', async () => {
+      await expect(gestureService.navigate({
+        currentVariationId: '00000000-0000-4000-8000-000000000002',
+        gestureType: 'scroll_down',
+        velocity: 10
+      })).rejects.toMatchObject({ code: 'NOT_FOUND' })
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { AddressInfo } from 'node:net'
+import { createReferenceServer } from '../../../server/app'
+import { CanvasService } from '../../../src/services/CanvasService'
+import { DesignCanvas } from '../../../src/models/DesignCanvas'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { DeviceType } from '../../../src/types'
+
+export interface RunningReferenceServer {
+  baseUrl: string
+  dataDir: string
+  /** Stop the server; the data directory is kept so a new server can reopen it */
+  stop: () => Promise<void>
+  /** Stop the server and delete its data directory */
+  close: () => Promise<void>
+}
+
+/**
+ * Start the canvas API reference server on a free port, backed by a temporary
+ * directory unless one is given
+ */
+export async function startReferenceServer(dataDir?: string): Promise<RunningReferenceServer> {
+  const directory = dataDir ?? await mkdtemp(join(tmpdir(), 'vyb-canvas-api-'))
+  const server = createReferenceServer({ dataDir: directory })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  const stop = () => new Promise<void>((resolve, reject) => {
+    server.close(error => (error ? reject(error) : resolve()))
+  })
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/api/v1`,
+    dataDir: directory,
+    stop,
+    close: async () => {
+      await stop()
+      await rm(directory, { recursive: true, force: true })
+    }
+  }
+}
+
+/**
+ * Create a starter canvas with a fixed id on the server; returns the canvas and its version
+ */
+export async function seedCanvas(baseUrl: string, canvasId: string, deviceType = DeviceType.IPHONE_15_PRO) {
+  const canvas = new DesignCanvas({ ...createStarterCanvas(deviceType).toJSON(), id: canvasId })
+  return new CanvasService(baseUrl).updateCanvas(canvasId, { canvas, version: 0 })
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { render, screen, fireEvent, cleanup } from '@testing-library/react'
+import { HistoryComparison } from '../../../src/components/HistoryComparison'
+import { HistoryManager } from '../../../src/services/HistoryManager'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { updateLayer, produceCanvas } from '../../../src/models/mutations'
+import { DeviceType } from '../../../src/types'
+
+function setup() {
+  const manager = new HistoryManager()
+  const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+  const root = manager.initialize(canvas, { description: 'Original' })
+
+  const edited = produceCanvas(updateLayer(canvas, 'headline', { content: { text: 'Edited' } }), draft => {
+    draft.layers = draft.layers.filter(layer => layer.id !== 'accent')
+  })
+  const child = manager.addNode(edited, root.id, { source: 'ai', description: 'Variation' })
+
+  return { manager, root, child }
+}
+
+describe('HistoryComparison', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('should render both canvases side by side by default', () => {
+    const { manager, root, child } = setup()
+    const { container } = render(<HistoryComparison historyManager={manager} nodeAId={root.id} nodeBId={child.id} />)
+
+    expect(container.querySelectorAll('.canvas-preview')).toHaveLength(2)
+    expect(screen.getByText('Original')).toBeTruthy()
+    expect(screen.getByText('Variation')).toBeTruthy()
+    expect(container.querySelector('[data-layer-id="accent"]')).not.toBeNull()
+  })
+
+  it('should overlay nodeB with an adjustable opacity in onion-skin mode', () => {
+    const { manager, root, child } = setup()
+    const { container } = render(
+      <HistoryComparison historyManager={manager} nodeAId={root.id} nodeBId={child.id} defaultMode="overlay" defaultOpacity={0.25} />
+    )
+
+    const top = container.querySelector<HTMLElement>('.overlay-top')!
+    expect(top.style.opacity).toBe('0.25')
+
+    fireEvent.change(screen.getByLabelText('Overlay opacity'), { target: { value: '80' } })
+    expect(top.style.opacity).toBe('0.8')
+  })
+
+  it('should outline every changed layer with its change details in diff mode', () => {
+    const { manager, root, child } = setup()
+    const { container } = render(<HistoryComparison historyManager={manager} nodeAId={root.id} nodeBId={child.id} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Diff' }))
+
+    const headline = container.querySelector<HTMLElement>('[data-outline-layer-id="headline"]')!
+    expect(headline.title).toContain('layers.headline.content.text')
+
+    // Removed layers are outlined where they used to be
+    const accent = container.querySelector<HTMLElement>('[data-outline-layer-id="accent"]')!
+    expect(accent.title).toBe('Removed layers.accent')
+    expect(container.querySelector('[data-layer-id="accent"]')).toBeNull()
+
+    expect(container.querySelector('[data-outline-layer-id="body"]')).toBeNull()
+    expect(container.querySelectorAll('[data-change-type]')).toHaveLength(2)
+  })
+
+  it('should report comparison errors instead of throwing', () => {
+    const { manager, root } = setup()
+    render(<HistoryComparison historyManager={manager} nodeAId={root.id} nodeBId="missing" />)
+
+    expect(screen.getByRole('alert').textContent).toContain('not found')
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { render, screen, fireEvent, cleanup } from '@testing-library/react'
+import { HistoryGraph, layoutHistoryGraph } from '../../../src/components/HistoryGraph'
+import { HistoryManager } from '../../../src/services/HistoryManager'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { DeviceType } from '../../../src/types'
+
+const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+
+function setup() {
+  const manager = new HistoryManager()
+  const root = manager.initialize(canvas)
+  const first = manager.addNode(canvas, root.id, { source: 'ai' })
+  const second = manager.addNode(canvas, root.id, { source: 'ai' })
+  const edit = manager.addNode(canvas, first.id, { source: 'user' })
+  return { manager, root, first, second, edit }
+}
+
+describe('layoutHistoryGraph', () => {
+  it('should place depths in columns and give each leaf its own row', () => {
+    const { manager, root, first, second, edit } = setup()
+    const layout = layoutHistoryGraph(manager.getAllNodes(), manager.getAllBranches(), { columnWidth: 100, rowHeight: 50, padding: 0 })
+    const at = (id: string) => layout.nodes.find(node => node.id === id)!
+
+    expect([at(root.id).depth, at(first.id).depth, at(edit.id).depth, at(second.id).depth]).toEqual([0, 1, 2, 1])
+    // Parents share the row of their first child
+    expect(at(root.id).row).toBe(at(first.id).row)
+    expect(at(first.id).row).toBe(at(edit.id).row)
+    expect(at(second.id).row).toBe(1)
+    expect(at(second.id)).toMatchObject({ x: 100, y: 50 })
+    expect(layout.edges).toHaveLength(3)
+    expect(layout.width).toBe(300)
+    expect(layout.height).toBe(100)
+  })
+})
+
+describe('HistoryGraph', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('should render a thumbnail and source badge for every node', () => {
+    const { manager } = setup()
+    const { container } = render(<HistoryGraph historyManager={manager} />)
+
+    expect(container.querySelectorAll('.history-graph-node')).toHaveLength(4)
+    expect(container.querySelectorAll('.history-graph-node .canvas-preview')).toHaveLength(4)
+    expect(container.querySelectorAll('[data-source="ai"]')).toHaveLength(2)
+    expect(container.querySelectorAll('path[data-edge-kind="parent"]')).toHaveLength(3)
+  })
+
+  it('should navigate to a node on click', () => {
+    const { manager, second } = setup()
+    const navigated: string[] = []
+    const { container } = render(<HistoryGraph historyManager={manager} onNavigate={node => navigated.push(node.id)} />)
+
+    fireEvent.click(container.querySelector(`[data-node-id="${second.id}"]`)!)
+
+    expect(manager.getCurrentNode()?.id).toBe(second.id)
+    expect(navigated).toEqual([second.id])
+    expect(container.querySelector('[aria-current="step"]')?.getAttribute('data-node-id')).toBe(second.id)
+  })
+
+  it('should branch, tag and prune from the context menu', () => {
+    const { manager, first, edit } = setup()
+    const { container } = render(<HistoryGraph historyManager={manager} />)
+    const openMenu = (id: string) => fireEvent.contextMenu(container.querySelector(`[data-node-id="${id}"]`)!)
+
+    openMenu(first.id)
+    fireEvent.change(screen.getByLabelText('Branch name or tag'), { target: { value: 'bold' } })
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Create branch' }))
+    expect(manager.getAllBranches().find(branch => branch.name === 'bold')?.baseNodeId).toBe(first.id)
+    expect(screen.getByText('● bold')).toBeTruthy()
+
+    openMenu(first.id)
+    fireEvent.change(screen.getByLabelText('Branch name or tag'), { target: { value: 'hero' } })
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Add tag' }))
+    expect(screen.getByText('#hero')).toBeTruthy()
+
+    openMenu(edit.id)
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Prune' }))
+    expect(container.querySelector(`[data-node-id="${edit.id}"]`)).toBeNull()
+    expect(screen.queryByRole('menu')).toBeNull()
+  })
+
+  it('should zoom within bounds', () => {
+    const { manager } = setup()
+    render(<HistoryGraph historyManager={manager} maxZoom={1.5} />)
+
+    fireEvent.click(screen.getByLabelText('Zoom in'))
+    fireEvent.click(screen.getByLabelText('Zoom in'))
+    expect(screen.getByTestId('zoom-level').textContent).toBe('150%')
+
+    fireEvent.click(screen.getByText('Reset'))
+    expect(screen.getByTestId('zoom-level').textContent).toBe('100%')
+  })
+})
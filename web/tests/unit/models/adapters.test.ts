@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { toCanvasModel, toVariationModel } from '../../../src/models/adapters'
+import { DesignCanvas } from '../../../src/models/DesignCanvas'
+import { DesignVariation } from '../../../src/models/DesignVariation'
+import { DeviceType, VariationSource, ValidationError } from '../../../src/types'
+
+const createCanvasJSON = () => ({
+  id: 'canvas-1',
+  deviceType: DeviceType.IPHONE_15_PRO,
+  dimensions: { width: 393, height: 852, pixelDensity: 3 },
+  layers: [
+    {
+      id: 'bg',
+      type: 'background',
+      content: { color: '#ffffff' },
+      transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+      style: {},
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'user' as const, createdAt: '2025-01-01T00:00:00.000Z' }
+    },
+    {
+      id: 'title',
+      type: 'text',
+      content: { text: 'Hello' },
+      transform: { x: 20, y: 20, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+      style: { color: '#000000' },
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'ai' as const, createdAt: '2025-01-01T00:00:00.000Z' }
+    }
+  ],
+  metadata: {
+    createdAt: '2025-01-01T00:00:00.000Z',
+    modifiedAt: '2025-01-02T00:00:00.000Z',
+    tags: ['draft']
+  },
+  state: 'editing'
+})
+
+describe('Model adapters', () => {
+  describe('toCanvasModel', () => {
+    it('should revive serialized canvases and assign z-order from array order', () => {
+      const canvas = toCanvasModel(createCanvasJSON())
+
+      expect(canvas).toBeInstanceOf(DesignCanvas)
+      expect(canvas.metadata.createdAt).toBeInstanceOf(Date)
+      expect(canvas.layers.map(layer => [layer.id, layer.zIndex])).toEqual([['bg', 0], ['title', 1]])
+      expect(canvas.layers[1].metadata.createdAt).toBeInstanceOf(Date)
+    })
+
+    it('should pass models through unchanged', () => {
+      const model = toCanvasModel(createCanvasJSON())
+      expect(toCanvasModel(model)).toBe(model)
+    })
+
+    it('should reject incomplete or invalid layer data', () => {
+      expect(() => toCanvasModel({ id: 'broken' } as never)).toThrow(ValidationError)
+
+      const invalid = createCanvasJSON()
+      invalid.layers[1].content = { text: '' }
+      expect(() => toCanvasModel(invalid)).toThrow(ValidationError)
+    })
+  })
+
+  describe('toVariationModel', () => {
+    it('should wrap bare canvases using the supplied defaults', () => {
+      const variation = toVariationModel(toCanvasModel(createCanvasJSON()), {
+        parentId: 'parent-1',
+        confidence: 0.8
+      })
+
+      expect(variation).toBeInstanceOf(DesignVariation)
+      expect(variation.parentId).toBe('parent-1')
+      expect(variation.confidence).toBe(0.8)
+      expect(variation.source).toBe(VariationSource.AI_SUGGESTION)
+    })
+
+    it('should convert history API nodes', () => {
+      const node = {
+        id: 'variation-1',
+        parentId: null,
+        childIds: ['variation-2'],
+        canvasData: createCanvasJSON(),
+        metadata: {
+          createdAt: '2025-01-03T00:00:00.000Z',
+          source: 'ai' as const,
+          aiMetadata: { confidence: 0.9, prompt: 'Make it bold', model: 'local' }
+        }
+      }
+
+      const variation = toVariationModel(node)
+      expect(variation.id).toBe('variation-1')
+      expect(variation.prompt).toBe('Make it bold')
+      expect(variation.confidence).toBe(0.9)
+      expect(variation.getChildren()).toEqual(['variation-2'])
+      expect(variation.canvasState).toBeInstanceOf(DesignCanvas)
+
+      const userNode = toVariationModel({ ...node, metadata: { createdAt: new Date(), source: 'user' } })
+      expect(userNode.source).toBe(VariationSource.USER_EDIT)
+    })
+  })
+})
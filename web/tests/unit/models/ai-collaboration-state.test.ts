@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { AICollaborationState } from '../../../src/entities/AICollaborationState'
-import { DesignVariation } from '../../../src/entities/DesignVariation'
+import { AICollaborationState } from '../../../src/models/AICollaborationState'
+import { DesignVariation } from '../../../src/models/DesignVariation'
 import { TrendData, UserPreferences, ErrorState } from '../../../src/types'
 
 describe('AICollaborationState Entity', () => {
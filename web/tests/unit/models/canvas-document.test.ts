@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest'
+import { CanvasDocument, mergeCanvasEdits } from '../../../src/models/CanvasDocument'
+import { DesignCanvas } from '../../../src/models/DesignCanvas'
+import { addLayer, removeLayer, reorderLayer, updateLayer } from '../../../src/models/mutations'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { DeviceType, ValidationError } from '../../../src/types'
+
+const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+
+const layerOf = (target: DesignCanvas, layerId: string) => target.layers.find(layer => layer.id === layerId)!
+const layerIds = (target: DesignCanvas) => target.layers.map(layer => layer.id)
+
+/** Exchange state between every pair of replicas, in both directions */
+function sync(...replicas: CanvasDocument[]) {
+  const states = replicas.map(replica => replica.toJSON())
+  replicas.forEach(replica => states.forEach(state => replica.merge(state)))
+}
+
+describe('CanvasDocument', () => {
+  it('should round-trip a canvas and derive the same origin from it everywhere', () => {
+    const alice = CanvasDocument.fromCanvas(canvas, 'alice')
+    const bob = CanvasDocument.fromCanvas(canvas, 'bob')
+
+    // Layers that were never modified report their creation time
+    const expected = canvas.toJSON()
+    expected.layers.forEach(layer => { layer.metadata.modifiedAt = layer.metadata.createdAt })
+    expect(alice.toCanvas().toJSON()).toEqual(expected)
+    expect(bob.toJSON()).toEqual(alice.toJSON())
+  })
+
+  it('should converge on concurrent property edits regardless of merge order', () => {
+    const origin = CanvasDocument.fromCanvas(canvas, 'origin')
+    const [alice, bob, carol] = ['alice', 'bob', 'carol'].map(replicaId => origin.fork(replicaId))
+
+    alice.setLayerProperty('accent', 'content.fill', '#ef4444')
+    bob.setLayerProperty('accent', 'content.fill', '#22c55e')
+    carol.setLayerProperty('accent', 'transform.x', 48)
+
+    const forward = alice.fork('check-1').merge(bob).merge(carol).toCanvas()
+    const backward = carol.fork('check-2').merge(bob).merge(alice).toCanvas()
+    expect(forward.toJSON()).toEqual(backward.toJSON())
+
+    // Same clock: the replica id breaks the tie
+    expect(layerOf(forward, 'accent').content.fill).toBe('#22c55e')
+    expect(layerOf(forward, 'accent').transform.x).toBe(48)
+
+    // Merging is idempotent
+    expect(forward.toJSON()).toEqual(alice.fork('check-3').merge(bob).merge(carol).merge(bob).toCanvas().toJSON())
+  })
+
+  it('should interleave concurrent typing in the same text layer', () => {
+    const alice = CanvasDocument.fromCanvas(canvas, 'alice')
+    const bob = alice.fork('bob')
+
+    alice.insertText('headline', 0, 'Now: ')
+    bob.insertText('headline', 'Design with AI'.length, ' today')
+    bob.deleteText('headline', 'Design '.length, 'with '.length)
+    sync(alice, bob)
+
+    expect(layerOf(alice.toCanvas(), 'headline').content.text).toBe('Now: Design AI today')
+    expect(layerOf(bob.toCanvas(), 'headline').content.text).toBe('Now: Design AI today')
+  })
+
+  it('should keep every concurrent move and settle on one stacking order', () => {
+    const alice = CanvasDocument.fromCanvas(canvas, 'alice')
+    const bob = alice.fork('bob')
+
+    alice.moveLayer('accent', 1)
+    bob.moveLayer('headline', 3)
+    bob.moveLayer('accent', 2)
+    sync(alice, bob)
+
+    const order = layerIds(alice.toCanvas())
+    expect(order).toEqual(layerIds(bob.toCanvas()))
+    expect([...order].sort()).toEqual(['accent', 'background', 'body', 'headline'])
+    expect(alice.toCanvas().layers.map(layer => layer.zIndex)).toEqual([0, 1, 2, 3])
+  })
+
+  it('should let the latest of a concurrent removal and edit decide', () => {
+    const alice = CanvasDocument.fromCanvas(canvas, 'alice')
+    const bob = alice.fork('bob')
+
+    alice.setLayerProperty('body', 'content.text', 'Edited')
+    bob.removeLayer('body')
+    sync(alice, bob)
+    expect(layerIds(alice.toCanvas())).toEqual(['background', 'headline', 'accent'])
+
+    // Re-adding after seeing the removal brings the layer back with fresh content
+    alice.addLayer({ ...layerOf(canvas, 'body'), content: { ...layerOf(canvas, 'body').content, text: 'Back' } }, 2)
+    sync(alice, bob)
+    expect(layerIds(bob.toCanvas())).toEqual(['background', 'headline', 'body', 'accent'])
+    expect(layerOf(bob.toCanvas(), 'body').content.text).toBe('Back')
+  })
+
+  it('should record canvas edits as the smallest set of operations', () => {
+    const alice = CanvasDocument.fromCanvas(canvas, 'alice')
+    const bob = alice.fork('bob')
+
+    let edited = updateLayer(canvas, 'headline', { content: { text: 'Design with AI!' } })
+    edited = reorderLayer(edited, 'background', 3)
+    edited = addLayer(edited, { ...layerOf(canvas, 'accent'), id: 'badge' })
+    alice.applyCanvas(edited)
+
+    bob.insertText('headline', 0, '> ')
+    bob.applyCanvas(removeLayer(bob.toCanvas(), 'body'))
+    sync(alice, bob)
+
+    const merged = alice.toCanvas()
+    expect(layerIds(merged)).toEqual(['headline', 'accent', 'background', 'badge'])
+    expect(layerOf(merged, 'headline').content.text).toBe('> Design with AI!')
+    expect(merged.toJSON()).toEqual(bob.toCanvas().toJSON())
+  })
+
+  it('should survive serialization and reject invalid operations', () => {
+    const alice = CanvasDocument.fromCanvas(canvas, 'alice')
+    alice.insertText('headline', 0, '✨ ')
+
+    const restored = CanvasDocument.fromJSON(JSON.parse(JSON.stringify(alice.toJSON())), 'alice')
+    expect(restored.toCanvas().toJSON()).toEqual(alice.toCanvas().toJSON())
+
+    expect(() => alice.insertText('accent', 0, 'x')).toThrow(ValidationError)
+    expect(() => alice.deleteText('headline', 0, 100)).toThrow(ValidationError)
+    expect(() => alice.setLayerProperty('missing', 'transform.x', 1)).toThrow(ValidationError)
+    expect(() => alice.setLayerProperty('accent', 'id', 'other')).toThrow(ValidationError)
+    expect(() => alice.merge(CanvasDocument.fromCanvas(new DesignCanvas({ ...canvas.toJSON(), id: 'other' }), 'bob')))
+      .toThrow(ValidationError)
+  })
+})
+
+describe('mergeCanvasEdits', () => {
+  it('should combine edits to the same text and let later canvases win property clashes', () => {
+    const first = updateLayer(canvas, 'headline', { content: { text: 'Design with AI today' }, style: { color: '#1d4ed8' } })
+    const second = updateLayer(canvas, 'headline', { content: { text: 'Go Design with AI' }, style: { color: '#be123c' } })
+
+    const headline = layerOf(mergeCanvasEdits(canvas, [first, second]), 'headline')
+
+    expect(headline.content.text).toBe('Go Design with AI today')
+    expect(headline.style.color).toBe('#be123c')
+  })
+})
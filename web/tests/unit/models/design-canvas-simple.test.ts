@@ -1,7 +1,7 @@
-import { DesignCanvas } from '../../../src/entities/DesignCanvas'
+import { DesignCanvas } from '../../../src/models/DesignCanvas'
 import { DeviceType, CanvasState } from '../../../src/types'
 
-describe('DesignCanvas Entity', () => {
+describe('DesignCanvas Model', () => {
   describe('Creation', () => {
     it('should create a valid DesignCanvas with required fields', () => {
       const canvas = new DesignCanvas({
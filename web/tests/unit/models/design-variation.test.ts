@@ -1,9 +1,9 @@
 import { describe, it, expect } from 'vitest'
-import { DesignVariation } from '../../../src/entities/DesignVariation'
-import { DesignCanvas } from '../../../src/entities/DesignCanvas'
+import { DesignVariation } from '../../../src/models/DesignVariation'
+import { DesignCanvas } from '../../../src/models/DesignCanvas'
 import { VariationSource } from '../../../src/types'
 
-describe('DesignVariation Entity', () => {
+describe('DesignVariation Model', () => {
   describe('Creation and Validation', () => {
     it('should create a valid DesignVariation with required fields', () => {
       const mockCanvas = new DesignCanvas({
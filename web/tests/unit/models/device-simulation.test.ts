@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { DeviceSimulation } from '../../../src/entities/DeviceSimulation'
+import { DeviceSimulation } from '../../../src/models/DeviceSimulation'
 import { DeviceDimensions, SafeAreaInsets, DeviceCharacteristics } from '../../../src/types'
 
 describe('DeviceSimulation Entity', () => {
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest'
+import { DesignCanvas } from '../../../src/models/DesignCanvas'
+import { DesignVariation } from '../../../src/models/DesignVariation'
+import { addLayer, removeLayer, reorderLayer, updateLayer } from '../../../src/models/mutations'
+import { diffCanvases, applyPatch, invertPatch, calculateSimilarity } from '../../../src/models/diff'
+import { HistoryManager } from '../../../src/services/HistoryManager'
+import { DeviceType, CanvasState, LayerType, ValidationError, VariationSource } from '../../../src/types'
+
+const FIXED_DATE = new Date('2025-01-01T00:00:00.000Z')
+
+const createCanvas = (): DesignCanvas => new DesignCanvas({
+  id: 'canvas-1',
+  deviceType: DeviceType.IPHONE_15_PRO,
+  dimensions: { width: 393, height: 852, pixelDensity: 3 },
+  layers: [
+    {
+      id: 'bg',
+      type: LayerType.BACKGROUND,
+      zIndex: 0,
+      content: { color: '#ffffff' },
+      transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+      style: {},
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'user', createdAt: FIXED_DATE }
+    },
+    {
+      id: 'title',
+      type: LayerType.TEXT,
+      zIndex: 1,
+      content: { text: 'Summer Sale', fontSize: 32 },
+      transform: { x: 30, y: 100, scaleX: 3, scaleY: 0.6, rotation: 0, opacity: 1 },
+      style: { color: '#111111' },
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'user', createdAt: FIXED_DATE }
+    },
+    {
+      id: 'badge',
+      type: LayerType.SHAPE,
+      zIndex: 2,
+      content: { shapeType: 'circle', fill: '#ff0000' },
+      transform: { x: 300, y: 700, scaleX: 0.5, scaleY: 0.5, rotation: 0, opacity: 1 },
+      style: {},
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'user', createdAt: FIXED_DATE }
+    }
+  ],
+  metadata: { createdAt: FIXED_DATE, modifiedAt: FIXED_DATE, tags: [] },
+  state: CanvasState.EDITING
+})
+
+const caption = {
+  id: 'caption',
+  type: LayerType.TEXT,
+  content: { text: 'Ends Sunday' },
+  transform: { x: 30, y: 200, scaleX: 2, scaleY: 0.3, rotation: 0, opacity: 1 },
+  style: {},
+  constraints: { locked: false, visible: true },
+  metadata: { source: 'user' as const, createdAt: FIXED_DATE }
+}
+
+const edit = (canvas: DesignCanvas) => {
+  let next = updateLayer(canvas, 'title', {
+    content: { text: 'Winter Sale' },
+    style: { color: '#1d4ed8' },
+    transform: { x: 40 }
+  })
+  next = reorderLayer(next, 'badge', 0)
+  next = removeLayer(next, 'bg')
+  return addLayer(next, caption)
+}
+
+describe('Canvas diff engine', () => {
+  it('should report property-level transform, style, content and z-order changes', () => {
+    const base = createCanvas()
+    const { changes } = diffCanvases(base, edit(base))
+
+    const summary = changes.map(change => `${change.kind}:${change.layerId}:${change.property}`)
+    expect(summary).toEqual(expect.arrayContaining([
+      'transform:title:transform.x',
+      'content:title:content.text',
+      'style:title:style.color',
+      'z_order:badge:zIndex',
+      'layer_removed:bg:layer',
+      'layer_added:caption:layer'
+    ]))
+    expect(changes.find(change => change.property === 'style.color')).toMatchObject({ from: '#111111', to: '#1d4ed8' })
+  })
+
+  it('should ignore metadata-only differences', () => {
+    const base = createCanvas()
+    const touched = updateLayer(base, 'title', { style: { color: '#111111' } })
+
+    const diff = diffCanvases(base, touched)
+
+    expect(diff.changes).toEqual([])
+    expect(diff.similarity).toBe(1)
+  })
+
+  it('should apply a patch and invert it back to the original canvas', () => {
+    const base = createCanvas()
+    const edited = edit(base)
+    const { patch } = diffCanvases(base, edited)
+
+    const forward = applyPatch(base, patch)
+    const backward = applyPatch(forward, invertPatch(patch))
+
+    expect(diffCanvases(forward, edited).changes).toEqual([])
+    expect(diffCanvases(backward, base).changes).toEqual([])
+    expect(backward.layers.map(layer => layer.id)).toEqual(['bg', 'title', 'badge'])
+    expect(backward.layers[0].metadata.createdAt).toBeInstanceOf(Date)
+  })
+
+  it('should survive a JSON round trip of the patch', () => {
+    const base = createCanvas()
+    const edited = updateLayer(base, 'badge', { content: { fill: '#00ff00' }, transform: { rotation: 45 } })
+    const patch = JSON.parse(JSON.stringify(diffCanvases(base, edited).patch))
+
+    expect(applyPatch(base, patch).layers[2]).toMatchObject({
+      content: { fill: '#00ff00' },
+      transform: { rotation: 45 }
+    })
+  })
+
+  it('should refuse to apply a patch whose starting values no longer match', () => {
+    const base = createCanvas()
+    const { patch } = diffCanvases(base, updateLayer(base, 'title', { style: { color: '#1d4ed8' } }))
+    const diverged = updateLayer(base, 'title', { style: { color: '#be123c' } })
+
+    expect(() => applyPatch(diverged, patch)).toThrow(ValidationError)
+    expect(applyPatch(diverged, patch, { strict: false }).layers[1].style.color).toBe('#1d4ed8')
+  })
+
+  it('should weight similarity by how visible a change is', () => {
+    const base = createCanvas()
+    const nudge = updateLayer(base, 'badge', { transform: { x: 301 } })
+    const tint = updateLayer(base, 'title', { style: { color: '#121212' } })
+    const recolorBackground = updateLayer(base, 'bg', { content: { color: '#000000' } })
+    const moveTitle = updateLayer(base, 'title', { transform: { y: 600 } })
+
+    const similarity = (canvas: DesignCanvas) => calculateSimilarity(base, canvas)
+
+    expect(similarity(base)).toBe(1)
+    expect(similarity(nudge)).toBeGreaterThan(0.99)
+    expect(similarity(tint)).toBeGreaterThan(0.99)
+    expect(similarity(recolorBackground)).toBeLessThan(similarity(moveTitle))
+    expect(similarity(moveTitle)).toBeLessThan(similarity(nudge))
+  })
+
+  it('should back DesignVariation similarity and HistoryManager.compareNodes', () => {
+    const base = createCanvas()
+    const edited = edit(base)
+    const variation = (canvas: DesignCanvas, id: string) => new DesignVariation({
+      id,
+      parentId: null,
+      canvasState: canvas,
+      source: VariationSource.USER_EDIT,
+      prompt: 'Edit',
+      confidence: 1,
+      timestamp: FIXED_DATE,
+      metadata: { tags: [], notes: '', approvalStatus: 'pending' }
+    })
+
+    expect(variation(base, 'a').calculateSimilarity(variation(edited, 'b'))).toBe(calculateSimilarity(base, edited))
+
+    const manager = new HistoryManager()
+    const root = manager.initialize(base)
+    const child = manager.addNode(edited, root.id)
+    const comparison = manager.compareNodes(root.id, child.id)
+
+    expect(comparison.similarity).toBe(calculateSimilarity(base, edited))
+    expect(comparison.changes).toContainEqual(expect.objectContaining({
+      type: 'layer_modified',
+      path: 'layers.title.style.color',
+      kind: 'style',
+      layerId: 'title'
+    }))
+    expect(comparison.changes).toContainEqual(expect.objectContaining({ type: 'layer_added', layerId: 'caption' }))
+  })
+})
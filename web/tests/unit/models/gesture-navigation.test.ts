@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { GestureNavigation } from '../../../src/entities/GestureNavigation'
+import { GestureNavigation } from '../../../src/models/GestureNavigation'
 import { ScrollDirection, TransitionState } from '../../../src/types'
 
 describe('GestureNavigation Entity', () => {
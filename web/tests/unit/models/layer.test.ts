@@ -1,13 +1,14 @@
 import { describe, it, expect } from 'vitest'
-import { Layer } from '../../../src/entities/Layer'
+import { Layer } from '../../../src/models/Layer'
 import { LayerType, LayerContent, Transform, LayerStyle, LayerConstraints } from '../../../src/types'
 
-describe('Layer Entity', () => {
+describe('Layer Model', () => {
   describe('Creation and Validation', () => {
     it('should create a valid Layer with required fields', () => {
       const layer = new Layer({
         id: 'layer-123',
         type: LayerType.TEXT,
+        zIndex: 0,
         content: { 
           text: 'Hello World',
           fontSize: 16,
@@ -50,6 +51,7 @@ describe('Layer Entity', () => {
         new Layer({
           id: '', // Invalid empty ID
           type: LayerType.TEXT,
+          zIndex: 0,
           content: { text: 'Test' },
           transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
           style: {},
@@ -64,6 +66,7 @@ describe('Layer Entity', () => {
         new Layer({
           id: 'layer-123',
           type: LayerType.TEXT,
+          zIndex: 0,
           content: { text: 'Test' },
           transform: { 
             x: -500, // Outside canvas boundaries
@@ -85,6 +88,7 @@ describe('Layer Entity', () => {
         new Layer({
           id: 'layer-123',
           type: LayerType.IMAGE,
+          zIndex: 0,
           content: { 
             text: 'This is text content' // Wrong content type for IMAGE layer
           },
@@ -101,6 +105,7 @@ describe('Layer Entity', () => {
         new Layer({
           id: 'layer-123',
           type: LayerType.TEXT,
+          zIndex: 0,
           content: { text: 'Test', fontSize: 16 },
           transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
           style: { 
@@ -118,6 +123,7 @@ describe('Layer Entity', () => {
       const textLayer = new Layer({
         id: 'text-layer',
         type: LayerType.TEXT,
+        zIndex: 0,
         content: {
           text: 'Sample text',
           fontSize: 18,
@@ -139,6 +145,7 @@ describe('Layer Entity', () => {
       const imageLayer = new Layer({
         id: 'image-layer',
         type: LayerType.IMAGE,
+        zIndex: 0,
         content: {
           src: 'https://example.com/image.jpg',
           alt: 'Sample image',
@@ -159,6 +166,7 @@ describe('Layer Entity', () => {
       const shapeLayer = new Layer({
         id: 'shape-layer',
         type: LayerType.SHAPE,
+        zIndex: 0,
         content: {
           shapeType: 'rectangle',
           width: 150,
@@ -181,6 +189,7 @@ describe('Layer Entity', () => {
       const groupLayer = new Layer({
         id: 'group-layer',
         type: LayerType.GROUP,
+        zIndex: 0,
         content: {
           children: ['child-layer-1', 'child-layer-2'],
           groupType: 'container'
@@ -201,6 +210,7 @@ describe('Layer Entity', () => {
       const layer = new Layer({
         id: 'transform-layer',
         type: LayerType.TEXT,
+        zIndex: 0,
         content: { text: 'Test' },
         transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
         style: {},
@@ -224,6 +234,7 @@ describe('Layer Entity', () => {
         new Layer({
           id: 'opacity-layer',
           type: LayerType.TEXT,
+          zIndex: 0,
           content: { text: 'Test' },
           transform: { 
             x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, 
@@ -241,6 +252,7 @@ describe('Layer Entity', () => {
         new Layer({
           id: 'rotation-layer',
           type: LayerType.TEXT,
+          zIndex: 0,
           content: { text: 'Test' },
           transform: { 
             x: 0, y: 0, scaleX: 1, scaleY: 1, 
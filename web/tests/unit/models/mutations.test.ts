@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { DesignCanvas } from '../../../src/models/DesignCanvas'
+import {
+  addLayer,
+  updateLayer,
+  setLayerProperty,
+  removeLayer,
+  reorderLayer,
+  setCanvasState
+} from '../../../src/models/mutations'
+import { DeviceType, CanvasState, LayerType, ValidationError } from '../../../src/types'
+
+const createCanvas = (): DesignCanvas => new DesignCanvas({
+  id: 'canvas-1',
+  deviceType: DeviceType.IPHONE_15_PRO,
+  dimensions: { width: 393, height: 852, pixelDensity: 3 },
+  layers: [
+    {
+      id: 'bg',
+      type: LayerType.BACKGROUND,
+      zIndex: 0,
+      content: { color: '#ffffff' },
+      transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+      style: {},
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'user', createdAt: new Date() }
+    },
+    {
+      id: 'title',
+      type: LayerType.TEXT,
+      zIndex: 1,
+      content: { text: 'Hello', fontSize: 24 },
+      transform: { x: 10, y: 10, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+      style: { color: '#000000' },
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'user', createdAt: new Date() }
+    }
+  ],
+  metadata: { createdAt: new Date(), modifiedAt: new Date(0), tags: [] },
+  state: CanvasState.EDITING
+})
+
+describe('Canvas mutation helpers', () => {
+  it('should return a new canvas and leave the original untouched', () => {
+    const canvas = createCanvas()
+    const updated = updateLayer(canvas, 'title', { content: { text: 'Updated' }, transform: { x: 40 } })
+
+    expect(updated).not.toBe(canvas)
+    expect(updated.layers[1].content).toEqual({ text: 'Updated', fontSize: 24 })
+    expect(updated.layers[1].transform.x).toBe(40)
+    expect(canvas.layers[1].content.text).toBe('Hello')
+    expect(canvas.layers[1].transform.x).toBe(10)
+    expect(updated.metadata.modifiedAt.getTime()).toBeGreaterThan(0)
+  })
+
+  it('should share unchanged layers between versions', () => {
+    const canvas = createCanvas()
+    const updated = updateLayer(canvas, 'title', { style: { color: '#ff0000' } })
+
+    expect(updated.layers[0]).toBe(canvas.layers[0])
+    expect(updated.layers[1]).not.toBe(canvas.layers[1])
+  })
+
+  it('should set nested properties by path and validate the result', () => {
+    const canvas = createCanvas()
+
+    expect(setLayerProperty(canvas, 'title', 'transform.rotation', 45).layers[1].transform.rotation).toBe(45)
+    expect(() => setLayerProperty(canvas, 'title', 'transform.opacity', 2)).toThrow(ValidationError)
+    expect(() => setLayerProperty(canvas, 'title', 'missing.value', 1)).toThrow(ValidationError)
+    expect(() => setLayerProperty(canvas, 'title', 'id', 'other')).toThrow(ValidationError)
+  })
+
+  it('should add layers on top of the stack', () => {
+    const canvas = addLayer(createCanvas(), {
+      id: 'badge',
+      type: LayerType.SHAPE,
+      content: { shapeType: 'circle', fill: '#00ff00' },
+      transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+      style: {},
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'ai', createdAt: new Date() }
+    })
+
+    expect(canvas.layers.map(layer => [layer.id, layer.zIndex])).toEqual([['bg', 0], ['title', 1], ['badge', 2]])
+    expect(() => addLayer(canvas, { ...canvas.layers[2] })).toThrow(ValidationError)
+  })
+
+  it('should reorder layers and re-sequence z-indices', () => {
+    const canvas = reorderLayer(createCanvas(), 'title', 0)
+
+    expect(canvas.layers.map(layer => [layer.id, layer.zIndex])).toEqual([['title', 0], ['bg', 1]])
+  })
+
+  it('should refuse to remove the last layer', () => {
+    const canvas = removeLayer(createCanvas(), 'title')
+
+    expect(canvas.layers).toHaveLength(1)
+    expect(() => removeLayer(canvas, 'bg')).toThrow(ValidationError)
+    expect(() => removeLayer(canvas, 'missing')).toThrow(ValidationError)
+  })
+
+  it('should return the same instance when nothing changes', () => {
+    const canvas = createCanvas()
+
+    expect(reorderLayer(canvas, 'bg', 0)).toBe(canvas)
+    expect(setCanvasState(canvas, CanvasState.VIEWING).state).toBe(CanvasState.VIEWING)
+  })
+})
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { AIRequestDispatcher, AIRequestError, createAIRequest, validateAIRequestParams } from '../../../src/services/AIRequestDispatcher'
+import { RemoteAIProvider } from '../../../src/services/AIProvider'
+import { LocalAIProvider } from '../../../src/services/LocalAIProvider'
+import { AIService } from '../../../src/services/AIService'
+import type { AIProvider } from '../../../src/services/AIProvider'
+import type { RequestContext } from '../../../../shared/types'
+
+const FIXED_DATE = new Date('2025-01-01T00:00:00.000Z')
+
+const contrast = (a: string, b: string) => {
+  const luminance = (hex: string) => {
+    const [r, g, b] = [1, 3, 5].map(offset => parseInt(hex.slice(offset, offset + 2), 16) / 255)
+      .map(value => value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4))
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b
+  }
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x)
+  return (light + 0.05) / (dark + 0.05)
+}
+
+// Everything crowded into the left third of a 400×800 canvas, with uneven gaps
+const lopsided: RequestContext = {
+  canvasDimensions: { width: 400, height: 800 },
+  visibleElements: [
+    { id: 'a', type: 'text', bounds: { x: 10, y: 100, width: 120, height: 40 } },
+    { id: 'b', type: 'image', bounds: { x: 17, y: 150, width: 110, height: 100 } },
+    { id: 'c', type: 'shape', bounds: { x: 31, y: 420, width: 100, height: 90 } }
+  ]
+}
+
+describe('validateAIRequestParams', () => {
+  it('should check parameters against the schema for their type', () => {
+    expect(validateAIRequestParams('color-palette', { baseColor: '#3b82f6', colorCount: 5 })).toEqual([])
+    expect(validateAIRequestParams('color-palette', { colorCount: 12, baseColor: 'blue' })).toEqual([
+      'parameters.colorCount must be between 2 and 10',
+      'parameters.baseColor must match ^#[0-9A-Fa-f]{6}$'
+    ])
+    expect(validateAIRequestParams('color-palette', { prompt: 'A sunset palette' })).toEqual(['parameters.prompt is not allowed'])
+    expect(validateAIRequestParams('generate-image', undefined)).toEqual(['parameters.prompt is required for generate-image'])
+    expect(validateAIRequestParams('content-aware-fill', { maskRegion: { x: 0, y: 0, width: -1 } })).toEqual([
+      'parameters.maskRegion.height is required',
+      'parameters.maskRegion.width must be at least 0'
+    ])
+    expect(validateAIRequestParams('object-detection', { objectTypes: ['face', 'ghost'] })).toEqual([
+      expect.stringMatching(/^parameters\.objectTypes\[1\] must be one of: person/)
+    ])
+  })
+})
+
+describe('AIRequestDispatcher', () => {
+  const dispatcher = new AIRequestDispatcher([new LocalAIProvider({ now: () => FIXED_DATE })], { now: () => FIXED_DATE })
+
+  it('should answer invalid requests with typed error responses', async () => {
+    const invalid = await dispatcher.dispatch(createAIRequest('generate-text', { prompt: 'Hi' }))
+    expect(invalid).toMatchObject({
+      type: 'generate-text',
+      status: 'error',
+      timestamp: FIXED_DATE.toISOString(),
+      error: { code: 'VALIDATION_ERROR', message: 'parameters.prompt must be at least 5 characters', retryable: false }
+    })
+
+    const malformed = await dispatcher.dispatch({ requestId: 'nope', type: 'color-palette', timestamp: 'yesterday' })
+    expect(malformed.error).toMatchObject({ code: 'INVALID_REQUEST', details: { errors: ['requestId must be a valid UUID', 'timestamp must be a valid ISO 8601 date'] } })
+
+    const unsupported = await dispatcher.dispatch(createAIRequest('style-transfer', { targetStyle: 'sketch' }))
+    expect(unsupported.error).toMatchObject({ code: 'MODEL_UNAVAILABLE' })
+    expect(dispatcher.supportedTypes()).toEqual(['suggest-improvement', 'analyze-composition', 'color-palette'])
+  })
+
+  it('should build accessible harmony palettes offline', async () => {
+    const request = createAIRequest('color-palette', { baseColor: '#3B82F6', paletteType: 'analogous', colorCount: 6 })
+    const response = await dispatcher.dispatch(request)
+    if (response.status !== 'success') throw new Error(response.error.message)
+
+    const { palette, accessibility } = response.result
+    expect(response.requestId).toBe(request.requestId)
+    expect(response.metadata).toEqual({ model: 'local-rules-v1' })
+    expect(palette.colors).toHaveLength(6)
+    expect(palette.colors[0]).toEqual({ hex: '#3b82f6', role: 'primary' })
+    expect(palette.name).toBe('Analogous Blue')
+
+    const text = palette.colors.find(color => color.role === 'text')!
+    const background = palette.colors.find(color => color.role === 'background')!
+    expect(contrast(text.hex, background.hex)).toBeGreaterThanOrEqual(4.5)
+    expect(accessibility).toMatchObject({ wcagAA: true, contrastRatios: [{ foreground: text.hex, background: background.hex }] })
+
+    // Same request, same palette
+    const again = await dispatcher.dispatch({ ...request, requestId: crypto.randomUUID() })
+    expect(again.result).toEqual(response.result)
+  })
+
+  it('should analyse composition and suggest improvements from element bounds', async () => {
+    const analysis = await dispatcher.dispatch(createAIRequest('analyze-composition', { detailLevel: 'comprehensive' }, { context: lopsided }))
+    if (analysis.status !== 'success') throw new Error(analysis.error.message)
+
+    const composition = analysis.result.analysis.composition!
+    expect(composition.balance).toBeLessThan(0.7)
+    expect(composition.density).toBe('sparse')
+    expect(composition.focusPoints?.[0].elementId).toBe('b')
+    expect(analysis.result.score).toBeGreaterThan(0)
+    expect(analysis.result.recommendations?.map(item => item.description)).toContain('Re-centre the layout; its visual weight sits toward the left')
+
+    const suggestions = await dispatcher.dispatch(createAIRequest('suggest-improvement', {
+      focus: 'spacing',
+      constraints: { brandColors: ['#ff5500'] }
+    }, { context: lopsided }))
+    expect(suggestions.result?.suggestions.map(item => item.type)).toEqual(['spacing-improvement'])
+    expect(suggestions.result?.category).toBe('spacing')
+
+    const withoutContext = await dispatcher.dispatch(createAIRequest('analyze-composition'))
+    expect(withoutContext.error).toMatchObject({ code: 'VALIDATION_ERROR', message: expect.stringContaining('context.canvasDimensions') })
+  })
+
+  it('should route by provider name and map provider failures onto AIError codes', async () => {
+    const failing = {
+      name: 'flaky',
+      requiresNetwork: true,
+      supportedRequestTypes: ['color-palette', 'generate-text'],
+      handleRequest: vi.fn(async (request) => {
+        if (request.type === 'generate-text') return { result: { words: 'missing text field' } } as never
+        throw new AIRequestError({ code: 'RATE_LIMIT_EXCEEDED', message: 'Slow down', retryAfter: 3 })
+      }),
+      analyzeCanvas: vi.fn(),
+      generateVariations: vi.fn(),
+      getCurrentTrends: vi.fn(),
+      healthCheck: vi.fn(async () => true)
+    } as AIProvider
+    const routed = new AIRequestDispatcher([new LocalAIProvider(), failing], { routes: { 'color-palette': 'flaky' } })
+
+    const limited = await routed.dispatch(createAIRequest('color-palette'))
+    expect(limited.error).toEqual({ code: 'RATE_LIMIT_EXCEEDED', message: 'Slow down', retryAfter: 3, retryable: true })
+
+    const malformed = await routed.dispatch(createAIRequest('generate-text', { prompt: 'Write a tagline' }))
+    expect(malformed.error).toMatchObject({ code: 'INTERNAL_ERROR', message: 'Provider flaky returned a malformed generate-text result' })
+  })
+})
+
+describe('RemoteAIProvider.handleRequest', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should post requests to /ai/requests and surface structured errors', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        requestId: 'ignored',
+        status: 'success',
+        timestamp: FIXED_DATE.toISOString(),
+        result: { text: 'Ship faster', alternatives: ['Ship sooner'] },
+        metadata: { model: 'gemini-pro', tokensUsed: 42 }
+      }), { status: 200 }))
+      .mockResolvedValueOnce(new Response('busy', { status: 429, headers: { 'Retry-After': '12' } }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        status: 'error',
+        error: { code: 'CONTENT_FILTERED', message: 'Prompt was blocked' }
+      }), { status: 400 }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const service = new AIService('key', 'https://ai.example.com/v1')
+    expect(service.supportedRequestTypes()).toHaveLength(9)
+
+    const request = createAIRequest('generate-text', { prompt: 'Write a tagline', tone: 'marketing' })
+    const success = await service.request(request)
+    expect(success).toMatchObject({ status: 'success', result: { text: 'Ship faster' }, metadata: { tokensUsed: 42 } })
+    expect(fetchMock.mock.calls[0][0]).toBe('https://ai.example.com/v1/ai/requests')
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual(request)
+
+    const limited = await service.request(createAIRequest('generate-image', { prompt: 'A lighthouse at dusk' }))
+    expect(limited.error).toEqual({ code: 'RATE_LIMIT_EXCEEDED', message: 'Request failed with HTTP 429', retryable: true, retryAfter: 12 })
+
+    const filtered = await service.request(createAIRequest('generate-image', { prompt: 'Something blocked' }))
+    expect(filtered.error).toEqual({ code: 'CONTENT_FILTERED', message: 'Prompt was blocked', retryable: false })
+
+    const unconfigured = await new RemoteAIProvider().handleRequest(request).catch(error => error)
+    expect(unconfigured).toMatchObject({ code: 'AUTH_ERROR' })
+    expect(await new AIService(undefined, undefined, new RemoteAIProvider()).request(request)).toMatchObject({
+      error: { code: 'AUTHENTICATION_FAILED', retryable: false }
+    })
+  })
+})
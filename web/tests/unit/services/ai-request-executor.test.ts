@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { AIRequestExecutor, TokenBucket } from '../../../src/services/AIRequestExecutor'
+import { AIRequestDispatcher, AIRequestError, createAIRequest } from '../../../src/services/AIRequestDispatcher'
+import { AIService } from '../../../src/services/AIService'
+import { AIServiceError, DeviceType } from '../../../src/types'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+
+const rateLimited = (retryAfter?: number) => new AIRequestError({ code: 'RATE_LIMIT_EXCEEDED', message: 'Slow down', retryable: true, retryAfter })
+
+describe('AIRequestExecutor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('should wait retryAfter before retrying and hold the endpoint meanwhile', async () => {
+    const executor = new AIRequestExecutor({ jitter: false })
+    const onRetry = vi.fn()
+    const task = vi.fn()
+      .mockRejectedValueOnce(rateLimited(2))
+      .mockResolvedValueOnce('done')
+
+    const result = executor.execute('generate-text', task, { onRetry })
+    await vi.advanceTimersByTimeAsync(0)
+    expect(task).toHaveBeenCalledTimes(1)
+    expect(onRetry).toHaveBeenCalledWith({ attempt: 1, delay: 2000, error: expect.objectContaining({ code: 'RATE_LIMIT_EXCEEDED' }) })
+    expect(executor.bucket('generate-text')!.available()).toBe(0)
+
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(task).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    await expect(result).resolves.toBe('done')
+    expect(task).toHaveBeenCalledTimes(2)
+  })
+
+  it('should back off exponentially and give up after maxAttempts', async () => {
+    const executor = new AIRequestExecutor({ jitter: false, baseDelay: 100, maxAttempts: 3 })
+    const delays: number[] = []
+    const task = vi.fn().mockRejectedValue(new AIRequestError({ code: 'MODEL_UNAVAILABLE', message: 'Overloaded', retryable: true }))
+
+    const result = executor.execute('color-palette', task, { onRetry: info => delays.push(info.delay) }).catch(error => error)
+    await vi.advanceTimersByTimeAsync(300)
+
+    expect(delays).toEqual([100, 200])
+    expect(await result).toMatchObject({ code: 'MODEL_UNAVAILABLE' })
+    expect(task).toHaveBeenCalledTimes(3)
+  })
+
+  it('should not retry errors that are not retryable', async () => {
+    const executor = new AIRequestExecutor()
+    const task = vi.fn().mockRejectedValue(new AIRequestError({ code: 'CONTENT_FILTERED', message: 'Blocked' }))
+    const legacy = vi.fn().mockRejectedValue(new AIServiceError('Bad canvas', 'VALIDATION_ERROR'))
+
+    await expect(executor.execute('generate-image', task)).rejects.toMatchObject({ code: 'CONTENT_FILTERED' })
+    await expect(executor.execute('canvas/analyze', legacy)).rejects.toThrow('Bad canvas')
+    expect(task).toHaveBeenCalledTimes(1)
+    expect(legacy).toHaveBeenCalledTimes(1)
+
+    // A retryAfter beyond maxDelay fails straight away rather than stalling the caller
+    const patient = vi.fn().mockRejectedValue(rateLimited(120))
+    await expect(executor.execute('generate-text', patient)).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED' })
+    expect(patient).toHaveBeenCalledTimes(1)
+  })
+
+  it('should time out slow attempts and abort their signal', async () => {
+    const executor = new AIRequestExecutor({ maxAttempts: 1 })
+    let seen: AbortSignal | undefined
+    const task = (signal: AbortSignal) => {
+      seen = signal
+      return new Promise<never>(() => {})
+    }
+
+    const result = executor.execute('generate-image', task, { timeout: 5000 }).catch(error => error)
+    await vi.advanceTimersByTimeAsync(5000)
+
+    expect(await result).toMatchObject({ code: 'TIMEOUT', detail: { retryable: true } })
+    expect(seen?.aborted).toBe(true)
+  })
+
+  it('should stop waiting and retrying when the caller cancels', async () => {
+    const executor = new AIRequestExecutor({ jitter: false })
+    const controller = new AbortController()
+    const task = vi.fn().mockRejectedValue(rateLimited(10))
+
+    const result = executor.execute('generate-text', task, { signal: controller.signal }).catch(error => error)
+    await vi.advanceTimersByTimeAsync(1000)
+    controller.abort()
+
+    expect(await result).toMatchObject({ name: 'AbortError' })
+    expect(task).toHaveBeenCalledTimes(1)
+    await expect(executor.execute('generate-text', task, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' })
+  })
+
+  it('should throttle bursts to the bucket refill rate', async () => {
+    const executor = new AIRequestExecutor({ rateLimits: { 'style-transfer': { capacity: 2, refillPerSecond: 1 } } })
+    const started: number[] = []
+    const task = async () => {
+      started.push(Date.now())
+    }
+
+    const start = Date.now()
+    const runs = Promise.all([1, 2, 3, 4].map(() => executor.execute('style-transfer', task)))
+    await vi.advanceTimersByTimeAsync(2000)
+    await runs
+
+    expect(started.map(time => time - start)).toEqual([0, 0, 1000, 2000])
+    expect(() => new TokenBucket({ capacity: 0, refillPerSecond: 1 })).toThrow(/Invalid rate limit/)
+  })
+})
+
+describe('AIService with an executor', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('should retry rate-limited endpoint and typed requests', async () => {
+    vi.useFakeTimers()
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('busy', { status: 429, headers: { 'Retry-After': '1' } }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ trendsId: 't1', categories: [], lastUpdated: '2025-01-01T00:00:00Z' }), { status: 200 }))
+      .mockResolvedValueOnce(new Response('down', { status: 503 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ status: 'success', result: { text: 'Ship faster' } }), { status: 200 }))
+      .mockResolvedValueOnce(new Response('nope', { status: 404 }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const service = new AIService('key', 'https://ai.example.com/v1', undefined, new AIRequestExecutor({ jitter: false, baseDelay: 100 }))
+
+    const trends = service.getCurrentTrends()
+    await vi.advanceTimersByTimeAsync(1000)
+    await expect(trends).resolves.toMatchObject({ trendsId: 't1' })
+    expect(fetchMock.mock.calls[1][1].signal).toBeInstanceOf(AbortSignal)
+
+    const text = service.request(createAIRequest('generate-text', { prompt: 'Write a tagline' }))
+    await vi.advanceTimersByTimeAsync(100)
+    await expect(text).resolves.toMatchObject({ status: 'success', result: { text: 'Ship faster' } })
+
+    // Statuses that are not retryable keep the legacy API_ERROR
+    await expect(service.getCurrentTrends()).rejects.toMatchObject({ code: 'API_ERROR', message: 'Trends request failed: nope' })
+    expect(fetchMock).toHaveBeenCalledTimes(5)
+  })
+
+  it('should retry failed connections but rethrow other errors unchanged', async () => {
+    vi.useFakeTimers()
+    const fetchMock = vi.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ trendsId: 't2', categories: [], lastUpdated: '2025-01-01T00:00:00Z' }), { status: 200 }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const service = new AIService('key', 'https://ai.example.com/v1', undefined, new AIRequestExecutor({ jitter: false, baseDelay: 100 }))
+    const trends = service.getCurrentTrends()
+    await vi.advanceTimersByTimeAsync(100)
+    await expect(trends).resolves.toMatchObject({ trendsId: 't2' })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+
+    const getCurrentTrends = vi.fn(async () => {
+      throw new TypeError('Cannot read properties of undefined')
+    })
+    const broken = new AIService(undefined, undefined, { name: 'broken', requiresNetwork: false, supportedRequestTypes: [], getCurrentTrends } as never)
+    await expect(broken.getCurrentTrends()).rejects.toBeInstanceOf(TypeError)
+    expect(getCurrentTrends).toHaveBeenCalledTimes(1)
+  })
+
+  it('should detach from the caller\'s signal after each streaming attempt', async () => {
+    vi.useFakeTimers()
+    const controller = new AbortController()
+    const add = vi.spyOn(controller.signal, 'addEventListener')
+    const remove = vi.spyOn(controller.signal, 'removeEventListener')
+    const streamVariations = vi.fn()
+      .mockRejectedValueOnce(new AIServiceError('Network request failed: Failed to fetch', 'NETWORK_ERROR'))
+      .mockResolvedValueOnce((async function* () {
+        yield { type: 'complete', requestId: 'req-1', total: 0 }
+      })())
+    const provider = { name: 'stream', requiresNetwork: true, supportedRequestTypes: [], generateVariations: vi.fn(), streamVariations }
+    const service = new AIService(undefined, undefined, provider as never, new AIRequestExecutor({ jitter: false, baseDelay: 100 }))
+    const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+
+    const events: unknown[] = []
+    const done = (async () => {
+      for await (const event of service.streamVariations({ baseCanvas: canvas, variationType: 'creative', count: 1 }, { signal: controller.signal })) {
+        events.push(event)
+      }
+    })()
+    await vi.advanceTimersByTimeAsync(100)
+    await done
+
+    expect(streamVariations).toHaveBeenCalledTimes(2)
+    expect(events).toEqual([{ type: 'complete', requestId: 'req-1', total: 0 }])
+    const added = add.mock.calls.map(([, listener]) => listener)
+    const removed = remove.mock.calls.map(([, listener]) => listener)
+    expect(added.length).toBeGreaterThan(0)
+    expect(added.every(listener => removed.includes(listener))).toBe(true)
+  })
+
+  it('should reject typed requests when the caller cancels', async () => {
+    const handleRequest = vi.fn((_request, options) => new Promise((_, reject) => {
+      options.signal.addEventListener('abort', () => reject(options.signal.reason))
+    }))
+    const provider = { name: 'slow', requiresNetwork: true, supportedRequestTypes: ['generate-text'], handleRequest }
+    const dispatcher = new AIRequestDispatcher([provider as never], { executor: new AIRequestExecutor() })
+    const controller = new AbortController()
+
+    const response = dispatcher.dispatch(createAIRequest('generate-text', { prompt: 'Write a tagline' }), { signal: controller.signal })
+    controller.abort()
+
+    await expect(response).rejects.toMatchObject({ name: 'AbortError' })
+  })
+})
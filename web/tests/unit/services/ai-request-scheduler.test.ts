@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest'
+import { AIRequestScheduler } from '../../../src/services/AIRequestScheduler'
+import type { AIQueueItem } from '../../../src/services/AIRequestScheduler'
+import { AICollaborationState } from '../../../src/models/AICollaborationState'
+
+/**
+ * Handler whose runs stay open until the test settles them by prompt
+ */
+const controlledHandler = () => {
+  const runs = new Map<string, { item: AIQueueItem; signal: AbortSignal; resolve: (value: unknown) => void; reject: (error: unknown) => void }>()
+  const started: string[] = []
+  const handler = vi.fn((item: AIQueueItem, signal: AbortSignal) => new Promise((resolve, reject) => {
+    started.push(item.prompt)
+    runs.set(item.prompt, { item, signal, resolve, reject })
+  }))
+  return { handler, runs, started }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('AIRequestScheduler', () => {
+  it('should run pending items by priority within the concurrency limit and record metrics', async () => {
+    const state = AICollaborationState.createDefault('session')
+    const { handler, runs, started } = controlledHandler()
+    const scheduler = new AIRequestScheduler(state, handler, { concurrency: 1 })
+
+    const first = scheduler.schedule({ type: 'analyze', prompt: 'first' })
+    scheduler.schedule({ type: 'trends', prompt: 'background', priority: 'low' })
+    scheduler.schedule({ type: 'generate', prompt: 'important', priority: 'high' })
+    await flush()
+    expect(started).toEqual(['first'])
+    expect(state.getProcessingRequestsCount()).toBe(1)
+
+    runs.get('first')!.resolve({ score: 0.9 })
+    await expect(first.result).resolves.toEqual({ score: 0.9 })
+    await flush()
+    expect(started).toEqual(['first', 'important'])
+
+    runs.get('important')!.reject(new Error('Model overloaded'))
+    await flush()
+    runs.get('background')!.resolve('done')
+    await scheduler.whenIdle()
+
+    expect(started).toEqual(['first', 'important', 'background'])
+    expect(state.processingQueue.map(item => [item.prompt, item.status, item.error])).toEqual([
+      ['important', 'failed', 'Model overloaded'],
+      ['first', 'completed', undefined],
+      ['background', 'completed', undefined]
+    ])
+    expect(state.sessionMetrics).toMatchObject({ totalRequests: 3, successfulRequests: 2, failedRequests: 1 })
+  })
+
+  it('should let urgent requests preempt low-priority ones', async () => {
+    const state = AICollaborationState.createDefault('session')
+    const { handler, runs, started } = controlledHandler()
+    const scheduler = new AIRequestScheduler(state, handler, { concurrency: 1 })
+
+    const low = scheduler.schedule({ type: 'trends', prompt: 'refresh trends', priority: 'low' })
+    await flush()
+    const lowSignal = runs.get('refresh trends')!.signal
+
+    // High priority waits its turn; urgent takes the slot from the low-priority run
+    scheduler.schedule({ type: 'analyze', prompt: 'check contrast', priority: 'high' })
+    await flush()
+    expect(started).toEqual(['refresh trends'])
+
+    scheduler.schedule({ type: 'generate', prompt: 'fix layout', priority: 'urgent' })
+    await flush()
+    expect(lowSignal.aborted).toBe(true)
+    expect(started).toEqual(['refresh trends', 'fix layout'])
+    expect(state.processingQueue.find(item => item.id === low.id)?.status).toBe('pending')
+
+    runs.get('fix layout')!.resolve('fixed')
+    await flush()
+    runs.get('check contrast')!.resolve('checked')
+    await flush()
+    runs.get('refresh trends')!.resolve('trends')
+
+    await expect(low.result).resolves.toBe('trends')
+    expect(started).toEqual(['refresh trends', 'fix layout', 'check contrast', 'refresh trends'])
+    expect(state.sessionMetrics.totalRequests).toBe(3)
+  })
+
+  it('should join identical requests and raise their priority', async () => {
+    const state = AICollaborationState.createDefault('session')
+    const { handler, runs } = controlledHandler()
+    const scheduler = new AIRequestScheduler(state, handler, { concurrency: 1 })
+
+    scheduler.schedule({ type: 'analyze', prompt: 'busy' })
+    const original = scheduler.schedule({ type: 'generate', prompt: 'three variations', priority: 'low' })
+    const other = scheduler.schedule({ type: 'generate', prompt: 'two variations' })
+    const repeat = scheduler.schedule({ type: 'generate', prompt: 'three variations', priority: 'high' })
+
+    expect(repeat).toMatchObject({ id: original.id, deduplicated: true })
+    expect(other.deduplicated).toBe(false)
+    expect(state.getPendingRequestsCount()).toBe(2)
+    expect(state.getNextQueueItem()?.id).toBe(original.id)
+
+    await flush()
+    runs.get('busy')!.resolve(null)
+    await flush()
+    runs.get('three variations')!.resolve(['a', 'b', 'c'])
+    await expect(repeat.result).resolves.toEqual(['a', 'b', 'c'])
+    expect(handler).toHaveBeenCalledTimes(3)
+  })
+
+  it('should cancel requests for a variation the user navigated away from', async () => {
+    const state = AICollaborationState.createDefault('session')
+    state.variationId = 'variation-a'
+    const { handler, runs, started } = controlledHandler()
+    const scheduler = new AIRequestScheduler(state, handler, { concurrency: 1 })
+    const changes = vi.fn()
+    scheduler.addListener(changes)
+
+    const running = scheduler.schedule({ type: 'analyze', prompt: 'analyse a' })
+    const queued = scheduler.schedule({ type: 'generate', prompt: 'vary a' })
+    const trends = scheduler.schedule({ type: 'trends', prompt: 'trends', variationId: null })
+    await flush()
+    const signal = runs.get('analyse a')!.signal
+
+    expect(scheduler.setVariation('variation-b')).toBe(2)
+    expect(signal.aborted).toBe(true)
+    await expect(running.result).rejects.toMatchObject({ name: 'AbortError', message: 'Variation variation-a is no longer active' })
+    await expect(queued.result).rejects.toMatchObject({ name: 'AbortError' })
+    expect(state.variationId).toBe('variation-b')
+    expect(changes).toHaveBeenCalled()
+
+    // The cancelled run finishing late changes nothing
+    runs.get('analyse a')!.resolve('late')
+    await flush()
+    runs.get('trends')!.resolve('current')
+    await expect(trends.result).resolves.toBe('current')
+
+    expect(started).toEqual(['analyse a', 'trends'])
+    expect(state.processingQueue.map(item => item.prompt)).toEqual(['trends'])
+    expect(state.sessionMetrics.totalRequests).toBe(1)
+  })
+
+  it('should resume interrupted items and reject invalid concurrency', async () => {
+    const state = AICollaborationState.createDefault('session')
+    const id = state.addToQueue({ type: 'analyze', prompt: 'left over', priority: 1 })
+    state.updateQueueItem(id, { status: 'processing' })
+    const restored = AICollaborationState.fromJSON(state.toJSON())
+
+    const scheduler = new AIRequestScheduler(restored, async item => item.prompt.toUpperCase())
+    scheduler.drain()
+    await scheduler.whenIdle()
+
+    expect(restored.processingQueue[0]).toMatchObject({ id, status: 'completed', result: 'LEFT OVER' })
+    expect(() => scheduler.setConcurrency(0)).toThrow(/positive integer/)
+  })
+})
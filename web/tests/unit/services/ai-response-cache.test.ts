@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest'
+import { AIResponseCache, cacheKey, canonicalJson } from '../../../src/services/AIResponseCache'
+import { MemoryStorageAdapter } from '../../../src/services/StorageAdapters'
+import { AIService } from '../../../src/services/AIService'
+import { LocalAIProvider } from '../../../src/services/LocalAIProvider'
+import { createAIRequest } from '../../../src/services/AIRequestDispatcher'
+import { AICollaborationState } from '../../../src/models/AICollaborationState'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { updateLayer } from '../../../src/models/mutations'
+import { DeviceType } from '../../../src/types'
+
+describe('cacheKey', () => {
+  it('should hash equal content to the same key regardless of key order', async () => {
+    expect(canonicalJson({ b: [{ y: 1, x: undefined, z: 2 }], a: new Date('2025-01-01T00:00:00.000Z') }))
+      .toBe('{"a":"2025-01-01T00:00:00.000Z","b":[{"y":1,"z":2}]}')
+
+    const key = await cacheKey({ type: 'color-palette', parameters: { baseColor: '#3b82f6', colorCount: 5 } })
+    expect(key).toMatch(/^[0-9a-f]{64}$/)
+    expect(await cacheKey({ parameters: { colorCount: 5, baseColor: '#3b82f6' }, type: 'color-palette' })).toBe(key)
+    expect(await cacheKey({ type: 'color-palette', parameters: { baseColor: '#3b82f6', colorCount: 6 } })).not.toBe(key)
+  })
+})
+
+describe('AIResponseCache', () => {
+  it('should expire entries after the TTL and evict the least recently used', async () => {
+    let now = 0
+    const cache = new AIResponseCache({ ttl: 1000, maxEntries: 2, maxSize: 30, now: () => now })
+
+    await cache.set('a', { v: 1 })
+    await cache.set('b', { v: 2 })
+    expect(await cache.get('a')).toEqual({ v: 1 })
+    await cache.set('c', { v: 3 })
+    expect(await cache.get('b')).toBeNull()
+    expect(await cache.get('a')).toEqual({ v: 1 })
+
+    // Too large to keep at all
+    await cache.set('huge', { text: 'x'.repeat(40) })
+    expect(await cache.get('huge')).toBeNull()
+
+    // Each {"v":n} is 7 characters; 24 more only fit once both are gone
+    await cache.set('wide', '0123456789012345678901')
+    expect(cache.stats()).toMatchObject({ entries: 1, size: 24 })
+
+    now = 1000
+    expect(await cache.get('wide')).toBeNull()
+    expect(cache.stats()).toEqual({ entries: 0, size: 0, hits: 2, misses: 3 })
+  })
+
+  it('should persist through a StorageAdapter and follow the enabled setting', async () => {
+    const storage = new MemoryStorageAdapter()
+    const state = AICollaborationState.createDefault('session')
+    let now = 0
+    const cache = new AIResponseCache({ storage, ttl: 1000, enabled: () => state.settings.cacheResponses, now: () => now })
+
+    await cache.set('fresh', { score: 0.8 })
+    now = 600
+    await cache.set('later', { score: 0.9 })
+    await cache.flush()
+    expect((await storage.keys()).sort()).toEqual(['ai-response-cache/fresh', 'ai-response-cache/later'])
+
+    now = 1200
+    const restored = new AIResponseCache({ storage, ttl: 1000, enabled: () => state.settings.cacheResponses, now: () => now })
+    expect(await restored.ready).toBe(1)
+    expect(await restored.get('later')).toEqual({ score: 0.9 })
+
+    // Each write touches its own entry only; the expired one is dropped from storage
+    const set = vi.spyOn(storage, 'set')
+    await restored.set('another', { score: 0.7 })
+    await restored.flush()
+    expect(set).toHaveBeenCalledTimes(1)
+    expect((await storage.keys()).sort()).toEqual(['ai-response-cache/another', 'ai-response-cache/later'])
+
+    state.updateSettings({ cacheResponses: false })
+    expect(await restored.get('later')).toBeNull()
+    await restored.set('ignored', true)
+    await restored.flush()
+    expect(await storage.keys()).not.toContain('ai-response-cache/ignored')
+    state.updateSettings({ cacheResponses: true })
+    expect(await restored.get('ignored')).toBeNull()
+  })
+})
+
+describe('AIService with a response cache', () => {
+  it('should answer a re-analysis of unchanged content from the cache', async () => {
+    const provider = new LocalAIProvider()
+    const analyze = vi.spyOn(provider, 'analyzeCanvas')
+    const state = AICollaborationState.createDefault('session')
+    const service = new AIService(undefined, undefined, provider)
+    service.configure({ cache: new AIResponseCache({ enabled: () => state.settings.cacheResponses }) })
+
+    const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+    const request = { canvas, deviceType: DeviceType.IPHONE_15_PRO, analysisType: ['creative' as const] }
+    const first = await service.analyzeCanvas(request)
+    expect(first.cacheHit).toBe(false)
+
+    // Edit a layer and edit it back, as an undo by hand would
+    const layer = canvas.layers[1]
+    const edited = updateLayer(canvas, layer.id, { transform: { x: layer.transform.x + 40 } })
+    const restored = updateLayer(edited, layer.id, { transform: { x: layer.transform.x } })
+    expect(restored.metadata.modifiedAt).not.toBe(canvas.metadata.modifiedAt)
+
+    const again = await service.analyzeCanvas({ ...request, canvas: restored })
+    expect(again).toMatchObject({ cacheHit: true, analysisId: first.analysisId, suggestions: first.suggestions })
+    expect(analyze).toHaveBeenCalledTimes(1)
+
+    expect((await service.analyzeCanvas({ ...request, canvas: edited })).cacheHit).toBe(false)
+    expect((await service.analyzeCanvas({ ...request, analysisType: ['trends'] })).cacheHit).toBe(false)
+    expect(analyze).toHaveBeenCalledTimes(3)
+
+    state.updateSettings({ cacheResponses: false })
+    expect((await service.analyzeCanvas(request)).cacheHit).toBeUndefined()
+    expect(analyze).toHaveBeenCalledTimes(4)
+  })
+
+  it('should mark typed responses with metadata.cacheHit', async () => {
+    const provider = new LocalAIProvider()
+    const handle = vi.spyOn(provider, 'handleRequest')
+    const service = new AIService(undefined, undefined, provider)
+    service.configure({ cache: new AIResponseCache() })
+
+    const parameters = { baseColor: '#3B82F6', paletteType: 'triadic' as const }
+    const first = await service.request(createAIRequest('color-palette', parameters))
+    const second = await service.request(createAIRequest('color-palette', parameters))
+
+    expect(first.metadata).toMatchObject({ model: 'local-rules-v1', cacheHit: false })
+    expect(second).toMatchObject({ status: 'success', result: first.result, metadata: { model: 'local-rules-v1', cacheHit: true } })
+    expect(second.requestId).not.toBe(first.requestId)
+    expect(handle).toHaveBeenCalledTimes(1)
+
+    // Invalid requests are never looked up or stored
+    const invalid = await service.request(createAIRequest('color-palette', { colorCount: 20 }))
+    expect(invalid.status).toBe('error')
+    expect(invalid.metadata).toBeUndefined()
+  })
+
+  it('should key requests that read a canvas by its content, not its id', async () => {
+    const handleRequest = vi.fn(async () => ({ result: { objects: [] } }))
+    const provider = { name: 'remote', requiresNetwork: true, supportedRequestTypes: ['object-detection'], handleRequest }
+    const service = new AIService(undefined, undefined, provider as never)
+    service.configure({ cache: new AIResponseCache() })
+
+    const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+    const detect = () => createAIRequest('object-detection', { objectTypes: ['text'] }, { context: { canvasId: canvas.id } })
+
+    // Without the canvas its content is unknown, so nothing is cached
+    expect((await service.request(detect())).metadata).toBeUndefined()
+    expect((await service.request(detect(), { canvas })).metadata).toMatchObject({ cacheHit: false })
+    expect((await service.request(detect(), { canvas })).metadata).toMatchObject({ cacheHit: true })
+
+    const edited = updateLayer(canvas, canvas.layers[1].id, { content: { text: 'Edited' } })
+    expect(edited.id).toBe(canvas.id)
+    expect((await service.request(detect(), { canvas: edited })).metadata).toMatchObject({ cacheHit: false })
+    expect(handleRequest).toHaveBeenCalledTimes(3)
+  })
+})
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest'
+import { importSvg, importDesignJson, importDesignFile, recordImport, CanvasImportError } from '../../../src/services/CanvasImporter'
+import type { DesignFile } from '../../../src/services/CanvasImporter'
+import { toSvg } from '../../../src/services/CanvasSvgSerializer'
+import { HistoryManager } from '../../../src/services/HistoryManager'
+import { DesignCanvas } from '../../../src/models/DesignCanvas'
+import { Layer } from '../../../src/models/Layer'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { DeviceType, LayerType } from '../../../src/types'
+
+const layer = (result: { canvas: { layers: Array<{ id: string }> } }, id: string) => {
+  const found = result.canvas.layers.find(candidate => candidate.id === id)
+  if (!found) throw new Error(`No layer ${id}`)
+  return found as ReturnType<typeof createStarterCanvas>['layers'][number]
+}
+
+const expectValid = (canvas: DesignCanvas) => {
+  expect(canvas.isValid()).toBe(true)
+  for (const data of canvas.layers) expect(() => new Layer(data)).not.toThrow()
+}
+
+describe('importSvg', () => {
+  it('should read back the layers of an exported canvas', () => {
+    const original = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+    const result = importSvg(toSvg(original), { deviceType: DeviceType.IPHONE_15_PRO })
+
+    expectValid(result.canvas)
+    expect(result.format).toBe('svg')
+    expect(result.canvas.metadata.tags).toContain('import')
+    for (const expected of original.layers) {
+      const imported = layer(result, expected.id)
+      expect(imported.type).toBe(expected.type)
+      expect(imported.transform.x).toBeCloseTo(expected.transform.x, 0)
+      expect(imported.transform.rotation).toBeCloseTo(expected.transform.rotation)
+      if (expected.type === LayerType.TEXT) {
+        expect(imported.content.text).toBe(expected.content.text)
+        expect(imported.content.fontSize).toBeCloseTo(expected.content.fontSize!)
+      } else {
+        expect(imported.transform.y).toBeCloseTo(expected.transform.y, 0)
+        expect(imported.transform.scaleX).toBeCloseTo(expected.transform.scaleX)
+        expect(imported.transform.scaleY).toBeCloseTo(expected.transform.scaleY)
+      }
+    }
+  })
+
+  it('should scale to the device, resolve transforms and styles and report what it drops', () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 400">
+      <defs>
+        <linearGradient id="sky" x2="0" y2="1"><stop offset="0" stop-color="#000"/><stop offset="100%" stop-color="#fff" stop-opacity="0.5"/></linearGradient>
+      </defs>
+      <g fill="red" transform="translate(20 40)" opacity="0.5">
+        <rect id="card" width="50" height="20" rx="4" transform="rotate(90)" style="fill: url(#sky)"/>
+      </g>
+      <circle cx="100" cy="100" r="10" stroke="blue" stroke-width="2" fill-opacity="0.25"/>
+      <text x="100" y="300" font-size="12" text-anchor="middle" font-weight="bold">Hello</text>
+      <path d="M0 0L10 10"/>
+    </svg>`
+    // The 200×400 design fits the 393-wide phone screen at 1.965×, centred vertically
+    const scale = 393 / 200
+    const offset = (852 - 400 * scale) / 2
+    const result = importSvg(svg, { deviceType: DeviceType.IPHONE_15_PRO })
+
+    expect(result.canvas.dimensions).toMatchObject({ width: 393, height: 852 })
+    expect(result.canvas.layers[0]).toMatchObject({ type: LayerType.BACKGROUND, content: { color: '#ffffff' } })
+
+    const card = layer(result, 'card')
+    expect(card.transform.x).toBeCloseTo(20 * scale, 2)
+    expect(card.transform.y).toBeCloseTo(offset + 40 * scale, 2)
+    expect(card.transform.scaleX).toBeCloseTo(0.5 * scale, 2)
+    expect(card.transform.rotation).toBe(90)
+    expect(card.transform.opacity).toBe(0.5)
+    expect(card.style.borderRadius).toBeCloseTo(4 * scale, 2)
+    expect(card.content.gradient).toEqual({
+      type: 'linear',
+      stops: [{ color: '#000', position: 0 }, { color: 'rgba(255, 255, 255, 0.5)', position: 1 }]
+    })
+
+    const circle = result.canvas.layers.find(candidate => candidate.content.shapeType === 'circle')!
+    expect(circle.content).toMatchObject({ fill: 'rgba(0, 0, 0, 0.25)', stroke: 'blue', strokeWidth: expect.closeTo(2 * scale, 2) })
+    expect(circle.transform.scaleY).toBeCloseTo(0.2 * scale, 2)
+
+    const text = result.canvas.layers.find(candidate => candidate.type === LayerType.TEXT)!
+    expect(text.content).toMatchObject({ text: 'Hello', textAlign: 'center', fontWeight: 'bold', fontSize: expect.closeTo(12 * scale, 2) })
+    expect(text.transform.y).toBeCloseTo(offset + (300 - 12) * scale, 2)
+
+    expect(result.issues).toEqual([expect.objectContaining({ kind: 'dropped', message: '<path> elements are not imported' })])
+  })
+
+  it('should reject documents that are not SVG', () => {
+    expect(() => importSvg('<svg><rect></svg>', { deviceType: DeviceType.IPHONE_15_PRO })).toThrow(CanvasImportError)
+    expect(() => importSvg('<svg xmlns="http://www.w3.org/2000/svg"/>', { deviceType: DeviceType.IPHONE_15_PRO })).toThrow(/view box/)
+  })
+})
+
+describe('importDesignJson', () => {
+  const file: DesignFile = {
+    name: 'Launch post',
+    frame: {
+      type: 'FRAME',
+      width: 400,
+      height: 800,
+      fills: [{ type: 'SOLID', color: { r: 1, g: 0.5, b: 0 } }],
+      children: [
+        {
+          type: 'GROUP',
+          id: 'hero',
+          x: 40,
+          y: 100,
+          width: 320,
+          height: 200,
+          opacity: 0.8,
+          children: [
+            { type: 'RECTANGLE', id: 'photo', width: 320, height: 160, cornerRadius: 12, fills: [{ type: 'IMAGE', imageUrl: 'https://cdn.example.com/hero.png' }] },
+            {
+              type: 'TEXT',
+              id: 'title',
+              y: 170,
+              width: 320,
+              height: 30,
+              characters: 'Ship it',
+              fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 }, opacity: 0.5 }],
+              style: { fontFamily: 'Inter', fontSize: 24, fontWeight: 700, textAlignHorizontal: 'CENTER', lineHeightPx: 30 }
+            }
+          ]
+        },
+        {
+          type: 'ELLIPSE',
+          id: 'badge',
+          x: 300,
+          y: 20,
+          width: 60,
+          height: 60,
+          rotation: 45,
+          fills: [{ type: 'GRADIENT_RADIAL', gradientStops: [{ position: 0, color: { r: 1, g: 1, b: 1 } }, { position: 1, color: { r: 0, g: 0, b: 1 } }] }],
+          effects: [{ type: 'DROP_SHADOW', offset: { x: 0, y: 4 }, radius: 8, color: { r: 0, g: 0, b: 0, a: 0.25 } }, { type: 'INNER_SHADOW', offset: { x: 0, y: 1 }, radius: 2, color: { r: 0, g: 0, b: 0 } }]
+        }
+      ]
+    }
+  }
+
+  it('should map frames, groups, text, images and ellipses onto layers scaled to the device', () => {
+    const result = importDesignJson(JSON.stringify(file), { deviceType: DeviceType.IPAD_PRO_11 })
+    // 400×800 fits the 834×1194 iPad at 1.4925×
+    const scale = 1194 / 800
+    const offset = (834 - 400 * scale) / 2
+
+    expectValid(result.canvas)
+    expect(result.canvas.metadata.description).toBe('Launch post')
+    expect(result.canvas.layers[0]).toMatchObject({ type: LayerType.BACKGROUND, content: { color: '#ff8000' } })
+
+    const hero = layer(result, 'hero')
+    expect(hero.type).toBe(LayerType.GROUP)
+    expect(hero.content.childLayerIds).toEqual(['photo', 'title'])
+    expect(hero.transform.opacity).toBe(0.8)
+
+    const photo = layer(result, 'photo')
+    expect(photo).toMatchObject({ type: LayerType.IMAGE, content: { imageUrl: 'https://cdn.example.com/hero.png' } })
+    expect(photo.transform.x).toBeCloseTo(offset + 40 * scale, 2)
+    expect(photo.transform.scaleX).toBeCloseTo(3.2 * scale, 2)
+    expect(photo.style.borderRadius).toBeCloseTo(12 * scale, 2)
+
+    const title = layer(result, 'title')
+    expect(title.content).toMatchObject({ text: 'Ship it', fontFamily: 'Inter', fontWeight: 'bold', textAlign: 'center', lineHeight: 1.25 })
+    expect(title.content.fontSize).toBeCloseTo(24 * scale, 2)
+    expect(title.style.color).toBe('rgba(0, 0, 0, 0.5)')
+    expect(title.transform.y).toBeCloseTo(270 * scale, 2)
+
+    const badge = layer(result, 'badge')
+    expect(badge.content).toMatchObject({ shapeType: 'circle', gradient: { type: 'radial' } })
+    expect(badge.transform.rotation).toBeCloseTo(45)
+    expect(badge.style.boxShadow).toMatchObject({ color: 'rgba(0, 0, 0, 0.25)', y: expect.closeTo(4 * scale, 2) })
+
+    expect(result.issues).toEqual([{ path: 'frame.children[1].effects[1]', kind: 'dropped', message: 'INNER_SHADOW effect is not supported' }])
+  })
+
+  it('should reject files without a sized frame', () => {
+    expect(() => importDesignJson('{"frame": {"type": "FRAME"}}', { deviceType: DeviceType.IPHONE_15_PRO })).toThrow(CanvasImportError)
+    expect(() => importDesignFile('not json', { deviceType: DeviceType.IPHONE_15_PRO })).toThrow(/not valid JSON/)
+  })
+})
+
+describe('recordImport', () => {
+  it('should start an empty history and branch from the current node afterwards', () => {
+    const manager = new HistoryManager()
+    const svg = toSvg(createStarterCanvas(DeviceType.IPHONE_15_PRO))
+
+    const root = recordImport(manager, importDesignFile(svg, { deviceType: DeviceType.IPHONE_15_PRO }), { fileName: 'poster.svg' })
+    expect(root.parentId).toBeNull()
+    expect(root.metadata).toMatchObject({ source: 'import', description: 'Imported poster.svg', tags: ['import', 'svg'] })
+
+    const next = recordImport(manager, importDesignJson({ frame: { type: 'FRAME', width: 10, height: 10 } }, { deviceType: DeviceType.IPHONE_15_PRO }))
+    expect(next.parentId).toBe(root.id)
+    expect(next.metadata.source).toBe('import')
+  })
+})
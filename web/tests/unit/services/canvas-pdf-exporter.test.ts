@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest'
+import { deflateSync } from 'zlib'
+import { toPdf, toPdfDeck, slidesFromBranch, slidesFromHistory } from '../../../src/services/CanvasPdfExporter'
+import { HistoryManager } from '../../../src/services/HistoryManager'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { addLayer, updateLayer } from '../../../src/models/mutations'
+import { LayerData } from '../../../src/models/DesignCanvas'
+import { DeviceType, LayerType } from '../../../src/types'
+
+const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+
+const decode = (data: Uint8Array) => Array.from(data, byte => String.fromCharCode(byte)).join('')
+
+/**
+ * Checks the cross-reference table points at every object and returns the file as text
+ */
+function readPdf(data: Uint8Array): string {
+  const file = decode(data)
+  expect(file.startsWith('%PDF-1.4')).toBe(true)
+  expect(file.trimEnd().endsWith('%%EOF')).toBe(true)
+
+  const startxref = Number(/startxref\n(\d+)/.exec(file)![1])
+  expect(file.slice(startxref, startxref + 4)).toBe('xref')
+
+  const offsets = Array.from(file.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm), match => Number(match[1]))
+  offsets.forEach((offset, index) => expect(file.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true))
+  return file
+}
+
+const pageCount = (file: string) => file.match(/\/Type \/Page\b(?!s)/g)?.length ?? 0
+
+const imageLayer = (id: string, imageData: string): Omit<LayerData, 'zIndex'> => ({
+  id,
+  type: LayerType.IMAGE,
+  content: { imageData },
+  transform: { x: 20, y: 40, scaleX: 2, scaleY: 1, rotation: 0, opacity: 1 },
+  style: { borderRadius: 8 },
+  constraints: { locked: false, visible: true },
+  metadata: { source: 'user', createdAt: new Date(0) }
+})
+
+function png(colorType: number, channels: number, pixels: number[]): string {
+  const crcless = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4)
+    length.writeUInt32BE(data.length)
+    return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)])
+  }
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(1, 0)
+  header.writeUInt32BE(1, 4)
+  header[8] = 8
+  header[9] = colorType
+  const scanline = Buffer.from([0, ...pixels.slice(0, channels)])
+  const file = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    crcless('IHDR', header),
+    crcless('IDAT', deflateSync(scanline)),
+    crcless('IEND', Buffer.alloc(0))
+  ])
+  return `data:image/png;base64,${file.toString('base64')}`
+}
+
+describe('toPdf', () => {
+  it('should write one vector page sized to the canvas with its text and shapes', async () => {
+    const edited = updateLayer(canvas, 'headline', { content: { text: 'Ünïcode (sale) – 50%', fontWeight: 'bold' } })
+    const { data, pageCount: pages, issues } = await toPdf(edited, { creationDate: new Date(Date.UTC(2026, 0, 2)) })
+    const file = readPdf(data)
+
+    expect(pages).toBe(1)
+    expect(pageCount(file)).toBe(1)
+    expect(file).toContain(`/MediaBox [0 0 ${canvas.dimensions.width} ${canvas.dimensions.height}]`)
+    expect(file).toContain('/BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding')
+    expect(file).toContain('(\\334n\\357code \\(sale\\) \\226 50%) Tj')
+    expect(file).toContain('/CreationDate (D:20260102000000Z)')
+    // The accent rectangle: #3b82f6 with rounded corners drawn as curves
+    expect(file).toContain('0.231 0.51 0.965 rg')
+    expect(issues).toEqual([])
+  })
+
+  it('should export gradients as shadings and report effects PDF cannot draw', async () => {
+    let edited = updateLayer(canvas, 'background', {
+      content: { gradient: { type: 'linear', stops: [{ color: '#ffffff', position: 0 }, { color: '#e0e7ff', position: 0.5 }, { color: '#000', position: 1 }] } }
+    })
+    edited = updateLayer(edited, 'accent', {
+      style: { boxShadow: { x: 0, y: 4, blur: 12, spread: 0, color: 'rgba(0, 0, 0, 0.25)' }, filter: { blur: 2 } }
+    })
+    const { data, issues } = await toPdf(edited)
+    const file = readPdf(data)
+
+    expect(file).toContain('/ShadingType 2')
+    expect(file).toContain('/FunctionType 3')
+    expect(file).toContain('/Bounds [0.5]')
+    expect(file).toContain('/ca 0.25')
+    expect(issues.map(issue => [issue.path, issue.kind])).toEqual([
+      ['canvas.layers.accent.style.boxShadow', 'approximated'],
+      ['canvas.layers.accent.style.filter', 'dropped']
+    ])
+  })
+
+  it('should embed JPEG and PNG images and report ones it cannot load', async () => {
+    const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0x02, 0x00, 0x03, 0x03, ...new Array(9).fill(0), 0xff, 0xd9])
+    let edited = addLayer(canvas, imageLayer('photo', `data:image/jpeg;base64,${jpeg.toString('base64')}`))
+    edited = addLayer(edited, imageLayer('logo', png(2, 3, [255, 0, 0])))
+    edited = addLayer(edited, { ...imageLayer('remote', ''), content: { imageUrl: 'https://cdn.example.com/missing.png' } })
+
+    const { data, issues } = await toPdf(edited, {
+      loadImage: async () => { throw new Error('HTTP 404') }
+    })
+    const file = readPdf(data)
+
+    expect(file).toContain('/Width 3 /Height 2 /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode')
+    expect(file).toContain('/DecodeParms << /Predictor 15 /Colors 3 /BitsPerComponent 8 /Columns 1 >>')
+    expect(file.match(/ Do\n/g)).toHaveLength(2)
+    expect(issues).toEqual([
+      expect.objectContaining({ kind: 'dropped', message: 'Image could not be embedded: HTTP 404' })
+    ])
+  })
+
+  it('should split transparent PNGs into colour and soft mask', async () => {
+    const { data, issues } = await toPdf(addLayer(canvas, imageLayer('logo', png(6, 4, [0, 128, 255, 64]))))
+
+    expect(issues).toEqual([])
+    expect(decode(data)).toMatch(/\/ColorSpace \/DeviceRGB \/BitsPerComponent 8 \/Filter \/FlateDecode \/SMask \d+ 0 R/)
+  })
+})
+
+describe('toPdfDeck', () => {
+  const history = () => {
+    const manager = new HistoryManager()
+    const root = manager.initialize(canvas, { description: 'Original layout' })
+    const bold = manager.addNode(updateLayer(canvas, 'headline', { style: { color: '#be123c' } }), root.id, {
+      source: 'ai',
+      description: 'Bold red headline',
+      aiPrompt: 'Make the headline pop with a warm accent colour',
+      confidence: 0.87
+    })
+    const calm = manager.addNode(updateLayer(canvas, 'accent', { content: { fill: '#94a3b8' } }), bold.id, {
+      source: 'ai',
+      aiPrompt: 'A calmer palette',
+      confidence: 0.6
+    })
+    return { manager, root, bold, calm }
+  }
+
+  it('should put a cover listing each variation before the variation pages', async () => {
+    const { manager, bold, calm } = history()
+    const slides = slidesFromHistory(manager, [bold.id, calm.id])
+
+    const { data, pageCount: pages } = await toPdfDeck(slides, { title: 'Spring campaign', subtitle: 'For Acme sign-off' })
+    const file = readPdf(data)
+
+    expect(pages).toBe(3)
+    expect(pageCount(file)).toBe(3)
+    expect(file).toContain('/MediaBox [0 0 595.28 841.89]')
+    for (const text of ['Spring campaign', 'For Acme sign-off', '1. Bold red headline', 'p. 2', 'p. 3', 'Prompt: Make the headline pop with a warm accent', 'Source: ai \\267 Confidence: 87%']) {
+      expect(file).toContain(text)
+    }
+    expect(file).toContain('/Title (Spring campaign)')
+  })
+
+  it('should export a whole branch and continue long covers on further pages', async () => {
+    const { manager } = history()
+    const branch = manager.getCurrentBranch()!
+    expect(slidesFromBranch(manager, branch.id).map(slide => slide.title)).toEqual(['Original layout', 'Bold red headline', expect.stringMatching(/^Version /)])
+
+    const slides = Array.from({ length: 30 }, (_, index) => ({
+      canvas,
+      title: `Option ${index + 1}`,
+      prompt: 'A long prompt that wraps over more than one line of the cover page because it keeps going and going',
+      source: 'ai',
+      confidence: 0.5
+    }))
+    const { data, pageCount: pages } = await toPdfDeck(slides)
+    const file = readPdf(data)
+    const coverPages = pages - slides.length
+
+    expect(coverPages).toBeGreaterThan(1)
+    expect(file).toContain(`(p. ${coverPages + 30}) Tj`)
+    expect(() => slidesFromBranch(manager, 'missing')).toThrow('Branch missing not found')
+    await expect(toPdfDeck([])).rejects.toThrow()
+  })
+})
@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest'
+import { CanvasStateConverter, CanvasConversionError } from '../../../src/services/CanvasStateConverter'
+import { DesignCanvas } from '../../../src/models/DesignCanvas'
+import { DeviceType, CanvasState, LayerType } from '../../../src/types'
+import { SchemaValidator } from '../../../../shared/utils/validation'
+import type { CanvasState as SharedCanvasState } from '../../../../shared/types'
+
+const NOW = '2025-01-01T00:00:00.000Z'
+
+const createSharedState = (overrides: Partial<SharedCanvasState> = {}): SharedCanvasState => ({
+  version: '1.0.0',
+  id: '11111111-1111-4111-8111-111111111111',
+  createdAt: NOW,
+  updatedAt: NOW,
+  dimensions: { width: 393, height: 852 },
+  elements: [
+    {
+      id: '22222222-2222-4222-8222-222222222222',
+      type: 'shape',
+      position: { x: 0, y: 0, z: 0 },
+      dimensions: { width: 393, height: 852 },
+      createdAt: NOW,
+      properties: { shapeType: 'rectangle', fill: '#fafafa' }
+    },
+    {
+      id: '33333333-3333-4333-8333-333333333333',
+      type: 'text',
+      position: { x: 20, y: 40, z: 1 },
+      dimensions: { width: 200, height: 50 },
+      rotation: 15,
+      opacity: 0.8,
+      createdAt: NOW,
+      properties: {
+        text: 'Hello',
+        fontSize: 24,
+        fontFamily: 'Inter',
+        fontWeight: 'bold',
+        textAlign: 'center',
+        color: '#111111'
+      }
+    },
+    {
+      id: '44444444-4444-4444-8444-444444444444',
+      type: 'shape',
+      position: { x: 50, y: 300, z: 2 },
+      dimensions: { width: 100, height: 60 },
+      locked: true,
+      createdAt: NOW,
+      properties: {
+        shapeType: 'rectangle',
+        fill: '#ff0000',
+        stroke: { color: '#000000', width: 2 },
+        cornerRadius: 8
+      }
+    }
+  ],
+  history: {
+    id: '55555555-5555-4555-8555-555555555555',
+    createdAt: NOW,
+    action: { type: 'create', description: 'Initial canvas' }
+  },
+  metadata: { tags: ['promo'], collaborators: ['alice'] },
+  ...overrides
+})
+
+const createWebCanvas = (): DesignCanvas => new DesignCanvas({
+  id: 'canvas-1',
+  deviceType: DeviceType.IPHONE_15_PRO,
+  dimensions: { width: 393, height: 852, pixelDensity: 3 },
+  layers: [
+    {
+      id: 'bg',
+      type: LayerType.BACKGROUND,
+      zIndex: 0,
+      content: { color: '#ffffff' },
+      transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+      style: {},
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'user', createdAt: new Date(NOW) }
+    },
+    {
+      id: 'title',
+      type: LayerType.TEXT,
+      zIndex: 1,
+      content: { text: 'Sale', fontSize: 32 },
+      transform: { x: 10, y: 20, scaleX: 2, scaleY: 0.5, rotation: -90, opacity: 1 },
+      style: { color: '#222222', boxShadow: { x: 0, y: 1, blur: 2, spread: 0, color: '#000000' } },
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'ai', createdAt: new Date(NOW) }
+    },
+    {
+      id: 'group',
+      type: LayerType.GROUP,
+      zIndex: 2,
+      content: {},
+      transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+      style: {},
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'user', createdAt: new Date(NOW) }
+    }
+  ],
+  metadata: { createdAt: new Date(NOW), modifiedAt: new Date(NOW), tags: [] },
+  state: CanvasState.EDITING
+})
+
+describe('CanvasStateConverter', () => {
+  describe('toDesignCanvas', () => {
+    it('should map shared elements onto web layers', () => {
+      const { value: canvas, issues } = CanvasStateConverter.toDesignCanvas(createSharedState())
+
+      expect(canvas.deviceType).toBe(DeviceType.IPHONE_15_PRO)
+      expect(canvas.layers.map(layer => layer.type)).toEqual([
+        LayerType.BACKGROUND,
+        LayerType.TEXT,
+        LayerType.SHAPE
+      ])
+
+      const text = canvas.layers[1]
+      expect(text.content).toMatchObject({ text: 'Hello', fontSize: 24, fontWeight: 'bold', textAlign: 'center' })
+      expect(text.style.color).toBe('#111111')
+      expect(text.transform).toMatchObject({ x: 20, y: 40, scaleX: 2, scaleY: 0.5, rotation: 15, opacity: 0.8 })
+
+      const shape = canvas.layers[2]
+      expect(shape.content).toMatchObject({ shapeType: 'rectangle', fill: '#ff0000', stroke: '#000000', strokeWidth: 2 })
+      expect(shape.style.borderRadius).toBe(8)
+      expect(shape.constraints.locked).toBe(true)
+
+      expect(canvas.metadata.author).toBe('alice')
+      expect(issues).toEqual([])
+    })
+
+    it('should report elements that cannot be represented', () => {
+      const state = createSharedState()
+      state.elements.push({
+        id: '66666666-6666-4666-8666-666666666666',
+        type: 'drawing',
+        position: { x: 0, y: 0, z: 3 },
+        createdAt: NOW,
+        properties: { paths: [] }
+      })
+
+      const { value: canvas, issues } = CanvasStateConverter.toDesignCanvas(state)
+
+      expect(canvas.layers).toHaveLength(3)
+      expect(issues).toContainEqual(expect.objectContaining({ path: 'elements[3]', kind: 'dropped' }))
+    })
+
+    it('should scale coordinates to the nearest device', () => {
+      const state = createSharedState({ dimensions: { width: 786, height: 1704 } })
+      state.elements = [state.elements[1]]
+
+      const { value: canvas, issues } = CanvasStateConverter.toDesignCanvas(state)
+
+      expect(canvas.deviceType).toBe(DeviceType.IPHONE_15_PRO)
+      expect(canvas.layers[0].transform.x).toBeCloseTo(10)
+      expect(canvas.layers[0].transform.scaleX).toBeCloseTo(1)
+      expect(issues).toContainEqual(expect.objectContaining({ path: 'dimensions', kind: 'approximated' }))
+    })
+
+    it('should add a background layer for empty canvases', () => {
+      const { value: canvas, issues } = CanvasStateConverter.toDesignCanvas(createSharedState({ elements: [] }))
+
+      expect(canvas.layers).toHaveLength(1)
+      expect(canvas.layers[0].type).toBe(LayerType.BACKGROUND)
+      expect(issues).toContainEqual(expect.objectContaining({ path: 'elements', kind: 'approximated' }))
+    })
+
+    it('should reject states that fail schema validation', () => {
+      const state = createSharedState({ id: 'not-a-uuid' })
+
+      expect(() => CanvasStateConverter.toDesignCanvas(state)).toThrow(CanvasConversionError)
+    })
+  })
+
+  describe('toCanvasState', () => {
+    it('should produce a schema-valid state and report lossy mappings', () => {
+      const { value: state, issues, idMap } = CanvasStateConverter.toCanvasState(createWebCanvas())
+
+      expect(SchemaValidator.validateCanvasState(state).valid).toBe(true)
+      expect(state.elements).toHaveLength(2)
+      expect(state.elements[1].rotation).toBe(270)
+      expect(state.elements[1].dimensions).toEqual({ width: 200, height: 50 })
+
+      expect(Object.keys(idMap)).toEqual(expect.arrayContaining(['canvas-1', 'bg', 'title']))
+      expect(issues).toContainEqual(expect.objectContaining({ path: 'layers.group', kind: 'dropped' }))
+      expect(issues).toContainEqual(expect.objectContaining({ path: 'layers.title.style.boxShadow', kind: 'dropped' }))
+      expect(issues).toContainEqual(expect.objectContaining({ path: 'id', kind: 'remapped' }))
+    })
+  })
+
+  describe('round trip', () => {
+    it('should preserve a shared state through web and back', () => {
+      const original = createSharedState()
+      const { value: canvas } = CanvasStateConverter.toDesignCanvas(original)
+      const { value: state, issues } = CanvasStateConverter.toCanvasState(canvas, { history: original.history })
+
+      expect(issues).toEqual([])
+      expect(SchemaValidator.validateCanvasState(state).valid).toBe(true)
+      expect(state.id).toBe(original.id)
+      expect(state.elements).toHaveLength(original.elements.length)
+      state.elements.forEach((element, index) => {
+        const source = original.elements[index]
+        expect(element.id).toBe(source.id)
+        expect(element.type).toBe(source.type)
+        expect(element.position).toEqual(source.position)
+        expect(element.dimensions).toEqual(source.dimensions)
+        expect(element.properties).toEqual(source.properties)
+      })
+    })
+
+    it('should restore web ids using the returned id map', () => {
+      const original = createWebCanvas()
+      const exported = CanvasStateConverter.toCanvasState(original)
+      const { value: canvas } = CanvasStateConverter.toDesignCanvas(exported.value, {
+        deviceType: DeviceType.IPHONE_15_PRO,
+        idMap: Object.fromEntries(Object.entries(exported.idMap).map(([from, to]) => [to, from]))
+      })
+
+      expect(canvas.id).toBe('canvas-1')
+      expect(canvas.layers.map(layer => layer.id)).toEqual(['bg', 'title'])
+      expect(canvas.layers[1].content).toMatchObject({ text: 'Sale', fontSize: 32 })
+    })
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { toSvg, toSvgDataUrl } from '../../../src/services/CanvasSvgSerializer'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { addLayer, updateLayer } from '../../../src/models/mutations'
+import { DesignCanvas, LayerData } from '../../../src/models/DesignCanvas'
+import { DeviceType, LayerType } from '../../../src/types'
+
+const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+
+const parse = (svg: string) => new DOMParser().parseFromString(svg, 'image/svg+xml')
+
+const layer = (id: string, type: LayerType, content: LayerData['content'], extra: Partial<LayerData> = {}): Omit<LayerData, 'zIndex'> => ({
+  id,
+  type,
+  content,
+  transform: { x: 10, y: 20, scaleX: 2, scaleY: 1, rotation: 0, opacity: 1 },
+  style: {},
+  constraints: { locked: false, visible: true },
+  metadata: { source: 'user', createdAt: new Date(0) },
+  ...extra
+})
+
+describe('toSvg', () => {
+  it('should produce a well-formed document sized to the canvas', () => {
+    const svg = toSvg(canvas, { scale: 2 })
+    const root = parse(svg).documentElement
+
+    expect(svg.startsWith('<?xml version="1.0" encoding="UTF-8"?>')).toBe(true)
+    expect(root.querySelector('parsererror')).toBeNull()
+    expect(root.getAttribute('viewBox')).toBe(`0 0 ${canvas.dimensions.width} ${canvas.dimensions.height}`)
+    expect(root.getAttribute('width')).toBe(String(canvas.dimensions.width * 2))
+    expect(Array.from(root.querySelectorAll('[data-layer-type]')).map(node => node.id))
+      .toEqual(['layer-background', 'layer-headline', 'layer-body', 'layer-accent'])
+  })
+
+  it('should render text with its font settings, alignment and line breaks', () => {
+    const edited = updateLayer(canvas, 'headline', {
+      content: { text: 'Fast & <bold>\nSecond line', fontFamily: 'Inter', fontSize: 40, fontWeight: 'bold', textAlign: 'center', lineHeight: 1.5 }
+    })
+    const text = parse(toSvg(edited)).querySelector('#layer-headline text')!
+    const headline = edited.layers.find(candidate => candidate.id === 'headline')!
+
+    expect(text.getAttribute('font-family')).toBe('Inter')
+    expect(text.getAttribute('font-size')).toBe('40')
+    expect(text.getAttribute('font-weight')).toBe('bold')
+    expect(text.getAttribute('text-anchor')).toBe('middle')
+    expect(text.getAttribute('fill')).toBe(headline.style.color)
+
+    const lines = Array.from(text.querySelectorAll('tspan'))
+    expect(lines.map(line => line.textContent)).toEqual(['Fast & <bold>', 'Second line'])
+    expect(lines.map(line => line.getAttribute('dy'))).toEqual(['40', '60'])
+    expect(lines[0].getAttribute('x')).toBe(String(50 * headline.transform.scaleX))
+  })
+
+  it('should render shapes and gradients from the model geometry', () => {
+    let edited = addLayer(canvas, layer('circle', LayerType.SHAPE, { shapeType: 'circle', fill: '#22c55e', stroke: '#000', strokeWidth: 2 }))
+    edited = addLayer(edited, layer('hex', LayerType.SHAPE, { shapeType: 'polygon', fill: '#f97316' }))
+    edited = updateLayer(edited, 'background', {
+      content: { gradient: { type: 'linear', stops: [{ color: '#ffffff', position: 1 }, { color: '#000000', position: 0 }] } }
+    })
+    const document = parse(toSvg(edited))
+
+    const ellipse = document.querySelector('#layer-circle ellipse')!
+    expect(document.querySelector('#layer-circle')!.getAttribute('transform')).toBe('translate(10 20)')
+    expect([ellipse.getAttribute('rx'), ellipse.getAttribute('ry')]).toEqual(['100', '50'])
+    expect(ellipse.getAttribute('stroke-width')).toBe('2')
+    expect(document.querySelector('#layer-hex polygon')!.getAttribute('points')!.split(' ')).toHaveLength(6)
+
+    const background = document.querySelector('#layer-background rect')!
+    expect(background.getAttribute('fill')).toBe('url(#gradient-background)')
+    expect(Array.from(document.querySelectorAll('#gradient-background stop')).map(stop => stop.getAttribute('stop-color')))
+      .toEqual(['#000000', '#ffffff'])
+  })
+
+  it('should turn shadows and filters into one SVG filter per layer', () => {
+    const edited = updateLayer(canvas, 'accent', {
+      style: {
+        boxShadow: { x: 0, y: 4, blur: 12, spread: 2, color: 'rgba(0,0,0,0.25)' },
+        filter: { blur: 1, brightness: 1.2 }
+      },
+      transform: { opacity: 0.5, rotation: 45 }
+    })
+    const document = parse(toSvg(edited))
+    const accent = document.querySelector('#layer-accent')!
+
+    expect(accent.getAttribute('filter')).toBe('url(#effects-accent)')
+    expect(accent.getAttribute('opacity')).toBe('0.5')
+    expect(accent.getAttribute('transform')).toContain('rotate(45)')
+
+    const primitives = Array.from(document.querySelector('#effects-accent')!.children).map(node => node.tagName)
+    expect(primitives).toEqual(['feGaussianBlur', 'feComponentTransfer', 'feMorphology', 'feGaussianBlur', 'feOffset', 'feFlood', 'feComposite', 'feMerge'])
+  })
+
+  it('should render images and nest group children once', () => {
+    let edited = addLayer(canvas, layer('photo', LayerType.IMAGE, { imageUrl: 'https://cdn.example.com/a.png?x=1&y=2' }, {
+      style: { borderRadius: 8 }
+    }))
+    edited = addLayer(edited, layer('group', LayerType.GROUP, { childLayerIds: ['photo', 'accent', 'group', 'missing'] }, {
+      transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 0.8 }
+    }))
+    const svg = toSvg(edited)
+    const document = parse(svg)
+
+    const image = document.querySelector('#layer-photo image')!
+    expect(image.getAttribute('xlink:href')).toBe('https://cdn.example.com/a.png?x=1&y=2')
+    expect(image.getAttribute('clip-path')).toBe('url(#clip-photo)')
+
+    const group = document.querySelector('#layer-group')!
+    expect(group.getAttribute('opacity')).toBe('0.8')
+    expect(Array.from(group.children).map(child => child.id)).toEqual(['layer-accent', 'layer-photo'])
+    expect(document.querySelectorAll('#layer-accent')).toHaveLength(1)
+  })
+
+  it('should leave out hidden layers and encode data URLs', () => {
+    const hidden = new DesignCanvas({
+      ...canvas.toJSON(),
+      layers: canvas.layers.map(candidate => candidate.id === 'body'
+        ? { ...candidate, constraints: { ...candidate.constraints, visible: false } }
+        : candidate)
+    })
+
+    expect(parse(toSvg(hidden)).querySelector('#layer-body')).toBeNull()
+    expect(decodeURIComponent(toSvgDataUrl(hidden, { xmlDeclaration: false }).split(',')[1])).toBe(toSvg(hidden, { xmlDeclaration: false }))
+  })
+})
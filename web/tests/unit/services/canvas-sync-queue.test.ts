@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { CanvasSyncQueue, SyncQueueOptions } from '../../../src/services/CanvasSyncQueue'
+import { CanvasServiceError, LayerUpdateRequest } from '../../../src/services/CanvasService'
+import { MemoryStorageAdapter } from '../../../src/services/StorageAdapters'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { DesignCanvas, LayerData } from '../../../src/models/DesignCanvas'
+import { DeviceType, VariationSource } from '../../../src/types'
+
+const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+
+const layer = (layerId: string) => canvas.layers.find(candidate => candidate.id === layerId)!
+
+const withText = (layerId: string, text: string): LayerData => ({
+  ...layer(layerId),
+  content: { ...layer(layerId).content, text }
+})
+
+const layerOf = (result: DesignCanvas, layerId: string) => result.layers.find(candidate => candidate.id === layerId)
+
+/**
+ * Stand-in for CanvasService that records calls and fails while offline
+ */
+function createService() {
+  const calls: string[] = []
+  let online = true
+  let remote = { canvas, version: 1 }
+  const reachable = () => {
+    if (!online) throw new CanvasServiceError('Failed to fetch', 'NETWORK_ERROR')
+  }
+
+  const service = {
+    getCanvas: vi.fn(async () => {
+      reachable()
+      return remote
+    }),
+    updateLayer: vi.fn(async (_canvasId: string, layerId: string, request: { layer: LayerData }) => {
+      reachable()
+      calls.push(`update:${layerId}:${request.layer.content.text ?? ''}`)
+      return { layer: request.layer, version: 2, lastModified: new Date() }
+    }),
+    deleteLayer: vi.fn(async (_canvasId: string, layerId: string) => {
+      reachable()
+      calls.push(`delete:${layerId}`)
+    }),
+    createVariation: vi.fn(async () => {
+      reachable()
+      calls.push('variation')
+      return { variationId: 'v1', timestamp: new Date(), parentPath: ['v1'] }
+    })
+  }
+
+  return {
+    service,
+    calls,
+    setOnline: (value: boolean) => { online = value },
+    setRemote: (canvas: DesignCanvas, version: number) => { remote = { canvas, version } }
+  }
+}
+
+function createQueue(service: ReturnType<typeof createService>['service'], options: SyncQueueOptions = {}) {
+  return new CanvasSyncQueue(service, { autoSync: false, ...options })
+}
+
+describe('CanvasSyncQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should collapse repeated edits to the same layer into one request', async () => {
+    const { service, calls } = createService()
+    const queue = createQueue(service)
+
+    queue.updateLayer(canvas.id, 'headline', { layer: withText('headline', 'One'), base: layer('headline') })
+    queue.updateLayer(canvas.id, 'body', { layer: withText('body', 'Body'), base: layer('body') })
+    queue.updateLayer(canvas.id, 'headline', { layer: withText('headline', 'Two'), base: layer('headline') })
+    queue.updateLayer(canvas.id, 'accent', { layer: layer('accent'), base: layer('accent') })
+    queue.deleteLayer(canvas.id, 'accent')
+
+    expect(queue.getState().pending.map(entry => entry.mutation.type)).toEqual([
+      'update_layer',
+      'update_layer',
+      'delete_layer'
+    ])
+
+    await queue.sync()
+    expect(calls).toEqual(['update:headline:Two', 'update:body:Body', 'delete:accent'])
+    expect(queue.getState()).toMatchObject({ status: 'idle', pending: [], failed: [] })
+  })
+
+  it('should apply pending mutations optimistically', () => {
+    const { service } = createService()
+    const queue = createQueue(service)
+
+    queue.updateLayer(canvas.id, 'headline', { layer: withText('headline', 'Offline edit'), base: layer('headline') })
+    queue.updateLayer(canvas.id, 'accent', { layer: layer('accent'), operation: 'reorder', newIndex: 1, base: layer('accent') })
+    queue.deleteLayer(canvas.id, 'body')
+
+    const optimistic = queue.applyPending(canvas)
+    expect(layerOf(optimistic, 'headline')?.content.text).toBe('Offline edit')
+    expect(layerOf(optimistic, 'accent')?.zIndex).toBe(1)
+    expect(layerOf(optimistic, 'body')).toBeUndefined()
+    expect(layerOf(canvas, 'headline')?.content.text).toBe('Design with AI')
+  })
+
+  it('should hold mutations while offline and replay them in order', async () => {
+    const { service, calls } = createService()
+    let online = false
+    const queue = createQueue(service, { isOnline: () => online })
+
+    queue.updateLayer(canvas.id, 'headline', { layer: withText('headline', 'Train'), base: layer('headline') })
+    queue.createVariation(canvas.id, {
+      parentVariationId: null,
+      source: VariationSource.USER_EDIT,
+      canvasState: canvas
+    })
+
+    await queue.sync()
+    expect(queue.getState().status).toBe('offline')
+    expect(calls).toEqual([])
+
+    online = true
+    await queue.sync()
+    expect(calls).toEqual(['update:headline:Train', 'variation'])
+    expect(queue.getState().pending).toHaveLength(0)
+  })
+
+  it('should merge replayed edits with changes made on the server meanwhile', async () => {
+    const { service, setRemote } = createService()
+    const queue = createQueue(service)
+    const headline = layer('headline')
+    setRemote(new DesignCanvas({
+      ...canvas,
+      layers: canvas.layers.map(candidate => candidate.id === 'headline'
+        ? { ...headline, style: { ...headline.style, color: '#ff0000' } }
+        : candidate)
+    }), 7)
+    service.updateLayer.mockRejectedValueOnce(new CanvasServiceError('Version mismatch', 'CONFLICT'))
+
+    queue.updateLayer(canvas.id, 'headline', { layer: withText('headline', 'Offline edit'), base: headline })
+    await queue.sync()
+
+    expect(service.getCanvas).toHaveBeenCalledTimes(2)
+    expect(service.updateLayer).toHaveBeenCalledTimes(2)
+    const [, , request] = service.updateLayer.mock.calls[1] as unknown as [string, string, LayerUpdateRequest]
+    expect(request.version).toBe(7)
+    expect(request.layer.content.text).toBe('Offline edit')
+    expect(request.layer.style.color).toBe('#ff0000')
+    expect(queue.getState().pending).toHaveLength(0)
+  })
+
+  it('should retry network failures with exponential backoff', async () => {
+    vi.useFakeTimers()
+    const { service, calls, setOnline } = createService()
+    const queue = createQueue(service, { retryDelayMs: 100 })
+    setOnline(false)
+
+    queue.deleteLayer(canvas.id, 'body')
+    await queue.sync()
+    expect(queue.getState()).toMatchObject({ status: 'waiting', nextRetryAt: Date.now() + 100 })
+
+    await vi.advanceTimersByTimeAsync(100)
+    expect(queue.getState()).toMatchObject({ status: 'waiting', nextRetryAt: Date.now() + 200 })
+    expect(queue.getState().pending[0]).toMatchObject({ attempts: 2, lastError: 'Failed to fetch' })
+
+    setOnline(true)
+    await vi.advanceTimersByTimeAsync(200)
+    expect(calls).toEqual(['delete:body'])
+    expect(queue.getState().status).toBe('idle')
+  })
+
+  it('should move rejected mutations aside and continue with the rest', async () => {
+    const { service, calls } = createService()
+    service.updateLayer.mockRejectedValueOnce(new CanvasServiceError('Layer headline not found', 'NOT_FOUND'))
+    service.deleteLayer.mockRejectedValueOnce(new CanvasServiceError('Layer body not found', 'NOT_FOUND'))
+    const queue = createQueue(service)
+
+    queue.updateLayer(canvas.id, 'headline', { layer: withText('headline', 'Lost'), base: layer('headline') })
+    queue.deleteLayer(canvas.id, 'body')
+    queue.createVariation(canvas.id, {
+      parentVariationId: null,
+      source: VariationSource.USER_EDIT,
+      canvasState: canvas
+    })
+    await queue.sync()
+
+    expect(calls).toEqual(['variation'])
+    // Deleting an already deleted layer counts as delivered
+    expect(queue.getState().failed.map(entry => entry.mutation.type)).toEqual(['update_layer'])
+    expect(queue.getState().failed[0].lastError).toBe('Layer headline not found')
+  })
+
+  it('should restore the outbox from storage', async () => {
+    const storage = new MemoryStorageAdapter()
+    const offline = createService()
+    const first = createQueue(offline.service, { storage, isOnline: () => false })
+
+    first.updateLayer(canvas.id, 'headline', { layer: withText('headline', 'Flight'), base: layer('headline') })
+    first.deleteLayer(canvas.id, 'accent')
+    await first.flush()
+
+    const { service, calls } = createService()
+    const second = createQueue(service, { storage })
+    expect(await second.ready).toBe(2)
+
+    await second.sync()
+    expect(calls).toEqual(['update:headline:Flight', 'delete:accent'])
+    await second.flush()
+    expect(await storage.get('outbox')).toEqual({ entries: [], failed: [] })
+  })
+})
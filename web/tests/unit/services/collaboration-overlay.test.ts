@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import { fabric } from 'fabric'
+import { CollaborationOverlay } from '../../../src/services/CollaborationOverlay'
+import { CollaborationSession } from '../../../src/services/CollaborationSession'
+import { LoopbackHub } from '../../../src/services/CollaborationTransport'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { DeviceType } from '../../../src/types'
+
+const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+
+type LayerObject = fabric.Object & { layerId?: string }
+
+/**
+ * jsdom has no 2D context: text is measured at 6px per character and drawing is skipped
+ */
+function createContextStub(): CanvasRenderingContext2D {
+  const state: Record<string | symbol, unknown> = {
+    measureText: (text: string) => ({ width: text.length * 6 })
+  }
+  return new Proxy(state, {
+    get: (target, property) => property in target ? target[property] : () => undefined,
+    set: (target, property, value) => {
+      target[property] = value
+      return true
+    }
+  }) as unknown as CanvasRenderingContext2D
+}
+
+function createFabricCanvas() {
+  const fabricCanvas = new fabric.Canvas(document.createElement('canvas'), { width: 400, height: 800 })
+  fabricCanvas.renderAll = () => fabricCanvas
+  fabricCanvas.requestRenderAll = () => fabricCanvas
+  return fabricCanvas
+}
+
+function addLayerObject(fabricCanvas: fabric.Canvas, layerId: string) {
+  const layer = canvas.layers.find(candidate => candidate.id === layerId)!
+  const object = Object.assign(
+    new fabric.Rect({ left: layer.transform.x, top: layer.transform.y, width: 100, height: 100 }),
+    { layerId }
+  )
+  fabricCanvas.add(object)
+  return object
+}
+
+const overlayObjects = (fabricCanvas: fabric.Canvas) =>
+  (fabricCanvas.getObjects() as LayerObject[]).filter(object => !object.layerId)
+
+describe('CollaborationOverlay', () => {
+  beforeAll(() => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(createContextStub as never)
+  })
+
+  afterAll(() => {
+    vi.restoreAllMocks()
+  })
+
+  let hub: LoopbackHub
+  let alice: CollaborationSession
+  let bob: CollaborationSession
+
+  beforeEach(async () => {
+    hub = new LoopbackHub()
+    alice = new CollaborationSession({ canvas, transport: hub.connect(), userId: 'alice', color: '#EF4444' })
+    bob = new CollaborationSession({ canvas, transport: hub.connect(), userId: 'bob', color: '#3B82F6' })
+    alice.join()
+    bob.join()
+    await hub.idle()
+  })
+
+  it('should draw remote cursors and selection outlines', async () => {
+    const fabricCanvas = createFabricCanvas()
+    addLayerObject(fabricCanvas, 'headline')
+    const overlay = new CollaborationOverlay(fabricCanvas, alice)
+
+    bob.moveCursor({ x: 50, y: 60 })
+    bob.select(['headline'])
+    await hub.idle()
+
+    const [cursor, outline] = [
+      overlayObjects(fabricCanvas).find(object => object instanceof fabric.Group)!,
+      overlayObjects(fabricCanvas).find(object => object instanceof fabric.Rect)!
+    ]
+    expect(cursor).toMatchObject({ left: 50, top: 60, selectable: false, evented: false, excludeFromExport: true })
+    expect(outline.stroke).toBe('#3B82F6')
+
+    bob.moveCursor(null)
+    bob.select([])
+    await hub.idle()
+    expect(overlayObjects(fabricCanvas)).toHaveLength(0)
+
+    overlay.dispose()
+  })
+
+  it('should share local object edits and apply remote ones', async () => {
+    const aliceCanvas = createFabricCanvas()
+    const bobCanvas = createFabricCanvas()
+    const aliceObject = addLayerObject(aliceCanvas, 'accent')
+    const bobObject = addLayerObject(bobCanvas, 'accent')
+    const overlays = [new CollaborationOverlay(aliceCanvas, alice), new CollaborationOverlay(bobCanvas, bob)]
+
+    aliceObject.set({ left: 12, top: 34, angle: 15 })
+    aliceCanvas.fire('object:modified', { target: aliceObject })
+    await hub.idle()
+
+    expect(bob.getCanvas().layers.find(layer => layer.id === 'accent')?.transform).toMatchObject({ x: 12, y: 34, rotation: 15 })
+    expect(bobObject).toMatchObject({ left: 12, top: 34, angle: 15 })
+
+    overlays.forEach(overlay => overlay.dispose())
+  })
+
+  it('should broadcast the local selection by layer id', async () => {
+    const fabricCanvas = createFabricCanvas()
+    const object = addLayerObject(fabricCanvas, 'body')
+    const overlay = new CollaborationOverlay(fabricCanvas, alice)
+
+    fabricCanvas.setActiveObject(object)
+    fabricCanvas.fire('selection:created', { selected: [object] })
+    await hub.idle()
+
+    expect(bob.getCollaborators().find(c => c.userId === 'alice')?.selection).toEqual(['body'])
+    overlay.dispose()
+  })
+})
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { CollaborationSession } from '../../../src/services/CollaborationSession'
+import { LoopbackHub, WebSocketTransport, WebSocketLike, CollaborationEvent } from '../../../src/services/CollaborationTransport'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { DesignCanvas } from '../../../src/models/DesignCanvas'
+import { DeviceType } from '../../../src/types'
+
+const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+
+const layerOf = (target: DesignCanvas, layerId: string) => target.layers.find(layer => layer.id === layerId)
+
+function joinAll(hub: LoopbackHub, ...userIds: string[]) {
+  return userIds.map(userId => {
+    const session = new CollaborationSession({ canvas, transport: hub.connect(), userId, name: userId.toUpperCase() })
+    session.join()
+    return session
+  })
+}
+
+describe('CollaborationSession', () => {
+  it('should track presence, cursors and selections of other participants', async () => {
+    const hub = new LoopbackHub()
+    const [alice, bob] = joinAll(hub, 'alice', 'bob')
+    await hub.idle()
+
+    expect(alice.getCollaboratorIds()).toEqual(['alice', 'bob'])
+    expect(bob.getCollaboratorIds()).toEqual(['alice', 'bob'])
+
+    bob.moveCursor({ x: 120, y: 48 })
+    bob.select(['headline'])
+    await hub.idle()
+
+    expect(alice.getCollaborators().find(c => c.userId === 'bob')).toMatchObject({
+      name: 'BOB',
+      cursor: { x: 120, y: 48 },
+      selection: ['headline'],
+      isLocal: false
+    })
+
+    bob.leave()
+    await hub.idle()
+    expect(alice.getCollaboratorIds()).toEqual(['alice'])
+  })
+
+  it('should apply non-overlapping edits from every participant', async () => {
+    const hub = new LoopbackHub()
+    const [alice, bob] = joinAll(hub, 'alice', 'bob')
+    await hub.idle()
+
+    alice.editLayer('headline', { 'content.text': 'Spring launch' })
+    bob.editLayer('accent', { 'transform.x': 40, 'style.borderRadius': 24 })
+    await hub.idle()
+
+    for (const session of [alice, bob]) {
+      expect(layerOf(session.getCanvas(), 'headline')?.content.text).toBe('Spring launch')
+      expect(layerOf(session.getCanvas(), 'accent')?.transform.x).toBe(40)
+      expect(layerOf(session.getCanvas(), 'accent')?.style.borderRadius).toBe(24)
+    }
+  })
+
+  it('should converge when edits to the same property are concurrent', async () => {
+    const hub = new LoopbackHub()
+    const [alice, bob, carol] = joinAll(hub, 'alice', 'bob', 'carol')
+    await hub.idle()
+
+    // Sent before either sees the other: same clock, the user id decides
+    alice.editLayer('headline', { 'content.text': 'From Alice' })
+    bob.editLayer('headline', { 'content.text': 'From Bob' })
+    await hub.idle()
+
+    const texts = [alice, bob, carol].map(session => layerOf(session.getCanvas(), 'headline')?.content.text)
+    expect(texts).toEqual(['From Bob', 'From Bob', 'From Bob'])
+
+    // An edit made after seeing the others always wins
+    alice.editLayer('headline', { 'content.text': 'Alice again' })
+    await hub.idle()
+    expect([alice, bob, carol].map(session => layerOf(session.getCanvas(), 'headline')?.content.text))
+      .toEqual(['Alice again', 'Alice again', 'Alice again'])
+  })
+
+  it('should let a concurrent delete win over older edits and add layers everywhere', async () => {
+    const hub = new LoopbackHub()
+    const [alice, bob] = joinAll(hub, 'alice', 'bob')
+    await hub.idle()
+
+    alice.editLayer('body', { 'content.text': 'Edited' })
+    bob.removeLayer('body')
+    bob.addLayer({ ...layerOf(canvas, 'accent')!, id: 'badge', zIndex: 4 })
+    await hub.idle()
+
+    for (const session of [alice, bob]) {
+      expect(session.getCanvas().layers.map(layer => layer.id)).toEqual(['background', 'headline', 'accent', 'badge'])
+    }
+  })
+
+  it('should bring late joiners up to date', async () => {
+    const hub = new LoopbackHub()
+    const [alice] = joinAll(hub, 'alice')
+    alice.editLayer('headline', { 'content.text': 'Before Dave joined' })
+    alice.select(['headline'])
+    await hub.idle()
+
+    const [dave] = joinAll(hub, 'dave')
+    await hub.idle()
+
+    expect(layerOf(dave.getCanvas(), 'headline')?.content.text).toBe('Before Dave joined')
+    expect(dave.getCollaborators().find(c => c.userId === 'alice')?.selection).toEqual(['headline'])
+  })
+
+  it('should reject invalid local edits without broadcasting them', async () => {
+    const hub = new LoopbackHub()
+    const [alice, bob] = joinAll(hub, 'alice', 'bob')
+    await hub.idle()
+    const listener = vi.fn()
+    bob.addListener(listener)
+
+    expect(() => alice.editLayer('missing', { 'content.text': 'x' })).toThrow()
+    expect(() => alice.editLayer('headline', { 'transform.opacity': 4 })).toThrow()
+    await hub.idle()
+
+    expect(listener).not.toHaveBeenCalled()
+    expect(bob.getCanvas()).toBe(canvas)
+  })
+
+  it('should ignore events for other canvases', async () => {
+    const hub = new LoopbackHub()
+    const other = new DesignCanvas({ ...canvas.toJSON(), id: 'other-canvas' })
+    const alice = new CollaborationSession({ canvas, transport: hub.connect(), userId: 'alice' })
+    const bob = new CollaborationSession({ canvas: other, transport: hub.connect(), userId: 'bob' })
+    alice.join()
+    bob.join()
+    await hub.idle()
+
+    expect(alice.getCollaboratorIds()).toEqual(['alice'])
+  })
+})
+
+/**
+ * Fake socket that records frames and lets the test drive its lifecycle
+ */
+class FakeSocket implements WebSocketLike {
+  static instances: FakeSocket[] = []
+  readyState = 0
+  sent: string[] = []
+  onopen: ((event: unknown) => void) | null = null
+  onclose: ((event: unknown) => void) | null = null
+  onmessage: ((event: { data: unknown }) => void) | null = null
+  onerror: ((event: unknown) => void) | null = null
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this)
+  }
+
+  send(data: string) {
+    this.sent.push(data)
+  }
+
+  close() {
+    this.readyState = 3
+  }
+
+  open() {
+    this.readyState = 1
+    this.onopen?.({})
+  }
+
+  drop() {
+    this.readyState = 3
+    this.onclose?.({})
+  }
+}
+
+describe('WebSocketTransport', () => {
+  afterEach(() => {
+    FakeSocket.instances = []
+    vi.useRealTimers()
+  })
+
+  const event: CollaborationEvent = {
+    id: 'e1',
+    type: 'cursor-move',
+    userId: 'alice',
+    canvasId: canvas.id,
+    timestamp: new Date(0).toISOString(),
+    data: { position: { x: 1, y: 2 } }
+  }
+
+  it('should buffer events until the socket opens and deliver incoming events', () => {
+    const transport = new WebSocketTransport('ws://relay/canvas', { WebSocketImpl: FakeSocket })
+    const received: CollaborationEvent[] = []
+    transport.subscribe(incoming => received.push(incoming))
+
+    transport.send(event)
+    const [socket] = FakeSocket.instances
+    expect(socket.sent).toEqual([])
+
+    socket.open()
+    expect(socket.sent.map(frame => JSON.parse(frame))).toEqual([event])
+
+    socket.onmessage?.({ data: 'not json' })
+    socket.onmessage?.({ data: JSON.stringify({ ...event, userId: 'bob' }) })
+    expect(received.map(incoming => incoming.userId)).toEqual(['bob'])
+  })
+
+  it('should reconnect with backoff after the connection drops', () => {
+    vi.useFakeTimers()
+    const transport = new WebSocketTransport('ws://relay/canvas', { WebSocketImpl: FakeSocket, reconnectDelayMs: 100 })
+    FakeSocket.instances[0].open()
+    FakeSocket.instances[0].drop()
+
+    transport.send(event)
+    vi.advanceTimersByTime(99)
+    expect(FakeSocket.instances).toHaveLength(1)
+    vi.advanceTimersByTime(1)
+    expect(FakeSocket.instances).toHaveLength(2)
+
+    FakeSocket.instances[1].open()
+    expect(FakeSocket.instances[1].sent).toHaveLength(1)
+
+    transport.close()
+    FakeSocket.instances[1].drop()
+    vi.advanceTimersByTime(10000)
+    expect(FakeSocket.instances).toHaveLength(2)
+  })
+})
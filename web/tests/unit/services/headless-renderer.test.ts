@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import { renderToPng, renderToRaster, renderThumbnails, compareRasters } from '../../../src/services/HeadlessRenderer'
+import { decodePng, encodePng, RasterImage } from '../../../src/services/PngCodec'
+import { toCanvasState } from '../../../src/services/CanvasStateConverter'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { addLayer, updateLayer } from '../../../src/models/mutations'
+import { LayerData } from '../../../src/models/DesignCanvas'
+import { DeviceType, LayerType } from '../../../src/types'
+
+const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+// Starter layout on a 393×852 canvas: 31pt margins, accent bar 331×50 at y 511.2
+const accentCentre = { x: 31 + 165, y: 511 + 25 }
+
+const pixel = (image: RasterImage, x: number, y: number) => {
+  const offset = (Math.floor(y) * image.width + Math.floor(x)) * 4
+  return Array.from(image.data.subarray(offset, offset + 4))
+}
+
+const imageLayer = (id: string, imageData: string): Omit<LayerData, 'zIndex'> => ({
+  id,
+  type: LayerType.IMAGE,
+  content: { imageData },
+  transform: { x: 100, y: 100, scaleX: 1, scaleY: 0.5, rotation: 0, opacity: 1 },
+  style: {},
+  constraints: { locked: false, visible: true },
+  metadata: { source: 'user', createdAt: new Date(0) }
+})
+
+async function pngDataUrl(image: RasterImage): Promise<string> {
+  return `data:image/png;base64,${Buffer.from(await encodePng(image)).toString('base64')}`
+}
+
+describe('renderToPng', () => {
+  it('should render at the device pixel density and report greeked text', async () => {
+    const { png, width, height, scale, issues } = await renderToPng(canvas)
+    const image = await decodePng(png)
+
+    expect([width, height, scale]).toEqual([393 * 3, 852 * 3, 3])
+    expect([image.width, image.height]).toEqual([width, height])
+    expect(pixel(image, 6, 6)).toEqual([0xf8, 0xfa, 0xfc, 255])
+    expect(pixel(image, accentCentre.x * 3, accentCentre.y * 3)).toEqual([0x3b, 0x82, 0xf6, 255])
+    expect(issues.map(issue => issue.path)).toEqual(['canvas.layers.headline.content.text', 'canvas.layers.body.content.text'])
+  })
+
+  it('should honour opacity, rotation and a transparent background', async () => {
+    let edited = updateLayer(canvas, 'background', { constraints: { visible: false } })
+    edited = updateLayer(edited, 'accent', { transform: { opacity: 0.5 } })
+    const { image } = await renderToRaster(edited, { pixelRatio: 1, background: 'transparent' })
+
+    expect(pixel(image, 2, 2)).toEqual([0, 0, 0, 0])
+    const [r, g, b, a] = pixel(image, accentCentre.x, accentCentre.y)
+    expect([r, g, b]).toEqual([0x3b, 0x82, 0xf6])
+    expect(a).toBeCloseTo(128, -1)
+
+    // Rotating 90° about the top-left corner swings the bar down and to the left of its origin
+    const rotated = updateLayer(canvas, 'accent', { transform: { rotation: 90 } })
+    const { image: turned } = await renderToRaster(rotated, { pixelRatio: 1 })
+    expect(pixel(turned, 31 - 25, 511 + 100)).toEqual([0x3b, 0x82, 0xf6, 255])
+    expect(pixel(turned, accentCentre.x + 100, accentCentre.y)).toEqual([0xf8, 0xfa, 0xfc, 255])
+  })
+
+  it('should fill gradients and anti-alias shape edges', async () => {
+    const edited = updateLayer(canvas, 'background', {
+      content: { gradient: { type: 'linear', stops: [{ color: '#000000', position: 0 }, { color: '#ffffff', position: 1 }] } }
+    })
+    const { image } = await renderToRaster(edited, { pixelRatio: 1 })
+
+    expect(pixel(image, 200, 0)[0]).toBeLessThan(2)
+    expect(pixel(image, 200, 425)[0]).toBeCloseTo(128, -1)
+    expect(pixel(image, 200, 851)[0]).toBeGreaterThan(253)
+
+    // The accent's top edge sits at y 511.2, so its first row blends with the gradient behind
+    const above = pixel(image, accentCentre.x, 509)
+    const edge = pixel(image, accentCentre.x, 511)
+    const inside = pixel(image, accentCentre.x, 512)
+    expect(inside.slice(0, 3)).toEqual([0x3b, 0x82, 0xf6])
+    expect(edge[0]).toBeGreaterThan(inside[0])
+    expect(edge[0]).toBeLessThan(above[0])
+  })
+
+  it('should draw PNG images, convert shared canvas states and report images it cannot load', async () => {
+    const stripes: RasterImage = { width: 2, height: 1, data: new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 255, 255]) }
+    let edited = addLayer(canvas, imageLayer('photo', await pngDataUrl(stripes)))
+    edited = addLayer(edited, { ...imageLayer('remote', ''), content: { imageUrl: 'https://cdn.example.com/missing.png' } })
+
+    const { png, issues } = await renderToPng(toCanvasState(edited).value, {
+      pixelRatio: 1,
+      loadImage: async () => { throw new Error('HTTP 404') }
+    })
+    const image = await decodePng(png)
+
+    expect(pixel(image, 110, 125)).toEqual([255, 0, 0, 255])
+    expect(pixel(image, 190, 125)).toEqual([0, 0, 255, 255])
+    expect(issues).toContainEqual(expect.objectContaining({ kind: 'dropped', message: 'Image could not be rendered: HTTP 404' }))
+  })
+})
+
+describe('renderThumbnails', () => {
+  it('should fit every canvas in the thumbnail size', async () => {
+    const results = await renderThumbnails([canvas, createStarterCanvas(DeviceType.IPAD_PRO_11)], { width: 300, height: 200 })
+
+    expect(results.map(result => [result.width, result.height])).toEqual([
+      [Math.round(393 * 200 / 852), 200],
+      [Math.round(834 * 200 / 1194), 200]
+    ])
+    const thumbnail = await decodePng(results[0].png)
+    expect(pixel(thumbnail, accentCentre.x * results[0].scale, accentCentre.y * results[0].scale)).toEqual([0x3b, 0x82, 0xf6, 255])
+  })
+})
+
+describe('compareRasters', () => {
+  it('should find the pixels that changed between two renders', async () => {
+    const { image: before } = await renderToRaster(canvas, { pixelRatio: 0.5 })
+    const { image: same } = await renderToRaster(canvas, { pixelRatio: 0.5 })
+    const { image: after } = await renderToRaster(updateLayer(canvas, 'accent', { content: { fill: '#ef4444' } }), { pixelRatio: 0.5 })
+
+    expect(compareRasters(same, before).mismatchedPixels).toBe(0)
+
+    const { mismatchedPixels, ratio, diff } = compareRasters(after, before, 2)
+    // Roughly the accent bar: 331×50 canvas units at half resolution
+    expect(mismatchedPixels).toBeGreaterThan(165 * 24)
+    expect(mismatchedPixels).toBeLessThan(167 * 27)
+    expect(ratio).toBeCloseTo(mismatchedPixels / (before.width * before.height))
+    expect(pixel(diff, accentCentre.x / 2, accentCentre.y / 2)).toEqual([255, 0, 0, 255])
+    expect(() => compareRasters(after, { width: 1, height: 1, data: new Uint8ClampedArray(4) })).toThrow()
+  })
+
+  it('should round-trip pixels through the PNG codec', async () => {
+    const { image } = await renderToRaster(canvas, { pixelRatio: 0.25 })
+    expect(compareRasters(await decodePng(await encodePng(image)), image).mismatchedPixels).toBe(0)
+  })
+})
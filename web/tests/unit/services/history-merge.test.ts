@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest'
+import { HistoryManager } from '../../../src/services/HistoryManager'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { removeLayer, updateLayer } from '../../../src/models/mutations'
+import { DeviceType } from '../../../src/types'
+
+/**
+ * main:        root ── (target edits)
+ * typography:    └──── (source edits)
+ */
+const setup = () => {
+  const manager = new HistoryManager()
+  const root = manager.initialize(createStarterCanvas(DeviceType.IPHONE_15_PRO))
+  const main = manager.getCurrentBranch()!
+  const typography = manager.createBranch('typography', root.id)
+
+  const editOn = (branchId: string, edit: (canvas: typeof root.canvasState) => typeof root.canvasState) => {
+    manager.switchBranch(branchId)
+    return manager.addNode(edit(manager.getCurrentNode()!.canvasState))
+  }
+
+  return { manager, root, main, typography, editOn }
+}
+
+describe('HistoryManager.mergeBranches', () => {
+  it('should combine the typography of one branch with the colors of another', () => {
+    const { manager, root, main, typography, editOn } = setup()
+
+    const sourceHead = editOn(typography.id, canvas =>
+      updateLayer(canvas, 'headline', { content: { fontFamily: 'Playfair Display', fontSize: 40 } }))
+    const targetHead = editOn(main.id, canvas =>
+      updateLayer(canvas, 'headline', { style: { color: '#be123c' } }))
+
+    expect(manager.findCommonAncestor(sourceHead.id, targetHead.id)?.id).toBe(root.id)
+
+    const result = manager.mergeBranches(typography.id, main.id)
+    const headline = result.mergeNode!.canvasState.layers.find(layer => layer.id === 'headline')!
+
+    expect(result.success).toBe(true)
+    expect(result.conflicts).toEqual([])
+    expect(headline.content.fontFamily).toBe('Playfair Display')
+    expect(headline.content.fontSize).toBe(40)
+    expect(headline.style.color).toBe('#be123c')
+  })
+
+  it('should create a merge node with both branch heads as parents', () => {
+    const { manager, main, typography, editOn } = setup()
+    const sourceHead = editOn(typography.id, canvas => updateLayer(canvas, 'body', { content: { text: 'Source copy' } }))
+    const targetHead = editOn(main.id, canvas => updateLayer(canvas, 'accent', { content: { fill: '#22c55e' } }))
+
+    const { mergeNode } = manager.mergeBranches(typography.id, main.id)
+
+    expect(mergeNode!.parentId).toBe(targetHead.id)
+    expect(mergeNode!.mergeParentId).toBe(sourceHead.id)
+    expect(mergeNode!.metadata.source).toBe('merge')
+    expect(manager.getState().nodes.get(sourceHead.id)!.children).toContain(mergeNode!.id)
+    expect(manager.getState().nodes.get(targetHead.id)!.children).toContain(mergeNode!.id)
+    expect(manager.getCurrentNode()!.id).toBe(mergeNode!.id)
+    expect(manager.getCurrentBranch()!.id).toBe(main.id)
+  })
+
+  it('should surface conflicting property changes and merge once they are resolved', () => {
+    const { manager, typography, main, editOn } = setup()
+    editOn(typography.id, canvas => updateLayer(canvas, 'headline', { style: { color: '#1d4ed8' }, content: { fontSize: 48 } }))
+    editOn(main.id, canvas => updateLayer(canvas, 'headline', { style: { color: '#be123c' } }))
+    const nodeCount = manager.getAllNodes().length
+
+    const attempt = manager.mergeBranches(typography.id, main.id)
+
+    expect(attempt.success).toBe(false)
+    expect(attempt.mergeNode).toBeNull()
+    expect(manager.getAllNodes()).toHaveLength(nodeCount)
+    expect(attempt.conflicts).toEqual([{
+      id: 'headline:style.color',
+      layerId: 'headline',
+      property: 'style.color',
+      baseValue: '#0f172a',
+      sourceValue: '#1d4ed8',
+      targetValue: '#be123c'
+    }])
+
+    const resolved = manager.mergeBranches(typography.id, main.id, {
+      resolutions: { 'headline:style.color': 'source' }
+    })
+    const headline = resolved.mergeNode!.canvasState.layers.find(layer => layer.id === 'headline')!
+
+    expect(resolved.success).toBe(true)
+    expect(headline.style.color).toBe('#1d4ed8')
+    expect(headline.content.fontSize).toBe(48)
+  })
+
+  it('should merge overlapping edits without conflicts using the crdt strategy', () => {
+    const { manager, typography, main, editOn } = setup()
+    editOn(typography.id, canvas => updateLayer(canvas, 'headline', { style: { color: '#1d4ed8' }, content: { text: 'Design with AI today' } }))
+    editOn(main.id, canvas => updateLayer(canvas, 'headline', { style: { color: '#be123c' }, content: { text: 'Go Design with AI' } }))
+
+    const result = manager.mergeBranches(typography.id, main.id, { strategy: 'crdt' })
+    const headline = result.mergeNode!.canvasState.layers.find(layer => layer.id === 'headline')!
+
+    expect(result.success).toBe(true)
+    expect(result.conflicts).toEqual([])
+    expect(headline.style.color).toBe('#1d4ed8')
+    expect(headline.content.text).toBe('Go Design with AI today')
+  })
+
+  it('should treat deleting a layer edited on the other branch as a conflict', () => {
+    const { manager, typography, main, editOn } = setup()
+    editOn(typography.id, canvas => removeLayer(canvas, 'accent'))
+    editOn(main.id, canvas => updateLayer(canvas, 'accent', { content: { fill: '#f97316' } }))
+
+    const preview = manager.previewMerge(typography.id, main.id)
+
+    expect(preview.conflicts.map(conflict => conflict.id)).toEqual(['accent:layer'])
+
+    const result = manager.mergeBranches(typography.id, main.id, { resolutions: { 'accent:layer': 'source' } })
+    expect(result.mergeNode!.canvasState.layers.map(layer => layer.id)).not.toContain('accent')
+  })
+
+  it('should apply one-sided deletions and additions without conflicts', () => {
+    const { manager, typography, main, editOn } = setup()
+    editOn(typography.id, canvas => removeLayer(canvas, 'accent'))
+    editOn(main.id, canvas => updateLayer(canvas, 'body', { content: { text: 'Target copy' } }))
+
+    const result = manager.mergeBranches(typography.id, main.id)
+
+    expect(result.success).toBe(true)
+    expect(result.mergeNode!.canvasState.layers.map(layer => layer.id)).toEqual(['background', 'headline', 'body'])
+  })
+
+  it('should report an up-to-date merge and reject invalid branches', () => {
+    const { manager, typography, main } = setup()
+
+    expect(manager.mergeBranches(typography.id, main.id)).toEqual({ success: true, mergeNode: null, conflicts: [] })
+    expect(manager.mergeBranches(main.id, main.id).error).toBe('Cannot merge a branch into itself')
+    expect(manager.mergeBranches('missing', main.id).success).toBe(false)
+  })
+
+  it('should persist merge parents through export and import', () => {
+    const { manager, typography, main, editOn } = setup()
+    editOn(typography.id, canvas => updateLayer(canvas, 'body', { content: { text: 'Source copy' } }))
+    editOn(main.id, canvas => updateLayer(canvas, 'accent', { content: { fill: '#22c55e' } }))
+    const { mergeNode } = manager.mergeBranches(typography.id, main.id)
+
+    const restored = new HistoryManager()
+    restored.importHistory(manager.exportHistory())
+
+    expect(restored.getCurrentNode()!.mergeParentId).toBe(mergeNode!.mergeParentId)
+  })
+})
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { HistoryManager } from '../../../src/services/HistoryManager'
+import { MemoryStorageAdapter, LocalStorageAdapter, IndexedDBStorageAdapter, StorageError } from '../../../src/services/StorageAdapters'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { updateLayer } from '../../../src/models/mutations'
+import { toCanvasModel } from '../../../src/models/adapters'
+import { DeviceType } from '../../../src/types'
+import type { StorageAdapter } from '../../../../shared/types'
+
+/**
+ * Wraps an adapter and records every write so tests can assert incremental persistence
+ */
+class RecordingAdapter implements StorageAdapter {
+  writes: string[] = []
+  deletes: string[] = []
+
+  constructor(private inner: StorageAdapter = new MemoryStorageAdapter()) {}
+
+  get<T>(key: string) { return this.inner.get<T>(key) }
+  async set<T>(key: string, value: T) {
+    this.writes.push(key)
+    await this.inner.set(key, value)
+  }
+  async delete(key: string) {
+    this.deletes.push(key)
+    await this.inner.delete(key)
+  }
+  clear() { return this.inner.clear() }
+  keys() { return this.inner.keys() }
+}
+
+/**
+ * Memory adapter whose writes reject while failing is set, like a backend over its quota
+ */
+class FailingAdapter extends MemoryStorageAdapter {
+  failing = false
+
+  async set<T>(key: string, value: T) {
+    if (this.failing) throw new StorageError(`Failed to write ${key}: quota exceeded`, 'WRITE_FAILED')
+    await super.set(key, value)
+  }
+}
+
+/**
+ * IDBFactory stand-in whose write transactions abort the way the browser does
+ * when a write exceeds the storage quota: abort fires, error does not
+ */
+function createAbortingFactory(error: DOMException) {
+  const transaction = {
+    error: null as DOMException | null,
+    oncomplete: null as (() => void) | null,
+    onerror: null as (() => void) | null,
+    onabort: null as (() => void) | null,
+    objectStore: () => ({
+      put: () => {
+        setTimeout(() => {
+          transaction.error = error
+          transaction.onabort?.()
+        })
+        return { result: undefined, error: null }
+      }
+    })
+  }
+  const db = { transaction: () => transaction, close: () => undefined }
+
+  return {
+    open: () => {
+      const request = { result: db, onsuccess: null as (() => void) | null, onerror: null, onupgradeneeded: null }
+      setTimeout(() => request.onsuccess?.())
+      return request
+    }
+  }
+}
+
+const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+
+describe('HistoryManager persistence', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should restore the full DAG from storage on startup', async () => {
+    const storage = new MemoryStorageAdapter()
+    const original = new HistoryManager(1000, { storage })
+    await original.ready
+
+    const root = original.initialize(canvas)
+    const child = original.addNode(updateLayer(canvas, 'headline', { content: { text: 'Edited' } }), root.id, { source: 'ai' })
+    const branch = original.createBranch('explore', root.id)
+    await original.flush()
+
+    const restored = new HistoryManager(1000, { storage })
+
+    expect(await restored.ready).toBe(true)
+    expect(restored.getAllNodes()).toHaveLength(2)
+    expect(restored.getCurrentNode()?.id).toBe(child.id)
+    expect(restored.getAllBranches().map(b => b.id)).toContain(branch.id)
+    expect(restored.getCurrentNode()?.timestamp).toBeInstanceOf(Date)
+    expect(toCanvasModel(restored.getCurrentNode()!.canvasState).layers[1].content.text).toBe('Edited')
+  })
+
+  it('should report nothing to restore for empty storage', async () => {
+    const manager = new HistoryManager(1000, { storage: new MemoryStorageAdapter() })
+
+    expect(await manager.ready).toBe(false)
+    expect(manager.getCurrentNode()).toBeNull()
+  })
+
+  it('should only write changed records after each mutation', async () => {
+    const storage = new RecordingAdapter()
+    const manager = new HistoryManager(1000, { storage })
+    const root = manager.initialize(canvas)
+    for (let i = 0; i < 5; i++) {
+      manager.addNode(canvas, root.id)
+    }
+    await manager.flush()
+    storage.writes = []
+
+    const node = manager.addNode(canvas)
+    await manager.flush()
+
+    // New node, its parent, the active branch and the current pointer
+    expect(storage.writes.sort()).toEqual([
+      `history/branch/${manager.getCurrentBranch()!.id}`,
+      'history/meta',
+      `history/node/${node.id}`,
+      `history/node/${node.parentId}`
+    ].sort())
+
+    storage.writes = []
+    manager.undo()
+    await manager.flush()
+
+    expect(storage.writes).toEqual(['history/meta'])
+  })
+
+  it('should replace stored history when re-initialized', async () => {
+    const storage = new RecordingAdapter()
+    const manager = new HistoryManager(1000, { storage })
+    const first = manager.initialize(canvas)
+    manager.addNode(canvas, first.id)
+    await manager.flush()
+
+    manager.initialize(canvas)
+    await manager.flush()
+
+    const keys = await storage.keys()
+    expect(keys.filter(key => key.startsWith('history/node/'))).toHaveLength(1)
+    expect(storage.deletes).toContain(`history/node/${first.id}`)
+  })
+
+  it('should keep separate namespaces apart and persist to localStorage', async () => {
+    const storage = new LocalStorageAdapter('test:')
+    const a = new HistoryManager(1000, { storage, namespace: 'a' })
+    const b = new HistoryManager(1000, { storage, namespace: 'b' })
+    await Promise.all([a.ready, b.ready])
+
+    a.initialize(canvas, { description: 'A' })
+    b.initialize(canvas, { description: 'B' })
+    await Promise.all([a.flush(), b.flush()])
+
+    const restoredA = new HistoryManager(1000, { storage: new LocalStorageAdapter('test:'), namespace: 'a' })
+    await restoredA.ready
+
+    expect(localStorage.getItem('test:a/meta')).not.toBeNull()
+    expect(restoredA.getAllNodes()).toHaveLength(1)
+    expect(restoredA.getCurrentNode()?.metadata.description).toBe('A')
+  })
+
+  it('should not overwrite history initialized while restoring', async () => {
+    const storage = new MemoryStorageAdapter()
+    const previous = new HistoryManager(1000, { storage })
+    previous.initialize(canvas, { description: 'old' })
+    await previous.flush()
+
+    const manager = new HistoryManager(1000, { storage })
+    manager.initialize(canvas, { description: 'new' })
+
+    expect(await manager.ready).toBe(false)
+    await manager.flush()
+    expect(manager.getCurrentNode()?.metadata.description).toBe('new')
+
+    const reloaded = new HistoryManager(1000, { storage })
+    await reloaded.ready
+    expect(reloaded.getCurrentNode()?.metadata.description).toBe('new')
+  })
+
+  it('should report failed writes from flush and retry them on the next pass', async () => {
+    const storage = new FailingAdapter()
+    const manager = new HistoryManager(1000, { storage })
+    const root = manager.initialize(canvas)
+    await manager.flush()
+
+    storage.failing = true
+    const child = manager.addNode(updateLayer(canvas, 'headline', { content: { text: 'Edited' } }), root.id)
+    await expect(manager.flush()).rejects.toMatchObject({ name: 'HistoryError', code: 'PERSIST_FAILED' })
+    expect(await storage.get(`history/node/${child.id}`)).toBeNull()
+
+    storage.failing = false
+    await manager.flush()
+
+    const reloaded = new HistoryManager(1000, { storage })
+    expect(await reloaded.ready).toBe(true)
+    expect(reloaded.getAllNodes()).toHaveLength(2)
+    expect(reloaded.getCurrentNode()?.id).toBe(child.id)
+    expect(reloaded.getState().nodes.get(root.id)?.children).toEqual([child.id])
+  })
+})
+
+describe('IndexedDBStorageAdapter', () => {
+  it('should reject writes whose transaction is aborted', async () => {
+    const quota = new DOMException('The quota has been exceeded.', 'QuotaExceededError')
+    const storage = new IndexedDBStorageAdapter('vyb', 'keyval', createAbortingFactory(quota) as never)
+
+    await expect(storage.set('history/meta', { nodes: [] })).rejects.toMatchObject({
+      name: 'StorageError',
+      code: 'WRITE_FAILED',
+      message: 'IndexedDB readwrite failed: The quota has been exceeded.'
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { HistoryManager, HistoryError } from '../../../src/services/HistoryManager'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { DeviceType } from '../../../src/types'
+
+const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+
+describe('HistoryManager tagging and pruning', () => {
+  it('should add and remove tags without duplicates', () => {
+    const manager = new HistoryManager()
+    const root = manager.initialize(canvas)
+
+    manager.tagNode(root.id, 'approved')
+    manager.tagNode(root.id, ' approved ')
+    expect(manager.getCurrentNode()?.metadata.tags).toEqual(['approved'])
+
+    manager.untagNode(root.id, 'approved')
+    expect(manager.getCurrentNode()?.metadata.tags).toEqual([])
+
+    expect(() => manager.tagNode(root.id, '  ')).toThrow(HistoryError)
+    expect(() => manager.tagNode('missing', 'x')).toThrow(/not found/)
+  })
+
+  it('should prune a subtree, its branches and move off a pruned current node', () => {
+    const manager = new HistoryManager()
+    const root = manager.initialize(canvas)
+    const keep = manager.addNode(canvas, root.id)
+    const doomed = manager.addNode(canvas, root.id)
+    const grandchild = manager.addNode(canvas, doomed.id)
+    const branch = manager.createBranch('dead-end', grandchild.id)
+
+    const removed = manager.pruneNode(doomed.id)
+
+    expect(removed.sort()).toEqual([doomed.id, grandchild.id].sort())
+    expect(manager.getAllNodes().map(node => node.id).sort()).toEqual([root.id, keep.id].sort())
+    expect(manager.getState().nodes.get(root.id)?.children).toEqual([keep.id])
+    expect(manager.getAllBranches().map(b => b.id)).not.toContain(branch.id)
+    expect(manager.getCurrentBranch()?.nodes).not.toContain(doomed.id)
+    expect(manager.getCurrentNode()?.id).toBe(root.id)
+  })
+
+  it('should refuse to prune the root or a protected branch', () => {
+    const manager = new HistoryManager()
+    const root = manager.initialize(canvas)
+    const child = manager.addNode(canvas, root.id)
+    manager.createBranch('keep', child.id, { isProtected: true })
+
+    expect(() => manager.pruneNode(root.id)).toThrow(expect.objectContaining({ code: 'CANNOT_PRUNE_ROOT' }))
+    expect(() => manager.pruneNode(child.id)).toThrow(expect.objectContaining({ code: 'BRANCH_PROTECTED' }))
+    expect(manager.getAllNodes()).toHaveLength(2)
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, bench } from 'vitest'
+import { HistoryManager } from '../../../src/services/HistoryManager'
+import { DesignCanvas } from '../../../src/models/DesignCanvas'
+import { LayerData } from '../../../src/models/Layer'
+import { updateLayer } from '../../../src/models/mutations'
+import { DeviceType, CanvasState, LayerType } from '../../../src/types'
+
+const FIXED_DATE = new Date('2025-01-01T00:00:00.000Z')
+const HISTORY_LENGTH = 1000
+const LAYER_COUNT = 200
+
+const createCanvas = (layerCount: number): DesignCanvas => new DesignCanvas({
+  id: 'canvas-1',
+  deviceType: DeviceType.IPHONE_15_PRO,
+  dimensions: { width: 393, height: 852, pixelDensity: 3 },
+  layers: [
+    {
+      id: 'bg',
+      type: LayerType.BACKGROUND,
+      zIndex: 0,
+      content: { color: '#ffffff' },
+      transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+      style: {},
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'user', createdAt: FIXED_DATE }
+    },
+    ...Array.from({ length: layerCount }, (_, i): LayerData => ({
+      id: `text-${i}`,
+      type: LayerType.TEXT,
+      zIndex: i + 1,
+      content: { text: `Layer ${i} with some representative copy`, fontSize: 14, fontFamily: 'Inter' },
+      transform: { x: 10, y: (i * 7) % 800, scaleX: 2, scaleY: 0.3, rotation: 0, opacity: 1 },
+      style: { color: '#333333', borderRadius: 4 },
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'user', createdAt: FIXED_DATE }
+    }))
+  ],
+  metadata: { createdAt: FIXED_DATE, modifiedAt: FIXED_DATE, tags: [] },
+  state: CanvasState.EDITING
+})
+
+// Pre-build the edit sequence so both benchmarks only measure history storage
+const edits: DesignCanvas[] = []
+let previous = createCanvas(LAYER_COUNT)
+for (let i = 0; i < HISTORY_LENGTH; i++) {
+  previous = updateLayer(previous, `text-${i % LAYER_COUNT}`, { transform: { x: 10 + (i % 13) } })
+  edits.push(previous)
+}
+
+describe(`${HISTORY_LENGTH}-node history of a ${LAYER_COUNT}-layer canvas`, () => {
+  bench('previous approach: JSON deep clone per node', () => {
+    const snapshots: DesignCanvas[] = [JSON.parse(JSON.stringify(edits[0]))]
+    for (const canvas of edits) {
+      snapshots.push(JSON.parse(JSON.stringify(canvas)))
+    }
+  }, { iterations: 3 })
+
+  bench('structurally shared snapshots', () => {
+    const manager = new HistoryManager(HISTORY_LENGTH + 1)
+    manager.initialize(edits[0])
+    for (const canvas of edits) {
+      manager.addNode(canvas)
+    }
+  }, { iterations: 3 })
+})
+
+describe('reading a node canvas', () => {
+  const manager = new HistoryManager(HISTORY_LENGTH + 1)
+  const root = manager.initialize(edits[0])
+  const nodes = edits.map(canvas => manager.addNode(canvas))
+  const cloned = edits.map(canvas => JSON.stringify(canvas))
+
+  bench('previous approach: parse stored JSON', () => {
+    for (let i = 0; i < 100; i++) {
+      JSON.parse(cloned[(i * 37) % cloned.length])
+    }
+  })
+
+  bench('materialise from snapshot', () => {
+    for (let i = 0; i < 100; i++) {
+      void nodes[(i * 37) % nodes.length].canvasState
+    }
+    void root.canvasState
+  })
+})
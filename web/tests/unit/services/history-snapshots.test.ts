@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest'
+import { HistoryManager } from '../../../src/services/HistoryManager'
+import { DesignCanvas } from '../../../src/models/DesignCanvas'
+import { LayerData } from '../../../src/models/Layer'
+import { updateLayer } from '../../../src/models/mutations'
+import { DeviceType, CanvasState, LayerType } from '../../../src/types'
+
+const FIXED_DATE = new Date('2025-01-01T00:00:00.000Z')
+
+const createCanvas = (layerCount: number): DesignCanvas => new DesignCanvas({
+  id: 'canvas-1',
+  deviceType: DeviceType.IPHONE_15_PRO,
+  dimensions: { width: 393, height: 852, pixelDensity: 3 },
+  layers: [
+    {
+      id: 'bg',
+      type: LayerType.BACKGROUND,
+      zIndex: 0,
+      content: { color: '#ffffff' },
+      transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+      style: {},
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'user', createdAt: FIXED_DATE }
+    },
+    ...Array.from({ length: layerCount }, (_, i): LayerData => ({
+      id: `text-${i}`,
+      type: LayerType.TEXT,
+      zIndex: i + 1,
+      content: { text: `Layer ${i}`, fontSize: 14 },
+      transform: { x: 10, y: i * 5, scaleX: 2, scaleY: 0.3, rotation: 0, opacity: 1 },
+      style: { color: '#333333' },
+      constraints: { locked: false, visible: true },
+      metadata: { source: 'user', createdAt: FIXED_DATE }
+    }))
+  ],
+  metadata: { createdAt: FIXED_DATE, modifiedAt: FIXED_DATE, tags: [] },
+  state: CanvasState.EDITING
+})
+
+const expectConsistentDag = (manager: HistoryManager) => {
+  const { nodes, rootNodeId } = manager.getState()
+
+  for (const node of nodes.values()) {
+    if (node.id === rootNodeId) {
+      expect(node.parentId).toBeNull()
+    } else {
+      expect(nodes.get(node.parentId!)?.children).toContain(node.id)
+    }
+    if (node.mergeParentId) {
+      expect(nodes.get(node.mergeParentId)?.children).toContain(node.id)
+    }
+    for (const childId of node.children) {
+      const child = nodes.get(childId)
+      expect(child).toBeDefined()
+      expect([child!.parentId, child!.mergeParentId]).toContain(node.id)
+    }
+  }
+
+  for (const branch of manager.getAllBranches()) {
+    expect(branch.nodes.every(id => nodes.has(id))).toBe(true)
+  }
+}
+
+describe('HistoryManager snapshots', () => {
+  it('should keep canvases as DesignCanvas models with real dates', () => {
+    const manager = new HistoryManager()
+    const root = manager.initialize(createCanvas(2))
+
+    expect(root.canvasState).toBeInstanceOf(DesignCanvas)
+    expect(root.canvasState.metadata.createdAt).toBeInstanceOf(Date)
+    expect(root.canvasState.layers[1].metadata.createdAt.getTime()).toBe(FIXED_DATE.getTime())
+  })
+
+  it('should share unchanged layers between a node and its parent', () => {
+    const manager = new HistoryManager()
+    const root = manager.initialize(createCanvas(10))
+    const edited = updateLayer(root.canvasState, 'text-3', { content: { text: 'Changed' } })
+    const child = manager.addNode(edited, root.id)
+
+    const parentLayers = root.canvasState.layers
+    const childLayers = child.canvasState.layers
+
+    childLayers.forEach((layer, index) => {
+      if (layer.id === 'text-3') {
+        expect(layer).not.toBe(parentLayers[index])
+        expect(layer.content.text).toBe('Changed')
+      } else {
+        expect(layer).toBe(parentLayers[index])
+      }
+    })
+  })
+
+  it('should share structurally equal layers even when the canvas was rebuilt', () => {
+    const manager = new HistoryManager()
+    const root = manager.initialize(createCanvas(5))
+    const child = manager.addNode(createCanvas(5), root.id)
+
+    expect(child.canvasState.layers[2]).toBe(root.canvasState.layers[2])
+    expect(manager.getMemoryStats().uniqueLayers).toBe(6)
+  })
+
+  it('should keep snapshots immutable', () => {
+    const manager = new HistoryManager()
+    const root = manager.initialize(createCanvas(2))
+
+    expect(() => {
+      (root.canvasState.layers[1].content as { text: string }).text = 'mutated'
+    }).toThrow()
+    expect(updateLayer(root.canvasState, 'text-0', { content: { text: 'Copy' } }).layers[1].content.text).toBe('Copy')
+    expect(manager.getCurrentNode()!.canvasState.layers[1].content.text).toBe('Layer 0')
+  })
+
+  it('should grow by the changed layers only across a long history', () => {
+    const manager = new HistoryManager(2000)
+    let node = manager.initialize(createCanvas(50))
+
+    for (let i = 0; i < 1000; i++) {
+      const canvas = updateLayer(node.canvasState, `text-${i % 50}`, { transform: { x: 10 + (i % 7) } })
+      node = manager.addNode(canvas)
+    }
+
+    const stats = manager.getMemoryStats()
+    expect(stats.snapshots).toBe(1001)
+    expect(stats.layerReferences).toBe(1001 * 51)
+    expect(stats.uniqueLayers).toBeLessThanOrEqual(51 + 1000)
+    expect(stats.materialized).toBeLessThanOrEqual(32)
+  })
+
+  it('should prune the oldest nodes to stay within the memory budget', () => {
+    const unbounded = new HistoryManager()
+    unbounded.initialize(createCanvas(20))
+    const budget = unbounded.getMemoryStats().estimatedBytes * 3
+
+    const manager = new HistoryManager(1000, { memoryBudget: budget })
+    const root = manager.initialize(createCanvas(20))
+    let node = root
+    for (let i = 0; i < 50; i++) {
+      node = manager.addNode(updateLayer(node.canvasState, `text-${i % 20}`, { content: { text: `Edit ${i}` } }))
+    }
+
+    expect(manager.getMemoryStats().estimatedBytes).toBeLessThanOrEqual(budget)
+    expect(manager.getAllNodes().length).toBeLessThan(51)
+    expect(manager.getState().nodes.has(root.id)).toBe(true)
+    expect(manager.getCurrentNode()!.id).toBe(node.id)
+    expect(manager.getCurrentNode()!.canvasState.layers[10].content.text).toBe('Edit 49')
+    expect(manager.getPathToNode(node.id)[0].id).toBe(root.id)
+    expectConsistentDag(manager)
+  })
+
+  it('should splice pruned nodes out of branches without orphaning descendants', () => {
+    const unbounded = new HistoryManager()
+    unbounded.initialize(createCanvas(20))
+    const budget = unbounded.getMemoryStats().estimatedBytes * 3
+
+    const manager = new HistoryManager(1000, { memoryBudget: budget })
+    const root = manager.initialize(createCanvas(20))
+    let node = root
+    for (let i = 0; i < 10; i++) {
+      node = manager.addNode(updateLayer(node.canvasState, `text-${i}`, { content: { text: `Main ${i}` } }))
+    }
+    const side = manager.createBranch('side', node.id)
+    manager.switchBranch(side.id)
+    for (let i = 0; i < 20; i++) {
+      node = manager.addNode(updateLayer(node.canvasState, `text-${i}`, { content: { text: `Side ${i}` } }))
+    }
+
+    expect(manager.getAllNodes().length).toBeLessThan(31)
+    const mainBranch = manager.getAllBranches().find(branch => branch.name === 'main')!
+    const mainHead = mainBranch.nodes[mainBranch.nodes.length - 1]
+    expect(manager.getState().nodes.has(mainHead)).toBe(true)
+    expect(manager.getState().nodes.has(side.baseNodeId)).toBe(true)
+    expectConsistentDag(manager)
+
+    expect(manager.switchBranch(mainBranch.id).currentNode?.id).toBe(mainHead)
+    while (manager.undo().success) { /* walk back to the root */ }
+    expect(manager.getCurrentNode()?.id).toBe(root.id)
+  })
+
+  it('should keep the node count within maxHistorySize', () => {
+    const manager = new HistoryManager(5)
+    let node = manager.initialize(createCanvas(3))
+    for (let i = 0; i < 20; i++) {
+      node = manager.addNode(updateLayer(node.canvasState, `text-${i % 3}`, { content: { text: `Edit ${i}` } }))
+      expect(manager.getAllNodes().length).toBeLessThanOrEqual(5)
+    }
+
+    expect(manager.getCurrentNode()!.canvasState.layers[2].content.text).toBe('Edit 19')
+    expectConsistentDag(manager)
+  })
+
+  it('should let the parent adopt the children of nodes pruned while adding to it', () => {
+    const manager = new HistoryManager(10)
+    const root = manager.initialize(createCanvas(3))
+    let node = root
+    for (let i = 0; i < 9; i++) {
+      node = manager.addNode(updateLayer(node.canvasState, 'text-0', { content: { text: `Edit ${i}` } }))
+    }
+    const [, oldest, adopted] = manager.getPathToNode(node.id).map(pathNode => pathNode.id)
+
+    manager.navigateToNode(root.id)
+    const sibling = manager.addNode(updateLayer(root.canvasState, 'text-1', { content: { text: 'Sibling' } }))
+
+    const { nodes } = manager.getState()
+    expect(nodes.has(oldest)).toBe(false)
+    expect(nodes.get(root.id)!.children).toEqual([adopted, sibling.id])
+    expectConsistentDag(manager)
+  })
+
+  it('should keep an explicit parent that would otherwise be pruned', () => {
+    const manager = new HistoryManager(10)
+    let node = manager.initialize(createCanvas(3))
+    const ids: string[] = []
+    for (let i = 0; i < 9; i++) {
+      node = manager.addNode(updateLayer(node.canvasState, 'text-0', { content: { text: `Edit ${i}` } }))
+      ids.push(node.id)
+    }
+
+    const child = manager.addNode(updateLayer(node.canvasState, 'text-1', { content: { text: 'Fork' } }), ids[0])
+
+    const parent = manager.getState().nodes.get(ids[0])!
+    expect(parent.children).toContain(child.id)
+    expect(parent.canvasState.layers[1].content.text).toBe('Edit 0')
+    expect(child.canvasState.layers[2].content.text).toBe('Fork')
+    expect(manager.getAllNodes().length).toBeLessThanOrEqual(10)
+    expectConsistentDag(manager)
+  })
+
+  it('should rebuild shared snapshots when importing history', () => {
+    const source = new HistoryManager()
+    const root = source.initialize(createCanvas(5))
+    source.addNode(updateLayer(root.canvasState, 'text-1', { style: { color: '#ff0000' } }))
+
+    const manager = new HistoryManager()
+    manager.importHistory(source.exportHistory())
+    const [importedRoot, importedChild] = manager.getPathToNode(manager.getCurrentNode()!.id)
+
+    expect(importedChild.canvasState.layers[2].style.color).toBe('#ff0000')
+    expect(importedChild.canvasState.layers[3]).toBe(importedRoot.canvasState.layers[3])
+    expect(importedChild.timestamp).toBeInstanceOf(Date)
+  })
+})
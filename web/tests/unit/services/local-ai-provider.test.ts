@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import { LocalAIProvider } from '../../../src/services/LocalAIProvider'
+import { AIService } from '../../../src/services/AIService'
+import { VariationProcessor } from '../../../src/services/VariationProcessor'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { updateLayer } from '../../../src/models/mutations'
+import { DeviceType } from '../../../src/types'
+
+const FIXED_DATE = new Date('2025-01-01T00:00:00.000Z')
+
+// Starter layout with a low contrast headline and the accent shape locked
+const createCanvas = () => updateLayer(
+  updateLayer(createStarterCanvas(DeviceType.IPHONE_15_PRO), 'headline', { style: { color: '#cccccc' } }),
+  'accent',
+  { constraints: { locked: true } }
+)
+
+const summarize = (result: Awaited<ReturnType<LocalAIProvider['generateVariations']>>) =>
+  result.variations.map(variation => ({
+    id: variation.id,
+    prompt: variation.prompt,
+    confidence: variation.confidence,
+    layers: variation.canvasState.layers
+  }))
+
+describe('LocalAIProvider', () => {
+  it('should produce identical variations for the same seed', async () => {
+    const canvas = createCanvas()
+    const options = { variationType: 'creative' as const, count: 4, seed: 7 }
+    const first = await new LocalAIProvider({ now: () => FIXED_DATE }).generateVariations(canvas, options)
+    const second = await new LocalAIProvider({ now: () => FIXED_DATE }).generateVariations(canvas, options)
+
+    expect(summarize(first)).toEqual(summarize(second))
+    expect(first.requestId).toBe(second.requestId)
+  })
+
+  it('should produce different variations for different seeds', async () => {
+    const provider = new LocalAIProvider()
+    const a = await provider.generateVariations(createCanvas(), { variationType: 'creative', count: 4, seed: 1 })
+    const b = await provider.generateVariations(createCanvas(), { variationType: 'creative', count: 4, seed: 2 })
+
+    expect(summarize(a)).not.toEqual(summarize(b))
+  })
+
+  it('should rotate through palette, layout, type scale and spacing strategies', async () => {
+    const result = await new LocalAIProvider().generateVariations(createCanvas(), { variationType: 'creative', count: 4, seed: 3 })
+    const strategies = new Set(result.variations.flatMap(variation => variation.metadata.tags))
+
+    expect(result.variations).toHaveLength(4)
+    expect(strategies).toEqual(new Set(['palette', 'layout', 'type-scale', 'spacing']))
+    result.variations.forEach(variation => {
+      expect(variation.parentId).toBeNull()
+      expect(variation.prompt).toBeTruthy()
+      expect(variation.confidence).toBeGreaterThan(0.5)
+    })
+  })
+
+  it('should leave locked layers untouched and keep layers on the canvas', async () => {
+    const base = createCanvas()
+    const result = await new LocalAIProvider().generateVariations(base, { variationType: 'creative', count: 5, seed: 11 })
+
+    result.variations.forEach(variation => {
+      const canvas = variation.canvasState
+      expect(canvas.layers.find(layer => layer.id === 'accent')).toEqual(base.layers[3])
+      canvas.layers.forEach(layer => {
+        expect(layer.transform.x).toBeGreaterThanOrEqual(0)
+        expect(layer.transform.y).toBeGreaterThanOrEqual(0)
+        expect(layer.transform.x + 100 * layer.transform.scaleX).toBeLessThanOrEqual(canvas.dimensions.width)
+        expect(layer.transform.y + 100 * layer.transform.scaleY).toBeLessThanOrEqual(canvas.dimensions.height)
+      })
+    })
+  })
+
+  it('should repair low contrast text for accessibility requests', async () => {
+    const result = await new LocalAIProvider().generateVariations(createCanvas(), { variationType: 'accessibility', count: 1 })
+    const headline = result.variations[0].canvasState.layers.find(layer => layer.id === 'headline')
+
+    expect(headline?.style.color).toBe('#000000')
+  })
+
+  it('should use brand colours for brand-aligned requests', async () => {
+    const result = await new LocalAIProvider().generateVariations(createCanvas(), {
+      variationType: 'brand-aligned',
+      count: 1,
+      preferences: { brandColors: ['#123456', '#abcdef'] }
+    })
+    const colors = result.variations[0].canvasState.layers
+      .filter(layer => !layer.constraints.locked)
+      .map(layer => layer.content.color ?? layer.style.color)
+
+    expect(colors.every(color => ['#123456', '#abcdef'].includes(color!))).toBe(true)
+  })
+
+  it('should report heuristic suggestions', async () => {
+    const analysis = await new LocalAIProvider().analyzeCanvas(createCanvas(), {
+      deviceType: DeviceType.IPHONE_15_PRO,
+      analysisType: ['accessibility', 'trends']
+    })
+
+    expect(analysis.suggestions.some(suggestion => suggestion.type === 'color')).toBe(true)
+    expect(analysis.trends).toBeDefined()
+  })
+
+  it('should drive the AIService to VariationProcessor flow without credentials', async () => {
+    const service = new AIService(undefined, undefined, new LocalAIProvider({ seed: 5 }))
+    const baseCanvas = createCanvas()
+
+    const response = await service.generateVariations({ baseCanvas, variationType: 'trend-based', count: 3 })
+    const result = await new VariationProcessor().processAIResponse(response, baseCanvas)
+
+    expect(response.variations).toHaveLength(3)
+    expect(result.processedVariations.map(variation => variation.id))
+      .toEqual(response.designVariations!.map(variation => variation.id))
+  })
+})
@@ -0,0 +1,298 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { VariationProcessor, PreviewImage } from '../../../src/services/VariationProcessor'
+import { RasterContext } from '../../../src/services/RasterContext'
+import { DesignCanvas } from '../../../src/models/DesignCanvas'
+import { LayerData } from '../../../src/models/Layer'
+import { addLayer, produceCanvas, removeLayer, updateLayer } from '../../../src/models/mutations'
+import { toVariationModel } from '../../../src/models/adapters'
+import { DeviceType, CanvasState, LayerType } from '../../../src/types'
+
+const FIXED_DATE = new Date('2025-01-01T00:00:00.000Z')
+
+const layer = (id: string, type: LayerType, zIndex: number, data: Partial<LayerData>): LayerData => ({
+  id,
+  type,
+  zIndex,
+  content: {},
+  transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+  style: {},
+  constraints: { locked: false, visible: true },
+  metadata: { source: 'user', createdAt: FIXED_DATE },
+  ...data
+})
+
+const createCanvas = (): DesignCanvas => new DesignCanvas({
+  id: 'canvas-1',
+  deviceType: DeviceType.IPHONE_15_PRO,
+  dimensions: { width: 393, height: 852, pixelDensity: 3 },
+  layers: [
+    layer('bg', LayerType.BACKGROUND, 0, { content: { color: '#ffffff' } }),
+    layer('headline', LayerType.TEXT, 1, {
+      content: { text: 'Summer Sale', fontSize: 32 },
+      transform: { x: 30, y: 100, scaleX: 3, scaleY: 0.6, rotation: 0, opacity: 1 },
+      style: { color: '#111111' },
+      constraints: { locked: false, visible: true, minWidth: 100, maxHeight: 120 }
+    }),
+    layer('logo', LayerType.SHAPE, 2, {
+      content: { shapeType: 'circle', fill: '#ff0000' },
+      transform: { x: 300, y: 700, scaleX: 0.5, scaleY: 0.5, rotation: 0, opacity: 1 },
+      constraints: { locked: true, visible: true }
+    }),
+    layer('badge', LayerType.SHAPE, 3, {
+      content: { shapeType: 'rectangle', fill: '#00ff00' },
+      transform: { x: 20, y: 400, scaleX: 1, scaleY: 0.5, rotation: 0, opacity: 1 },
+      constraints: { locked: false, visible: true, maintainAspectRatio: true }
+    })
+  ],
+  metadata: { createdAt: FIXED_DATE, modifiedAt: FIXED_DATE, tags: [] },
+  state: CanvasState.EDITING
+})
+
+const process = (base: DesignCanvas, canvas: DesignCanvas) =>
+  new VariationProcessor().processVariation(toVariationModel(canvas, { parentId: base.id }), base)
+
+describe('VariationProcessor.processVariation', () => {
+  it('should diff changed properties into applied layer changes', async () => {
+    const base = createCanvas()
+    const edited = updateLayer(base, 'headline', {
+      content: { text: 'Winter Sale' },
+      style: { color: '#222222' },
+      transform: { y: 140 }
+    })
+
+    const result = await process(base, edited)
+
+    expect(result.rejectedChanges).toEqual([])
+    expect(result.appliedChanges.map(change => change.property).sort())
+      .toEqual(['content.text', 'style.color', 'transform.y'])
+    expect(result.appliedChanges.find(change => change.property === 'content.text')).toMatchObject({
+      layerId: 'headline',
+      currentValue: 'Summer Sale',
+      suggestedValue: 'Winter Sale'
+    })
+  })
+
+  it('should reject every change to a locked layer', async () => {
+    const base = createCanvas()
+    const edited = updateLayer(base, 'logo', { content: { fill: '#0000ff' }, transform: { x: 10 } }, { touch: false })
+
+    const result = await process(base, edited)
+
+    expect(result.appliedChanges).toEqual([])
+    expect(result.rejectedChanges).toHaveLength(2)
+    result.rejectedChanges.forEach(change => expect(change.rejectionReason).toBe('Layer is locked'))
+    expect(result.variation.canvasState.layers.find(l => l.id === 'logo')).toEqual(base.layers[2])
+  })
+
+  it('should enforce min and max sizes from layer constraints', async () => {
+    const base = createCanvas()
+    const edited = updateLayer(base, 'headline', { transform: { scaleX: 0.5, scaleY: 2 } })
+
+    const result = await process(base, edited)
+
+    expect(result.appliedChanges).toEqual([])
+    expect(result.rejectedChanges.map(change => change.rejectionReason)).toEqual([
+      'Width 50 is below the minimum of 100',
+      'Height 200 exceeds the maximum of 120'
+    ])
+  })
+
+  it('should reject changes that break a locked aspect ratio', async () => {
+    const base = createCanvas()
+    const stretched = updateLayer(base, 'badge', { transform: { scaleX: 2 } })
+    const scaled = updateLayer(base, 'badge', { transform: { scaleX: 2, scaleY: 1 } })
+
+    const rejected = await process(base, stretched)
+    const applied = await process(base, scaled)
+
+    expect(rejected.rejectedChanges[0].rejectionReason).toBe('Layer must maintain its aspect ratio')
+    expect(applied.rejectedChanges).toEqual([])
+    expect(applied.appliedChanges).toHaveLength(2)
+  })
+
+  it('should keep layers inside the device bounds', async () => {
+    const base = createCanvas()
+    const edited = updateLayer(base, 'headline', { transform: { x: 200 }, style: { color: '#000000' } })
+
+    const result = await process(base, edited)
+    const headline = result.variation.canvasState.layers.find(l => l.id === 'headline')!
+
+    expect(result.rejectedChanges).toHaveLength(1)
+    expect(result.rejectedChanges[0]).toMatchObject({ property: 'transform.x', suggestedValue: 200 })
+    expect(result.rejectedChanges[0].rejectionReason).toContain('393x852')
+    expect(headline.transform.x).toBe(30)
+    expect(headline.style.color).toBe('#000000')
+  })
+
+  it('should accept related transform changes that are only valid together', async () => {
+    const base = createCanvas()
+    const edited = updateLayer(base, 'headline', { transform: { x: 200, scaleX: 1.5 } })
+
+    const result = await process(base, edited)
+
+    expect(result.rejectedChanges).toEqual([])
+    expect(result.appliedChanges.map(change => change.property)).toEqual(['transform.x', 'transform.scaleX'])
+  })
+
+  it('should track added and removed layers', async () => {
+    const base = createCanvas()
+    const withoutLogo = removeLayer(base, 'logo')
+    const withCaption = addLayer(removeLayer(base, 'badge'), layer('caption', LayerType.TEXT, 4, {
+      content: { text: 'Limited time' },
+      transform: { x: 30, y: 300, scaleX: 2, scaleY: 0.3, rotation: 0, opacity: 1 }
+    }))
+    const offscreen = addLayer(base, layer('sticker', LayerType.SHAPE, 4, {
+      content: { shapeType: 'rectangle' },
+      transform: { x: 350, y: 0, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 }
+    }))
+
+    const removedLocked = await process(base, withoutLogo)
+    const addedAndRemoved = await process(base, withCaption)
+    const addedOffscreen = await process(base, offscreen)
+
+    expect(removedLocked.rejectedChanges).toMatchObject([{ layerId: 'logo', property: 'layer', rejectionReason: 'Layer is locked' }])
+    expect(removedLocked.variation.canvasState.layers.map(l => l.id)).toEqual(['bg', 'headline', 'logo', 'badge'])
+    expect(addedAndRemoved.appliedChanges.map(change => [change.layerId, change.reason]))
+      .toEqual([['badge', 'Layer removed'], ['caption', 'Layer added']])
+    expect(addedOffscreen.rejectedChanges[0]).toMatchObject({ layerId: 'sticker', property: 'layer' })
+  })
+
+  it('should reject a different device or canvas size and keep the base frame', async () => {
+    const base = createCanvas()
+    const resized = produceCanvas(updateLayer(base, 'headline', { style: { color: '#000000' } }), draft => {
+      draft.deviceType = DeviceType.PIXEL_8_PRO
+      draft.dimensions = { width: 412, height: 915, pixelDensity: 2.75 }
+    })
+
+    const result = await process(base, resized)
+
+    expect(result.rejectedChanges.map(change => [change.layerId, change.property])).toEqual([
+      ['canvas-1', 'deviceType'],
+      ['canvas-1', 'dimensions']
+    ])
+    expect(result.appliedChanges.map(change => change.property)).toEqual(['style.color'])
+    expect(result.variation.canvasState.deviceType).toBe(DeviceType.IPHONE_15_PRO)
+    expect(result.variation.canvasState.dimensions).toEqual(base.dimensions)
+  })
+
+  it('should validate the variations processAIResponse actually processes', async () => {
+    const base = createCanvas()
+    const processor = new VariationProcessor()
+
+    await expect(processor.processAIResponse(
+      { requestId: 'r1', variations: [base], designVariations: [], confidence: 0.9, processingTime: 0 },
+      base
+    )).rejects.toThrow('no variations')
+  })
+
+  it('should report applied and rejected changes through processAIResponse', async () => {
+    const base = createCanvas()
+    const edited = updateLayer(updateLayer(base, 'logo', { content: { fill: '#0000ff' } }), 'headline', {
+      content: { text: 'New headline' }
+    })
+
+    const result = await new VariationProcessor().processAIResponse(
+      { requestId: 'r1', variations: [edited], confidence: 0.9, processingTime: 0 },
+      base
+    )
+
+    expect(result.appliedChanges.map(change => change.property)).toEqual(['content.text'])
+    expect(result.rejectedChanges.map(change => change.layerId)).toEqual(['logo'])
+    expect(result.processedVariations[0].canvasState.layers.find(l => l.id === 'logo')!.content.fill).toBe('#ff0000')
+  })
+})
+
+describe('VariationProcessor.generateVariationPreview', () => {
+  let context: RasterContext
+
+  beforeEach(() => {
+    // jsdom has no 2D context; the software rasterizer stands in for it
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+      context = new RasterContext(this.width, this.height)
+      return context as unknown as CanvasRenderingContext2D
+    } as unknown as HTMLCanvasElement['getContext'])
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:image/png;base64,preview')
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  const pixel = (x: number, y: number) => {
+    const { data, width } = context.toImage()
+    const offset = (y * width + x) * 4
+    return Array.from(data.subarray(offset, offset + 3))
+  }
+
+  const preview = (processor: VariationProcessor, canvas: DesignCanvas, size: { width: number; height: number }) =>
+    processor.generateVariationPreview(toVariationModel(canvas, { parentId: canvas.id }), size)
+
+  it('should draw layers by zIndex with their transforms, opacity and wrapped text', async () => {
+    let edited = updateLayer(createCanvas(), 'badge', { transform: { opacity: 0.5 } })
+    edited = addLayer(edited, layer('caption', LayerType.TEXT, 4, {
+      content: { text: 'Words that wrap onto a second line', fontSize: 20 },
+      transform: { x: 20, y: 200, scaleX: 1, scaleY: 1, rotation: 0, opacity: 1 },
+      style: { color: '#000000' }
+    }))
+    await expect(preview(new VariationProcessor(), edited, { width: 393, height: 852 })).resolves.toBe('data:image/png;base64,preview')
+
+    expect(pixel(70, 425)).toEqual([128, 255, 128])
+    expect(pixel(325, 725)).toEqual([255, 0, 0])
+    expect(pixel(301, 701)).toEqual([255, 255, 255])
+
+    // Second line: baseline at 200 + 20 + 24, word bars cover the x-height above it
+    const secondLine = Array.from({ length: 100 }, (_, x) => pixel(20 + x, 240)[0])
+    expect(Math.min(...secondLine)).toBe(0)
+  })
+
+  it('should centre the design and cache loaded images between previews', async () => {
+    const stripes = { width: 2, height: 1, data: new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 255, 255]) }
+    const loadPreviewImage = vi.fn(async (source: string) => {
+      if (source.endsWith('missing.png')) throw new Error('HTTP 404')
+      return stripes as unknown as PreviewImage
+    })
+    const processor = new VariationProcessor({ loadPreviewImage })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    let canvas = addLayer(createCanvas(), layer('photo', LayerType.IMAGE, 4, {
+      content: { imageUrl: 'https://cdn.example.com/stripes.png' },
+      transform: { x: 100, y: 200, scaleX: 1, scaleY: 0.5, rotation: 0, opacity: 1 }
+    }))
+    canvas = addLayer(canvas, layer('broken', LayerType.IMAGE, 5, {
+      content: { imageUrl: 'https://cdn.example.com/missing.png' },
+      transform: { x: 100, y: 300, scaleX: 1, scaleY: 0.5, rotation: 0, opacity: 1 }
+    }))
+
+    await preview(processor, canvas, { width: 493, height: 852 })
+    await preview(processor, canvas, { width: 493, height: 852 })
+
+    // Scale 1 with 50px letterboxing on either side
+    expect(pixel(10, 10)).toEqual([255, 255, 255])
+    expect(pixel(50 + 110, 225)).toEqual([255, 0, 0])
+    expect(pixel(50 + 190, 225)).toEqual([0, 0, 255])
+    expect(pixel(50 + 150, 325)).toEqual([0xe5, 0xe7, 0xeb])
+    expect(loadPreviewImage.mock.calls.map(([source]) => source)).toEqual([
+      'https://cdn.example.com/stripes.png',
+      'https://cdn.example.com/missing.png',
+      'https://cdn.example.com/missing.png'
+    ])
+  })
+  it('should hand shadows and filters to the context in device pixels, turned with the layer', async () => {
+    const edited = updateLayer(createCanvas(), 'badge', {
+      style: { boxShadow: { x: 4, y: 0, blur: 6, spread: 0, color: 'rgba(0, 0, 0, 0.5)' }, filter: { blur: 2, brightness: 1.1 } },
+      transform: { rotation: 90 }
+    })
+    const fills: Array<{ shadowBlur: number; shadowOffsetX: number; shadowOffsetY: number; filter: string }> = []
+    vi.spyOn(RasterContext.prototype, 'fill').mockImplementation(function (this: RasterContext) {
+      fills.push({ shadowBlur: this.shadowBlur, shadowOffsetX: this.shadowOffsetX, shadowOffsetY: this.shadowOffsetY, filter: this.filter })
+    })
+
+    await preview(new VariationProcessor(), edited, { width: 786, height: 1704 })
+
+    const shadowed = fills.find(fill => fill.shadowBlur > 0)!
+    expect(shadowed.shadowBlur).toBe(12)
+    expect(shadowed.shadowOffsetX).toBeCloseTo(0)
+    expect(shadowed.shadowOffsetY).toBeCloseTo(8)
+    expect(shadowed.filter).toBe('blur(4px) brightness(1.1)')
+  })
+})
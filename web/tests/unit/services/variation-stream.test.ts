@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { readVariationStream } from '../../../src/services/VariationStream'
+import { streamVariationsToFeed } from '../../../src/services/VariationFeed'
+import { AIService } from '../../../src/services/AIService'
+import { LocalAIProvider } from '../../../src/services/LocalAIProvider'
+import { HistoryManager } from '../../../src/services/HistoryManager'
+import { GestureNavigationManager } from '../../../src/services/GestureNavigation'
+import { AICollaborationState } from '../../../src/models/AICollaborationState'
+import { createStarterCanvas } from '../../../src/data/starter-canvas'
+import { AIProcessingState, DeviceType } from '../../../src/types'
+
+// Splits the body at fixed offsets so messages arrive cut mid-line
+const streamed = (body: string, contentType: string, cuts = [7, 40, 95]) => {
+  const encoder = new TextEncoder()
+  const bounds = [0, ...cuts.filter(cut => cut < body.length), body.length]
+  return new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 1; i < bounds.length; i++) {
+        controller.enqueue(encoder.encode(body.slice(bounds[i - 1], bounds[i])))
+      }
+      controller.close()
+    }
+  }), { status: 200, headers: { 'Content-Type': contentType } })
+}
+
+const collect = async <T>(items: AsyncIterable<T>) => {
+  const result: T[] = []
+  for await (const item of items) result.push(item)
+  return result
+}
+
+describe('readVariationStream', () => {
+  it('should parse server-sent events and newline-delimited JSON', async () => {
+    const messages = [
+      { status: 'processing', result: { completed: 0, total: 2 } },
+      { status: 'partial', result: { index: 0, total: 2, confidence: 0.9 } },
+      { status: 'success', requestId: 'req-1', result: { total: 2, confidence: 0.85 } }
+    ]
+
+    const sse = `: keep-alive\n\n${messages.map(message => `data: ${JSON.stringify(message)}\r\n\r\n`).join('')}`
+    expect(await collect(readVariationStream(streamed(sse, 'text/event-stream')))).toEqual(messages)
+
+    const ndjson = messages.map(message => JSON.stringify(message)).join('\n')
+    expect(await collect(readVariationStream(streamed(ndjson, 'application/x-ndjson')))).toEqual(messages)
+  })
+
+  it('should replay a plain JSON batch as partial chunks', async () => {
+    const response = new Response(JSON.stringify({ requestId: 'req-2', variations: [{ id: 'a' }, { id: 'b' }], confidence: 0.7 }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    })
+
+    const chunks = await collect(readVariationStream(response))
+    expect(chunks.map(chunk => chunk.status)).toEqual(['partial', 'partial', 'success'])
+    expect(chunks[1].result).toMatchObject({ variation: { id: 'b' }, index: 1, total: 2 })
+    expect(chunks[2]).toMatchObject({ requestId: 'req-2', result: { confidence: 0.7 } })
+  })
+})
+
+describe('AIService.streamVariations', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should yield each streamed variation as it arrives', async () => {
+    const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+    const variation = { ...canvas, id: 'streamed-1' }
+    const body = [
+      { status: 'processing', result: { completed: 0, total: 2 } },
+      { status: 'partial', result: { variation, index: 0, total: 2, confidence: 0.9 } },
+      { status: 'success', requestId: 'req-3', result: { total: 1, confidence: 0.9 } }
+    ].map(message => JSON.stringify(message)).join('\n')
+    const fetchMock = vi.fn().mockResolvedValue(streamed(body, 'application/x-ndjson', [30, 200, 2000]))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const service = new AIService('key', 'https://ai.example.com/v1')
+    const events = await collect(service.streamVariations({ baseCanvas: canvas, variationType: 'creative', count: 2 }))
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ stream: true, count: 2 })
+    expect(events.map(event => event.type)).toEqual(['progress', 'variation', 'complete'])
+    expect(events[1]).toMatchObject({ index: 0, total: 2, variation: { parentId: null, confidence: 0.9 } })
+    expect(events[2]).toMatchObject({ requestId: 'req-3', total: 1 })
+  })
+
+  it('should reject with the error a stream reports', async () => {
+    const body = [
+      { status: 'processing', result: { completed: 0, total: 3 } },
+      { status: 'error', error: { code: 'CONTENT_POLICY_VIOLATION', message: 'Blocked', retryable: false } }
+    ].map(message => `data: ${JSON.stringify(message)}\n\n`).join('')
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamed(body, 'text/event-stream')))
+
+    const service = new AIService('key', 'https://ai.example.com/v1')
+    const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+    await expect(collect(service.streamVariations({ baseCanvas: canvas, variationType: 'creative', count: 3 })))
+      .rejects.toMatchObject({ code: 'CONTENT_POLICY_VIOLATION', message: 'Blocked' })
+  })
+})
+
+describe('streamVariationsToFeed', () => {
+  it('should add variations as sibling cards without moving the current node', async () => {
+    const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+    const history = new HistoryManager()
+    const root = history.initialize(canvas)
+    const navigation = new GestureNavigationManager(history)
+    const state = AICollaborationState.createDefault('session')
+    const service = new AIService(undefined, undefined, new LocalAIProvider())
+
+    const progress: Array<number | null> = []
+    const onVariation = vi.fn(() => {
+      progress.push(state.getGenerationProgress())
+      expect(state.currentState).toBe(AIProcessingState.GENERATING)
+    })
+
+    const result = await streamVariationsToFeed(service, { baseCanvas: canvas, variationType: 'creative', count: 3 }, {
+      history,
+      state,
+      confidenceThreshold: 0,
+      onVariation
+    })
+
+    expect(result.nodes).toHaveLength(3)
+    expect(result.skipped).toBe(0)
+    expect(onVariation).toHaveBeenCalledTimes(3)
+    expect(progress).toEqual([0, 1 / 3, 2 / 3])
+
+    expect(history.getCurrentNode()?.id).toBe(root.id)
+    expect(result.nodes.every(node => node.parentId === root.id && node.metadata.tags?.includes('variation'))).toBe(true)
+    expect(navigation.getVariations()).toHaveLength(4)
+    expect(navigation.getActiveVariation()?.node.id).toBe(root.id)
+
+    expect(state.currentState).toBe(AIProcessingState.READY)
+    expect(state.getGenerationProgress()).toBeNull()
+    expect(state.metadata.confidenceScores[result.nodes[0].id]).toBe(result.nodes[0].metadata.confidence)
+  })
+
+  it('should keep the branch head on the user\'s node until a variation is picked', async () => {
+    const canvas = createStarterCanvas(DeviceType.IPHONE_15_PRO)
+    const history = new HistoryManager()
+    const root = history.initialize(canvas)
+    const mine = history.addNode(canvas, root.id)
+    const main = history.getCurrentBranch()!
+    const other = history.createBranch('other', root.id)
+    const service = new AIService(undefined, undefined, new LocalAIProvider())
+
+    const { nodes } = await streamVariationsToFeed(service, { baseCanvas: canvas, variationType: 'creative', count: 2 }, {
+      history,
+      confidenceThreshold: 0
+    })
+    expect(history.getCurrentBranch()?.nodes).toEqual([root.id, mine.id])
+
+    history.switchBranch(other.id)
+    expect(history.switchBranch(main.id).currentNode?.id).toBe(mine.id)
+    expect(history.previewMerge(main.id, other.id).sourceHeadId).toBe(mine.id)
+
+    history.navigateToNode(nodes[1].id)
+    history.switchBranch(other.id)
+    expect(history.switchBranch(main.id).currentNode?.id).toBe(nodes[1].id)
+  })
+})
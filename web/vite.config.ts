@@ -19,6 +19,14 @@ export default defineConfig({
     port: 3000,
     host: true,
     open: false, // Don't auto-open browser
+    proxy: {
+      // Canvas API reference server (npm run server)
+      '/api': 'http://localhost:8080'
+    },
+    fs: {
+      // Allow importing schema types and validators from ../shared
+      allow: ['..']
+    }
   },
   build: {
     target: 'es2020',